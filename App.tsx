@@ -1,12 +1,90 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import LinkageCanvas from './components/LinkageCanvas.tsx';
 import Controls from './components/Controls.tsx';
 import InfoPanel from './components/InfoPanel.tsx';
-import { calculateJoints, determineGrashof } from './utils/kinematics.ts';
-import { LinkLengths, JointCoordinates } from './types.ts';
+import KinematicsPanel from './components/KinematicsPanel.tsx';
+import DesignPanel from './components/DesignPanel.tsx';
+import SynthesisPanel from './components/SynthesisPanel.tsx';
+import FunctionGeneratorPanel from './components/FunctionGeneratorPanel.tsx';
+import PathSynthesisPanel from './components/PathSynthesisPanel.tsx';
+import CrankRockerPanel from './components/CrankRockerPanel.tsx';
+import ForcePanel from './components/ForcePanel.tsx';
+import DynamicsPanel from './components/DynamicsPanel.tsx';
+import SixBarPanel from './components/SixBarPanel.tsx';
+import {
+  calculateJoints,
+  determineGrashof,
+  analyzeTransmissionAngle,
+  analyzeQuickReturn,
+  calculateReachableRange,
+  advanceInputAngle,
+  trackBranch,
+  changePointAngles,
+  resolveInversion,
+  invertLengths,
+  groundPivots,
+  placementFromPivots,
+  HORIZONTAL_FRAME,
+  LINK_LENGTH_BOUNDS,
+  sweepKinematics,
+  sweepToCsv,
+  sweepToJson
+} from './utils/kinematics.ts';
+import { calculateMotion } from './utils/motion.ts';
+import { calculateInstantCenters, calculateInstantCentersOverCycle } from './utils/instantcenters.ts';
+import { calculateStatics, calculateStaticsOverCycle } from './utils/statics.ts';
+import { calculateDynamics, calculateDynamicsOverCycle, uniformBars } from './utils/dynamics.ts';
+import { calculateCouplerPoint, traceCouplerCurve } from './utils/coupler.ts';
+import { calculateCognates } from './utils/cognates.ts';
+import { checkSixBar, sixBarLinks, solveSixBar } from './utils/sixbar.ts';
+import { analyzeSliderCrank, sliderCrankReachableRange, solveSliderCrank } from './utils/slidercrank.ts';
+import { calculateSphericalJoints, classifySpherical, sphericalReachableRange } from './utils/spherical.ts';
+import { designFromUrl, DESIGN_VERSION } from './utils/designfile.ts';
+import { animatedSvg, cycleAngles, drawingFromPose, drawingToDxf, standaloneSvg } from './utils/drawing.ts';
+import { downloadFile } from './utils/download.ts';
+import {
+  LinkLengths,
+  JointCoordinates,
+  AssemblyBranch,
+  CouplerPoint,
+  Inversion,
+  LinkRole,
+  FramePlacement,
+  LinkageDesign,
+  LinkModel,
+  StaticLoad,
+  CognateView,
+  ChangePointMode,
+  ChangePointEvent,
+  MechanismPose,
+  MechanismLink,
+  DrawingFormat,
+  DraggableJoint,
+  DragSnap,
+  Vector2,
+  SixBarDyad,
+  SixBarType,
+  MechanismType,
+  SliderCrankDimensions,
+  SliderLink,
+  SphereView,
+  SavedDesign
+} from './types.ts';
 import { Settings } from 'lucide-react';
 
+type AppMode = 'analysis' | 'motion-synthesis' | 'function-synthesis' | 'path-synthesis' | 'crank-rocker-design';
+
+const MODES: { id: AppMode, label: string }[] = [
+  { id: 'analysis', label: 'Analysis' },
+  { id: 'motion-synthesis', label: 'Motion Synthesis' },
+  { id: 'function-synthesis', label: 'Function Generation' },
+  { id: 'path-synthesis', label: 'Path Generation' },
+  { id: 'crank-rocker-design', label: 'Quick Return' },
+];
+
 const App: React.FC = () => {
+  const [mode, setMode] = useState<AppMode>('analysis');
+
   // Mechanism State
   const [lengths, setLengths] = useState<LinkLengths>({
     frame: 200,   // d
@@ -14,42 +92,303 @@ const App: React.FC = () => {
     coupler: 180, // b
     output: 140   // c
   });
+  const [branch, setBranch] = useState<AssemblyBranch>(AssemblyBranch.OPEN);
+  const [changePointMode, setChangePointMode] = useState<ChangePointMode>(ChangePointMode.SMOOTH);
+  const [changePoint, setChangePoint] = useState<ChangePointEvent | null>(null);
+  const [inversion, setInversion] = useState<Inversion>({ ground: LinkRole.FRAME, driver: LinkRole.INPUT });
+  const [placement, setPlacement] = useState<FramePlacement>(HORIZONTAL_FRAME);
+  const [couplerPoint, setCouplerPoint] = useState<CouplerPoint>({ distance: 120, angle: 30 });
+  const [showCouplerCurve, setShowCouplerCurve] = useState<boolean>(true);
+  const [cognateView, setCognateView] = useState<CognateView>('off');
+  // The slider-crank keeps its own dimensions and ground link, and shares the branch and placement
+  const [mechanismType, setMechanismType] = useState<MechanismType>(MechanismType.FOUR_BAR);
+  const [sliderCrank, setSliderCrank] = useState<SliderCrankDimensions>({ crank: 80, rod: 200, offset: 30 });
+  const [sliderGround, setSliderGround] = useState<SliderLink>(SliderLink.GUIDE);
+  // Spherical arcs are angles (degrees) between joint axes
+  const [sphericalArcs, setSphericalArcs] = useState<LinkLengths>({ frame: 70, input: 25, coupler: 75, output: 50 });
+  const [sphereView, setSphereView] = useState<SphereView>({ azimuth: -90, elevation: 50 });
 
   // Simulation State
   const [angle, setAngle] = useState<number>(90);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [speed, setSpeed] = useState<number>(1);
   const directionRef = useRef<number>(1); // 1 for CW, -1 for CCW
+  // Latest pose for the animation loop, which steps outside of React's updates
+  const poseRef = useRef({ angle, branch });
+  poseRef.current = { angle, branch };
+
+  // Motion Analysis State
+  const [omegaInput, setOmegaInput] = useState<number>(1);     // rad/s
+  const [alphaInput, setAlphaInput] = useState<number>(0);     // rad/s²
+  const [showVelocity, setShowVelocity] = useState<boolean>(false);
+  const [showAcceleration, setShowAcceleration] = useState<boolean>(false);
+  const [showInstantCenters, setShowInstantCenters] = useState<boolean>(false);
+  const [minTransmission, setMinTransmission] = useState<number>(40); // band is [min, 180 - min]
+
+  // Static Force State
+  const [staticLoad, setStaticLoad] = useState<StaticLoad>({ force: { x: 0, y: -100 }, forceAt: 'couplerPoint', outputTorque: 0 });
+  const [showForces, setShowForces] = useState<boolean>(false);
+
+  // Six-Bar State: a dyad added to the four-bar, or null for the plain four-bar
+  const [sixBar, setSixBar] = useState<SixBarDyad | null>(null);
+  const sixBarPoseRef = useRef<MechanismPose | undefined>(undefined);
+
+  // Problems with a design passed in the page's link
+  const [linkErrors, setLinkErrors] = useState<string[]>([]);
+
+  // Dynamic Force State
+  const [masses, setMasses] = useState<LinkModel['masses']>(() => uniformBars(lengths, 0.01));
   
   // Derived State
-  const joints: JointCoordinates = calculateJoints(lengths, angle);
-  const grashofInfo = determineGrashof(lengths);
+  // The solver always sees the chosen ground as its frame and the driver as its input
+  const layout = useMemo(() => resolveInversion(inversion), [inversion]);
+  const solverLengths = useMemo(() => invertLengths(lengths, layout), [lengths, layout]);
+  const otherBranch = branch === AssemblyBranch.OPEN ? AssemblyBranch.CROSSED : AssemblyBranch.OPEN;
+  const joints: JointCoordinates = calculateJoints(solverLengths, angle, branch, placement);
+  const ghostJoints: JointCoordinates = calculateJoints(solverLengths, angle, otherBranch, placement);
+  const motion = calculateMotion(joints, omegaInput, alphaInput);
+  const instantCenters = calculateInstantCenters(joints);
+  const grashofInfo = determineGrashof(lengths, inversion);
+  const transmission = analyzeTransmissionAngle(solverLengths, joints);
+  const transmissionBand = { min: minTransmission, max: 180 - minTransmission };
+  const quickReturn = useMemo(() => analyzeQuickReturn(solverLengths), [solverLengths]);
+  const reachable = useMemo(
+    () => calculateReachableRange(solverLengths, placement.angle),
+    [solverLengths, placement.angle]
+  );
+  const isFourBar = mechanismType === MechanismType.FOUR_BAR;
+  const isSliderCrank = mechanismType === MechanismType.SLIDER_CRANK;
+  const isSpherical = mechanismType === MechanismType.SPHERICAL;
+  const sliderPose = isSliderCrank ? solveSliderCrank(sliderCrank, sliderGround, angle, branch, placement) : undefined;
+  const sliderInfo = useMemo(() => analyzeSliderCrank(sliderCrank, sliderGround, branch), [sliderCrank, sliderGround, branch]);
+  const sliderReachable = useMemo(
+    () => sliderCrankReachableRange(sliderCrank, sliderGround, placement.angle),
+    [sliderCrank, sliderGround, placement.angle]
+  );
+  const sphericalPose = isSpherical ? calculateSphericalJoints(sphericalArcs, angle, branch) : undefined;
+  const sphericalInfo = useMemo(() => classifySpherical(sphericalArcs), [sphericalArcs]);
+  const sphericalReachable = useMemo(() => sphericalReachableRange(sphericalArcs), [sphericalArcs]);
+  // The driver's range for whichever mechanism is shown
+  const driverReachable = isSliderCrank ? sliderReachable : isSpherical ? sphericalReachable : reachable;
+  const hasChangePoints = isFourBar && changePointAngles(solverLengths).length > 0;
+  // The last change point stays marked until the input has moved well past it
+  const showChangePoint = changePoint !== null && hasChangePoints
+    && Math.abs(((angle - changePoint.angle) % 360 + 540) % 360 - 180) < 45;
+  const couplerPosition = calculateCouplerPoint(joints, couplerPoint);
+  const couplerCurve = useMemo(
+    () => showCouplerCurve ? traceCouplerCurve(solverLengths, branch, couplerPoint, reachable, placement) : [],
+    [showCouplerCurve, solverLengths, branch, couplerPoint, reachable, placement]
+  );
+  const ghostCouplerCurve = useMemo(
+    () => showCouplerCurve ? traceCouplerCurve(solverLengths, otherBranch, couplerPoint, reachable, placement) : [],
+    [showCouplerCurve, solverLengths, otherBranch, couplerPoint, reachable, placement]
+  );
+  // Cognates are rebuilt from the current pose, so they move with the input
+  const cognates = calculateCognates(joints, couplerPoint);
+  const shownCognates = cognateView === 'all' ? cognates
+    : cognateView === 'cognate1' ? [cognates[0], null]
+    : cognateView === 'cognate2' ? [null, cognates[1]]
+    : [];
+  const kinematicSweep = useMemo(
+    () => sweepKinematics(solverLengths, branch, placement),
+    [solverLengths, branch, placement]
+  );
+  const instantCenterCycle = useMemo(
+    () => calculateInstantCentersOverCycle(solverLengths, branch, placement),
+    [solverLengths, branch, placement]
+  );
+  const statics = calculateStatics(joints, staticLoad, couplerPosition);
+  const staticsCycle = useMemo(
+    () => calculateStaticsOverCycle(solverLengths, branch, placement, staticLoad, couplerPoint),
+    [solverLengths, branch, placement, staticLoad, couplerPoint]
+  );
+  const linkModel = useMemo(() => ({ lengths, masses }), [lengths, masses]);
+  const dynamics = calculateDynamics(linkModel, layout, joints, omegaInput, staticLoad, couplerPosition);
+  const dynamicsCycle = useMemo(
+    () => calculateDynamicsOverCycle(linkModel, layout, branch, placement, omegaInput, staticLoad, couplerPoint),
+    [linkModel, layout, branch, placement, omegaInput, staticLoad, couplerPoint]
+  );
+  const sixBarCheck = useMemo(
+    () => sixBar ? checkSixBar(solverLengths, branch, sixBar, placement) : null,
+    [solverLengths, branch, sixBar, placement]
+  );
+  // The previous pose keeps Stephenson II's numeric closure on one assembly
+  const sixBarPose = sixBar && isFourBar ? solveSixBar(solverLengths, angle, branch, sixBar, placement, sixBarPoseRef.current) : undefined;
+  sixBarPoseRef.current = sixBarPose?.isValid ? sixBarPose : undefined;
+  const sixBarMechanism = useMemo(() => sixBar ? sixBarLinks(sixBar.type) : [], [sixBar?.type]);
+  // In Stephenson II the four-bar floats, so its grounded coupler curve means nothing
+  const floatingFourBar = sixBar?.type === SixBarType.STEPHENSON_II;
+  const hideCoupler = floatingFourBar || !isFourBar;
   const requestRef = useRef<number>(0);
 
   const handleLengthChange = (key: keyof LinkLengths, value: number) => {
     setLengths(prev => ({ ...prev, [key]: value }));
   };
 
-  const animate = useCallback(() => {
-    setAngle(prevAngle => {
-      const step = speed * directionRef.current;
-      const nextAngle = prevAngle + step;
-      
-      // Check if next angle is valid
-      const nextJoints = calculateJoints(lengths, nextAngle);
-      
-      if (nextJoints.isValid) {
-        return nextAngle;
-      } else {
-        // Hit a limit! Reverse direction
-        directionRef.current *= -1;
-        // Bounce back slightly to avoid getting stuck in invalid state
-        return prevAngle + (speed * directionRef.current);
-      }
+  // Designer tools hand over a finished mechanism grounded on its frame
+  const handleLoadDesign = (design: LinkageDesign) => {
+    setIsPlaying(false);
+    setMechanismType(MechanismType.FOUR_BAR);
+    setInversion({ ground: LinkRole.FRAME, driver: LinkRole.INPUT });
+    setLengths(design.lengths);
+    setPlacement(design.placement);
+    setBranch(design.branch);
+    setAngle(design.angle);
+    if (design.couplerPoint) setCouplerPoint(design.couplerPoint);
+    setMode('analysis');
+  };
+
+  // What a saved design file or link holds: the mechanism and its pose
+  const savedDesign: SavedDesign = {
+    version: DESIGN_VERSION,
+    mechanismType, lengths, inversion, placement, branch, angle, speed,
+    couplerPoint, sixBar, sliderCrank, sliderGround, sphericalArcs,
+  };
+  const handleOpenDesign = (design: SavedDesign) => {
+    setIsPlaying(false);
+    setChangePoint(null);
+    sixBarPoseRef.current = undefined;
+    setMechanismType(design.mechanismType);
+    setLengths(design.lengths);
+    setInversion(design.inversion);
+    setPlacement(design.placement);
+    setBranch(design.branch);
+    setAngle(design.angle);
+    setSpeed(design.speed);
+    setCouplerPoint(design.couplerPoint);
+    setSixBar(design.sixBar);
+    setSliderCrank(design.sliderCrank);
+    setSliderGround(design.sliderGround);
+    setSphericalArcs(design.sphericalArcs);
+    setMode('analysis');
+  };
+
+  // Drawing exports. The SVG is the canvas as shown; the DXF and animation are
+  // rebuilt from the planar four-bar (or the six-bar on it) at any angle.
+  const canvasSvgRef = useRef<SVGSVGElement>(null);
+  const fourBarLinks: MechanismLink[] = [
+    { name: 'Frame', joints: ['A', 'D'], ground: true },
+    { name: 'Input', joints: ['A', 'B'] },
+    { name: 'Coupler', joints: hideCoupler ? ['B', 'C'] : ['B', 'C', 'P'] },
+    { name: 'Output', joints: ['D', 'C'] },
+  ];
+  const drawingAt = (theta: number, previous?: MechanismPose) => {
+    const curves = hideCoupler ? [] : couplerCurve;
+    if (sixBar) {
+      const pose = solveSixBar(solverLengths, theta, branch, sixBar, placement, previous);
+      return pose.isValid ? { pose, drawing: drawingFromPose(sixBarMechanism, pose.joints, curves) } : null;
+    }
+    const j = calculateJoints(solverLengths, theta, branch, placement);
+    if (!j.isValid) return null;
+    const points = { A: { x: j.Ax, y: j.Ay }, B: { x: j.Bx, y: j.By }, C: { x: j.Cx, y: j.Cy }, D: { x: j.Dx, y: j.Dy }, P: calculateCouplerPoint(j, couplerPoint) };
+    return { pose: { joints: points, isValid: true }, drawing: drawingFromPose(fourBarLinks, points, curves) };
+  };
+  const handleExportDrawing = (format: DrawingFormat) => {
+    if (format === 'svg') {
+      if (canvasSvgRef.current) downloadFile('linkage.svg', standaloneSvg(canvasSvgRef.current), 'image/svg+xml');
+      return;
+    }
+    if (format === 'dxf') {
+      const now = drawingAt(angle, sixBarPoseRef.current);
+      if (now) downloadFile('linkage.dxf', drawingToDxf(now.drawing), 'application/dxf');
+      return;
+    }
+    // One cycle, carrying the six-bar's pose from frame to frame
+    let previous: MechanismPose | undefined;
+    const frames = cycleAngles(reachable, angle).flatMap(theta => {
+      const next = drawingAt(theta, previous);
+      previous = next?.pose;
+      return next ? [next.drawing] : [];
     });
+    if (frames.length > 0) downloadFile('linkage-cycle.svg', animatedSvg(frames), 'image/svg+xml');
+  };
+
+  const handleExportSweep = (format: 'csv' | 'json', step: number) => {
+    const samples = sweepKinematics(solverLengths, branch, placement, step);
+    const context = { lengths, grashof: grashofInfo, inversion, layout, branch, step };
+    if (format === 'csv') downloadFile('linkage-sweep.csv', sweepToCsv(samples, context), 'text/csv');
+    else downloadFile('linkage-sweep.json', sweepToJson(samples, context), 'application/json');
+  };
+
+  // A link can carry a design to open with
+  useEffect(() => {
+    const fromLink = designFromUrl(window.location.href);
+    if (fromLink?.design) handleOpenDesign(fromLink.design);
+    else if (fromLink) setLinkErrors(fromLink.errors);
+  }, []);
+
+  // The ground link's length follows its pivots, held to its slider's range;
+  // a pivot moved past either end stops there on the same line from A
+  const pivots = groundPivots(placement, solverLengths.frame);
+  const handlePivotsChange = (next: { Ax: number, Ay: number, Dx: number, Dy: number }) => {
+    const { placement: nextPlacement, frameLength } = placementFromPivots(next.Ax, next.Ay, next.Dx, next.Dy);
+    if (frameLength === 0) return;
+    const { min, max } = LINK_LENGTH_BOUNDS[layout.links.frame];
+    setPlacement(nextPlacement);
+    setLengths(prev => ({ ...prev, [layout.links.frame]: Math.min(Math.max(frameLength, min), max) }));
+  };
+
+  // Moves the input and carries the branch across any change point on the way
+  const moveInput = useCallback((from: number, to: number, fromBranch: AssemblyBranch) => {
+    // Only the planar four-bar tracks change points; the others keep their branch
+    if (!isFourBar) {
+      poseRef.current = { angle: to, branch: fromBranch };
+      setAngle(to);
+      return;
+    }
+    const tracked = trackBranch(solverLengths, from, to, fromBranch, placement, changePointMode);
+    poseRef.current = { angle: tracked.angle, branch: tracked.branch };
+    setAngle(tracked.angle);
+    setBranch(tracked.branch);
+    if (tracked.event) setChangePoint(tracked.event);
+  }, [solverLengths, placement, changePointMode, isFourBar]);
+
+  const handleAngleChange = (next: number) => {
+    moveInput(((angle % 360) + 360) % 360, next, branch);
+  };
+
+  // Dragging a joint on the canvas: B turns the input the short way round, D
+  // moves the second ground pivot, and C resizes the coupler and output with
+  // the input held, on whichever branch puts C nearest the pointer
+  const handleJointDrag = (joint: DraggableJoint, point: Vector2, snap: DragSnap) => {
+    setIsPlaying(false);
+    const A = { x: joints.Ax, y: joints.Ay };
+    // A dragged length, snapped if asked, inside the slider range of its link
+    const fit = (value: number, link: LinkRole) => {
+      const { min, max } = LINK_LENGTH_BOUNDS[link];
+      return Math.min(Math.max(snap.lengths ? Math.round(value) : value, min), max);
+    };
+    if (joint === 'B') {
+      const from = ((angle % 360) + 360) % 360;
+      const target = (Math.atan2(point.y - A.y, point.x - A.x) * 180) / Math.PI;
+      moveInput(from, from + ((((target - from) % 360) + 540) % 360) - 180, branch);
+    } else if (joint === 'D') {
+      const distance = Math.hypot(point.x - A.x, point.y - A.y);
+      if (distance === 0) return;
+      const scale = fit(distance, layout.links.frame) / distance;
+      handlePivotsChange({ Ax: A.x, Ay: A.y, Dx: A.x + (point.x - A.x) * scale, Dy: A.y + (point.y - A.y) * scale });
+    } else {
+      const coupler = fit(Math.hypot(point.x - joints.Bx, point.y - joints.By), layout.links.coupler);
+      const output = fit(Math.hypot(point.x - joints.Dx, point.y - joints.Dy), layout.links.output);
+      const next = { ...solverLengths, coupler, output };
+      const miss = (b: AssemblyBranch) => {
+        const j = calculateJoints(next, angle, b, placement);
+        return j.isValid ? Math.hypot(j.Cx - point.x, j.Cy - point.y) : Infinity;
+      };
+      setLengths(prev => ({ ...prev, [layout.links.coupler]: coupler, [layout.links.output]: output }));
+      if (miss(otherBranch) < miss(branch)) setBranch(otherBranch);
+    }
+  };
+
+  const animate = useCallback(() => {
+    // Step towards the next toggle position and reverse exactly on it
+    const { angle: prevAngle, branch: prevBranch } = poseRef.current;
+    const next = advanceInputAngle(driverReachable, prevAngle, speed * directionRef.current);
+    directionRef.current = next.direction;
+    moveInput(prevAngle, next.angle, prevBranch);
     
     requestRef.current = requestAnimationFrame(animate);
-  }, [lengths, speed]);
+  }, [driverReachable, speed, moveInput]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -84,48 +423,216 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-slate-800">Grashof Explorer</h1>
             <p className="text-sm text-slate-500">Interactive 4-Bar Linkage Simulator</p>
           </div>
+          <nav className="ml-auto flex rounded-lg bg-slate-100 p-1 text-sm font-medium">
+            {MODES.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`px-3 py-1.5 rounded-md transition-colors ${
+                  mode === m.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </nav>
         </div>
       </header>
 
+      {mode === 'motion-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <SynthesisPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'function-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <FunctionGeneratorPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'path-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <PathSynthesisPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'crank-rocker-design' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <CrankRockerPanel minTransmission={minTransmission} onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
       {/* Main Content */}
-      <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+      {mode === 'analysis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
         
-        {/* Left Column: Visualization & Info */}
-        <div className="lg:col-span-8 flex flex-col gap-6">
-          {/* Canvas */}
-          <div className="h-[400px] md:h-[500px]">
-             <LinkageCanvas 
-               coords={joints} 
-               lengths={lengths} 
-               shortestRole={grashofInfo.shortest}
-               longestRole={grashofInfo.longest}
-             />
-          </div>
+          {/* Left Column: Visualization & Info */}
+          <div className="lg:col-span-8 flex flex-col gap-6">
+            {/* Canvas */}
+            <div className="h-[400px] md:h-[500px]">
+               <LinkageCanvas 
+                 coords={joints} 
+                 ghostCoords={ghostJoints}
+                 lengths={solverLengths} 
+                 layout={layout}
+                 shortestRole={grashofInfo.shortest}
+                 longestRole={grashofInfo.longest}
+                 motion={motion}
+                 showVelocity={showVelocity}
+                 showAcceleration={showAcceleration}
+                 transmissionAngle={transmission.current}
+                 transmissionOk={transmission.current >= transmissionBand.min && transmission.current <= transmissionBand.max}
+                 couplerPoint={hideCoupler ? undefined : couplerPosition}
+                 couplerCurve={hideCoupler ? [] : couplerCurve}
+                 ghostCouplerCurve={hideCoupler ? [] : ghostCouplerCurve}
+                 statics={statics}
+                 appliedForce={{ at: staticLoad.forceAt === 'C' ? { x: joints.Cx, y: joints.Cy } : couplerPosition, force: staticLoad.force }}
+                 showForces={showForces}
+                 changePoint={showChangePoint ? changePoint : undefined}
+                 cognates={isFourBar ? shownCognates : []}
+                 showMainLinkage={isFourBar && !sixBar && cognateView !== 'cognate1' && cognateView !== 'cognate2'}
+                 mechanism={sixBarPose && { links: sixBarMechanism, pose: sixBarPose }}
+                 sliderCrank={sliderPose && { dims: sliderCrank, ground: sliderGround, pose: sliderPose, origin: { x: placement.originX, y: placement.originY } }}
+                 spherical={sphericalPose && { pose: sphericalPose, view: sphereView }}
+                 instantCenters={isFourBar && showInstantCenters ? instantCenters : undefined}
+                 svgRef={canvasSvgRef}
+                 onJointDrag={isFourBar ? handleJointDrag : undefined}
+               />
+            </div>
           
-          {/* Info Panel */}
-          <InfoPanel grashofInfo={grashofInfo} lengths={lengths} />
-        </div>
+            {/* The analysis panels all work on the four-bar */}
+            {isFourBar && (
+              <>
+                {/* Info Panel */}
+                <InfoPanel
+                  grashofInfo={grashofInfo}
+                  lengths={lengths}
+                  motion={motion}
+                  transmission={transmission}
+                  transmissionBand={transmissionBand}
+                  inversion={inversion}
+                  driverFullRotation={reachable.fullRotation}
+                  quickReturn={quickReturn}
+                  instantCenters={instantCenters}
+                  instantCenterCycle={instantCenterCycle}
+                  angle={angle}
+                />
 
-        {/* Right Column: Controls */}
-        <div className="lg:col-span-4 h-fit">
-          <Controls 
-            lengths={lengths}
-            onLengthChange={handleLengthChange}
-            angle={angle}
-            onAngleChange={setAngle}
-            isPlaying={isPlaying}
-            onTogglePlay={() => setIsPlaying(!isPlaying)}
-            speed={speed}
-            onSpeedChange={setSpeed}
-          />
+                {/* Kinematic Plots */}
+                <KinematicsPanel
+                  sweep={kinematicSweep}
+                  angle={angle}
+                  layout={layout}
+                  transmissionBand={transmissionBand}
+                  onExportSweep={handleExportSweep}
+                />
+
+                {/* Six-Bar Extension */}
+                <SixBarPanel dyad={sixBar} onDyadChange={setSixBar} check={sixBarCheck} />
+
+                {/* Static Force Analysis */}
+                <ForcePanel
+                  load={staticLoad}
+                  onLoadChange={setStaticLoad}
+                  statics={statics}
+                  cycle={staticsCycle}
+                  angle={angle}
+                  layout={layout}
+                  showForces={showForces}
+                  onShowForcesChange={setShowForces}
+                />
+
+                {/* Dynamic Force Analysis */}
+                <DynamicsPanel
+                  lengths={lengths}
+                  masses={masses}
+                  onMassesChange={setMasses}
+                  layout={layout}
+                  omegaInput={omegaInput}
+                  dynamics={dynamics}
+                  cycle={dynamicsCycle}
+                  staticsCycle={staticsCycle}
+                  angle={angle}
+                />
+              </>
+            )}
+          </div>
+
+          {/* Right Column: Controls */}
+          <div className="lg:col-span-4 h-fit flex flex-col gap-6">
+            <DesignPanel
+              design={savedDesign}
+              onOpenDesign={handleOpenDesign}
+              linkErrors={linkErrors}
+              onExportDrawing={handleExportDrawing}
+              canExportGeometry={isFourBar}
+            />
+
+            <Controls 
+              mechanismType={mechanismType}
+              onMechanismTypeChange={setMechanismType}
+              sliderCrank={sliderCrank}
+              onSliderCrankChange={setSliderCrank}
+              sliderGround={sliderGround}
+              onSliderGroundChange={setSliderGround}
+              sliderInfo={sliderInfo}
+              sphericalArcs={sphericalArcs}
+              onSphericalArcsChange={setSphericalArcs}
+              sphereView={sphereView}
+              onSphereViewChange={setSphereView}
+              sphericalInfo={sphericalInfo}
+              lengths={lengths}
+              onLengthChange={handleLengthChange}
+              branch={branch}
+              onBranchChange={setBranch}
+              hasChangePoints={hasChangePoints}
+              changePointMode={changePointMode}
+              onChangePointModeChange={setChangePointMode}
+              inversion={inversion}
+              onInversionChange={setInversion}
+              placement={placement}
+              onPlacementChange={setPlacement}
+              pivots={pivots}
+              pivotNames={{ A: layout.joints.A, D: layout.joints.D }}
+              onPivotsChange={handlePivotsChange}
+              angle={angle}
+              onAngleChange={handleAngleChange}
+              reachable={driverReachable}
+              isPlaying={isPlaying}
+              onTogglePlay={() => setIsPlaying(!isPlaying)}
+              speed={speed}
+              onSpeedChange={setSpeed}
+              omegaInput={omegaInput}
+              onOmegaInputChange={setOmegaInput}
+              alphaInput={alphaInput}
+              onAlphaInputChange={setAlphaInput}
+              showVelocity={showVelocity}
+              onShowVelocityChange={setShowVelocity}
+              showAcceleration={showAcceleration}
+              onShowAccelerationChange={setShowAcceleration}
+              showInstantCenters={showInstantCenters}
+              onShowInstantCentersChange={setShowInstantCenters}
+              minTransmission={minTransmission}
+              onMinTransmissionChange={setMinTransmission}
+              couplerPoint={couplerPoint}
+              onCouplerPointChange={setCouplerPoint}
+              showCouplerCurve={showCouplerCurve}
+              onShowCouplerCurveChange={setShowCouplerCurve}
+              cognates={cognates}
+              cognateView={cognateView}
+              onCognateViewChange={setCognateView}
+              onLoadDesign={handleLoadDesign}
+            />
           
-          <div className="mt-6 text-xs text-slate-400 text-center">
-            <p>Designed for educational purposes.</p>
-            <p>Calculations use vector loop equations with intersection logic.</p>
+            <div className="mt-6 text-xs text-slate-400 text-center">
+              <p>Designed for educational purposes.</p>
+              <p>Calculations use vector loop equations with intersection logic.</p>
+            </div>
           </div>
-        </div>
 
-      </main>
+        </main>
+      )}
     </div>
   );
 };
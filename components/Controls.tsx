@@ -1,34 +1,203 @@
-import React from 'react';
-import { LinkLengths } from '../types.ts';
+import React, { useState } from 'react';
+import { LinkLengths, AssemblyBranch, ChangePointMode, ReachableRange, CouplerPoint, Inversion, LinkRole, FramePlacement, Cognate, CognateView, LinkageDesign, MechanismType, SliderCrankDimensions, SliderCrankInfo, SliderLink, SphereView, SphericalInfo } from '../types.ts';
+import { adjacentLinks, LINK_LENGTH_BOUNDS } from '../utils/kinematics.ts';
+import { couplerPointToLocal, couplerPointFromLocal, COUPLER_POINT_BOUNDS } from '../utils/coupler.ts';
+import { crankForStroke, SLIDER_CRANK_BOUNDS, SLIDER_INVERSIONS } from '../utils/slidercrank.ts';
+import { SPHERICAL_ARC_BOUNDS } from '../utils/spherical.ts';
+import { SPEED_BOUNDS } from '../utils/designfile.ts';
 import { Play, Pause, RotateCw, RotateCcw } from 'lucide-react';
 
 interface ControlsProps {
+  mechanismType: MechanismType;
+  onMechanismTypeChange: (type: MechanismType) => void;
+  sliderCrank: SliderCrankDimensions;
+  onSliderCrankChange: (dims: SliderCrankDimensions) => void;
+  sliderGround: SliderLink;
+  onSliderGroundChange: (ground: SliderLink) => void;
+  sliderInfo: SliderCrankInfo;
+  sphericalArcs: LinkLengths; // Arc angles in degrees
+  onSphericalArcsChange: (arcs: LinkLengths) => void;
+  sphereView: SphereView;
+  onSphereViewChange: (view: SphereView) => void;
+  sphericalInfo: SphericalInfo;
   lengths: LinkLengths;
   onLengthChange: (key: keyof LinkLengths, value: number) => void;
+  branch: AssemblyBranch;
+  onBranchChange: (branch: AssemblyBranch) => void;
+  hasChangePoints: boolean;
+  changePointMode: ChangePointMode;
+  onChangePointModeChange: (mode: ChangePointMode) => void;
+  inversion: Inversion;
+  onInversionChange: (inversion: Inversion) => void;
+  placement: FramePlacement;
+  onPlacementChange: (placement: FramePlacement) => void;
+  pivots: { Ax: number, Ay: number, Dx: number, Dy: number };
+  pivotNames: { A: string, D: string };
+  onPivotsChange: (pivots: { Ax: number, Ay: number, Dx: number, Dy: number }) => void;
   angle: number;
   onAngleChange: (angle: number) => void;
+  reachable: ReachableRange;
   isPlaying: boolean;
   onTogglePlay: () => void;
   speed: number;
   onSpeedChange: (speed: number) => void;
+  omegaInput: number;
+  onOmegaInputChange: (omega: number) => void;
+  alphaInput: number;
+  onAlphaInputChange: (alpha: number) => void;
+  showVelocity: boolean;
+  onShowVelocityChange: (show: boolean) => void;
+  showAcceleration: boolean;
+  onShowAccelerationChange: (show: boolean) => void;
+  showInstantCenters: boolean;
+  onShowInstantCentersChange: (show: boolean) => void;
+  minTransmission: number;
+  onMinTransmissionChange: (angle: number) => void;
+  couplerPoint: CouplerPoint;
+  onCouplerPointChange: (point: CouplerPoint) => void;
+  showCouplerCurve: boolean;
+  onShowCouplerCurveChange: (show: boolean) => void;
+  cognates: [Cognate | null, Cognate | null];
+  cognateView: CognateView;
+  onCognateViewChange: (view: CognateView) => void;
+  onLoadDesign: (design: LinkageDesign) => void;
 }
 
+const MECHANISM_TYPES: { id: MechanismType, label: string }[] = [
+  { id: MechanismType.FOUR_BAR, label: 'Four-Bar' },
+  { id: MechanismType.SLIDER_CRANK, label: 'Slider-Crank' },
+  { id: MechanismType.SPHERICAL, label: 'Spherical' },
+];
+
+// Starting arcs (degrees) for common spherical chains
+const SPHERICAL_PRESETS: { label: string, arcs: LinkLengths }[] = [
+  { label: 'Universal Joint', arcs: { frame: 160, input: 90, coupler: 90, output: 90 } },
+  { label: 'Crank-Rocker', arcs: { frame: 70, input: 25, coupler: 75, output: 50 } },
+  { label: 'Double-Crank', arcs: { frame: 100, input: 60, coupler: 80, output: 120 } },
+];
+
+const COGNATE_VIEWS: { id: CognateView, label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'all', label: 'All' },
+  { id: 'original', label: 'Original' },
+  { id: 'cognate1', label: 'Cog. 1' },
+  { id: 'cognate2', label: 'Cog. 2' },
+];
+
 const Controls: React.FC<ControlsProps> = ({ 
+  mechanismType,
+  onMechanismTypeChange,
+  sliderCrank,
+  onSliderCrankChange,
+  sliderGround,
+  onSliderGroundChange,
+  sliderInfo,
+  sphericalArcs,
+  onSphericalArcsChange,
+  sphereView,
+  onSphereViewChange,
+  sphericalInfo,
   lengths, 
   onLengthChange, 
+  branch,
+  onBranchChange,
+  hasChangePoints,
+  changePointMode,
+  onChangePointModeChange,
+  inversion,
+  onInversionChange,
+  placement,
+  onPlacementChange,
+  pivots,
+  pivotNames,
+  onPivotsChange,
   angle, 
   onAngleChange, 
+  reachable,
   isPlaying, 
   onTogglePlay,
   speed,
-  onSpeedChange
+  onSpeedChange,
+  omegaInput,
+  onOmegaInputChange,
+  alphaInput,
+  onAlphaInputChange,
+  showVelocity,
+  onShowVelocityChange,
+  showAcceleration,
+  onShowAccelerationChange,
+  showInstantCenters,
+  onShowInstantCentersChange,
+  minTransmission,
+  onMinTransmissionChange,
+  couplerPoint,
+  onCouplerPointChange,
+  showCouplerCurve,
+  onShowCouplerCurveChange,
+  cognates,
+  cognateView,
+  onCognateViewChange,
+  onLoadDesign
 }) => {
+  const [couplerMode, setCouplerMode] = useState<'polar' | 'local'>('polar');
+  const [unreachableStroke, setUnreachableStroke] = useState<number | null>(null);
+  const couplerLocal = couplerPointToLocal(couplerPoint);
+
+  const couplerSliders = couplerMode === 'polar'
+    ? [
+        { label: 'Distance from B (p)', ...COUPLER_POINT_BOUNDS.distance, step: 1, value: couplerPoint.distance, unit: '',
+          set: (v: number) => onCouplerPointChange({ ...couplerPoint, distance: v }) },
+        { label: 'Angle from BC (δ)', ...COUPLER_POINT_BOUNDS.angle, step: 1, value: couplerPoint.angle, unit: '°',
+          set: (v: number) => onCouplerPointChange({ ...couplerPoint, angle: v }) },
+      ]
+    : [
+        { label: 'Along BC (u)', min: -200, max: 300, step: 1, value: couplerLocal.x, unit: '',
+          set: (v: number) => onCouplerPointChange(couplerPointFromLocal({ x: v, y: couplerLocal.y })) },
+        { label: 'Normal to BC (v)', min: -200, max: 200, step: 1, value: couplerLocal.y, unit: '',
+          set: (v: number) => onCouplerPointChange(couplerPointFromLocal({ x: couplerLocal.x, y: v })) },
+      ];
+
   const sliders = [
-    { key: 'input', label: 'Input Link (a)', min: 20, max: 200 },
-    { key: 'coupler', label: 'Coupler Link (b)', min: 20, max: 300 },
-    { key: 'output', label: 'Output Link (c)', min: 20, max: 200 },
-    { key: 'frame', label: 'Frame (d)', min: 50, max: 300 },
+    { key: 'input', label: 'Input Link (a)', ...LINK_LENGTH_BOUNDS.input },
+    { key: 'coupler', label: 'Coupler Link (b)', ...LINK_LENGTH_BOUNDS.coupler },
+    { key: 'output', label: 'Output Link (c)', ...LINK_LENGTH_BOUNDS.output },
+    { key: 'frame', label: 'Frame (d)', ...LINK_LENGTH_BOUNDS.frame },
+  ];
+
+  const isFourBar = mechanismType === MechanismType.FOUR_BAR;
+  const isSliderCrank = mechanismType === MechanismType.SLIDER_CRANK;
+  const arcSliders = [
+    { key: 'input', label: 'Input Arc (α₂)' },
+    { key: 'coupler', label: 'Coupler Arc (α₃)' },
+    { key: 'output', label: 'Output Arc (α₄)' },
+    { key: 'frame', label: 'Ground Arc (α₁)' },
+  ] as const;
+  const sliderFields = [
+    { key: 'crank', label: 'Crank (r)', ...SLIDER_CRANK_BOUNDS.crank },
+    { key: 'rod', label: 'Connecting Rod (l)', ...SLIDER_CRANK_BOUNDS.rod },
+    { key: 'offset', label: 'Offset (e)', ...SLIDER_CRANK_BOUNDS.offset },
+  ] as const;
+  const { crank: r, rod: l, offset: e } = sliderCrank;
+  const sliderCriteria = [
+    { label: 'r + |e| ≤ l', lhs: r + Math.abs(e), rhs: l, meaning: 'crank turns fully on the guide' },
+    { label: 'l + |e| ≤ r', lhs: l + Math.abs(e), rhs: r, meaning: 'rod turns fully on the guide' },
   ];
+  const sliderInversion = SLIDER_INVERSIONS[sliderGround];
+
+  // Shade the unreachable input angles on the slider track
+  const reachableSegments = reachable.intervals.flatMap(({ start, end }) =>
+    end > 360 ? [[start, 360], [0, end - 360]] : [[start, end]]
+  ).sort((p, q) => p[0] - q[0]);
+  const trackStops: string[] = [];
+  let cursor = 0;
+  for (const [start, end] of reachableSegments) {
+    const from = (start / 360) * 100;
+    const to = (end / 360) * 100;
+    trackStops.push(`#fecaca ${(cursor / 360) * 100}%`, `#fecaca ${from}%`, `#e2e8f0 ${from}%`, `#e2e8f0 ${to}%`);
+    cursor = end;
+  }
+  trackStops.push(`#fecaca ${(cursor / 360) * 100}%`, '#fecaca 100%');
+  const angleTrack = `linear-gradient(to right, ${trackStops.join(', ')})`;
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-full flex flex-col gap-6">
@@ -38,26 +207,439 @@ const Controls: React.FC<ControlsProps> = ({
           Link Configuration
         </h2>
         
-        <div className="space-y-5">
-          {sliders.map((s) => (
-            <div key={s.key}>
-              <div className="flex justify-between mb-1">
-                <label className="text-sm font-medium text-slate-600">{s.label}</label>
-                <span className="text-sm font-bold text-indigo-600">{lengths[s.key as keyof LinkLengths]}</span>
+        <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium mb-5">
+          {MECHANISM_TYPES.map((type) => (
+            <button
+              key={type.id}
+              onClick={() => onMechanismTypeChange(type.id)}
+              className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                mechanismType === type.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {type.label}
+            </button>
+          ))}
+        </div>
+
+        {isFourBar ? (
+          <div className="space-y-5">
+            {sliders.map((s) => (
+              <div key={s.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(lengths[s.key as keyof LinkLengths] * 10) / 10}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  value={lengths[s.key as keyof LinkLengths]}
+                  onChange={(e) => onLengthChange(s.key as keyof LinkLengths, parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
               </div>
+            ))}
+          </div>
+        ) : isSliderCrank ? (
+          <div className="space-y-5">
+            {sliderFields.map((f) => (
+              <div key={f.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{f.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(sliderCrank[f.key] * 10) / 10}</span>
+                </div>
+                <input
+                  type="range"
+                  min={f.min}
+                  max={f.max}
+                  value={sliderCrank[f.key]}
+                  onChange={(ev) => onSliderCrankChange({ ...sliderCrank, [f.key]: parseInt(ev.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+
+            <label className="flex items-center justify-between gap-3 text-sm font-medium text-slate-600">
+              Piston Stroke
               <input
-                type="range"
-                min={s.min}
-                max={s.max}
-                value={lengths[s.key as keyof LinkLengths]}
-                onChange={(e) => onLengthChange(s.key as keyof LinkLengths, parseInt(e.target.value))}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                type="number"
+                step={1}
+                value={isNaN(sliderInfo.stroke) ? '' : Math.round(sliderInfo.stroke * 10) / 10}
+                onChange={(ev) => {
+                  // Keeps the rod and offset and resizes the crank, which must still turn fully
+                  const stroke = parseFloat(ev.target.value);
+                  const crank = crankForStroke(stroke, l, e);
+                  setUnreachableStroke(crank === null && !isNaN(stroke) ? stroke : null);
+                  if (crank !== null) onSliderCrankChange({ ...sliderCrank, crank });
+                }}
+                className="w-28 px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
               />
+            </label>
+            {unreachableStroke !== null && (
+              <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                A stroke of {unreachableStroke} is unreachable: no crank between {SLIDER_CRANK_BOUNDS.crank.min} and {SLIDER_CRANK_BOUNDS.crank.max} gives it
+                while still turning fully with this rod and offset.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {arcSliders.map((f) => (
+              <div key={f.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{f.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(sphericalArcs[f.key])}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={SPHERICAL_ARC_BOUNDS.min}
+                  max={SPHERICAL_ARC_BOUNDS.max}
+                  value={sphericalArcs[f.key]}
+                  onChange={(ev) => onSphericalArcsChange({ ...sphericalArcs, [f.key]: parseInt(ev.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              {SPHERICAL_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => onSphericalArcsChange(preset.arcs)}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
             </div>
-          ))}
+          </div>
+        )}
+
+        <div className="mt-5">
+          <label className="text-sm font-medium text-slate-600 block mb-2">Assembly Branch</label>
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { value: AssemblyBranch.OPEN, label: 'Open' },
+              { value: AssemblyBranch.CROSSED, label: 'Crossed' },
+            ].map((opt) => (
+              <button
+                key={opt.value}
+                onClick={() => onBranchChange(opt.value)}
+                className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-colors ${
+                  branch === opt.value
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-1 italic">
+            {isFourBar
+              ? 'The same link lengths also close in the other branch, shown faded.'
+              : isSliderCrank
+              ? 'The other branch puts the last joint solved on the other side along the guide.'
+              : 'The other branch mirrors axis C across the plane of axes B and D.'}
+          </p>
         </div>
+
+        {hasChangePoints && (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">After a Change Point</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: ChangePointMode.SMOOTH, label: 'Carry On' },
+                { value: ChangePointMode.SWITCH, label: 'Switch Branch' },
+              ].map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => onChangePointModeChange(opt.value)}
+                  className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-colors ${
+                    changePointMode === opt.value
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              At a change point all four joints line up and both branches meet. Carry on follows the motion without a kink.
+            </p>
+          </div>
+        )}
+
+        {isFourBar ? (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">Ground Link</label>
+            <div className="grid grid-cols-4 gap-2">
+              {[LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT].map((role) => (
+                <button
+                  key={role}
+                  onClick={() => {
+                    // Keep the driver if it still shares a joint with the new ground
+                    const candidates = adjacentLinks(role);
+                    const driver = candidates.includes(inversion.driver) ? inversion.driver : candidates[1];
+                    onInversionChange({ ground: role, driver });
+                  }}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    inversion.ground === role
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+
+            <label className="text-sm font-medium text-slate-600 block mt-3 mb-2">Driver Link</label>
+            <div className="grid grid-cols-2 gap-2">
+              {adjacentLinks(inversion.ground).map((role) => (
+                <button
+                  key={role}
+                  onClick={() => onInversionChange({ ...inversion, driver: role })}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    inversion.driver === role
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              The driver turns about a ground pivot, so it must be pinned to the ground link.
+            </p>
+          </div>
+        ) : isSliderCrank ? (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">Ground Link</label>
+            <div className="grid grid-cols-4 gap-2">
+              {[SliderLink.GUIDE, SliderLink.CRANK, SliderLink.ROD, SliderLink.SLIDER].map((link) => (
+                <button
+                  key={link}
+                  onClick={() => onSliderGroundChange(link)}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    sliderGround === link
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {link}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              {sliderInversion.name}: the {sliderInversion.driver} drives, turning about a ground pivot.
+            </p>
+
+            <div className="mt-4 p-3 bg-slate-50 rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Type</span>
+                <span className="font-medium text-indigo-600">{sliderInfo.type}</span>
+              </div>
+              {sliderCriteria.map((c) => (
+                <div key={c.label} className="flex justify-between text-xs">
+                  <span className="text-slate-500">{c.label} <span className="italic">({c.meaning})</span></span>
+                  <span className={`font-mono ${c.lhs <= c.rhs ? 'text-green-600' : 'text-slate-400'}`}>
+                    {c.lhs.toFixed(0)} {c.lhs <= c.rhs ? '≤' : '>'} {c.rhs.toFixed(0)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="mt-5">
+            <div className="p-3 bg-slate-50 rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Type</span>
+                <span className="font-medium text-indigo-600">{sphericalInfo.type}</span>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-500">Joints turning fully</span>
+                <span className="font-mono text-slate-700">
+                  {(['A', 'B', 'C', 'D'] as const).filter(j => sphericalInfo.jointTurns[j]).join(', ') || 'none'}
+                </span>
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              A joint turns fully when the arcs across from it close over the whole sweep of the diagonal it sets.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              {([
+                { key: 'azimuth', label: 'View Azimuth', min: -180, max: 180 },
+                { key: 'elevation', label: 'View Elevation', min: -90, max: 90 },
+              ] as const).map((f) => (
+                <div key={f.key}>
+                  <div className="flex justify-between mb-1">
+                    <label className="text-xs font-medium text-slate-600">{f.label}</label>
+                    <span className="text-xs font-mono text-slate-500">{sphereView[f.key]}°</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={f.min}
+                    max={f.max}
+                    value={sphereView[f.key]}
+                    onChange={(ev) => onSphereViewChange({ ...sphereView, [f.key]: parseInt(ev.target.value) })}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Coupler Point</h2>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {(['polar', 'local'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setCouplerMode(mode)}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    couplerMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {mode === 'polar' ? 'p, δ' : 'u, v'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {couplerSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-teal-600">{Math.round(s.value)}{s.unit}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  step={s.step}
+                  value={s.value}
+                  onChange={(e) => s.set(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                />
+              </div>
+            ))}
+
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showCouplerCurve}
+                onChange={(e) => onShowCouplerCurveChange(e.target.checked)}
+                className="accent-teal-600"
+              />
+              Trace coupler curve
+            </label>
+          </div>
+        </div>
+      )}
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Cognates</h2>
+
+          <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+            {COGNATE_VIEWS.map((view) => (
+              <button
+                key={view.id}
+                onClick={() => onCognateViewChange(view.id)}
+                className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                  cognateView === view.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {view.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 space-y-2">
+            {cognates.map((cognate, i) => (
+              <div key={i} className="flex items-center justify-between text-sm">
+                <span className={`font-medium ${i === 0 ? 'text-violet-600' : 'text-orange-600'}`}>Cognate {i + 1}</span>
+                {cognate ? (
+                  <>
+                    <span className="font-mono text-xs text-slate-500">
+                      {[cognate.design.lengths.frame, cognate.design.lengths.input, cognate.design.lengths.coupler, cognate.design.lengths.output]
+                        .map(len => len.toFixed(0)).join(' / ')}
+                    </span>
+                    <button
+                      onClick={() => onLoadDesign(cognate.design)}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                    >
+                      Load
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-slate-400 italic">degenerate</span>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Lengths are frame / input / coupler / output. All three four-bars trace the same coupler curve.
+          </p>
+        </div>
+      )}
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Ground Pivots</h2>
+
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              { key: 'Ax', label: `${pivotNames.A} x` },
+              { key: 'Ay', label: `${pivotNames.A} y` },
+              { key: 'Dx', label: `${pivotNames.D} x` },
+              { key: 'Dy', label: `${pivotNames.D} y` },
+            ] as const).map((f) => (
+              <label key={f.key} className="text-sm font-medium text-slate-600">
+                {f.label}
+                <input
+                  type="number"
+                  step={1}
+                  value={Math.round(pivots[f.key] * 10) / 10}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) onPivotsChange({ ...pivots, [f.key]: value });
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-4">
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-600">Frame Angle</label>
+              <span className="text-sm font-mono text-slate-500">{Math.round(placement.angle)}°</span>
+            </div>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={placement.angle}
+              onChange={(e) => onPlacementChange({ ...placement, angle: parseInt(e.target.value) })}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <p className="text-xs text-slate-400 mt-1 italic">
+              Angles, including θ, are measured from the global X axis. Moving a pivot resizes the ground link, within its slider's range.
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="border-t border-slate-100 pt-6">
         <h2 className="text-lg font-bold text-slate-800 mb-4">Simulation Control</h2>
         
@@ -90,7 +672,15 @@ const Controls: React.FC<ControlsProps> = ({
                     onAngleChange(parseInt(e.target.value));
                 }}
                 className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                style={{ background: angleTrack }}
               />
+              {!reachable.fullRotation && (
+                <p className="text-xs text-slate-400 mt-1 italic">
+                  {reachable.limits.length > 0
+                    ? `Input rocks between toggle positions at ${reachable.limits.map(l => `${l.toFixed(1)}°`).join(', ')}.`
+                    : 'No input angle closes the loop.'}
+                </p>
+              )}
            </div>
 
            <div>
@@ -99,8 +689,8 @@ const Controls: React.FC<ControlsProps> = ({
               </div>
               <input
                 type="range"
-                min={0.2}
-                max={5}
+                min={SPEED_BOUNDS.min}
+                max={SPEED_BOUNDS.max}
                 step={0.1}
                 value={Math.abs(speed)}
                 onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
@@ -109,6 +699,91 @@ const Controls: React.FC<ControlsProps> = ({
            </div>
         </div>
       </div>
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Motion Analysis</h2>
+
+          <div className="space-y-4">
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Input Velocity (ω₂)</label>
+                  <span className="text-sm font-mono text-slate-500">{omegaInput.toFixed(1)} rad/s</span>
+                </div>
+                <input
+                  type="range"
+                  min={-10}
+                  max={10}
+                  step={0.1}
+                  value={omegaInput}
+                  onChange={(e) => onOmegaInputChange(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+             </div>
+
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Input Acceleration (α₂)</label>
+                  <span className="text-sm font-mono text-slate-500">{alphaInput.toFixed(1)} rad/s²</span>
+                </div>
+                <input
+                  type="range"
+                  min={-20}
+                  max={20}
+                  step={0.5}
+                  value={alphaInput}
+                  onChange={(e) => onAlphaInputChange(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-fuchsia-600"
+                />
+             </div>
+
+             <div className="flex gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showVelocity}
+                    onChange={(e) => onShowVelocityChange(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  Velocity vectors
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showAcceleration}
+                    onChange={(e) => onShowAccelerationChange(e.target.checked)}
+                    className="accent-fuchsia-600"
+                  />
+                  Acceleration vectors
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showInstantCenters}
+                    onChange={(e) => onShowInstantCentersChange(e.target.checked)}
+                    className="accent-pink-700"
+                  />
+                  Instant centers
+                </label>
+             </div>
+
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Transmission Angle Band (μ)</label>
+                  <span className="text-sm font-mono text-slate-500">{minTransmission}°–{180 - minTransmission}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={10}
+                  max={80}
+                  value={minTransmission}
+                  onChange={(e) => onMinTransmissionChange(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                />
+             </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
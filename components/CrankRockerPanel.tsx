@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { LinkageDesign, Vector2 } from '../types.ts';
+import { bestCrankRockerPivot, designCrankRocker } from '../utils/synthesis.ts';
+import { LINK_LENGTH_BOUNDS } from '../utils/kinematics.ts';
+import { Target, Upload } from 'lucide-react';
+
+interface CrankRockerPanelProps {
+  minTransmission: number;
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+const CrankRockerPanel: React.FC<CrankRockerPanelProps> = ({ minTransmission, onLoadDesign }) => {
+  const [rocker, setRocker] = useState<number>(100);
+  const [swingAngle, setSwingAngle] = useState<number>(45);
+  const [timeRatio, setTimeRatio] = useState<number>(1.25);
+  const [pivot, setPivot] = useState(() =>
+    bestCrankRockerPivot({ rocker: 100, swingAngle: 45, timeRatio: 1.25 }) ?? { foldedDistance: 50, farSide: false }
+  );
+
+  const result = designCrankRocker({ rocker, swingAngle, timeRatio, ...pivot });
+  const pivotLimit = Math.min(result.maxFoldedDistance, 3 * rocker);
+  const transmissionOk = result.isValid
+    && result.transmission.min >= minTransmission && result.transmission.max <= 180 - minTransmission;
+  const outOfRange = result.design && (Object.keys(LINK_LENGTH_BOUNDS) as (keyof typeof LINK_LENGTH_BOUNDS)[]).some(key =>
+    result.design.lengths[key] < LINK_LENGTH_BOUNDS[key].min || result.design.lengths[key] > LINK_LENGTH_BOUNDS[key].max
+  );
+
+  const applyBestPivot = () => {
+    const best = bestCrankRockerPivot({ rocker, swingAngle, timeRatio });
+    if (best) setPivot(best);
+  };
+
+  // Construction drawing, fitted around the pivots and rocker positions
+  let drawing = null;
+  if (result.points) {
+    const { A, D, C1, C2 } = result.points;
+    const a = result.design?.lengths.input ?? 0;
+    const unit = (from: Vector2, to: Vector2) => {
+      const len = Math.hypot(to.x - from.x, to.y - from.y);
+      return { x: (to.x - from.x) / len, y: (to.y - from.y) / len };
+    };
+    const towardsC1 = unit(A, C1);
+    const towardsC2 = unit(A, C2);
+    const B1 = { x: A.x + a * towardsC1.x, y: A.y + a * towardsC1.y };
+    const B2 = { x: A.x - a * towardsC2.x, y: A.y - a * towardsC2.y };
+
+    // Locus of A: the circle through C1 and C2 seeing their chord under δ
+    const delta = (Math.PI * (timeRatio - 1)) / (timeRatio + 1);
+    let locus: { x: number, y: number, r: number } | null = null;
+    if (delta > 1e-6) {
+      const r = Math.abs(C2.x - C1.x) / (2 * Math.sin(delta));
+      const rise = Math.sqrt(Math.max(0, r * r - ((C2.x - C1.x) / 2) ** 2));
+      const centers = [{ x: 0, y: C1.y + rise, r }, { x: 0, y: C1.y - rise, r }];
+      locus = centers.reduce((p, q) =>
+        Math.abs(Math.hypot(A.x - p.x, A.y - p.y) - r) <= Math.abs(Math.hypot(A.x - q.x, A.y - q.y) - r) ? p : q
+      );
+    }
+
+    const xs = [A.x, D.x, C1.x, C2.x, A.x - a, A.x + a];
+    const ys = [A.y, D.y, C1.y, C2.y, A.y - a, A.y + a];
+    const pad = 0.15 * Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    const view = {
+      x: Math.min(...xs) - pad,
+      y: -(Math.max(...ys) + pad),
+      w: Math.max(...xs) - Math.min(...xs) + 2 * pad,
+      h: Math.max(...ys) - Math.min(...ys) + 2 * pad,
+    };
+    const stroke = view.w / 200;
+    const fontSize = view.w / 30;
+    const arcLarge = swingAngle > 180 ? 1 : 0;
+
+    drawing = (
+      <svg width="100%" height="100%" viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`} preserveAspectRatio="xMidYMid meet">
+        <g transform="scale(1, -1)">
+          {locus && (
+            <circle cx={locus.x} cy={locus.y} r={locus.r} fill="none" stroke="#cbd5e1" strokeWidth={stroke} strokeDasharray={`${3 * stroke},${3 * stroke}`} />
+          )}
+          <path
+            d={`M ${C2.x} ${C2.y} A ${rocker} ${rocker} 0 ${arcLarge} 1 ${C1.x} ${C1.y}`}
+            fill="none"
+            stroke="#0d9488"
+            strokeWidth={2 * stroke}
+          />
+          <circle cx={A.x} cy={A.y} r={a} fill="none" stroke="#94a3b8" strokeWidth={stroke} strokeDasharray={`${2 * stroke},${3 * stroke}`} />
+          <line x1={A.x} y1={A.y} x2={D.x} y2={D.y} stroke="#334155" strokeWidth={2 * stroke} strokeDasharray={`${5 * stroke},${3 * stroke}`} opacity={0.5} />
+
+          {/* Stretched-out and folded toggle positions */}
+          <line x1={B1.x} y1={B1.y} x2={C1.x} y2={C1.y} stroke="#4f46e5" strokeWidth={2 * stroke} />
+          <line x1={B2.x} y1={B2.y} x2={C2.x} y2={C2.y} stroke="#d97706" strokeWidth={2 * stroke} />
+          <line x1={A.x} y1={A.y} x2={B1.x} y2={B1.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={A.x} y1={A.y} x2={B2.x} y2={B2.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={D.x} y1={D.y} x2={C1.x} y2={C1.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={D.x} y1={D.y} x2={C2.x} y2={C2.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+
+          {[A, D].map((p, i) => (
+            <circle key={`ground-${i}`} cx={p.x} cy={p.y} r={3 * stroke} fill="white" stroke="#1e293b" strokeWidth={1.5 * stroke} />
+          ))}
+          {[B1, B2, C1, C2].map((p, i) => (
+            <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={2.5 * stroke} fill="white" stroke="#1e293b" strokeWidth={stroke} />
+          ))}
+        </g>
+
+        {/* Labels drawn unflipped */}
+        {[{ p: A, label: 'A' }, { p: D, label: 'D' }, { p: C1, label: 'C₁' }, { p: C2, label: 'C₂' }, { p: B1, label: 'B₁' }, { p: B2, label: 'B₂' }].map(({ p, label }) => (
+          <text key={label} x={p.x + fontSize * 0.6} y={-p.y - fontSize * 0.6} className="fill-slate-600 font-bold" style={{fontSize: `${fontSize}px`}}>
+            {label}
+          </text>
+        ))}
+      </svg>
+    );
+  }
+
+  const specSliders = [
+    { label: 'Rocker Length (c)', min: LINK_LENGTH_BOUNDS.output.min, max: LINK_LENGTH_BOUNDS.output.max, step: 1, value: rocker, unit: '', set: setRocker },
+    { label: 'Swing Angle (φ)', min: 5, max: 150, step: 1, value: swingAngle, unit: '°', set: setSwingAngle },
+    { label: 'Time Ratio (Q)', min: 1, max: 2.5, step: 0.01, value: timeRatio, unit: '', set: setTimeRatio },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          {drawing}
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 max-w-xs">
+            C₁ and C₂ are the rocker's extreme positions. The crank pivot A lies on the dashed circle, which sees C₁C₂ under
+            δ = 180°·(Q − 1)/(Q + 1) = {((180 * (timeRatio - 1)) / (timeRatio + 1)).toFixed(1)}°.
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Requirements</h2>
+          <div className="space-y-4">
+            {specSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{s.step < 1 ? s.value.toFixed(2) : s.value}{s.unit}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  step={s.step}
+                  value={s.value}
+                  onChange={(e) => s.set(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Crank Pivot</h2>
+          <div className="space-y-4">
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {[false, true].map((farSide) => (
+                <button
+                  key={String(farSide)}
+                  onClick={() => setPivot({ ...pivot, farSide })}
+                  className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                    pivot.farSide === farSide ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {farSide ? 'Beyond C₁C₂' : 'Rocker side of C₁C₂'}
+                </button>
+              ))}
+            </div>
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-sm font-medium text-slate-600">Distance A–C₂ (b − a)</label>
+                <span className="text-sm font-bold text-indigo-600">{pivot.foldedDistance.toFixed(1)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={pivotLimit}
+                step={pivotLimit / 500}
+                value={pivot.foldedDistance}
+                onChange={(e) => setPivot({ ...pivot, foldedDistance: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+            </div>
+            <button
+              onClick={applyBestPivot}
+              className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              <Target size={18} /> Best Transmission Angle
+            </button>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+          {result.isValid && result.design ? (
+            <div className="space-y-2 text-sm text-slate-600">
+              {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="capitalize">{key}</span>
+                  <span className="font-mono">{result.design.lengths[key].toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Transmission angle μ</span>
+                <span className={`font-mono ${transmissionOk ? '' : 'text-red-600 font-bold'}`}>
+                  {result.transmission.min.toFixed(1)}° – {result.transmission.max.toFixed(1)}°
+                </span>
+              </div>
+              {!transmissionOk && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                  <strong>Warning:</strong> μ leaves the {minTransmission}°–{180 - minTransmission}° band. Move the crank
+                  pivot, or ask for a smaller swing or time ratio.
+                </div>
+              )}
+              {outOfRange && (
+                <p className="text-xs text-slate-400 italic">Some lengths fall outside the simulator's slider ranges.</p>
+              )}
+              <button
+                onClick={() => onLoadDesign(result.design)}
+                className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Upload size={18} /> Load into Simulator
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-red-600">{result.error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrankRockerPanel;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DesignLibraryEntry, DesignParseResult, DrawingFormat, SavedDesign } from '../types.ts';
+import { designToUrl, parseDesign, readDesignLibrary, serializeDesign, writeDesignLibrary } from '../utils/designfile.ts';
+import { downloadFile } from '../utils/download.ts';
+import { Download, FileImage, FolderOpen, Link, Save, Trash2 } from 'lucide-react';
+
+interface DesignPanelProps {
+  design: SavedDesign;
+  onOpenDesign: (design: SavedDesign) => void;
+  linkErrors: string[]; // Problems with a design the page was opened with
+  onExportDrawing: (format: DrawingFormat) => void;
+  canExportGeometry: boolean; // DXF and the animation need the planar four-bar
+}
+
+const DRAWING_EXPORTS: { format: DrawingFormat, label: string, geometry: boolean }[] = [
+  { format: 'svg', label: 'SVG', geometry: false },
+  { format: 'dxf', label: 'DXF', geometry: true },
+  { format: 'animated-svg', label: 'Animated SVG', geometry: true },
+];
+
+const DesignPanel: React.FC<DesignPanelProps> = ({ design, onOpenDesign, linkErrors, onExportDrawing, canExportGeometry }) => {
+  const [name, setName] = useState('');
+  const [library, setLibrary] = useState<DesignLibraryEntry[]>(readDesignLibrary);
+  const [status, setStatus] = useState<{ message: string, errors: string[] } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (linkErrors.length > 0) setStatus({ message: 'The link\'s design could not be opened:', errors: linkErrors });
+  }, [linkErrors]);
+
+  const open = (result: DesignParseResult, source: string) => {
+    if (result.design) {
+      onOpenDesign(result.design);
+      setStatus({ message: `Opened ${source}.`, errors: [] });
+    } else {
+      setStatus({ message: `${source} could not be opened:`, errors: result.errors });
+    }
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    open(parseDesign(await file.text()), file.name);
+  };
+
+  const copyLink = async () => {
+    const url = designToUrl(design, window.location.href);
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ message: 'Link copied to the clipboard.', errors: [] });
+    } catch {
+      setStatus({ message: 'The link is in the address bar; copy it from there.', errors: [] });
+    }
+  };
+
+  const updateLibrary = (entries: DesignLibraryEntry[]) => {
+    writeDesignLibrary(entries);
+    setLibrary(entries);
+  };
+
+  // Saving under a name already in the library replaces that entry
+  const saveToLibrary = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const entry = { name: trimmed, savedAt: new Date().toISOString(), design };
+    updateLibrary([...library.filter(e => e.name !== trimmed), entry].sort((p, q) => p.name.localeCompare(q.name)));
+    setStatus({ message: `Saved "${trimmed}" in this browser.`, errors: [] });
+  };
+
+  const fileName = `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'linkage'}.json`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Designs</h2>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => downloadFile(fileName, serializeDesign(design), 'application/json')}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Download size={14} /> Save file
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <FolderOpen size={14} /> Open file
+        </button>
+        <button
+          onClick={copyLink}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Link size={14} /> Copy link
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            openFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && (
+        <div className={`mt-3 p-2 rounded text-xs ${status.errors.length > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {status.message}
+          {status.errors.length > 0 && (
+            <ul className="mt-1 list-disc list-inside space-y-0.5">
+              {status.errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Library</span>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="Design name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveToLibrary()}
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+          />
+          <button
+            onClick={saveToLibrary}
+            disabled={!name.trim()}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-indigo-600 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-40"
+          >
+            <Save size={14} /> Save
+          </button>
+        </div>
+        {library.length > 0 ? (
+          <ul className="mt-3 space-y-1 text-sm text-slate-600">
+            {library.map((entry) => (
+              <li key={entry.name} className="flex items-center justify-between gap-2 border-b border-slate-50 pb-1">
+                <button
+                  onClick={() => {
+                    setName(entry.name);
+                    open({ design: entry.design, errors: [] }, `"${entry.name}"`);
+                  }}
+                  className="truncate text-left hover:text-indigo-600"
+                  title={entry.savedAt && `Saved ${new Date(entry.savedAt).toLocaleString()}`}
+                >
+                  {entry.name}
+                  <span className="ml-2 text-xs text-slate-400 capitalize">{entry.design.mechanismType}</span>
+                </button>
+                <button
+                  onClick={() => updateLibrary(library.filter(e => e.name !== entry.name))}
+                  className="text-slate-400 hover:text-red-600"
+                  aria-label={`Delete ${entry.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-400 italic mt-2">Designs saved here stay in this browser.</p>
+        )}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Export Drawing</span>
+        <div className="flex flex-wrap gap-2">
+          {DRAWING_EXPORTS.map((e) => (
+            <button
+              key={e.format}
+              onClick={() => onExportDrawing(e.format)}
+              disabled={e.geometry && !canExportGeometry}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+            >
+              <FileImage size={14} /> {e.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400 italic mt-2">
+          SVG saves the pose as shown. DXF holds link centerlines, pivots and the coupler curve for CAD; the animated SVG loops one input cycle.
+          {!canExportGeometry && ' Both need the planar four-bar.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DesignPanel;
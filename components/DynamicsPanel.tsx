@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { DynamicAnalysis, InversionLayout, LinkLengths, LinkMass, LinkModel, StaticAnalysis } from '../types.ts';
+import { dynamicsCycleToCsv, uniformBars } from '../utils/dynamics.ts';
+import { downloadFile } from '../utils/download.ts';
+import LineChart, { unsolvedRanges } from './LineChart.tsx';
+import { Download } from 'lucide-react';
+
+interface DynamicsPanelProps {
+  lengths: LinkLengths;
+  masses: LinkModel['masses'];
+  onMassesChange: (masses: LinkModel['masses']) => void;
+  layout: InversionLayout;
+  omegaInput: number;
+  dynamics: DynamicAnalysis;
+  cycle: { angle: number, dynamics: DynamicAnalysis }[];
+  staticsCycle: { angle: number, statics: StaticAnalysis }[];
+  angle: number;
+}
+
+type MassField = 'mass' | 'comX' | 'comY' | 'inertia';
+
+const MASS_FIELDS: { key: MassField, label: string }[] = [
+  { key: 'mass', label: 'm' },
+  { key: 'comX', label: 'G x' },
+  { key: 'comY', label: 'G y' },
+  { key: 'inertia', label: 'I_G' },
+];
+
+const DynamicsPanel: React.FC<DynamicsPanelProps> = ({
+  lengths,
+  masses,
+  onMassesChange,
+  layout,
+  omegaInput,
+  dynamics,
+  cycle,
+  staticsCycle,
+  angle
+}) => {
+  const [density, setDensity] = useState<number>(0.01);
+
+  const fieldValue = (props: LinkMass, key: MassField) =>
+    key === 'comX' ? props.com.x : key === 'comY' ? props.com.y : props[key];
+  const setField = (role: keyof LinkLengths, key: MassField, value: number) => {
+    const props = masses[role];
+    const next = key === 'comX' ? { ...props, com: { ...props.com, x: value } }
+      : key === 'comY' ? { ...props, com: { ...props.com, y: value } }
+      : { ...props, [key]: value };
+    onMassesChange({ ...masses, [role]: next });
+  };
+
+  const shaded = unsolvedRanges(cycle.map(s => ({ x: s.angle, valid: s.dynamics.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+  const pick = (f: (d: DynamicAnalysis) => number) =>
+    cycle.map(s => ({ x: s.angle, y: s.dynamics.isValid ? f(s.dynamics) : NaN }));
+
+  const pins = (['A', 'B', 'C', 'D'] as const).map(key => ({ key, name: layout.joints[key] }));
+  const pinColors = ['#475569', '#4f46e5', '#0d9488', '#d97706'];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Dynamic Forces</h2>
+        <button
+          onClick={() => downloadFile('linkage-dynamics.csv', dynamicsCycleToCsv(cycle, layout), 'text/csv')}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Download size={14} /> Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Mass Properties</span>
+          <table className="w-full text-xs text-slate-600">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-medium pb-1">Link</th>
+                {MASS_FIELDS.map(f => <th key={f.key} className="text-left font-medium pb-1 pl-1">{f.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {(['input', 'coupler', 'output', 'frame'] as const).map((role) => {
+                const grounded = layout.links.frame === role;
+                return (
+                  <tr key={role} className={grounded ? 'opacity-40' : ''}>
+                    <td className="capitalize pr-1">{role}{grounded ? ' (ground)' : ''}</td>
+                    {MASS_FIELDS.map(f => (
+                      <td key={f.key} className="pl-1 py-0.5">
+                        <input
+                          type="number"
+                          step="any"
+                          disabled={grounded}
+                          value={+fieldValue(masses[role], f.key).toPrecision(6)}
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (!isNaN(v) && (f.key === 'comX' || f.key === 'comY' || v >= 0)) setField(role, f.key, v);
+                          }}
+                          className="w-full px-1.5 py-0.5 rounded border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={() => onMassesChange(uniformBars(lengths, density))}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Uniform bars
+            </button>
+            <span className="text-xs text-slate-500">mass per unit length</span>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={density}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v) && v >= 0) setDensity(v);
+              }}
+              className="w-20 px-1.5 py-0.5 rounded border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+          </div>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            G is measured from each link's first joint along and across the link. Use consistent units; the
+            input turns at a constant ω₂ = {omegaInput} rad/s, and the applied load above is included.
+          </p>
+        </div>
+
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">At θ = {Math.round(angle)}°</span>
+          {dynamics.isValid ? (
+            <div className="space-y-1 font-mono text-xs text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1 text-sm">
+                <span className="font-sans capitalize">Driving torque on {layout.links.input}</span>
+                <span className="font-bold text-indigo-600">{dynamics.inputTorque.toFixed(1)}</span>
+              </div>
+              {pins.map((p, i) => {
+                const f = dynamics[`pin${p.key}`];
+                return (
+                  <div key={p.key} className="flex justify-between">
+                    <span style={{ color: pinColors[i] }}>Pin {p.name}</span>
+                    <span>|F| {Math.hypot(f.x, f.y).toFixed(1)}</span>
+                  </div>
+                );
+              })}
+              <div className="flex justify-between border-t border-slate-50 pt-1">
+                <span>Shaking force</span>
+                <span>({dynamics.shakingForce.x.toFixed(1)}, {dynamics.shakingForce.y.toFixed(1)})</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Shaking moment about {layout.joints.A}</span>
+                <span>{dynamics.shakingMoment.toFixed(1)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              No dynamic solution here: the linkage is open or at a dead point.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[
+            { label: 'Dynamic', color: '#4f46e5', points: pick(d => d.inputTorque) },
+            {
+              label: 'Static only',
+              color: '#94a3b8',
+              dashed: true,
+              points: staticsCycle.map(s => ({ x: s.angle, y: s.statics.inputTorque })),
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Driving torque"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={pins.map((p, i) => ({
+            label: `Pin ${p.name}`,
+            color: pinColors[i],
+            points: pick(d => Math.hypot(d[`pin${p.key}`].x, d[`pin${p.key}`].y)),
+          }))}
+          xLabel="Input angle θ (°)"
+          yLabel="Pin force |F|"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[
+            { label: 'Fx', color: '#dc2626', points: pick(d => d.shakingForce.x) },
+            { label: 'Fy', color: '#2563eb', points: pick(d => d.shakingForce.y) },
+            { label: '|F|', color: '#334155', dashed: true, points: pick(d => Math.hypot(d.shakingForce.x, d.shakingForce.y)) },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Shaking force"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[{ label: 'Shaking moment', color: '#c026d3', points: pick(d => d.shakingMoment) }]}
+          xLabel="Input angle θ (°)"
+          yLabel="Shaking moment"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DynamicsPanel;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { InversionLayout, StaticAnalysis, StaticLoad } from '../types.ts';
+import LineChart, { unsolvedRanges } from './LineChart.tsx';
+
+interface ForcePanelProps {
+  load: StaticLoad;
+  onLoadChange: (load: StaticLoad) => void;
+  statics: StaticAnalysis;
+  cycle: { angle: number, statics: StaticAnalysis }[];
+  angle: number;
+  layout: InversionLayout;
+  showForces: boolean;
+  onShowForcesChange: (show: boolean) => void;
+}
+
+const PIN_COLORS = { A: '#475569', B: '#4f46e5', C: '#0d9488', D: '#d97706' };
+
+const ForcePanel: React.FC<ForcePanelProps> = ({
+  load,
+  onLoadChange,
+  statics,
+  cycle,
+  angle,
+  layout,
+  showForces,
+  onShowForcesChange
+}) => {
+  const pins = (['A', 'B', 'C', 'D'] as const).map(key => ({
+    key,
+    name: layout.joints[key],
+    force: statics[`pin${key}`],
+    color: PIN_COLORS[key],
+  }));
+  const magnitude = (v: { x: number, y: number }) => Math.hypot(v.x, v.y);
+
+  const fields = [
+    { label: 'Force Fx', value: load.force.x, set: (v: number) => onLoadChange({ ...load, force: { ...load.force, x: v } }) },
+    { label: 'Force Fy', value: load.force.y, set: (v: number) => onLoadChange({ ...load, force: { ...load.force, y: v } }) },
+    { label: `Torque on ${layout.links.output}`, value: load.outputTorque, set: (v: number) => onLoadChange({ ...load, outputTorque: v }) },
+  ];
+
+  const shaded = unsolvedRanges(cycle.map(s => ({ x: s.angle, valid: s.statics.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Static Forces</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Applied Load</span>
+          <div className="grid grid-cols-3 gap-3">
+            {fields.map((f) => (
+              <label key={f.label} className="text-xs font-medium text-slate-600 capitalize">
+                {f.label}
+                <input
+                  type="number"
+                  step="any"
+                  value={f.value}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (!isNaN(v)) f.set(v);
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 mt-3">
+            <span className="text-xs text-slate-500">Force acts at</span>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {(['C', 'couplerPoint'] as const).map((at) => (
+                <button
+                  key={at}
+                  onClick={() => onLoadChange({ ...load, forceAt: at })}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    load.forceAt === at ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {at === 'C' ? `Joint ${layout.joints.C}` : 'Coupler point P'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={showForces}
+              onChange={(e) => onShowForcesChange(e.target.checked)}
+              className="accent-orange-600"
+            />
+            Show force vectors
+          </label>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Global X/Y components; torques are counter-clockwise positive. Links are massless and pins frictionless.
+          </p>
+        </div>
+
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">At θ = {Math.round(angle)}°</span>
+          {statics.isValid ? (
+            <div className="space-y-1 font-mono text-xs text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1 text-sm">
+                <span className="font-sans capitalize">Input torque on {layout.links.input}</span>
+                <span className="font-bold text-indigo-600">{statics.inputTorque.toFixed(1)}</span>
+              </div>
+              {pins.map((p) => (
+                <div key={p.key} className="flex justify-between">
+                  <span style={{ color: p.color }}>Pin {p.name}</span>
+                  <span>
+                    |F| {magnitude(p.force).toFixed(1)} ({p.force.x.toFixed(1)}, {p.force.y.toFixed(1)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              No static solution here: the linkage is open or at a dead point.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[{
+            label: 'Input torque',
+            color: '#4f46e5',
+            points: cycle.map(s => ({ x: s.angle, y: s.statics.inputTorque })),
+          }]}
+          xLabel="Input angle θ (°)"
+          yLabel="Input torque"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={pins.map(p => ({
+            label: `Pin ${p.name}`,
+            color: p.color,
+            points: cycle.map(s => ({
+              x: s.angle,
+              y: s.statics.isValid ? magnitude(s.statics[`pin${p.key}`]) : NaN,
+            })),
+          }))}
+          xLabel="Input angle θ (°)"
+          yLabel="Pin force |F|"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ForcePanel;
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { LinkageDesign } from '../types.ts';
+import { compileExpression } from '../utils/expression.ts';
+import { chebyshevSpacing, synthesizeFunctionGenerator } from '../utils/synthesis.ts';
+import { determineGrashof } from '../utils/kinematics.ts';
+import LineChart from './LineChart.tsx';
+import { Upload } from 'lucide-react';
+
+interface FunctionGeneratorPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+const PRESETS = ['log10(x)', 'x^2', 'sin(x)', '1/x', 'exp(x)', 'sqrt(x)'];
+
+const FunctionGeneratorPanel: React.FC<FunctionGeneratorPanelProps> = ({ onLoadDesign }) => {
+  const [expression, setExpression] = useState<string>('log10(x)');
+  const [xStart, setXStart] = useState<number>(1);
+  const [xEnd, setXEnd] = useState<number>(10);
+  const [inputStart, setInputStart] = useState<number>(15);
+  const [inputRange, setInputRange] = useState<number>(60);
+  const [outputStart, setOutputStart] = useState<number>(75);
+  const [outputRange, setOutputRange] = useState<number>(90);
+  const [frame, setFrame] = useState<number>(200);
+  const [precisionPoints, setPrecisionPoints] = useState<number[]>(chebyshevSpacing(1, 10));
+
+  const compiled = useMemo(() => compileExpression(expression), [expression]);
+  const result = useMemo(() => compiled.fn
+    ? synthesizeFunctionGenerator({
+        fn: compiled.fn, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame, precisionPoints
+      })
+    : null,
+    [compiled, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame, precisionPoints]
+  );
+  const grashof = result?.design ? determineGrashof(result.design.lengths) : null;
+
+  const setRange = (start: number, end: number) => {
+    setXStart(start);
+    setXEnd(end);
+    setPrecisionPoints(chebyshevSpacing(start, end));
+  };
+
+  const numberField = (label: string, value: number, onChange: (v: number) => void, unit: string = '') => (
+    <label className="text-sm font-medium text-slate-600">
+      {label}{unit && <span className="text-slate-400"> ({unit})</span>}
+      <input
+        type="number"
+        step="any"
+        value={+value.toFixed(4)}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          if (!isNaN(v)) onChange(v);
+        }}
+        className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+      />
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800 mb-1 border-b pb-2">Structural Error</h2>
+          <p className="text-xs text-slate-400 mb-4 italic">
+            Output angle error (achieved − desired) across the x range. It vanishes at the precision points (dashed).
+          </p>
+          {result?.isValid ? (
+            <LineChart
+              series={[{ label: 'Error', color: '#4f46e5', points: result.structuralError.map(p => ({ x: p.x, y: p.error })) }]}
+              xLabel="x"
+              yLabel="Output error (°)"
+              xDomain={[Math.min(xStart, xEnd), Math.max(xStart, xEnd)]}
+              markers={precisionPoints}
+            />
+          ) : (
+            <p className="text-sm text-red-600">{compiled.error ?? result?.error}</p>
+          )}
+        </div>
+
+        {result?.isValid && result.design && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Designed Linkage</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2 text-sm text-slate-600">
+                {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                  <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                    <span className="capitalize">{key}</span>
+                    <span className="font-mono">{result.design.lengths[key].toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2 text-sm text-slate-600">
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Type</span>
+                  <span className="font-medium text-indigo-600">{grashof?.type}</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Max structural error</span>
+                  <span className="font-mono">{result.maxError.toFixed(3)}°</span>
+                </div>
+                {!result.coversRange && (
+                  <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                    <strong>Warning:</strong> The linkage cannot assemble over the whole x range on one branch.
+                  </div>
+                )}
+                {result.branchDefect && (
+                  <div className="p-3 bg-red-50 text-red-700 rounded text-xs leading-relaxed">
+                    <strong>Branch defect:</strong> The precision points are met on different assembly branches.
+                  </div>
+                )}
+                <button
+                  onClick={() => onLoadDesign(result.design)}
+                  className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  <Upload size={18} /> Load into Simulator
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Target Function</h2>
+          <label className="text-sm font-medium text-slate-600">
+            y = f(x)
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              className={`mt-1 w-full px-2 py-1 rounded-lg border font-mono text-sm text-slate-700 focus:outline-none ${
+                compiled.error ? 'border-red-300 focus:border-red-400' : 'border-slate-200 focus:border-indigo-400'
+              }`}
+            />
+          </label>
+          {compiled.error && <p className="text-xs text-red-600 mt-1">{compiled.error}</p>}
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {PRESETS.map((p) => (
+              <button
+                key={p}
+                onClick={() => setExpression(p)}
+                className="px-2 py-0.5 rounded bg-slate-100 text-xs font-mono text-slate-600 hover:bg-slate-200"
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            {numberField('x start', xStart, v => setRange(v, xEnd))}
+            {numberField('x end', xEnd, v => setRange(xStart, v))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Angle Mapping</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('Input start φ₀', inputStart, setInputStart, '°')}
+            {numberField('Input range Δφ', inputRange, setInputRange, '°')}
+            {numberField('Output start ψ₀', outputStart, setOutputStart, '°')}
+            {numberField('Output range Δψ', outputRange, setOutputRange, '°')}
+            {numberField('Frame length d', frame, v => v > 0 && setFrame(v))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Precision Points</h2>
+            <button
+              onClick={() => setPrecisionPoints(chebyshevSpacing(xStart, xEnd))}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Chebyshev spacing
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {precisionPoints.map((x, i) =>
+              <React.Fragment key={i}>
+                {numberField(`x${i + 1}`, x, v => setPrecisionPoints(precisionPoints.map((p, k) => (k === i ? v : p))))}
+              </React.Fragment>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FunctionGeneratorPanel;
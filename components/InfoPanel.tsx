@@ -1,12 +1,38 @@
 import React from 'react';
-import { GrashofType, LinkLengths, LinkRole } from '../types.ts';
+import { BarkerType, GrashofInfo, LinkLengths, LinkRole, MotionAnalysis, TransmissionAngleInfo, Inversion, QuickReturnInfo, InstantCenterAnalysis, InstantCenter } from '../types.ts';
+import LineChart, { unsolvedRanges } from './LineChart.tsx';
 
 interface InfoPanelProps {
-  grashofInfo: { type: GrashofType, shortest: LinkRole, longest: LinkRole };
+  grashofInfo: GrashofInfo;
   lengths: LinkLengths;
+  motion: MotionAnalysis;
+  transmission: TransmissionAngleInfo;
+  transmissionBand: { min: number, max: number };
+  inversion: Inversion;
+  driverFullRotation: boolean;
+  quickReturn: QuickReturnInfo | null;
+  instantCenters: InstantCenterAnalysis;
+  instantCenterCycle: { angle: number, centers: InstantCenterAnalysis }[];
+  angle: number;
 }
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
+// Mechanical advantage runs off to infinity at the output's dead points, so
+// the chart leaves out anything beyond this
+const RATIO_PLOT_LIMIT = 10;
+
+const InfoPanel: React.FC<InfoPanelProps> = ({
+  grashofInfo,
+  lengths,
+  motion,
+  transmission,
+  transmissionBand,
+  inversion,
+  driverFullRotation,
+  quickReturn,
+  instantCenters,
+  instantCenterCycle,
+  angle
+}) => {
   const { frame: d, input: a, coupler: b, output: c } = lengths;
   
   // Identify S, L, P, Q explicitly for display
@@ -18,8 +44,20 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
   
   const sumSL = S + L;
   const sumPQ = P + Q;
-  
-  const isGrashof = sumSL <= sumPQ;
+  const { margin } = grashofInfo;
+  const isInvalid = grashofInfo.type === BarkerType.INVALID;
+  const roles = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+  const signOf = (t: number) => t > 0 ? '+' : t < 0 ? '−' : '0';
+
+  const inBand = (mu: number) => mu >= transmissionBand.min && mu <= transmissionBand.max;
+  const formatMu = (mu: number) => isFinite(mu) ? `${mu.toFixed(1)}°` : '—';
+  const formatRatio = (r: number) => isFinite(r) ? r.toFixed(3) : r === Infinity ? '∞' : '—';
+  const formatCenter = (center?: InstantCenter) => !center || isNaN(center.point.x) ? '—'
+    : center.atInfinity ? `∞ at ${(Math.atan2(center.point.y, center.point.x) * 180 / Math.PI).toFixed(1)}°`
+    : `(${center.point.x.toFixed(1)}, ${center.point.y.toFixed(1)})`;
+  const clipped = (r: number) => Math.abs(r) <= RATIO_PLOT_LIMIT ? r : NaN;
+  const centerShaded = unsolvedRanges(instantCenterCycle.map(s => ({ x: s.angle, valid: s.centers.isValid })));
+  const cycleOutOfBand = isFinite(transmission.min) && (!inBand(transmission.min) || !inBand(transmission.max));
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -29,7 +67,7 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
         <div>
            <div className="mb-4">
              <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Mechanism Type</span>
-             <span className={`text-xl font-bold ${grashofInfo.type === GrashofType.INVALID ? 'text-red-600' : 'text-indigo-600'}`}>
+             <span className={`text-xl font-bold ${isInvalid ? 'text-red-600' : 'text-indigo-600'}`}>
                {grashofInfo.type}
              </span>
            </div>
@@ -37,22 +75,36 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
            <div className="mb-4">
              <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Grashof Condition</span>
              <div className="flex items-center gap-3 font-mono text-sm bg-slate-50 p-2 rounded border border-slate-100">
-                <div className={sumSL <= sumPQ ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                <div className={margin >= 0 ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
                    S + L = {sumSL}
                 </div>
                 <div className="text-slate-400">
-                   {sumSL < sumPQ ? "<" : sumSL > sumPQ ? ">" : "="}
+                   {margin > 0 ? "<" : margin < 0 ? ">" : "="}
                 </div>
                 <div className="text-slate-700">
                    P + Q = {sumPQ}
                 </div>
              </div>
              <p className="text-xs text-slate-400 mt-1 italic">
-               {isGrashof 
-                 ? "Condition Met: At least one link can rotate fully." 
-                 : "Condition Failed: No link makes a full revolution (Triple Rocker)."}
+               {margin > 0 && "Condition Met: The shortest link can rotate fully."}
+               {margin === 0 && "Change Point: The links can fold flat and switch branches."}
+               {margin < 0 && "Condition Failed: No link makes a full revolution (Triple Rocker)."}
              </p>
            </div>
+
+           {!isInvalid && (
+             <div className="mb-4">
+               <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Barker Characteristics</span>
+               <div className="flex gap-4 font-mono text-sm text-slate-700">
+                 {grashofInfo.characteristics.map((t, i) => (
+                   <span key={i}>T{i + 1} {signOf(t)}</span>
+                 ))}
+               </div>
+               <p className="text-xs text-slate-400 mt-1 italic">
+                 Signs of g + c − a − b, b + g − a − c and b + c − a − g for ground g, driver a, coupler b, output c.
+               </p>
+             </div>
+           )}
         </div>
 
         <div className="space-y-2 text-sm text-slate-600">
@@ -64,13 +116,148 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
                <span>Longest Link (L)</span>
                <span className="font-medium capitalize text-red-500">{grashofInfo.longest} ({L})</span>
              </div>
-             <div className="mt-4 p-3 bg-blue-50 text-blue-800 rounded text-xs leading-relaxed">
-                <strong>Did you know?</strong> 
-                {grashofInfo.type === GrashofType.CRANK_ROCKER && " In a Crank-Rocker, the shortest link is adjacent to the frame and acts as the input."}
-                {grashofInfo.type === GrashofType.DOUBLE_CRANK && " In a Double-Crank (Drag-Link), the shortest link is the frame. Both input and output rotate fully."}
-                {grashofInfo.type === GrashofType.DOUBLE_ROCKER_I && " In a Grashof Double-Rocker, the coupler is the shortest link. It makes a full turn relative to the others, but input/output only rock."}
-                {grashofInfo.type === GrashofType.DOUBLE_ROCKER_II && " In a Non-Grashof Double-Rocker, no link can rotate 360 degrees."}
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Ground Link</span>
+               <span className="font-medium capitalize">{inversion.ground}</span>
+             </div>
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Driver</span>
+               <span className="font-medium capitalize">
+                 {inversion.driver} ({driverFullRotation ? 'crank' : 'rocker'})
+               </span>
              </div>
+             {!isInvalid && (
+               <div className="mt-4 p-3 bg-blue-50 text-blue-800 rounded text-xs leading-relaxed">
+                  <strong>Full rotation:</strong>
+                  {margin > 0 && ` The shortest link (${grashofInfo.shortest}) turns fully relative to every other link. All other pairs only oscillate.`}
+                  {margin === 0 && " The chain passes through change points, where it folds flat. Turning past them lets these pairs rotate fully:"}
+                  {margin < 0 && " No link turns fully relative to any other. Every joint oscillates."}
+                  {margin >= 0 && (
+                    <ul className="mt-2 space-y-0.5">
+                      {roles.map((role) => (
+                        <li key={role} className="flex justify-between gap-2">
+                          <span className="capitalize font-medium">{role}</span>
+                          <span className="text-right">
+                            {grashofInfo.fullRotation[role].length > 0 ? `↻ ${grashofInfo.fullRotation[role].join(', ')}` : 'rocks only'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+               </div>
+             )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Transmission Angle (μ)</span>
+        <div className="grid grid-cols-3 gap-4 font-mono text-sm">
+          <div>
+            <span className="block text-xs text-slate-400">Current</span>
+            <span className={`font-bold ${isFinite(transmission.current) && !inBand(transmission.current) ? 'text-red-600' : 'text-slate-700'}`}>
+              {formatMu(transmission.current)}
+            </span>
+          </div>
+          <div>
+            <span className="block text-xs text-slate-400">Min over cycle</span>
+            <span className="text-slate-700">{formatMu(transmission.min)}</span>
+          </div>
+          <div>
+            <span className="block text-xs text-slate-400">Max over cycle</span>
+            <span className="text-slate-700">{formatMu(transmission.max)}</span>
+          </div>
+        </div>
+        {cycleOutOfBand && (
+          <div className="mt-3 p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+            <strong>Warning:</strong> The transmission angle leaves the {transmissionBand.min}°–{transmissionBand.max}° band during the cycle.
+            Force transfer to the output becomes poor and the linkage may bind near those positions.
+          </div>
+        )}
+      </div>
+
+      {(grashofInfo.type === BarkerType.GCRR || grashofInfo.type === BarkerType.GRRC) && (
+        <div className="mt-6 pt-4 border-t border-slate-100">
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Quick Return</span>
+          {quickReturn ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 font-mono text-sm">
+              <div>
+                <span className="block text-xs text-slate-400">Rocker swing</span>
+                <span className="text-slate-700">{quickReturn.swingAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Working stroke</span>
+                <span className="text-slate-700">{quickReturn.workingCrankAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Return stroke</span>
+                <span className="text-slate-700">{quickReturn.returnCrankAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Time ratio Q</span>
+                <span className="font-bold text-indigo-600">{quickReturn.timeRatio.toFixed(3)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              The driver is the rocker. Drive the crank ({grashofInfo.shortest}) to get a quick-return motion.
+            </p>
+          )}
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Crank angles between the toggle positions; at constant crank speed Q is the ratio of the stroke times.
+          </p>
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Velocity &amp; Acceleration</span>
+        {motion.isValid ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 font-mono text-xs text-slate-600">
+            <div className="flex justify-between"><span>ω₃</span><span>{motion.omegaCoupler.toFixed(3)} rad/s</span></div>
+            <div className="flex justify-between"><span>ω₄</span><span>{motion.omegaOutput.toFixed(3)} rad/s</span></div>
+            <div className="flex justify-between"><span>α₃</span><span>{motion.alphaCoupler.toFixed(3)} rad/s²</span></div>
+            <div className="flex justify-between"><span>α₄</span><span>{motion.alphaOutput.toFixed(3)} rad/s²</span></div>
+            <div className="flex justify-between text-blue-600"><span>|v_B|</span><span>{Math.hypot(motion.velB.x, motion.velB.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-blue-600"><span>|v_C|</span><span>{Math.hypot(motion.velC.x, motion.velC.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-fuchsia-600"><span>|a_B|</span><span>{Math.hypot(motion.accB.x, motion.accB.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-fuchsia-600"><span>|a_C|</span><span>{Math.hypot(motion.accC.x, motion.accC.y).toFixed(1)}</span></div>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 italic">Undefined at this position (dead point or open loop).</p>
+        )}
+      </div>
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Instant Centers</span>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-1 font-mono text-xs text-slate-600">
+            <div className="flex justify-between"><span>I₁₃ (coupler pole)</span><span>{formatCenter(instantCenters.centers.find(c => c.name === '13'))}</span></div>
+            <div className="flex justify-between"><span>I₂₄</span><span>{formatCenter(instantCenters.centers.find(c => c.name === '24'))}</span></div>
+            <div className="flex justify-between"><span>ω₄ / ω₂</span><span>{formatRatio(instantCenters.velocityRatio)}</span></div>
+            <div className="flex justify-between"><span>ω₃ / ω₂</span><span>{formatRatio(instantCenters.couplerRatio)}</span></div>
+            <div className="flex justify-between font-bold text-pink-700"><span>Mechanical advantage</span><span>{formatRatio(instantCenters.mechanicalAdvantage)}</span></div>
+            <p className="font-sans text-slate-400 pt-2 italic">
+              Links are numbered 1 ground, 2 driver, 3 coupler, 4 output. The advantage is the ideal torque ratio T₄ / T₂ = ω₂ / ω₄;
+              it grows without bound as the output reaches a dead point.
+            </p>
+          </div>
+          <LineChart
+            series={[
+              {
+                label: 'ω₄ / ω₂',
+                color: '#4f46e5',
+                points: instantCenterCycle.map(s => ({ x: s.angle, y: clipped(s.centers.velocityRatio) })),
+              },
+              {
+                label: 'Mechanical advantage',
+                color: '#be185d',
+                points: instantCenterCycle.map(s => ({ x: s.angle, y: clipped(s.centers.mechanicalAdvantage) })),
+              },
+            ]}
+            xLabel="Input angle θ (°)"
+            yLabel={`Ratio (clipped to ±${RATIO_PLOT_LIMIT})`}
+            xDomain={[0, 360]}
+            cursorX={((angle % 360) + 360) % 360}
+            shadedX={centerShaded}
+          />
         </div>
       </div>
     </div>
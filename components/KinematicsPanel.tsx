@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { InversionLayout, KinematicSample } from '../types.ts';
+import LineChart, { unsolvedRanges } from './LineChart.tsx';
+import { Download } from 'lucide-react';
+
+interface KinematicsPanelProps {
+  sweep: KinematicSample[];
+  angle: number;
+  layout: InversionLayout;
+  transmissionBand: { min: number, max: number };
+  onExportSweep: (format: 'csv' | 'json', step: number) => void;
+}
+
+// Input angle steps (degrees) the sweep table may be sampled at
+const SWEEP_STEP_BOUNDS = { min: 0.1, max: 90 };
+
+const KinematicsPanel: React.FC<KinematicsPanelProps> = ({ sweep, angle, layout, transmissionBand, onExportSweep }) => {
+  const [step, setStep] = useState(1);
+  const shaded = unsolvedRanges(sweep.map(s => ({ x: s.angle, valid: s.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+  const linkName = (role: string) => role.charAt(0).toUpperCase() + role.slice(1);
+  const hasRatio = sweep.some(s => isFinite(s.velocityRatio));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Kinematic Plots</h2>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600">
+            Step (°)
+            <input
+              type="number"
+              min={SWEEP_STEP_BOUNDS.min}
+              max={SWEEP_STEP_BOUNDS.max}
+              step="any"
+              value={step}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (v >= SWEEP_STEP_BOUNDS.min && v <= SWEEP_STEP_BOUNDS.max) setStep(v);
+              }}
+              className="w-16 px-2 py-1 rounded-lg border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+          </label>
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => onExportSweep(format, step)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              <Download size={14} /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[
+            {
+              label: `${linkName(layout.links.output)} angle`,
+              color: '#0d9488',
+              points: sweep.map(s => ({ x: s.angle, y: s.outputAngle })),
+            },
+            {
+              label: `${linkName(layout.links.coupler)} angle`,
+              color: '#4f46e5',
+              points: sweep.map(s => ({ x: s.angle, y: s.couplerAngle })),
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Link angle (°)"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[
+            {
+              label: 'Transmission angle μ',
+              color: '#059669',
+              points: sweep.map(s => ({ x: s.angle, y: s.transmissionAngle })),
+            },
+            {
+              label: `Band ${transmissionBand.min}°–${transmissionBand.max}°`,
+              color: '#94a3b8',
+              dashed: true,
+              points: [{ x: 0, y: transmissionBand.min }, { x: 360, y: transmissionBand.min }, { x: 360, y: NaN }, { x: 0, y: transmissionBand.max }, { x: 360, y: transmissionBand.max }],
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="μ (°)"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        {hasRatio && (
+          <LineChart
+            series={[{
+              label: 'ω₄ / ω₂',
+              color: '#2563eb',
+              points: sweep.map(s => ({ x: s.angle, y: s.velocityRatio })),
+            }]}
+            xLabel="Input angle θ (°)"
+            yLabel="Velocity ratio"
+            xDomain={[0, 360]}
+            cursorX={cursor}
+            shadedX={shaded}
+          />
+        )}
+      </div>
+      <p className="text-xs text-slate-400 mt-3 italic">
+        Link angles are measured from the global x axis and run on past ±180° so full turns read as one line. Shaded inputs are out of reach.
+        The exported table lists every joint and both link angles at the chosen step, under the Grashof classification.
+      </p>
+    </div>
+  );
+};
+
+export default KinematicsPanel;
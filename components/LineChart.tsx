@@ -0,0 +1,167 @@
+import React from 'react';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: { x: number, y: number }[]; // Non-finite y values break the line
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  xDomain?: [number, number];
+  markers?: number[];            // Vertical guide lines
+  cursorX?: number;              // Highlighted x, e.g. the current input angle
+  shadedX?: [number, number][];  // x ranges drawn as unavailable
+}
+
+// Runs of unit-spaced samples without a solution, merged into ranges for shadedX
+export const unsolvedRanges = (samples: { x: number, valid: boolean }[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const { x, valid } of samples) {
+    if (valid) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && x - last[1] <= 1) last[1] = x;
+    else ranges.push([x, x]);
+  }
+  return ranges;
+};
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const MARGIN = { left: 56, right: 16, top: 12, bottom: 36 };
+
+// Round tick spacing (1, 2 or 5 × 10^n) giving roughly `count` ticks
+const niceTicks = (min: number, max: number, count: number = 5): number[] => {
+  const span = max - min || 1;
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) ticks.push(+t.toPrecision(12));
+  return ticks;
+};
+
+const formatTick = (v: number) => Math.abs(v) >= 1000 || (Math.abs(v) < 0.01 && v !== 0) ? v.toExponential(1) : `${+v.toFixed(3)}`;
+
+const LineChart: React.FC<LineChartProps> = ({ series, xLabel, yLabel, xDomain, markers = [], cursorX, shadedX = [] }) => {
+  const finite = series.flatMap(s => s.points).filter(p => isFinite(p.x) && isFinite(p.y));
+  const xs = finite.map(p => p.x);
+  const ys = finite.map(p => p.y);
+  const [xMin, xMax] = xDomain ?? [Math.min(...xs, 0), Math.max(...xs, 1)];
+  let yMin = ys.length ? Math.min(...ys) : 0;
+  let yMax = ys.length ? Math.max(...ys) : 1;
+  if (yMax - yMin < 1e-9) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const yPad = (yMax - yMin) * 0.08;
+  yMin -= yPad;
+  yMax += yPad;
+
+  const plotW = WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const sx = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * plotW;
+  const sy = (y: number) => MARGIN.top + (1 - (y - yMin) / (yMax - yMin)) * plotH;
+
+  const toPath = (points: { x: number, y: number }[]) => {
+    let d = '';
+    let pen = false;
+    for (const p of points) {
+      if (!isFinite(p.y) || !isFinite(p.x)) {
+        pen = false;
+        continue;
+      }
+      d += `${pen ? 'L' : 'M'} ${sx(p.x).toFixed(2)} ${sy(p.y).toFixed(2)} `;
+      pen = true;
+    }
+    return d;
+  };
+
+  return (
+    <div>
+      <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="xMidYMid meet" className="overflow-visible">
+        {shadedX.map(([from, to], i) => (
+          <rect
+            key={`shade-${i}`}
+            x={sx(Math.max(from, xMin))}
+            y={MARGIN.top}
+            width={Math.max(0, sx(Math.min(to, xMax)) - sx(Math.max(from, xMin)))}
+            height={plotH}
+            fill="#fee2e2"
+          />
+        ))}
+
+        {niceTicks(yMin, yMax).map(t => (
+          <g key={`y-${t}`}>
+            <line x1={MARGIN.left} y1={sy(t)} x2={WIDTH - MARGIN.right} y2={sy(t)} stroke="#f1f5f9" />
+            <text x={MARGIN.left - 6} y={sy(t)} textAnchor="end" dominantBaseline="middle" className="fill-slate-400" style={{fontSize: '11px'}}>
+              {formatTick(t)}
+            </text>
+          </g>
+        ))}
+        {niceTicks(xMin, xMax, 6).map(t => (
+          <g key={`x-${t}`}>
+            <line x1={sx(t)} y1={MARGIN.top} x2={sx(t)} y2={HEIGHT - MARGIN.bottom} stroke="#f1f5f9" />
+            <text x={sx(t)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" className="fill-slate-400" style={{fontSize: '11px'}}>
+              {formatTick(t)}
+            </text>
+          </g>
+        ))}
+        {yMin < 0 && yMax > 0 && (
+          <line x1={MARGIN.left} y1={sy(0)} x2={WIDTH - MARGIN.right} y2={sy(0)} stroke="#cbd5e1" />
+        )}
+        <rect x={MARGIN.left} y={MARGIN.top} width={plotW} height={plotH} fill="none" stroke="#e2e8f0" />
+
+        {markers.map((m, i) => (
+          <line key={`marker-${i}`} x1={sx(m)} y1={MARGIN.top} x2={sx(m)} y2={HEIGHT - MARGIN.bottom} stroke="#94a3b8" strokeDasharray="4,4" />
+        ))}
+
+        {series.map(s => (
+          <path
+            key={s.label}
+            d={toPath(s.points)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="2"
+            strokeDasharray={s.dashed ? '6,4' : undefined}
+            strokeLinejoin="round"
+          />
+        ))}
+
+        {cursorX !== undefined && isFinite(cursorX) && cursorX >= xMin && cursorX <= xMax && (
+          <line x1={sx(cursorX)} y1={MARGIN.top} x2={sx(cursorX)} y2={HEIGHT - MARGIN.bottom} stroke="#f59e0b" strokeWidth="2" />
+        )}
+
+        <text x={MARGIN.left + plotW / 2} y={HEIGHT - 4} textAnchor="middle" className="fill-slate-500 font-medium" style={{fontSize: '12px'}}>
+          {xLabel}
+        </text>
+        <text
+          x={14}
+          y={MARGIN.top + plotH / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 14 ${MARGIN.top + plotH / 2})`}
+          className="fill-slate-500 font-medium"
+          style={{fontSize: '12px'}}
+        >
+          {yLabel}
+        </text>
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-1 text-xs text-slate-600">
+          {series.map(s => (
+            <div key={s.label} className="flex items-center gap-1.5">
+              <div className="w-4 h-1 rounded" style={{ background: s.color }}></div>
+              {s.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
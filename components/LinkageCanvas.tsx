@@ -1,33 +1,517 @@
-import React from 'react';
-import { JointCoordinates, LinkLengths, LinkRole } from '../types.ts';
+import React, { useRef, useState } from 'react';
+import { JointCoordinates, LinkLengths, LinkRole, MotionAnalysis, Vector2, InversionLayout, StaticAnalysis, Cognate, ChangePointEvent, MechanismLink, MechanismPose, SliderCrankDimensions, SliderCrankPose, SliderLink, SphereView, SphericalPose, Vector3, InstantCenterAnalysis, DraggableJoint, DragSnap } from '../types.ts';
+import { KENNEDY_LINES } from '../utils/instantcenters.ts';
+import { SLIDER_GROUND_JOINTS } from '../utils/slidercrank.ts';
+import { greatCircleArc, projectOnView } from '../utils/spherical.ts';
+
+interface VectorArrowProps {
+  x: number;
+  y: number;
+  vec: Vector2;
+  scale: number;
+  color: string;
+}
+
+// Arrow from (x, y) along vec * scale, with a head sized for the zoomed-in view
+const VectorArrow: React.FC<VectorArrowProps> = ({ x, y, vec, scale, color }) => {
+  const tipX = x + vec.x * scale;
+  const tipY = y + vec.y * scale;
+  const len = Math.hypot(tipX - x, tipY - y);
+  if (!isFinite(len) || len < 1) return null;
+
+  const ux = (tipX - x) / len;
+  const uy = (tipY - y) / len;
+  const head = Math.min(18, len * 0.5);
+  const baseX = tipX - ux * head;
+  const baseY = tipY - uy * head;
+
+  return (
+    <g>
+      <line x1={x} y1={y} x2={baseX} y2={baseY} stroke={color} strokeWidth="4" strokeLinecap="round" />
+      <path
+        d={`M ${tipX} ${tipY} L ${baseX - uy * head * 0.5} ${baseY + ux * head * 0.5} L ${baseX + uy * head * 0.5} ${baseY - ux * head * 0.5} Z`}
+        fill={color}
+      />
+    </g>
+  );
+};
+
+// Cognate linkages are told apart by color only
+const COGNATE_COLORS = ['#7c3aed', '#ea580c'];
+
+interface CognateLinkageProps {
+  joints: JointCoordinates;
+  couplerPoint?: Vector2;
+  color: string;
+}
+
+const CognateLinkage: React.FC<CognateLinkageProps> = ({ joints, couplerPoint, color }) => {
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  return (
+    <g>
+      <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} stroke={color} strokeWidth="5" strokeDasharray="15,8" className="opacity-50" />
+      <path d={`M ${Ax-15} ${Ay-15} L ${Ax+15} ${Ay-15} L ${Ax} ${Ay} Z`} fill="#94a3b8" />
+      <path d={`M ${Dx-15} ${Dy-15} L ${Dx+15} ${Dy-15} L ${Dx} ${Dy} Z`} fill="#94a3b8" />
+      {couplerPoint && (
+        <polygon points={`${Bx},${By} ${Cx},${Cy} ${couplerPoint.x},${couplerPoint.y}`} fill={color} stroke={color} strokeWidth="3" strokeLinejoin="round" className="opacity-20" />
+      )}
+      <line x1={Ax} y1={Ay} x2={Bx} y2={By} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      <line x1={Bx} y1={By} x2={Cx} y2={Cy} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      {[[Ax, Ay], [Bx, By], [Cx, Cy], [Dx, Dy]].map(([x, y], i) => (
+        <circle key={i} cx={x} cy={y} r={8} fill="white" stroke={color} strokeWidth="3" />
+      ))}
+    </g>
+  );
+};
+
+interface MechanismOverlayProps {
+  links: MechanismLink[];
+  pose: MechanismPose;
+}
+
+// Any pin-jointed linkage: plates for ternary links, bars for binary ones,
+// dashed ground links with a pivot under each of their joints
+const MechanismOverlay: React.FC<MechanismOverlayProps> = ({ links, pose }) => {
+  const at = (joint: string) => pose.joints[joint];
+  const groundJoints: string[] = Array.from(new Set<string>(links.filter(link => link.ground).flatMap(link => link.joints)));
+  const points = (link: MechanismLink) => link.joints.map(j => `${at(j).x},${at(j).y}`).join(' ');
+
+  return (
+    <g>
+      {links.map((link) => link.ground ? (
+        <polygon key={link.name} points={points(link)} fill="none" className="stroke-slate-700 opacity-50" strokeWidth="7" strokeDasharray="15,8" />
+      ) : link.joints.length > 2 ? (
+        <polygon key={link.name} points={points(link)} className="stroke-slate-700 fill-slate-400 opacity-60" strokeWidth="6" strokeLinejoin="round" />
+      ) : (
+        <line
+          key={link.name}
+          x1={at(link.joints[0]).x} y1={at(link.joints[0]).y}
+          x2={at(link.joints[1]).x} y2={at(link.joints[1]).y}
+          className={link.name.startsWith('Dyad') ? 'stroke-indigo-600' : 'stroke-slate-700'}
+          strokeWidth="7"
+          strokeLinecap="round"
+        />
+      ))}
+      {groundJoints.map((j) => (
+        <path key={`pivot-${j}`} d={`M ${at(j).x - 15} ${at(j).y - 15} L ${at(j).x + 15} ${at(j).y - 15} L ${at(j).x} ${at(j).y} Z`} fill="#94a3b8" />
+      ))}
+      {Object.keys(pose.joints).map((name) => (
+        <circle key={name} cx={at(name).x} cy={at(name).y} r={9} fill="white" stroke="#1e293b" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {Object.keys(pose.joints).map((name) => (
+          <text key={name} x={at(name).x} y={-at(name).y - 22} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+interface SliderCrankLinkageProps {
+  dims: SliderCrankDimensions;
+  ground: SliderLink;
+  pose: SliderCrankPose;
+}
+
+// Crank, rod and slider block, with the guide drawn through the block as a
+// bar offset from A. Ground links are dashed with a pivot under their joints.
+const SliderCrankLinkage: React.FC<SliderCrankLinkageProps> = ({ dims, ground, pose }) => {
+  const { A, B, C } = pose.joints;
+  const gamma = (pose.guideAngle * Math.PI) / 180;
+  const u = { x: Math.cos(gamma), y: Math.sin(gamma) };
+  // Foot of A on the guide, e along the guide's left normal
+  const foot = { x: A.x - dims.offset * u.y, y: A.y + dims.offset * u.x };
+  const span = dims.crank + dims.rod;
+  const groundStyle = { className: 'stroke-slate-700 opacity-50', strokeDasharray: '15,8' };
+  const linkStyle = (link: SliderLink) => link === ground ? groundStyle : { className: 'stroke-slate-700' };
+
+  return (
+    <g>
+      <line
+        x1={foot.x - span * u.x} y1={foot.y - span * u.y}
+        x2={foot.x + span * u.x} y2={foot.y + span * u.y}
+        strokeWidth="7" {...linkStyle(SliderLink.GUIDE)}
+      />
+      <line x1={A.x} y1={A.y} x2={foot.x} y2={foot.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.GUIDE)} />
+      <rect
+        x={C.x - 30} y={C.y - 18} width={60} height={36} rx={4}
+        transform={`rotate(${pose.guideAngle} ${C.x} ${C.y})`}
+        fill="#cbd5e1" strokeWidth="4" {...linkStyle(SliderLink.SLIDER)}
+      />
+      <line x1={A.x} y1={A.y} x2={B.x} y2={B.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.CRANK)} />
+      <line x1={B.x} y1={B.y} x2={C.x} y2={C.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.ROD)} />
+      {SLIDER_GROUND_JOINTS[ground].map((j) => (
+        <path key={`pivot-${j}`} d={`M ${pose.joints[j].x - 15} ${pose.joints[j].y - 15} L ${pose.joints[j].x + 15} ${pose.joints[j].y - 15} L ${pose.joints[j].x} ${pose.joints[j].y} Z`} fill="#94a3b8" />
+      ))}
+      {[A, B, C].map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={9} fill="white" stroke="#1e293b" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {(['A', 'B', 'C'] as const).map((name) => (
+          <text key={name} x={pose.joints[name].x} y={-pose.joints[name].y - 25} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+// Drawing radius of the unit sphere
+const SPHERE_RADIUS = 200;
+
+interface SphericalLinkageProps {
+  pose: SphericalPose;
+  view: SphereView;
+}
+
+// Orthographic view of a spherical four-bar: each joint axis runs out from
+// the centre, and the links are great-circle arcs between the axes. Anything
+// on the far side of the sphere is drawn faded and dashed.
+const SphericalLinkage: React.FC<SphericalLinkageProps> = ({ pose, view }) => {
+  const onScreen = (p: Vector3, scale: number = SPHERE_RADIUS) => {
+    const q = projectOnView(p, view);
+    return { x: q.x * scale, y: q.y * scale, front: q.z >= 0 };
+  };
+  // Splits an arc into runs that stay on one side of the sphere
+  const arcRuns = (p: Vector3, q: Vector3) => {
+    const runs: { points: string[], front: boolean }[] = [];
+    for (const point of greatCircleArc(p, q).map(v => onScreen(v))) {
+      const last = runs[runs.length - 1];
+      if (last?.front === point.front) last.points.push(`${point.x},${point.y}`);
+      else runs.push({ points: [...(last ? [last.points[last.points.length - 1]] : []), `${point.x},${point.y}`], front: point.front });
+    }
+    return runs;
+  };
+  const links: { from: Vector3, to: Vector3, ground?: boolean }[] = [
+    { from: pose.A, to: pose.D, ground: true },
+    { from: pose.A, to: pose.B },
+    { from: pose.B, to: pose.C },
+    { from: pose.C, to: pose.D },
+  ];
+  const axes = (['A', 'B', 'C', 'D'] as const).map(name => ({
+    name,
+    ground: name === 'A' || name === 'D',
+    joint: onScreen(pose[name]),
+    tip: onScreen(pose[name], SPHERE_RADIUS * 1.3),
+  }));
+
+  return (
+    <g>
+      <circle cx={0} cy={0} r={SPHERE_RADIUS} fill="#f8fafc" stroke="#94a3b8" strokeWidth="2" />
+      {axes.map((axis) => (
+        <line
+          key={`axis-${axis.name}`}
+          x1={0} y1={0} x2={axis.tip.x} y2={axis.tip.y}
+          stroke={axis.ground ? '#64748b' : '#4f46e5'}
+          strokeWidth="3"
+          strokeDasharray={axis.joint.front ? undefined : '6,6'}
+        />
+      ))}
+      {links.map((link, i) => arcRuns(link.from, link.to).map((run, j) => (
+        <polyline
+          key={`arc-${i}-${j}`}
+          points={run.points.join(' ')}
+          fill="none"
+          strokeWidth="7"
+          strokeLinecap="round"
+          strokeDasharray={link.ground ? '15,8' : run.front ? undefined : '8,8'}
+          className={`stroke-slate-700 ${link.ground || !run.front ? 'opacity-40' : ''}`}
+        />
+      )))}
+      <circle cx={0} cy={0} r={5} fill="#1e293b" />
+      {axes.map((axis) => (
+        <circle
+          key={`joint-${axis.name}`}
+          cx={axis.joint.x} cy={axis.joint.y} r={9}
+          fill={axis.ground ? '#94a3b8' : 'white'}
+          stroke="#1e293b"
+          strokeWidth="3"
+          className={axis.joint.front ? undefined : 'opacity-40'}
+        />
+      ))}
+      <g transform="scale(1, -1)">
+        {axes.map((axis) => (
+          <text key={`label-${axis.name}`} x={axis.tip.x} y={-axis.tip.y - 12} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{axis.name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+const INSTANT_CENTER_COLOR = '#be185d';
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const centerLabel = (name: string) => `I${name.split('').map(d => SUBSCRIPTS[Number(d)]).join('')}`;
+
+// Reach of lines drawn towards a center at infinity
+const FAR = 3000;
+
+interface InstantCenterOverlayProps {
+  analysis: InstantCenterAnalysis;
+}
+
+// I13 and I24 with the Kennedy lines that place them. Each line runs through
+// its two known centers and on to the unknown one, or off to infinity in
+// both directions when the lines are parallel.
+const InstantCenterOverlay: React.FC<InstantCenterOverlayProps> = ({ analysis }) => {
+  const at = (name: string) => analysis.centers.find(c => c.name === name);
+  const unknowns = (Object.keys(KENNEDY_LINES) as (keyof typeof KENNEDY_LINES)[]).map(name => at(name));
+  const lines = unknowns.flatMap(center => KENNEDY_LINES[center.name].map(([first, second]) => {
+    const p = at(first).point, q = at(second).point;
+    const len = Math.hypot(q.x - p.x, q.y - p.y);
+    const u = { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+    let from = -40, to = len + 40;
+    if (center.atInfinity) {
+      from = -FAR;
+      to = len + FAR;
+    } else if (isFinite(center.point.x)) {
+      const t = (center.point.x - p.x) * u.x + (center.point.y - p.y) * u.y;
+      from = Math.min(from, t - 40);
+      to = Math.max(to, t + 40);
+    }
+    return { key: `${center.name}-${first}-${second}`, x1: p.x + u.x * from, y1: p.y + u.y * from, x2: p.x + u.x * to, y2: p.y + u.y * to };
+  }));
+  const finite = unknowns.filter(c => !c.atInfinity && isFinite(c.point.x));
+  // Centers at infinity are named beside the known center their first line leaves from
+  const distant = unknowns.filter(c => c.atInfinity).map(c => ({ name: c.name, anchor: at(KENNEDY_LINES[c.name][0][1]).point }));
+
+  return (
+    <g>
+      {lines.map(({ key, ...line }) => (
+        <line key={key} {...line} stroke={INSTANT_CENTER_COLOR} strokeWidth="2" strokeDasharray="8,6" className="opacity-50" />
+      ))}
+      {finite.map(c => (
+        <circle key={c.name} cx={c.point.x} cy={c.point.y} r={9} fill={INSTANT_CENTER_COLOR} stroke="white" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {finite.map(c => (
+          <text key={c.name} x={c.point.x + 14} y={-c.point.y - 14} className="font-bold" fill={INSTANT_CENTER_COLOR} style={{fontSize: '20px'}}>
+            {centerLabel(c.name)}
+          </text>
+        ))}
+        {distant.map(c => (
+          <text key={c.name} x={c.anchor.x + 20} y={-c.anchor.y + 40} className="font-bold" fill={INSTANT_CENTER_COLOR} style={{fontSize: '20px'}}>
+            {centerLabel(c.name)} at ∞
+          </text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+interface ViewBox {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+// Model coordinates under a pointer. The SVG letterboxes its viewBox
+// (xMidYMid meet) and is mirrored top to bottom by its CSS flip, so the
+// screen y is measured up from the element's bottom edge.
+const pointerToModel = (clientX: number, clientY: number, rect: DOMRect, view: ViewBox): Vector2 => {
+  const scale = Math.min(rect.width / view.width, rect.height / view.height);
+  const offsetX = (rect.width - view.width * scale) / 2;
+  const offsetY = (rect.height - view.height * scale) / 2;
+  return {
+    x: view.minX + (clientX - rect.left - offsetX) / scale,
+    y: view.minY + (rect.bottom - clientY - offsetY) / scale,
+  };
+};
+
+// Hit radius around a draggable joint, big enough for a fingertip
+const HANDLE_RADIUS = 24;
 
 interface LinkageCanvasProps {
   coords: JointCoordinates;
+  ghostCoords?: JointCoordinates; // Alternate assembly branch, drawn faded
   lengths: LinkLengths;
+  // Physical links/joints behind the solver's slots; defaults to the frame grounded
+  layout?: InversionLayout;
   shortestRole: LinkRole;
   longestRole: LinkRole;
+  motion?: MotionAnalysis;
+  showVelocity?: boolean;
+  showAcceleration?: boolean;
+  transmissionAngle?: number;
+  transmissionOk?: boolean;
+  couplerPoint?: Vector2;
+  couplerCurve?: Vector2[][];
+  ghostCouplerCurve?: Vector2[][];
+  statics?: StaticAnalysis;
+  appliedForce?: { at: Vector2, force: Vector2 };
+  showForces?: boolean;
+  // Cayley cognates tracing the same coupler curve; null entries are skipped
+  cognates?: (Cognate | null)[];
+  showMainLinkage?: boolean;
+  changePoint?: ChangePointEvent; // Last change point passed, marked with its flat pose
+  // A general linkage drawn over the four-bar, e.g. a six-bar built on it
+  mechanism?: { links: MechanismLink[], pose: MechanismPose };
+  // A slider-crank inversion drawn instead of the four-bar, framed around its ground origin
+  sliderCrank?: { dims: SliderCrankDimensions, ground: SliderLink, pose: SliderCrankPose, origin: Vector2 };
+  // A spherical four-bar drawn instead, projected about the sphere's centre at the origin
+  spherical?: { pose: SphericalPose, view: SphereView };
+  // Instant centers of the four-bar, drawn with their Kennedy lines
+  instantCenters?: InstantCenterAnalysis;
+  svgRef?: React.RefObject<SVGSVGElement>; // For exporting the drawing
+  // Called while B, C or D is dragged; the canvas is display-only without it
+  onJointDrag?: (joint: DraggableJoint, point: Vector2, snap: DragSnap) => void;
+  gridStep?: number; // Spacing of the snapping grid, in model units
 }
 
-const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ coords, lengths, shortestRole, longestRole }) => {
+const LinkageCanvas: React.FC<LinkageCanvasProps> = ({
+  coords,
+  ghostCoords,
+  lengths,
+  layout = {
+    links: { frame: LinkRole.FRAME, input: LinkRole.INPUT, coupler: LinkRole.COUPLER, output: LinkRole.OUTPUT },
+    joints: { A: 'A', B: 'B', C: 'C', D: 'D' }
+  },
+  shortestRole,
+  longestRole,
+  motion,
+  showVelocity = false,
+  showAcceleration = false,
+  transmissionAngle,
+  transmissionOk = true,
+  couplerPoint,
+  couplerCurve = [],
+  ghostCouplerCurve = [],
+  statics,
+  appliedForce,
+  showForces = false,
+  cognates = [],
+  showMainLinkage = true,
+  changePoint,
+  mechanism,
+  sliderCrank,
+  spherical,
+  instantCenters,
+  svgRef,
+  onJointDrag,
+  gridStep = 10
+}) => {
   const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy, isValid } = coords;
 
-  // ViewBox Configuration
-  // We need to center the mechanism. 
-  // A is at (0,0), D is at (frame, 0).
-  // Y is positive down in SVG, so we need to flip Y for math->screen or just accept math coords and flip whole SVG.
-  // Let's flip Y inside the drawing logic by negating Y values.
+  // Ground pivots may sit anywhere in the global frame, so frame the view
+  // around the box spanned by A and D (or the origin of a mechanism drawn instead)
+  const fixedOrigin = sliderCrank ? sliderCrank.origin : spherical ? { x: 0, y: 0 } : null;
+  const centerX = fixedOrigin ? fixedOrigin.x : (Ax + Dx) / 2;
+  const centerY = fixedOrigin ? fixedOrigin.y : (Ay + Dy) / 2;
+  const halfWidth = fixedOrigin ? 0 : Math.abs(Dx - Ax) / 2;
+  const halfHeight = fixedOrigin ? 0 : Math.abs(Dy - Ay) / 2;
   
-  const centerX = (Ax + Dx) / 2;
-  const centerY = 0; 
-  const scale = 1; 
-  const padding = Math.max(lengths.input, lengths.output) + lengths.coupler + 50;
+  const linkPadding = sliderCrank
+    ? sliderCrank.dims.crank + sliderCrank.dims.rod + 40
+    : spherical
+    ? SPHERE_RADIUS * 1.3 + 40
+    : Math.max(lengths.input, lengths.output) + lengths.coupler + 50;
+  // Grow the view if the traced coupler curve would leave it
+  const curvePadding = Math.max(0, ...couplerCurve.flat().map(p =>
+    Math.max(Math.abs(p.x - centerX) - halfWidth, Math.abs(p.y - centerY) - halfHeight) + 30
+  ));
+  // ...and to take in any cognates or six-bar drawn alongside
+  const extraJoints: Vector2[] = [
+    ...cognates.filter(c => c !== null).flatMap(c => [
+      { x: c.joints.Ax, y: c.joints.Ay }, { x: c.joints.Bx, y: c.joints.By },
+      { x: c.joints.Cx, y: c.joints.Cy }, { x: c.joints.Dx, y: c.joints.Dy },
+    ]),
+    ...(mechanism?.pose.isValid ? Object.keys(mechanism.pose.joints).map(name => mechanism.pose.joints[name]) : []),
+  ];
+  const extraPadding = Math.max(0, ...extraJoints.map(p =>
+    Math.max(Math.abs(p.x - centerX) - halfWidth, Math.abs(p.y - centerY) - halfHeight) + 50
+  ));
+  const padding = Math.max(linkPadding, curvePadding, extraPadding);
   
-  const viewBoxMinX = centerX - lengths.frame/2 - padding;
-  const viewBoxMinY = centerY - padding;
-  const viewBoxWidth = lengths.frame + padding * 2;
-  const viewBoxHeight = padding * 2;
+  // The view holds still while a joint is dragged, or moving D would shift
+  // the model out from under the pointer
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgElement = svgRef ?? ownSvgRef;
+  const [drag, setDrag] = useState<{ joint: DraggableJoint, pointerId: number, view: ViewBox } | null>(null);
+  const [snap, setSnap] = useState<DragSnap>({ grid: false, lengths: false });
+  const view: ViewBox = drag?.view ?? {
+    minX: centerX - halfWidth - padding,
+    minY: centerY - halfHeight - padding,
+    width: halfWidth * 2 + padding * 2,
+    height: halfHeight * 2 + padding * 2,
+  };
+  const viewBoxMinX = view.minX;
+  const viewBoxMinY = view.minY;
+  const viewBoxWidth = view.width;
+  const viewBoxHeight = view.height;
+
+  const canDrag = onJointDrag !== undefined && showMainLinkage && isValid;
+  const startDrag = (joint: DraggableJoint) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    svgElement.current?.setPointerCapture(e.pointerId);
+    setDrag({ joint, pointerId: e.pointerId, view });
+  };
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId || !svgElement.current) return;
+    const point = pointerToModel(e.clientX, e.clientY, svgElement.current.getBoundingClientRect(), drag.view);
+    onJointDrag?.(drag.joint, snap.grid
+      ? { x: Math.round(point.x / gridStep) * gridStep, y: Math.round(point.y / gridStep) * gridStep }
+      : point, snap);
+  };
+  const endDrag = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    svgElement.current?.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+  const handles: { joint: DraggableJoint, x: number, y: number }[] = [
+    { joint: 'B', x: Bx, y: By },
+    { joint: 'C', x: Cx, y: Cy },
+    { joint: 'D', x: Dx, y: Dy },
+  ];
+
+  // Vectors are auto-scaled so the larger of the two joints spans half the frame
+  const vectorScale = (p: Vector2, q: Vector2) => {
+    const maxMag = Math.max(Math.hypot(p.x, p.y), Math.hypot(q.x, q.y));
+    return maxMag > 0 ? (lengths.frame * 0.5) / maxMag : 0;
+  };
+  const showMotion = isValid && motion?.isValid;
+  const showStatics = isValid && showForces && statics?.isValid;
+  const pinForces = showStatics ? [
+    { x: Ax, y: Ay, vec: statics.pinA },
+    { x: Bx, y: By, vec: statics.pinB },
+    { x: Cx, y: Cy, vec: statics.pinC },
+    { x: Dx, y: Dy, vec: statics.pinD },
+  ] : [];
+  const maxForce = Math.max(
+    0,
+    ...pinForces.map(f => Math.hypot(f.vec.x, f.vec.y)),
+    appliedForce ? Math.hypot(appliedForce.force.x, appliedForce.force.y) : 0
+  );
+  const forceScale = maxForce > 0 ? (lengths.frame * 0.5) / maxForce : 0;
+  const velScale = showMotion ? vectorScale(motion.velB, motion.velC) : 0;
+  const accScale = showMotion ? vectorScale(motion.accB, motion.accC) : 0;
+
+  // Transmission angle arc at C, swept from the coupler (C->B) to the output (C->D)
+  const showTransmission = isValid && transmissionAngle !== undefined && isFinite(transmissionAngle);
+  const arcRadius = 40;
+  const toCoupler = Math.atan2(By - Cy, Bx - Cx);
+  let arcSweep = Math.atan2(Dy - Cy, Dx - Cx) - toCoupler;
+  if (arcSweep > Math.PI) arcSweep -= 2 * Math.PI;
+  if (arcSweep < -Math.PI) arcSweep += 2 * Math.PI;
+  const arcMid = toCoupler + arcSweep / 2;
+  const arcPath = `M ${Cx + arcRadius * Math.cos(toCoupler)} ${Cy + arcRadius * Math.sin(toCoupler)} `
+    + `A ${arcRadius} ${arcRadius} 0 0 ${arcSweep > 0 ? 1 : 0} `
+    + `${Cx + arcRadius * Math.cos(toCoupler + arcSweep)} ${Cy + arcRadius * Math.sin(toCoupler + arcSweep)}`;
+  const arcColor = transmissionOk ? "#059669" : "#dc2626";
+
+  // Mechanisms drawn instead of the four-bar report their own closure
+  const standIn = sliderCrank
+    ? { isValid: sliderCrank.pose.isValid, reason: 'The rod and crank cannot reach the guide at this angle.' }
+    : spherical
+    ? { isValid: spherical.pose.isValid, reason: 'The arcs cannot close on the sphere at this angle.' }
+    : null;
+
+  const thirdPivot = cognates.find(c => c?.joints.isValid)?.joints;
+
+  const hasCouplerPoint = isValid && couplerPoint !== undefined && isFinite(couplerPoint.x);
+  const toPolyline = (curve: Vector2[]) => curve.map(p => `${p.x},${p.y}`).join(' ');
+
+  const linkName = (role: LinkRole) => role.charAt(0).toUpperCase() + role.slice(1);
 
-  // Color helper
   const getLinkColor = (role: LinkRole) => {
     if (role === shortestRole) return "stroke-green-600";
     if (role === longestRole) return "stroke-red-500";
@@ -42,54 +526,196 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ coords, lengths, shortest
   return (
     <div className="w-full h-full bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
       <svg 
+        ref={svgElement}
+        onPointerMove={moveDrag}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
         width="100%" 
         height="100%" 
         viewBox={`${viewBoxMinX} ${viewBoxMinY} ${viewBoxWidth} ${viewBoxHeight}`}
         preserveAspectRatio="xMidYMid meet"
-        className="transform scale-y-[-1]" // Flip coordinate system so Y points up
+        className={`transform scale-y-[-1] ${canDrag ? 'touch-none select-none' : ''}`}
       >
-        {/* Grid/Ground Guide */}
-        <line x1={-1000} y1={0} x2={1000} y2={0} stroke="#e2e8f0" strokeWidth="2" />
+        {/* Global X and Y axes */}
+        <line x1={-2000} y1={0} x2={2000} y2={0} stroke="#e2e8f0" strokeWidth="2" />
+        <line x1={0} y1={-2000} x2={0} y2={2000} stroke="#e2e8f0" strokeWidth="2" />
+
+        {mechanism?.pose.isValid && <MechanismOverlay links={mechanism.links} pose={mechanism.pose} />}
+        {sliderCrank?.pose.isValid && <SliderCrankLinkage dims={sliderCrank.dims} ground={sliderCrank.ground} pose={sliderCrank.pose} />}
+        {spherical?.pose.isValid && <SphericalLinkage pose={spherical.pose} view={spherical.view} />}
 
         {isValid ? (
           <>
-            {/* FRAME (Link 1) - Drawn specifically to look grounded */}
-            <g>
-              <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} className={`${getLinkColor(LinkRole.FRAME)} opacity-50`} strokeWidth={getStrokeWidth(LinkRole.FRAME)} strokeDasharray="10,5" />
+            {/* Ground link, dashed, with ground symbols at its pivots */}
+            <g className={showMainLinkage ? undefined : 'hidden'}>
+              <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} className={`${getLinkColor(layout.links.frame)} opacity-50`} strokeWidth={getStrokeWidth(layout.links.frame)} strokeDasharray="10,5" />
               {/* Ground symbols */}
               <path d={`M ${Ax-10} ${Ay-10} L ${Ax+10} ${Ay-10} L ${Ax} ${Ay} Z`} fill="#94a3b8" />
               <path d={`M ${Dx-10} ${Dy-10} L ${Dx+10} ${Dy-10} L ${Dx} ${Dy} Z`} fill="#94a3b8" />
             </g>
 
-            {/* INPUT (Link 2) */}
-            <line x1={Ax} y1={Ay} x2={Bx} y2={By} className={getLinkColor(LinkRole.INPUT)} strokeWidth={getStrokeWidth(LinkRole.INPUT)} strokeLinecap="round" />
-            
-            {/* COUPLER (Link 3) */}
-            <line x1={Bx} y1={By} x2={Cx} y2={Cy} className={getLinkColor(LinkRole.COUPLER)} strokeWidth={getStrokeWidth(LinkRole.COUPLER)} strokeLinecap="round" />
-            
-            {/* OUTPUT (Link 4) */}
-            <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} className={getLinkColor(LinkRole.OUTPUT)} strokeWidth={getStrokeWidth(LinkRole.OUTPUT)} strokeLinecap="round" />
+            {changePoint?.joints.isValid && (
+              <g stroke="#d97706" strokeWidth="3" strokeDasharray="4,6" fill="none">
+                <polyline points={[
+                  [changePoint.joints.Ax, changePoint.joints.Ay],
+                  [changePoint.joints.Bx, changePoint.joints.By],
+                  [changePoint.joints.Cx, changePoint.joints.Cy],
+                  [changePoint.joints.Dx, changePoint.joints.Dy],
+                ].map(([x, y]) => `${x},${y}`).join(' ')} />
+                <rect
+                  x={changePoint.joints.Cx - 12}
+                  y={changePoint.joints.Cy - 12}
+                  width={24}
+                  height={24}
+                  transform={`rotate(45 ${changePoint.joints.Cx} ${changePoint.joints.Cy})`}
+                  fill="#fbbf24"
+                  strokeDasharray="none"
+                />
+              </g>
+            )}
+
+            {/* Coupler curves: the active branch solid, the other branch faded */}
+            {ghostCouplerCurve.map((curve, i) => (
+              <polyline key={`ghost-curve-${i}`} points={toPolyline(curve)} fill="none" stroke="#0d9488" strokeWidth="2" strokeDasharray="6,6" className="opacity-30" />
+            ))}
+            {couplerCurve.map((curve, i) => (
+              <polyline key={`curve-${i}`} points={toPolyline(curve)} fill="none" stroke="#0d9488" strokeWidth="3" strokeLinejoin="round" />
+            ))}
+
+            {cognates.map((cognate, i) => cognate?.joints.isValid && (
+              <CognateLinkage
+                key={`cognate-${i}`}
+                joints={cognate.joints}
+                couplerPoint={hasCouplerPoint ? couplerPoint : undefined}
+                color={COGNATE_COLORS[i % COGNATE_COLORS.length]}
+              />
+            ))}
+
+            <g className={showMainLinkage ? undefined : 'hidden'}>
+            {/* Ghost of the other assembly branch (shares A, B and D) */}
+            {ghostCoords?.isValid && (
+              <g className="opacity-25" strokeDasharray="12,8">
+                <line x1={Bx} y1={By} x2={ghostCoords.Cx} y2={ghostCoords.Cy} className={getLinkColor(layout.links.coupler)} strokeWidth={getStrokeWidth(layout.links.coupler)} />
+                <line x1={ghostCoords.Cx} y1={ghostCoords.Cy} x2={Dx} y2={Dy} className={getLinkColor(layout.links.output)} strokeWidth={getStrokeWidth(layout.links.output)} />
+                <circle cx={ghostCoords.Cx} cy={ghostCoords.Cy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" strokeDasharray="none" />
+              </g>
+            )}
+
+            <line x1={Ax} y1={Ay} x2={Bx} y2={By} className={getLinkColor(layout.links.input)} strokeWidth={getStrokeWidth(layout.links.input)} strokeLinecap="round" />
+            {/* Ternary coupler plate B-C-P */}
+            {hasCouplerPoint && (
+              <polygon
+                points={`${Bx},${By} ${Cx},${Cy} ${couplerPoint.x},${couplerPoint.y}`}
+                className={`${getLinkColor(layout.links.coupler)} fill-slate-400 opacity-40`}
+                strokeWidth={getStrokeWidth(layout.links.coupler) / 2}
+                strokeLinejoin="round"
+              />
+            )}
+            <line x1={Bx} y1={By} x2={Cx} y2={Cy} className={getLinkColor(layout.links.coupler)} strokeWidth={getStrokeWidth(layout.links.coupler)} strokeLinecap="round" />
+            <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} className={getLinkColor(layout.links.output)} strokeWidth={getStrokeWidth(layout.links.output)} strokeLinecap="round" />
 
             {/* JOINTS */}
             <circle cx={Ax} cy={Ay} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
             <circle cx={Bx} cy={By} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
             <circle cx={Cx} cy={Cy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
             <circle cx={Dx} cy={Dy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
+            </g>
+            {hasCouplerPoint && (
+              <circle cx={couplerPoint.x} cy={couplerPoint.y} r={8} fill="#0d9488" stroke="white" strokeWidth="3" />
+            )}
+
+            {showMainLinkage && showTransmission && (
+              <path d={arcPath} fill="none" stroke={arcColor} strokeWidth="3" />
+            )}
+
+            {/* Velocity and acceleration vectors at the moving joints */}
+            {showMainLinkage && showMotion && showVelocity && (
+              <>
+                <VectorArrow x={Bx} y={By} vec={motion.velB} scale={velScale} color="#2563eb" />
+                <VectorArrow x={Cx} y={Cy} vec={motion.velC} scale={velScale} color="#2563eb" />
+              </>
+            )}
+            {showMainLinkage && showMotion && showAcceleration && (
+              <>
+                <VectorArrow x={Bx} y={By} vec={motion.accB} scale={accScale} color="#c026d3" />
+                <VectorArrow x={Cx} y={Cy} vec={motion.accC} scale={accScale} color="#c026d3" />
+              </>
+            )}
+
+            {showMainLinkage && instantCenters?.centers.length > 0 && <InstantCenterOverlay analysis={instantCenters} />}
+
+            {/* Pin forces and the applied load */}
+            {showMainLinkage && showStatics && (
+              <>
+                {pinForces.map((f, i) => (
+                  <VectorArrow key={`pin-${i}`} x={f.x} y={f.y} vec={f.vec} scale={forceScale} color="#ea580c" />
+                ))}
+                {appliedForce && isFinite(appliedForce.at.x) && (
+                  <VectorArrow x={appliedForce.at.x} y={appliedForce.at.y} vec={appliedForce.force} scale={forceScale} color="#dc2626" />
+                )}
+              </>
+            )}
+
+            {/* Grab handles: B turns the input, C and D reshape the links */}
+            {canDrag && handles.map((h) => (
+              <circle
+                key={`handle-${h.joint}`}
+                cx={h.x}
+                cy={h.y}
+                r={HANDLE_RADIUS}
+                fill="transparent"
+                stroke={drag?.joint === h.joint ? '#6366f1' : 'none'}
+                strokeWidth="3"
+                className={drag?.joint === h.joint ? 'cursor-grabbing' : 'cursor-grab'}
+                onPointerDown={startDrag(h.joint)}
+              />
+            ))}
 
-            {/* LABELS (Need to be flipped back because of global SVG flip) */}
             <g transform="scale(1, -1)">
-                <text x={Ax} y={-Ay + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">Frame (A)</text>
-                <text x={Dx} y={-Dy + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">Frame (D)</text>
-                <text x={Bx} y={-By - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">B</text>
-                <text x={Cx} y={-Cy - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">C</text>
+                {/* LABELS (Need to be flipped back because of global SVG flip) */}
+                <g className={showMainLinkage ? undefined : 'hidden'}>
+                <text x={Ax} y={-Ay + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">{linkName(layout.links.frame)} ({layout.joints.A})</text>
+                <text x={Dx} y={-Dy + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">{linkName(layout.links.frame)} ({layout.joints.D})</text>
+                <text x={Bx} y={-By - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">{layout.joints.B}</text>
+                <text x={Cx} y={-Cy - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">{layout.joints.C}</text>
                 
                 {/* Midpoint Labels for Links */}
-                <text x={(Ax+Bx)/2 - 10} y={-(Ay+By)/2} className="text-[10px] fill-slate-400">Input</text>
-                <text x={(Bx+Cx)/2} y={-(By+Cy)/2 - 10} textAnchor="middle" className="text-[10px] fill-slate-400">Coupler</text>
-                <text x={(Cx+Dx)/2 + 10} y={-(Cy+Dy)/2} className="text-[10px] fill-slate-400">Output</text>
+                <text x={(Ax+Bx)/2 - 10} y={-(Ay+By)/2} className="text-[10px] fill-slate-400">{linkName(layout.links.input)}</text>
+                <text x={(Bx+Cx)/2} y={-(By+Cy)/2 - 10} textAnchor="middle" className="text-[10px] fill-slate-400">{linkName(layout.links.coupler)}</text>
+                <text x={(Cx+Dx)/2 + 10} y={-(Cy+Dy)/2} className="text-[10px] fill-slate-400">{linkName(layout.links.output)}</text>
+                </g>
+
+                {/* Both cognates share the third pivot O₃ in their D slot */}
+                {thirdPivot && (
+                  <text x={thirdPivot.Dx} y={-thirdPivot.Dy + 45} textAnchor="middle" className="font-bold fill-slate-600" style={{fontSize: '24px'}}>O₃</text>
+                )}
+
+                {changePoint?.joints.isValid && (
+                  <text x={changePoint.joints.Cx} y={-changePoint.joints.Cy + 45} textAnchor="middle" className="font-bold" fill="#d97706" style={{fontSize: '18px'}}>
+                    Change point → {changePoint.to}{changePoint.smooth ? '' : ' (switched)'}
+                  </text>
+                )}
+
+                {hasCouplerPoint && (
+                  <text x={couplerPoint.x} y={-couplerPoint.y - 20} textAnchor="middle" className="text-2xl font-bold" fill="#0d9488" style={{fontSize: '24px'}}>P</text>
+                )}
+
+                {showMainLinkage && showTransmission && (
+                  <text
+                    x={Cx + (arcRadius + 25) * Math.cos(arcMid)}
+                    y={-(Cy + (arcRadius + 25) * Math.sin(arcMid))}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="font-bold"
+                    fill={arcColor}
+                    style={{fontSize: '18px'}}
+                  >
+                    μ {transmissionAngle.toFixed(0)}°
+                  </text>
+                )}
             </g>
           </>
-        ) : (
+        ) : !mechanism?.pose.isValid && !standIn && (
            <g transform="scale(1, -1)">
              <text x={centerX} y={-centerY} textAnchor="middle" className="text-red-500 font-bold text-lg">
                Impossible Configuration
@@ -99,18 +725,116 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ coords, lengths, shortest
              </text>
            </g>
         )}
+        {standIn && !standIn.isValid && (
+           <g transform="scale(1, -1)">
+             <text x={centerX} y={-centerY} textAnchor="middle" className="text-red-500 font-bold text-lg">
+               Impossible Configuration
+             </text>
+             <text x={centerX} y={-centerY + 25} textAnchor="middle" className="text-slate-500 text-sm">
+               {standIn.reason}
+             </text>
+           </g>
+        )}
+        {isValid && mechanism && !mechanism.pose.isValid && (
+           <g transform="scale(1, -1)">
+             <text x={centerX} y={-centerY - 60} textAnchor="middle" className="text-red-500 font-bold text-xl">
+               The dyad cannot close at this angle.
+             </text>
+           </g>
+        )}
       </svg>
       
-      {/* Legend Overlay */}
+      {canDrag && (
+        <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-3">
+          <span className="font-medium">Drag B, C or D · Snap</span>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={snap.grid} onChange={(e) => setSnap({ ...snap, grid: e.target.checked })} className="accent-indigo-600" />
+            Grid ({gridStep})
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={snap.lengths} onChange={(e) => setSnap({ ...snap, lengths: e.target.checked })} className="accent-indigo-600" />
+            Whole lengths
+          </label>
+        </div>
+      )}
+
       <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow border border-slate-200 text-xs">
-          <div className="flex items-center mb-1">
-            <div className="w-3 h-3 rounded-full bg-green-600 mr-2"></div>
-            <span>Shortest Link (S)</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-red-500 mr-2"></div>
-            <span>Longest Link (L)</span>
-          </div>
+          {sliderCrank ? (
+            <div className="flex items-center">
+              <div className="w-3 h-2 rounded-sm bg-slate-300 border-2 border-slate-700 mr-2"></div>
+              <span>Slider</span>
+            </div>
+          ) : spherical ? (
+            <>
+              <div className="flex items-center mb-1">
+                <div className="w-3 h-1 bg-slate-500 mr-2"></div>
+                <span>Ground Axes</span>
+              </div>
+              <div className="flex items-center">
+                <div className="w-3 h-1 bg-indigo-600 mr-2"></div>
+                <span>Moving Axes</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center mb-1">
+                <div className="w-3 h-3 rounded-full bg-green-600 mr-2"></div>
+                <span>Shortest Link (S)</span>
+              </div>
+              <div className="flex items-center">
+                <div className="w-3 h-3 rounded-full bg-red-500 mr-2"></div>
+                <span>Longest Link (L)</span>
+              </div>
+            </>
+          )}
+          {couplerCurve.length > 0 && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-teal-600 mr-2"></div>
+              <span>Coupler Curve (P)</span>
+            </div>
+          )}
+          {changePoint?.joints.isValid && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-3 bg-amber-400 rotate-45 mr-2.5 ml-0.5"></div>
+              <span>Change Point</span>
+            </div>
+          )}
+          {cognates.map((cognate, i) => cognate && (
+            <div key={`cognate-legend-${i}`} className="flex items-center mt-1">
+              <div className="w-3 h-1 mr-2" style={{ backgroundColor: COGNATE_COLORS[i % COGNATE_COLORS.length] }}></div>
+              <span>Cognate {i + 1}</span>
+            </div>
+          ))}
+          {showMainLinkage && showMotion && showVelocity && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-blue-600 mr-2"></div>
+              <span>Velocity</span>
+            </div>
+          )}
+          {showMainLinkage && showMotion && showAcceleration && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-fuchsia-600 mr-2"></div>
+              <span>Acceleration</span>
+            </div>
+          )}
+          {showMainLinkage && isValid && instantCenters?.centers.length > 0 && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-3 rounded-full mr-2.5 ml-0.5" style={{ backgroundColor: INSTANT_CENTER_COLOR }}></div>
+              <span>Instant Centers</span>
+            </div>
+          )}
+          {showMainLinkage && showStatics && (
+            <>
+              <div className="flex items-center mt-1">
+                <div className="w-3 h-1 bg-red-600 mr-2"></div>
+                <span>Applied Force</span>
+              </div>
+              <div className="flex items-center mt-1">
+                <div className="w-3 h-1 bg-orange-600 mr-2"></div>
+                <span>Pin Forces</span>
+              </div>
+            </>
+          )}
       </div>
     </div>
   );
@@ -0,0 +1,329 @@
+import React, { useRef, useState } from 'react';
+import { AssemblyBranch, BarkerType, LinkageDesign, PathSynthesisResult, Vector2 } from '../types.ts';
+import { synthesizePath } from '../utils/synthesis.ts';
+import { calculateJoints, calculateReachableRange, determineGrashof, groundPivots } from '../utils/kinematics.ts';
+import { calculateCouplerPoint, traceCouplerCurve } from '../utils/coupler.ts';
+import { Crosshair, Trash2, Upload, Wand2 } from 'lucide-react';
+
+interface PathSynthesisPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+// Fixed drawing area (model units), as in the motion synthesis view
+const PATH_VIEW = { minX: -300, maxX: 500, minY: -250, maxY: 350 };
+const TYPE_CHOICES = [
+  BarkerType.GCRR,
+  BarkerType.GCCC,
+  BarkerType.GRCR,
+  BarkerType.GRRC,
+  BarkerType.RRR1,
+  BarkerType.RRR2,
+  BarkerType.RRR3,
+  BarkerType.RRR4,
+];
+
+const PathSynthesisPanel: React.FC<PathSynthesisPanelProps> = ({ onLoadDesign }) => {
+  const [targets, setTargets] = useState<Vector2[]>([
+    { x: 3, y: 110 }, { x: 28, y: 149 }, { x: -7, y: 155 }, { x: -61, y: 121 }, { x: -84, y: 64 }, { x: -57, y: 51 },
+  ]);
+  const [timing, setTiming] = useState<number[]>([0, 50, 100, 160, 230, 300]);
+  const [useTiming, setUseTiming] = useState<boolean>(false);
+  const [branch, setBranch] = useState<AssemblyBranch>(AssemblyBranch.OPEN);
+  const [grashofType, setGrashofType] = useState<BarkerType | ''>(BarkerType.GCRR);
+  const [result, setResult] = useState<PathSynthesisResult | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [runs, setRuns] = useState<number>(0);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const design = result?.isValid ? result.design : undefined;
+  const grashof = design ? determineGrashof(design.lengths) : null;
+
+  // Let the button repaint before the (blocking) search starts
+  const runOptimizer = (initial?: LinkageDesign) => {
+    setRunning(true);
+    setTimeout(() => {
+      setResult(synthesizePath({
+        targets,
+        timing: useTiming ? timing : undefined,
+        branch,
+        grashofType: grashofType || undefined,
+        initial,
+        seed: runs + 1,
+      }));
+      setRuns(runs + 1);
+      setRunning(false);
+    }, 20);
+  };
+
+  const addTarget = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+    setTargets([...targets, { x: Math.round(local.x), y: Math.round(-local.y) }]);
+    setTiming([...timing, timing.length ? timing[timing.length - 1] + 30 : 0]);
+  };
+
+  const removeTarget = (index: number) => {
+    setTargets(targets.filter((_, i) => i !== index));
+    setTiming(timing.filter((_, i) => i !== index));
+  };
+
+  const updateTarget = (index: number, patch: Partial<Vector2>) => {
+    setTargets(targets.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  // Fitted linkage at the first target, plus its full coupler curve
+  let joints = null;
+  let couplerCurve: Vector2[][] = [];
+  if (design) {
+    const range = calculateReachableRange(design.lengths, design.placement.angle);
+    joints = calculateJoints(design.lengths, design.angle, design.branch, design.placement);
+    couplerCurve = traceCouplerCurve(design.lengths, design.branch, design.couplerPoint, range, design.placement);
+  }
+  const pathPoint = joints && design ? calculateCouplerPoint(joints, design.couplerPoint) : null;
+  const pivots = design ? groundPivots(design.placement, design.lengths.frame) : null;
+
+  const gridLines = [];
+  for (let x = PATH_VIEW.minX; x <= PATH_VIEW.maxX; x += 50) gridLines.push({ x1: x, y1: PATH_VIEW.minY, x2: x, y2: PATH_VIEW.maxY });
+  for (let y = PATH_VIEW.minY; y <= PATH_VIEW.maxY; y += 50) gridLines.push({ x1: PATH_VIEW.minX, y1: y, x2: PATH_VIEW.maxX, y2: y });
+
+  const numberInput = (value: number, onChange: (v: number) => void) => (
+    <input
+      type="number"
+      step={1}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!isNaN(v)) onChange(v);
+      }}
+      className="w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+    />
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            viewBox={`${PATH_VIEW.minX} ${-PATH_VIEW.maxY} ${PATH_VIEW.maxX - PATH_VIEW.minX} ${PATH_VIEW.maxY - PATH_VIEW.minY}`}
+            preserveAspectRatio="xMidYMid meet"
+            onClick={addTarget}
+            className="cursor-crosshair"
+          >
+            <g transform="scale(1, -1)">
+              {gridLines.map((l, i) => (
+                <line key={i} {...l} stroke="#e2e8f0" strokeWidth="1" />
+              ))}
+              <line x1={PATH_VIEW.minX} y1={0} x2={PATH_VIEW.maxX} y2={0} stroke="#cbd5e1" strokeWidth="2" />
+              <line x1={0} y1={PATH_VIEW.minY} x2={0} y2={PATH_VIEW.maxY} stroke="#cbd5e1" strokeWidth="2" />
+
+              {couplerCurve.map((curve, i) => (
+                <polyline
+                  key={`curve-${i}`}
+                  points={curve.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke="#0d9488"
+                  strokeWidth="3"
+                />
+              ))}
+
+              {/* Fitted linkage at the first target */}
+              {joints?.isValid && pivots && pathPoint && (
+                <g>
+                  <line x1={pivots.Ax} y1={pivots.Ay} x2={pivots.Dx} y2={pivots.Dy} stroke="#334155" strokeWidth="4" strokeDasharray="10,6" opacity={0.5} />
+                  <polygon
+                    points={`${joints.Bx},${joints.By} ${joints.Cx},${joints.Cy} ${pathPoint.x},${pathPoint.y}`}
+                    fill="#0d9488"
+                    fillOpacity={0.12}
+                    stroke="#0d9488"
+                    strokeWidth="2"
+                  />
+                  <line x1={joints.Ax} y1={joints.Ay} x2={joints.Bx} y2={joints.By} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={joints.Bx} y1={joints.By} x2={joints.Cx} y2={joints.Cy} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={joints.Dx} y1={joints.Dy} x2={joints.Cx} y2={joints.Cy} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  {[{ x: pivots.Ax, y: pivots.Ay }, { x: pivots.Dx, y: pivots.Dy }].map((p, i) => (
+                    <g key={`ground-${i}`}>
+                      <path d={`M ${p.x - 12} ${p.y - 12} L ${p.x + 12} ${p.y - 12} L ${p.x} ${p.y} Z`} fill="#94a3b8" />
+                      <circle cx={p.x} cy={p.y} r={7} fill="white" stroke="#1e293b" strokeWidth="3" />
+                    </g>
+                  ))}
+                  {[{ x: joints.Bx, y: joints.By }, { x: joints.Cx, y: joints.Cy }].map((p, i) => (
+                    <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={5} fill="white" stroke="#1e293b" strokeWidth="2" />
+                  ))}
+                </g>
+              )}
+
+              {/* Residuals: each target to its curve point */}
+              {result?.isValid && result.matchedPoints.map((p, i) => (
+                <line key={`residual-${i}`} x1={targets[i]?.x} y1={targets[i]?.y} x2={p.x} y2={p.y} stroke="#dc2626" strokeWidth="2" strokeDasharray="4,3" />
+              ))}
+
+              {targets.map((p, i) => (
+                <circle key={`target-${i}`} cx={p.x} cy={p.y} r={7} fill="#4f46e5" stroke="white" strokeWidth="2" />
+              ))}
+            </g>
+
+            {/* Labels drawn unflipped */}
+            {targets.map((p, i) => (
+              <text key={`label-${i}`} x={p.x + 10} y={-p.y - 10} className="font-bold" fill="#4f46e5" style={{fontSize: '16px'}}>
+                {i + 1}
+              </text>
+            ))}
+          </svg>
+
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-indigo-600" />
+            Click the canvas to add a target point
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Target Points</h2>
+            <button
+              onClick={() => { setTargets([]); setTiming([]); }}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Clear
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer mb-3">
+            <input
+              type="checkbox"
+              checked={useTiming}
+              onChange={(e) => setUseTiming(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            Prescribe timing (input angle at each point)
+          </label>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {targets.map((p, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="w-5 text-xs font-bold text-indigo-600">{i + 1}</span>
+                {numberInput(p.x, v => updateTarget(i, { x: v }))}
+                {numberInput(p.y, v => updateTarget(i, { y: v }))}
+                {useTiming && numberInput(timing[i], v => setTiming(timing.map((t, k) => (k === i ? v : t))))}
+                <button onClick={() => removeTarget(i)} className="text-slate-400 hover:text-red-600" title="Remove point">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          {useTiming && (
+            <p className="text-xs text-slate-400 mt-2 italic">
+              Last column: input angle in degrees. Only the differences matter; the start angle is optimized.
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Search</h2>
+          <div className="space-y-4">
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {[AssemblyBranch.OPEN, AssemblyBranch.CROSSED].map((b) => (
+                <button
+                  key={b}
+                  onClick={() => setBranch(b)}
+                  className={`flex-1 px-2 py-1 rounded-md capitalize transition-colors ${
+                    branch === b ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {b}
+                </button>
+              ))}
+            </div>
+            <label className="block text-sm font-medium text-slate-600">
+              Mechanism type
+              <select
+                value={grashofType}
+                onChange={(e) => setGrashofType(e.target.value as BarkerType | '')}
+                className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+              >
+                <option value="">Any</option>
+                {TYPE_CHOICES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-slate-400 italic">
+              Link lengths and the coupler point stay within the simulator's slider ranges.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => runOptimizer()}
+                disabled={running}
+                className="flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Wand2 size={18} /> {running ? 'Optimizing…' : runs > 0 ? 'New Start' : 'Optimize'}
+              </button>
+              {design && (
+                <button
+                  onClick={() => runOptimizer(design)}
+                  disabled={running}
+                  className="flex-1 py-2 px-4 rounded-lg font-medium transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                >
+                  Refine
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {result && (
+          <div className="border-t border-slate-100 pt-6">
+            <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+            {design ? (
+              <div className="space-y-2 text-sm text-slate-600">
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>RMS residual</span>
+                  <span className="font-mono">{result.rmsError.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Max residual</span>
+                  <span className="font-mono">{result.maxError.toFixed(2)}</span>
+                </div>
+                {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                  <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                    <span className="capitalize">{key}</span>
+                    <span className="font-mono">{design.lengths[key].toFixed(1)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Coupler point (p, δ)</span>
+                  <span className="font-mono">{design.couplerPoint.distance.toFixed(1)}, {design.couplerPoint.angle.toFixed(1)}°</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Type</span>
+                  <span className="font-medium text-indigo-600">{grashof?.type}</span>
+                </div>
+                <button
+                  onClick={() => onLoadDesign(design)}
+                  className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  <Upload size={18} /> Load into Simulator
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-red-600">{result.error}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PathSynthesisPanel;
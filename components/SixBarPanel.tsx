@@ -0,0 +1,130 @@
+import React from 'react';
+import { AssemblyBranch, SixBarCheck, SixBarDyad, SixBarType } from '../types.ts';
+import { SIX_BAR_TOPOLOGY } from '../utils/sixbar.ts';
+
+interface SixBarPanelProps {
+  dyad: SixBarDyad | null;
+  onDyadChange: (dyad: SixBarDyad | null) => void;
+  check: SixBarCheck | null;
+}
+
+// Starting dyads that assemble over a full turn of the default four-bar
+const SIX_BAR_PRESETS: Record<SixBarType, Pick<SixBarDyad, 'pointE' | 'pointF' | 'lengths'>> = {
+  [SixBarType.WATT_I]: { pointE: { distance: 97, angle: -45 }, pointF: { distance: 58, angle: 48 }, lengths: { first: 141, second: 151 } },
+  [SixBarType.WATT_II]: { pointE: { distance: 87, angle: -27 }, pointF: { distance: 101, angle: -20 }, lengths: { first: 201, second: 106 } },
+  [SixBarType.STEPHENSON_I]: { pointE: { distance: 112, angle: 57 }, pointF: { distance: 46, angle: -70 }, lengths: { first: 197, second: 214 } },
+  [SixBarType.STEPHENSON_II]: { pointE: { distance: 87, angle: -107 }, pointF: { distance: 77, angle: -166 }, lengths: { first: 109, second: 172 } },
+  [SixBarType.STEPHENSON_III]: { pointE: { distance: 138, angle: 19 }, pointF: { distance: 216, angle: 25 }, lengths: { first: 206, second: 181 } },
+};
+
+const SixBarPanel: React.FC<SixBarPanelProps> = ({ dyad, onDyadChange, check }) => {
+  const selectType = (value: string) => {
+    const type = Object.values(SixBarType).find(t => t === value);
+    onDyadChange(type ? { type, branch: dyad?.branch ?? AssemblyBranch.OPEN, ...SIX_BAR_PRESETS[type] } : null);
+  };
+
+  const topology = dyad ? SIX_BAR_TOPOLOGY[dyad.type] : null;
+  const carrier = (link: string) => dyad?.type === SixBarType.STEPHENSON_II && link === 'frame' ? 'driver' : link;
+  const fields = dyad ? [
+    { label: `E on ${carrier(topology.e)}: p`, value: dyad.pointE.distance, set: (v: number) => onDyadChange({ ...dyad, pointE: { ...dyad.pointE, distance: v } }) },
+    { label: 'E: δ°', value: dyad.pointE.angle, set: (v: number) => onDyadChange({ ...dyad, pointE: { ...dyad.pointE, angle: v } }) },
+    { label: `F on ${carrier(topology.f)}: p`, value: dyad.pointF.distance, set: (v: number) => onDyadChange({ ...dyad, pointF: { ...dyad.pointF, distance: v } }) },
+    { label: 'F: δ°', value: dyad.pointF.angle, set: (v: number) => onDyadChange({ ...dyad, pointF: { ...dyad.pointF, angle: v } }) },
+    { label: 'Link E-G', value: dyad.lengths.first, set: (v: number) => onDyadChange({ ...dyad, lengths: { ...dyad.lengths, first: v } }) },
+    { label: 'Link G-F', value: dyad.lengths.second, set: (v: number) => onDyadChange({ ...dyad, lengths: { ...dyad.lengths, second: v } }) },
+  ] : [];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Six-Bar</h2>
+        <select
+          value={dyad?.type ?? ''}
+          onChange={(e) => selectType(e.target.value)}
+          className="px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+        >
+          <option value="">Off (four-bar only)</option>
+          {Object.values(SixBarType).map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+
+      {dyad ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs text-slate-500 mb-3">{topology.description}</p>
+            <div className="grid grid-cols-2 gap-3">
+              {fields.map((f) => (
+                <label key={f.label} className="text-xs font-medium text-slate-600 capitalize">
+                  {f.label}
+                  <input
+                    type="number"
+                    step="any"
+                    value={f.value}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      if (!isNaN(v)) f.set(v);
+                    }}
+                    className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-3">
+              <span className="text-xs text-slate-500">Dyad branch</span>
+              <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+                {[AssemblyBranch.OPEN, AssemblyBranch.CROSSED].map((b) => (
+                  <button
+                    key={b}
+                    onClick={() => onDyadChange({ ...dyad, branch: b })}
+                    className={`px-2 py-1 rounded-md capitalize transition-colors ${
+                      dyad.branch === b ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {b}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-2 italic">
+              Points are placed from the link's first joint, with δ measured from the link like the coupler point.
+            </p>
+          </div>
+
+          {check && (
+            <div className="space-y-2 text-sm text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Mobility (Gruebler)</span>
+                <span className={`font-mono font-bold ${check.mobility === 1 ? 'text-green-600' : 'text-red-600'}`}>{check.mobility}</span>
+              </div>
+              {check.loops.map((loop) => (
+                <div key={loop.name} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>{loop.name}</span>
+                  <span className="font-medium text-indigo-600 text-right">{loop.grashof.type}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Assembles over</span>
+                <span className={`font-mono ${check.closure < 1 ? 'text-amber-600' : 'text-slate-700'}`}>
+                  {(check.closure * 100).toFixed(0)}% of a driver turn
+                </span>
+              </div>
+              {check.closure < 1 && (
+                <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                  The dyad cannot reach for part of the cycle; the linkage locks up at the edges of that range.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 italic">
+          Add a dyad to the four-bar to build a Watt or Stephenson six-bar, for dwells and longer strokes.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SixBarPanel;
@@ -0,0 +1,281 @@
+import React, { useRef, useState } from 'react';
+import { CouplerPose, LinkageDesign, Vector2 } from '../types.ts';
+import { synthesizeMotion } from '../utils/synthesis.ts';
+import { determineGrashof } from '../utils/kinematics.ts';
+import { Crosshair, Upload } from 'lucide-react';
+
+interface SynthesisPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+// Fixed drawing area (model units) so placed poses don't shift under the cursor
+const VIEW = { minX: -300, maxX: 500, minY: -250, maxY: 350 };
+const POSE_COLORS = ['#4f46e5', '#0d9488', '#d97706'];
+
+const SynthesisPanel: React.FC<SynthesisPanelProps> = ({ onLoadDesign }) => {
+  const [poses, setPoses] = useState<CouplerPose[]>([
+    { x: 0, y: 150, angle: 0 },
+    { x: 80, y: 190, angle: -20 },
+    { x: 160, y: 160, angle: -45 },
+  ]);
+  const [poseCount, setPoseCount] = useState<2 | 3>(3);
+  const [selected, setSelected] = useState<number>(0);
+  const [movingB, setMovingB] = useState<Vector2>({ x: -60, y: -60 });
+  const [movingC, setMovingC] = useState<Vector2>({ x: 60, y: -60 });
+  const [offsets, setOffsets] = useState<[number, number]>([-100, -100]);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const activePoses = poses.slice(0, poseCount);
+  const result = synthesizeMotion(activePoses, [movingB, movingC], offsets);
+  const grashof = result.design ? determineGrashof(result.design.lengths) : null;
+
+  const updatePose = (index: number, patch: Partial<CouplerPose>) => {
+    setPoses(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  // Screen -> model coordinates; the drawing group flips Y so it points up
+  const handleCanvasClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+    updatePose(selected, { x: Math.round(local.x), y: Math.round(-local.y) });
+  };
+
+  const gridLines = [];
+  for (let x = VIEW.minX; x <= VIEW.maxX; x += 50) gridLines.push({ x1: x, y1: VIEW.minY, x2: x, y2: VIEW.maxY });
+  for (let y = VIEW.minY; y <= VIEW.maxY; y += 50) gridLines.push({ x1: VIEW.minX, y1: y, x2: VIEW.maxX, y2: y });
+
+  const pivotSliders = [
+    { label: 'B along pose (x)', value: movingB.x, set: (v: number) => setMovingB({ ...movingB, x: v }) },
+    { label: 'B across pose (y)', value: movingB.y, set: (v: number) => setMovingB({ ...movingB, y: v }) },
+    { label: 'C along pose (x)', value: movingC.x, set: (v: number) => setMovingC({ ...movingC, x: v }) },
+    { label: 'C across pose (y)', value: movingC.y, set: (v: number) => setMovingC({ ...movingC, y: v }) },
+  ];
+
+  const [A, D] = result.groundPivots;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            viewBox={`${VIEW.minX} ${-VIEW.maxY} ${VIEW.maxX - VIEW.minX} ${VIEW.maxY - VIEW.minY}`}
+            preserveAspectRatio="xMidYMid meet"
+            onClick={handleCanvasClick}
+            className="cursor-crosshair"
+          >
+            <g transform="scale(1, -1)">
+              {gridLines.map((l, i) => (
+                <line key={i} {...l} stroke="#e2e8f0" strokeWidth="1" />
+              ))}
+              <line x1={VIEW.minX} y1={0} x2={VIEW.maxX} y2={0} stroke="#cbd5e1" strokeWidth="2" />
+              <line x1={0} y1={VIEW.minY} x2={0} y2={VIEW.maxY} stroke="#cbd5e1" strokeWidth="2" />
+
+              {/* Coupler plate in every pose */}
+              {result.movingPivots.map(([B, C], j) => (
+                <polygon
+                  key={`plate-${j}`}
+                  points={`${B.x},${B.y} ${C.x},${C.y} ${activePoses[j].x},${activePoses[j].y}`}
+                  fill={POSE_COLORS[j]}
+                  fillOpacity={0.12}
+                  stroke={POSE_COLORS[j]}
+                  strokeWidth="2"
+                  strokeDasharray={j === 0 ? undefined : '6,4'}
+                />
+              ))}
+
+              {/* Synthesized linkage in the first pose */}
+              {result.isValid && (
+                <g>
+                  <circle cx={A.x} cy={A.y} r={Math.hypot(result.movingPivots[0][0].x - A.x, result.movingPivots[0][0].y - A.y)} fill="none" stroke="#94a3b8" strokeDasharray="4,6" />
+                  <circle cx={D.x} cy={D.y} r={Math.hypot(result.movingPivots[0][1].x - D.x, result.movingPivots[0][1].y - D.y)} fill="none" stroke="#94a3b8" strokeDasharray="4,6" />
+                  <line x1={A.x} y1={A.y} x2={D.x} y2={D.y} stroke="#334155" strokeWidth="4" strokeDasharray="10,6" opacity={0.5} />
+                  <line x1={A.x} y1={A.y} x2={result.movingPivots[0][0].x} y2={result.movingPivots[0][0].y} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={D.x} y1={D.y} x2={result.movingPivots[0][1].x} y2={result.movingPivots[0][1].y} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  {[A, D].map((p, i) => (
+                    <g key={`ground-${i}`}>
+                      <path d={`M ${p.x - 12} ${p.y - 12} L ${p.x + 12} ${p.y - 12} L ${p.x} ${p.y} Z`} fill="#94a3b8" />
+                      <circle cx={p.x} cy={p.y} r={7} fill="white" stroke="#1e293b" strokeWidth="3" />
+                    </g>
+                  ))}
+                </g>
+              )}
+
+              {result.movingPivots.flat().map((p, i) => (
+                <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={5} fill="white" stroke="#1e293b" strokeWidth="2" />
+              ))}
+
+              {/* Target poses: point plus orientation arrow */}
+              {activePoses.map((pose, j) => {
+                const tipX = pose.x + 45 * Math.cos((pose.angle * Math.PI) / 180);
+                const tipY = pose.y + 45 * Math.sin((pose.angle * Math.PI) / 180);
+                return (
+                  <g key={`pose-${j}`} onClick={(e) => { e.stopPropagation(); setSelected(j); }} className="cursor-pointer">
+                    <line x1={pose.x} y1={pose.y} x2={tipX} y2={tipY} stroke={POSE_COLORS[j]} strokeWidth="4" strokeLinecap="round" />
+                    <circle cx={pose.x} cy={pose.y} r={selected === j ? 10 : 8} fill={POSE_COLORS[j]} stroke="white" strokeWidth="3" />
+                  </g>
+                );
+              })}
+            </g>
+
+            {/* Labels drawn unflipped */}
+            {activePoses.map((pose, j) => (
+              <text key={`label-${j}`} x={pose.x + 12} y={-pose.y - 14} className="font-bold" fill={POSE_COLORS[j]} style={{fontSize: '18px'}}>
+                {j + 1}
+              </text>
+            ))}
+            {result.isValid && (
+              <>
+                <text x={A.x} y={-A.y + 32} textAnchor="middle" className="fill-slate-600 font-bold" style={{fontSize: '18px'}}>A</text>
+                <text x={D.x} y={-D.y + 32} textAnchor="middle" className="fill-slate-600 font-bold" style={{fontSize: '18px'}}>D</text>
+              </>
+            )}
+          </svg>
+
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-indigo-600" />
+            Click the canvas to move pose {selected + 1}
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Coupler Poses</h2>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {([2, 3] as const).map((n) => (
+                <button
+                  key={n}
+                  onClick={() => { setPoseCount(n); setSelected(Math.min(selected, n - 1)); }}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    poseCount === n ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {n} positions
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {activePoses.map((pose, j) => (
+              <div
+                key={j}
+                onClick={() => setSelected(j)}
+                className={`p-3 rounded-lg border cursor-pointer ${selected === j ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100'}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-3 h-3 rounded-full" style={{ background: POSE_COLORS[j] }}></div>
+                  <span className="text-sm font-medium text-slate-700">Pose {j + 1}</span>
+                  <span className="ml-auto text-xs font-mono text-slate-500">({pose.x}, {pose.y})</span>
+                </div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-xs text-slate-500">Orientation</label>
+                  <span className="text-xs font-mono text-slate-500">{pose.angle}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={-180}
+                  max={180}
+                  value={pose.angle}
+                  onChange={(e) => updatePose(j, { angle: parseInt(e.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-1">Moving Pivots</h2>
+          <p className="text-xs text-slate-400 mb-4 italic">Position of B and C on the coupler, relative to the pose point and arrow.</p>
+          <div className="space-y-4">
+            {pivotSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{s.value}</span>
+                </div>
+                <input
+                  type="range"
+                  min={-200}
+                  max={200}
+                  value={s.value}
+                  onChange={(e) => s.set(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+            {poseCount === 2 && ['A', 'D'].map((name, i) => (
+              <div key={name}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{name} along bisector</label>
+                  <span className="text-sm font-bold text-indigo-600">{offsets[i]}</span>
+                </div>
+                <input
+                  type="range"
+                  min={-300}
+                  max={300}
+                  value={offsets[i]}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    setOffsets(i === 0 ? [value, offsets[1]] : [offsets[0], value]);
+                  }}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+          {result.isValid && result.design ? (
+            <div className="space-y-2 text-sm text-slate-600">
+              {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="capitalize">{key}</span>
+                  <span className="font-mono">{result.design.lengths[key].toFixed(1)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Type</span>
+                <span className="font-medium text-indigo-600">{grashof?.type}</span>
+              </div>
+              {result.branchDefect && (
+                <div className="p-3 bg-red-50 text-red-700 rounded text-xs leading-relaxed">
+                  <strong>Branch defect:</strong> The poses lie on different assembly branches, so the linkage
+                  would have to be taken apart to reach all of them.
+                </div>
+              )}
+              {result.orderDefect && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                  <strong>Order defect:</strong> The driver rocks and cannot reach the poses in sequence
+                  without reversing at a toggle position.
+                </div>
+              )}
+              <button
+                onClick={() => onLoadDesign(result.design)}
+                className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Upload size={18} /> Load into Simulator
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-red-600">{result.error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SynthesisPanel;
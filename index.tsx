@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useRef, useState, useMemo, useEffect, useCallback } from 'react';
 import ReactDOM from 'react-dom/client';
-import { Settings, Play, Pause, RotateCw } from 'lucide-react';
+import { Play, Pause, RotateCw, RotateCcw, Download, Crosshair, Upload, Trash2, Wand2, Target, FileImage, FolderOpen, Link, Save, Settings } from 'lucide-react';
 
 // --- TYPES ---
 export interface LinkLengths {
@@ -22,12 +22,26 @@ export interface JointCoordinates {
   isValid: boolean;
 }
 
-export enum GrashofType {
-  CRANK_ROCKER = "Crank-Rocker",
-  DOUBLE_CRANK = "Double-Crank (Drag-Link)",
-  DOUBLE_ROCKER_I = "Double-Rocker (Type I)",
-  DOUBLE_ROCKER_II = "Double-Rocker (Type II - Non-Grashof)",
-  CHANGE_POINT = "Change Point (Neutral)",
+// Barker's classification relative to the ground and driver. The letters
+// after the class tell whether the input, coupler and output turn fully
+// relative to the ground (Crank) or only oscillate (Rocker). G marks a
+// Grashof chain, S a change-point chain (S + L = P + Q) and RRR a
+// non-Grashof triple rocker, numbered by which link is the longest.
+export enum BarkerType {
+  GCCC = "Double-Crank (GCCC)",
+  GCRR = "Crank-Rocker (GCRR)",
+  GRCR = "Double-Rocker (GRCR)",
+  GRRC = "Rocker-Crank (GRRC)",
+  RRR1 = "Triple-Rocker, Input Longest (RRR1)",
+  RRR2 = "Triple-Rocker, Ground Longest (RRR2)",
+  RRR3 = "Triple-Rocker, Output Longest (RRR3)",
+  RRR4 = "Triple-Rocker, Coupler Longest (RRR4)",
+  SCCC = "Change-Point Double-Crank (SCCC)",
+  SCRR = "Change-Point Crank-Rocker (SCRR)",
+  SRCR = "Change-Point Double-Rocker (SRCR)",
+  SRRC = "Change-Point Rocker-Crank (SRRC)",
+  S2X = "Double Change Point (S2X)",
+  S3X = "Triple Change Point (S3X)",
   INVALID = "Invalid Geometry"
 }
 
@@ -38,31 +52,787 @@ export enum LinkRole {
   OUTPUT = "output"
 }
 
+// The two assembly configurations (circuits) that close the loop for a
+// given input angle. OPEN places C clockwise of the ray D->B, CROSSED
+// places it counter-clockwise, so each branch is continuous over a cycle.
+export enum AssemblyBranch {
+  OPEN = "open",
+  CROSSED = "crossed"
+}
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+// Angular rates are in rad/s and rad/s², linear ones in length units per second.
+export interface MotionAnalysis {
+  omegaCoupler: number; // ω3
+  omegaOutput: number;  // ω4
+  alphaCoupler: number; // α3
+  alphaOutput: number;  // α4
+  velB: Vector2;
+  velC: Vector2;
+  accB: Vector2;
+  accC: Vector2;
+  isValid: boolean;
+}
+
+// A point where two links have the same velocity. Links are numbered by
+// solver slot: 1 ground, 2 driver, 3 coupler, 4 output. Parallel lines meet
+// at infinity, so such a center holds the lines' direction instead.
+export interface InstantCenter {
+  name: string; // e.g. "13"
+  point: Vector2; // Position, or a unit direction when at infinity; NaN if undetermined
+  atInfinity: boolean;
+}
+
+// The six instant centers (I12, I13, I14, I23, I24, I34) and the speed
+// ratios they give. The mechanical advantage is the ideal torque ratio
+// T4 / T2 = ω2 / ω4, infinite where the output stops.
+export interface InstantCenterAnalysis {
+  centers: InstantCenter[];
+  velocityRatio: number;       // ω4 / ω2, from I24
+  couplerRatio: number;        // ω3 / ω2, from I13
+  mechanicalAdvantage: number;
+  isValid: boolean;
+}
+
+// External load for the static analysis: a force (global components) acting
+// on the coupler at C or at the coupler point, plus a torque on the output
+// link. Torques are counter-clockwise positive.
+export interface StaticLoad {
+  force: Vector2;
+  forceAt: 'C' | 'couplerPoint';
+  outputTorque: number;
+}
+
+// Static equilibrium with massless links and frictionless pins. Each pin
+// force is the one the first-named body exerts on the second.
+export interface StaticAnalysis {
+  pinA: Vector2;       // ground on input
+  pinB: Vector2;       // input on coupler
+  pinC: Vector2;       // coupler on output
+  pinD: Vector2;       // ground on output
+  inputTorque: number; // Torque the driver must apply to the input link
+  isValid: boolean;
+}
+
+// Mass properties of one link. The center of mass is given in the link's own
+// frame: x along the link from its first joint (frame A->D, input A->B,
+// coupler B->C, output D->C), y perpendicular to it, counter-clockwise.
+export interface LinkMass {
+  mass: number;
+  com: Vector2;
+  inertia: number; // About the center of mass
+}
+
+// Full link model: geometry plus mass properties, both keyed by physical link
+export interface LinkModel {
+  lengths: LinkLengths;
+  masses: Record<keyof LinkLengths, LinkMass>;
+}
+
+// Inertial and applied forces at one instant of a constant-speed cycle.
+// Shaking force and moment are what the moving links and the driver exert on
+// the frame, the moment taken about the driver's pivot A.
+export interface DynamicAnalysis extends StaticAnalysis {
+  shakingForce: Vector2;
+  shakingMoment: number;
+}
+
+// Transmission angle μ between coupler and output, in degrees (0–180)
+export interface TransmissionAngleInfo {
+  current: number; // NaN when the loop cannot close
+  min: number;     // Over the reachable input range
+  max: number;
+}
+
+// One input angle of a sweep over the cycle, in degrees. Link angles are
+// measured from the global x axis and kept continuous from sample to sample.
+export interface KinematicSample {
+  angle: number;
+  joints: JointCoordinates;
+  outputAngle: number;       // D->C; NaN where the loop cannot close
+  couplerAngle: number;      // B->C
+  transmissionAngle: number;
+  velocityRatio: number;     // ω4 / ω2; NaN at the output's dead points
+  isValid: boolean;
+}
+
+// Input angles (degrees) at which the loop closes. Each interval runs
+// counter-clockwise from start to end; end may exceed 360 when it wraps past 0°.
+export interface ReachableRange {
+  fullRotation: boolean;
+  intervals: { start: number, end: number }[];
+  limits: number[]; // Toggle positions: coupler and output collinear
+}
+
+// Which way the tracker leaves a change point, where both assembly branches
+// meet with all four joints in line
+export enum ChangePointMode {
+  SMOOTH = "smooth", // Carry on without a kink in the motion
+  SWITCH = "switch"  // Take the other branch out of the change point
+}
+
+// A change point passed while moving the input, with the flat pose on it
+export interface ChangePointEvent {
+  angle: number;
+  from: AssemblyBranch;
+  to: AssemblyBranch;
+  smooth: boolean; // Whether `to` continues the motion without a kink
+  joints: JointCoordinates;
+}
+
+// Point rigidly attached to the coupler, measured from B relative to line BC
+export interface CouplerPoint {
+  distance: number; // p
+  angle: number;    // δ in degrees, counter-clockwise from B->C
+}
+
+export interface Inversion {
+  ground: LinkRole;
+  driver: LinkRole; // Must share a joint with the ground link
+}
+
+export interface GrashofInfo {
+  type: BarkerType;
+  shortest: LinkRole;
+  longest: LinkRole;
+  margin: number; // (P + Q) − (S + L): positive for Grashof, zero at a change point
+  // Barker's T1 = g + c − a − b, T2 = b + g − a − c, T3 = b + c − a − g for
+  // ground g, input a, coupler b, output c; zero within the change-point tolerance
+  characteristics: [number, number, number];
+  // Links each link can turn fully relative to, passing change points where needed
+  fullRotation: Record<LinkRole, LinkRole[]>;
+}
+
+// Which physical link and joint sit in each slot of the grounded, driven
+// chain that the solver works with (frame = ground, input = driver)
+export interface InversionLayout {
+  links: { frame: LinkRole, input: LinkRole, coupler: LinkRole, output: LinkRole };
+  joints: { A: string, B: string, C: string, D: string };
+}
+
+// Toggle-to-toggle strokes of a crank-rocker driven by its crank (degrees)
+export interface QuickReturnInfo {
+  swingAngle: number;        // Rocker travel between the two toggle positions
+  workingCrankAngle: number; // Crank rotation during the slow stroke
+  returnCrankAngle: number;  // Crank rotation during the quick stroke
+  timeRatio: number;         // working / return, at constant crank speed
+}
+
+// Global placement of the ground link: the driver's pivot (A) and the
+// direction from it towards the other ground pivot (D)
+export interface FramePlacement {
+  originX: number;
+  originY: number;
+  angle: number; // degrees
+}
+
+// A complete mechanism that a designer tool can hand over to the simulator
+export interface LinkageDesign {
+  lengths: LinkLengths;
+  placement: FramePlacement;
+  branch: AssemblyBranch;
+  angle: number;
+  couplerPoint?: CouplerPoint;
+}
+
+// A rigid link of a general planar linkage, by the joints it carries
+export interface MechanismLink {
+  name: string;
+  joints: string[]; // Two for a binary link, three for a ternary plate
+  ground?: boolean;
+}
+
+// Joint positions of a general linkage, keyed by joint name
+export interface MechanismPose {
+  joints: Record<string, Vector2>;
+  isValid: boolean;
+}
+
+export enum SixBarType {
+  WATT_I = "Watt I",
+  WATT_II = "Watt II",
+  STEPHENSON_I = "Stephenson I",
+  STEPHENSON_II = "Stephenson II",
+  STEPHENSON_III = "Stephenson III"
+}
+
+// A six-bar built from the solver's four-bar and a dyad E-G-F. E and F ride
+// on the four-bar links named by the topology, placed from each link's first
+// joint like the coupler point (frame points from A along A->D).
+export interface SixBarDyad {
+  type: SixBarType;
+  pointE: CouplerPoint;
+  pointF: CouplerPoint;
+  lengths: { first: number, second: number }; // E-G and G-F
+  branch: AssemblyBranch; // OPEN puts G clockwise of the ray F->E, as C is of D->B
+}
+
+// Gruebler mobility and the closure checks of each loop
+export interface SixBarCheck {
+  mobility: number;
+  loops: { name: string, lengths: LinkLengths, grashof: GrashofInfo }[]; // Four-link loops
+  closure: number; // Share of the driver's turn over which the whole linkage assembles
+}
+
+export enum MechanismType {
+  FOUR_BAR = "four-bar",
+  SLIDER_CRANK = "slider-crank",
+  SPHERICAL = "spherical"
+}
+
+// Links of the offset slider-crank. The guide carries the crank pivot A and
+// the line the slider runs along, offset by e from A; grounding each in turn
+// gives the four inversions.
+export enum SliderLink {
+  GUIDE = "guide",
+  CRANK = "crank",
+  ROD = "rod",
+  SLIDER = "slider"
+}
+
+export interface SliderCrankDimensions {
+  crank: number;  // r, A-B
+  rod: number;    // l, B-C
+  offset: number; // e, how far the guide line runs to the left of A, looking along it
+}
+
+// Joints A, B and C plus the guide's global direction
+export interface SliderCrankPose extends MechanismPose {
+  guideAngle: number; // degrees
+  position: number;   // Slider travel along the guide from the foot of A
+}
+
+export interface SliderCrankInfo {
+  type: string; // Driver motion, then the output's, e.g. "Crank-Slider"
+  fullRotation: Record<SliderLink, SliderLink[]>; // Links each link can turn fully relative to
+  driverRotates: boolean;
+  stroke: number; // Slider travel over the driver's range; NaN when nothing assembles
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Unit vectors along the joint axes of a spherical four-bar, which all pass
+// through the centre of the sphere. Its links are great-circle arcs between
+// the axes, so its "lengths" are the arc angles in degrees.
+export interface SphericalPose {
+  A: Vector3;
+  B: Vector3;
+  C: Vector3;
+  D: Vector3;
+  isValid: boolean;
+}
+
+export interface SphericalInfo {
+  type: string; // Input, then output, relative to the ground, e.g. "Crank-Rocker"
+  jointTurns: Record<'A' | 'B' | 'C' | 'D', boolean>;
+  fullRotation: Record<LinkRole, LinkRole[]>; // Links each link can turn fully relative to
+}
+
+// Orthographic view of the sphere from the given direction (degrees)
+export interface SphereView {
+  azimuth: number;   // About the z axis, from +x
+  elevation: number; // Above the xy plane
+}
+
+// One of the two other four-bars that trace the same coupler curve
+// (Roberts–Chebyshev). Its joints use the solver's slots: A and D are its
+// ground pivots, B and C its moving joints.
+export interface Cognate {
+  joints: JointCoordinates;
+  design: LinkageDesign; // The cognate on its own, driven from its pivot A
+}
+
+// Which of the three coupler-curve cognates the canvas draws
+export type CognateView = 'off' | 'all' | 'original' | 'cognate1' | 'cognate2';
+
+// Desired position of the coupler point together with the coupler's orientation
+export interface CouplerPose {
+  x: number;
+  y: number;
+  angle: number; // degrees
+}
+
+export interface MotionSynthesisResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  groundPivots: Vector2[];      // [A, D]
+  movingPivots: Vector2[][];    // [B, C] in each pose
+  inputAngles: number[];        // degrees, one per pose
+  branchDefect: boolean;        // Poses need different assembly branches
+  orderDefect: boolean;         // Driver cannot pass the poses in sequence
+}
+
+// Maps x ∈ [xStart, xEnd] linearly onto the input angle and f(x) onto the
+// output angle; angles in degrees, measured from the frame line
+export interface FunctionGeneratorSpec {
+  fn: (x: number) => number;
+  xStart: number;
+  xEnd: number;
+  inputStart: number;
+  inputRange: number;
+  outputStart: number;
+  outputRange: number;
+  frame: number;
+  precisionPoints: number[]; // Three x values
+}
+
+export interface FunctionGeneratorResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  // Output angle error (achieved − desired, degrees) over the whole x range
+  structuralError: { x: number, error: number }[];
+  maxError: number;        // Largest |error| where the linkage assembles
+  coversRange: boolean;    // Assembles over the whole x range on one branch
+  branchDefect: boolean;   // Precision points need different branches
+}
+
+// Coupler curve fit through target points. Without timing each target is
+// matched to the nearest point of the curve; with timing, target i must be
+// reached at the first target's input angle plus timing[i] (degrees).
+export interface PathSynthesisSpec {
+  targets: Vector2[];
+  timing?: number[];
+  branch: AssemblyBranch;
+  grashofType?: BarkerType; // Accept only this type
+  initial?: LinkageDesign;   // Seed the search, e.g. to refine an earlier result
+  seed?: number;
+}
+
+export interface PathSynthesisResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  matchedPoints: Vector2[]; // Curve point assigned to each target
+  deviations: number[];     // Distance from each target to its curve point
+  rmsError: number;
+  maxError: number;
+}
+
+// Classical crank-rocker construction: the rocker's two extreme positions
+// C1, C2 and a crank pivot A that sees the chord C1C2 under δ = 180°(Q − 1)/(Q + 1)
+export interface CrankRockerSpec {
+  rocker: number;
+  swingAngle: number;      // degrees
+  timeRatio: number;       // Q ≥ 1
+  foldedDistance: number;  // |AC2| = coupler − crank; picks A along its locus
+  farSide: boolean;        // A beyond the chord C1C2, away from the rocker pivot
+}
+
+export interface CrankRockerResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  points: { A: Vector2, D: Vector2, C1: Vector2, C2: Vector2 } | null;
+  maxFoldedDistance: number;   // foldedDistance must stay below this
+  transmission: { min: number, max: number };
+}
+
+// Everything needed to reopen a mechanism in the pose it was saved in, as
+// written to files, links and the browser's library. The version goes up
+// whenever the shape changes.
+export interface SavedDesign {
+  version: number;
+  mechanismType: MechanismType;
+  lengths: LinkLengths;
+  inversion: Inversion;
+  placement: FramePlacement;
+  branch: AssemblyBranch;
+  angle: number;
+  speed: number;
+  couplerPoint: CouplerPoint;
+  sixBar: SixBarDyad | null;
+  sliderCrank: SliderCrankDimensions;
+  sliderGround: SliderLink;
+  sphericalArcs: LinkLengths;
+}
+
+// A saved design read back in; errors say what was wrong when design is null
+export interface DesignParseResult {
+  design: SavedDesign | null;
+  errors: string[];
+}
+
+export interface DesignLibraryEntry {
+  name: string;
+  savedAt: string; // ISO timestamp
+  design: SavedDesign;
+}
+
+// Plain geometry of one pose, for the CAD and animation exports
+export interface LinkageDrawing {
+  links: [Vector2, Vector2][];  // Centerlines of the moving links
+  ground: [Vector2, Vector2][]; // Fixed lines between ground pivots
+  pivots: Vector2[];            // Ground pivots
+  joints: Vector2[];            // Moving pins
+  curves: Vector2[][];          // Traced paths, e.g. the coupler curve
+}
+
+export type DrawingFormat = 'svg' | 'dxf' | 'animated-svg';
+
+// Joints of the four-bar the canvas lets you drag, in solver slots
+export type DraggableJoint = 'B' | 'C' | 'D';
+
+export interface DragSnap {
+  grid: boolean;    // Round the dragged point to the canvas grid
+  lengths: boolean; // Round the link lengths it sets to whole units
+}
+
 // --- KINEMATICS UTILS ---
-const calculateJoints = (lengths: LinkLengths, thetaInput: number): JointCoordinates => {
+// Small parser for single-variable expressions such as "log10(x)" or "x^2 + 1".
+// Compiles once into a closure so sweeping thousands of samples stays cheap.
+
+type Evaluator = (x: number) => number;
+
+const FUNCTIONS: Record<string, (v: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  exp: Math.exp, log: Math.log, ln: Math.log, log10: Math.log10,
+  sqrt: Math.sqrt, abs: Math.abs,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const compileExpression = (source: string): { fn?: Evaluator, error?: string } => {
+  const tokens = source.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|[-+*/^()]|\S/gi) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (t: string) => {
+    if (tokens[pos] !== t) throw new Error(`Expected "${t}" but found ${tokens[pos] ? `"${tokens[pos]}"` : 'end of input'}`);
+    pos++;
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): Evaluator => {
+    let left = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++];
+      const l = left, r = parseTerm();
+      left = op === '+' ? x => l(x) + r(x) : x => l(x) - r(x);
+    }
+    return left;
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): Evaluator => {
+    let left = parseUnary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++];
+      const l = left, r = parseUnary();
+      left = op === '*' ? x => l(x) * r(x) : x => l(x) / r(x);
+    }
+    return left;
+  };
+
+  // unary := '-' unary | power
+  const parseUnary = (): Evaluator => {
+    if (peek() === '-') {
+      pos++;
+      const inner = parseUnary();
+      return x => -inner(x);
+    }
+    if (peek() === '+') {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const parsePower = (): Evaluator => {
+    const base = parsePrimary();
+    if (peek() !== '^') return base;
+    pos++;
+    const exponent = parseUnary();
+    return x => Math.pow(base(x), exponent(x));
+  };
+
+  const parsePrimary = (): Evaluator => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of input');
+    if (token === '(') {
+      const inner = parseExpr();
+      expect(')');
+      return inner;
+    }
+    if (/^\d*\.?\d+(?:e[+-]?\d+)?$/i.test(token)) {
+      const value = parseFloat(token);
+      return () => value;
+    }
+    const name = token.toLowerCase();
+    if (name === 'x') return x => x;
+    // Own keys only, so names like "constructor" stay unknown
+    if (Object.hasOwn(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      const f = FUNCTIONS[name];
+      expect('(');
+      const arg = parseExpr();
+      expect(')');
+      return x => f(arg(x));
+    }
+    throw new Error(`Unknown symbol "${token}"`);
+  };
+
+  try {
+    const fn = parseExpr();
+    if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+    return { fn };
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+};
+
+// Solves A·x = b by Gaussian elimination with partial pivoting.
+// Returns null when the system is singular.
+const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// Seeded PRNG (mulberry32), so an optimizer run can be repeated exactly
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const clampUnit = (v: number) => Math.min(1, Math.max(0, v));
+
+// Nelder–Mead simplex descent from a starting point; vertices are clamped to the unit cube
+const nelderMead = (
+  cost: (u: number[]) => number,
+  start: number[],
+  iterations: number,
+  size: number
+): { x: number[], value: number } => {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, k) => (k !== i ? v : v + size <= 1 ? v + size : v - size)))];
+  let values = simplex.map(cost);
+
+  for (let it = 0; it < iterations; it++) {
+    const order = values.map((_, i) => i).sort((p, q) => values[p] - values[q]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+    if (values[n] - values[0] <= 1e-12 * (Math.abs(values[0]) + 1e-12)) break;
+
+    const worst = simplex[n];
+    const centroid = worst.map((_, k) => simplex.slice(0, n).reduce((sum, p) => sum + p[k], 0) / n);
+    const along = (t: number) => centroid.map((c, k) => clampUnit(c + t * (worst[k] - c)));
+    const replaceWorst = (x: number[], value: number) => { simplex[n] = x; values[n] = value; };
+
+    const reflected = along(-1);
+    const reflectedValue = cost(reflected);
+    if (reflectedValue < values[0]) {
+      const expanded = along(-2);
+      const expandedValue = cost(expanded);
+      if (expandedValue < reflectedValue) replaceWorst(expanded, expandedValue);
+      else replaceWorst(reflected, reflectedValue);
+    } else if (reflectedValue < values[n - 1]) {
+      replaceWorst(reflected, reflectedValue);
+    } else {
+      const contracted = along(reflectedValue < values[n] ? -0.5 : 0.5);
+      const contractedValue = cost(contracted);
+      if (contractedValue < Math.min(reflectedValue, values[n])) {
+        replaceWorst(contracted, contractedValue);
+      } else {
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((v, k) => simplex[0][k] + 0.5 * (v - simplex[0][k]));
+          values[i] = cost(simplex[i]);
+        }
+      }
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best] };
+};
+
+// One differential evolution run (DE/current-to-best/1/bin with dithered
+// weight) followed by a Nelder–Mead polish of its best member
+const evolve = (
+  cost: (u: number[]) => number,
+  dimension: number,
+  population: number,
+  generations: number,
+  initial: number[][],
+  random: () => number
+): { x: number[], value: number } => {
+  const members = Array.from({ length: population }, (_, i) =>
+    i < initial.length ? initial[i].map(clampUnit) : Array.from({ length: dimension }, random)
+  );
+  const values = members.map(cost);
+  let best = values.indexOf(Math.min(...values));
+
+  for (let gen = 0; gen < generations; gen++) {
+    for (let i = 0; i < population; i++) {
+      let r1: number, r2: number;
+      do { r1 = Math.floor(random() * population); } while (r1 === i);
+      do { r2 = Math.floor(random() * population); } while (r2 === i || r2 === r1);
+
+      const weight = 0.5 + 0.5 * random();
+      const forced = Math.floor(random() * dimension);
+      const trial = members[i].map((v, k) => (k === forced || random() < 0.9)
+        ? clampUnit(v + weight * (members[best][k] - v) + weight * (members[r1][k] - members[r2][k]))
+        : v);
+
+      const value = cost(trial);
+      if (value <= values[i]) {
+        members[i] = trial;
+        values[i] = value;
+        if (value < values[best]) best = i;
+      }
+    }
+  }
+
+  const polished = nelderMead(cost, members[best], 200 * dimension, 0.02);
+  return polished.value < values[best] ? polished : { x: members[best], value: values[best] };
+};
+
+// Global minimization over the unit hypercube [0, 1]^dimension, keeping the
+// best of several evolution runs. Initial guesses, if given, join every population.
+const minimizeInUnitCube = (
+  cost: (u: number[]) => number,
+  dimension: number,
+  options: { population?: number, generations?: number, restarts?: number, seed?: number, initial?: number[][] } = {}
+): { x: number[], value: number } => {
+  const { population = 10 * dimension, generations = 300, restarts = 1, seed = 1, initial = [] } = options;
+  const random = seededRandom(seed);
+  let result = { x: [] as number[], value: Infinity };
+  for (let run = 0; run < restarts; run++) {
+    const candidate = evolve(cost, dimension, population, generations, initial, random);
+    if (candidate.value < result.value) result = candidate;
+  }
+  return result;
+};
+
+const HORIZONTAL_FRAME: FramePlacement = { originX: 0, originY: 0, angle: 0 };
+
+// Slider ranges for the link lengths; designers that search for lengths stay inside them
+const LINK_LENGTH_BOUNDS: Record<keyof LinkLengths, { min: number, max: number }> = {
+  input: { min: 20, max: 200 },
+  coupler: { min: 20, max: 300 },
+  output: { min: 20, max: 200 },
+  frame: { min: 50, max: 300 },
+};
+
+// Ground pivots A and D in the global frame
+const groundPivots = (placement: FramePlacement, frameLength: number) => {
+  const phi = (placement.angle * Math.PI) / 180;
+  return {
+    Ax: placement.originX,
+    Ay: placement.originY,
+    Dx: placement.originX + frameLength * Math.cos(phi),
+    Dy: placement.originY + frameLength * Math.sin(phi),
+  };
+};
+
+// Inverse of groundPivots: the frame length is whatever the pivots imply
+const placementFromPivots = (
+  Ax: number,
+  Ay: number,
+  Dx: number,
+  Dy: number
+): { placement: FramePlacement, frameLength: number } => ({
+  placement: { originX: Ax, originY: Ay, angle: (Math.atan2(Dy - Ay, Dx - Ax) * 180) / Math.PI },
+  frameLength: Math.hypot(Dx - Ax, Dy - Ay),
+});
+
+// Links in loop order; joint LOOP_JOINTS[i] connects LOOP_LINKS[i] and LOOP_LINKS[i + 1]
+const LOOP_LINKS = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+const LOOP_JOINTS = ['A', 'B', 'C', 'D'];
+
+const adjacentLinks = (role: LinkRole): LinkRole[] => {
+  const i = LOOP_LINKS.indexOf(role);
+  return [LOOP_LINKS[(i + 3) % 4], LOOP_LINKS[(i + 1) % 4]];
+};
+
+const oppositeLink = (role: LinkRole): LinkRole => LOOP_LINKS[(LOOP_LINKS.indexOf(role) + 2) % 4];
+
+// Walks the loop from the ground towards the driver, so every inversion maps
+// onto the standard problem solved by calculateJoints
+const resolveInversion = (inversion: Inversion): InversionLayout => {
+  const g = LOOP_LINKS.indexOf(inversion.ground);
+  const dir = LOOP_LINKS[(g + 1) % 4] === inversion.driver ? 1 : -1;
+  const link = (k: number) => LOOP_LINKS[(g + dir * k + 4) % 4];
+  // Going forwards the joint after link i is LOOP_JOINTS[i]; backwards it is the one before
+  const joint = (k: number) => LOOP_JOINTS[(g + dir * k + (dir === 1 ? 0 : 3) + 4) % 4];
+
+  return {
+    links: { frame: link(0), input: link(1), coupler: link(2), output: link(3) },
+    joints: { A: joint(0), B: joint(1), C: joint(2), D: joint(3) },
+  };
+};
+
+// Link lengths as seen by the solver: frame is the ground link, input the driver
+const invertLengths = (lengths: LinkLengths, layout: InversionLayout): LinkLengths => ({
+  frame: lengths[layout.links.frame],
+  input: lengths[layout.links.input],
+  coupler: lengths[layout.links.coupler],
+  output: lengths[layout.links.output],
+});
+
+const calculateJoints = (
+  lengths: LinkLengths,
+  thetaInput: number,
+  branch: AssemblyBranch = AssemblyBranch.OPEN,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): JointCoordinates => {
   const { frame: d, input: a, coupler: b, output: c } = lengths;
   
-  // Convert angle to radians
+  // Convert angle to radians (measured from the global X axis)
   const theta = (thetaInput * Math.PI) / 180;
 
-  // Joint A is origin (0,0) - visually offset later
-  const Ax = 0;
-  const Ay = 0;
-
-  // Joint D is fixed on X axis at distance d
-  const Dx = d;
-  const Dy = 0;
+  // Ground pivots A and D, with the frame at its global position and angle
+  const { Ax, Ay, Dx, Dy } = groundPivots(placement, d);
 
   // Joint B is determined by input angle
-  const Bx = a * Math.cos(theta);
-  const By = a * Math.sin(theta);
+  const Bx = Ax + a * Math.cos(theta);
+  const By = Ay + a * Math.sin(theta);
 
   // Joint C is intersection of circle centered at B (radius b) and D (radius c)
   // Distance between B and D
   const distBD = Math.sqrt(Math.pow(Dx - Bx, 2) + Math.pow(Dy - By, 2));
 
-  // Check assembly validity (Triangle inequality)
-  if (distBD > b + c || distBD < Math.abs(b - c) || distBD === 0) {
+  // Check assembly validity (Triangle inequality), with a little slack so the
+  // exact toggle angles from calculateReachableRange still assemble
+  const slack = 1e-9 * (b + c);
+  if (distBD > b + c + slack || distBD < Math.abs(b - c) - slack || distBD === 0) {
     return { Ax, Ay, Bx, By, Cx: NaN, Cy: NaN, Dx, Dy, isValid: false };
   }
 
@@ -72,12 +842,12 @@ const calculateJoints = (lengths: LinkLengths, thetaInput: number): JointCoordin
   const cosAlpha = (c * c + distBD * distBD - b * b) / (2 * c * distBD);
   const alpha = Math.acos(Math.min(Math.max(cosAlpha, -1), 1)); // Clamp for float errors
 
-  // Angle of line DB relative to horizontal
+  // Angle of line DB relative to the global X axis
   const angleDB = Math.atan2(By - Dy, Bx - Dx);
 
-  // Two solutions possible (elbow up/down). We conventionally pick one.
-  // We subtract alpha to keep the standard configuration
-  const thetaOutput = angleDB - alpha; 
+  // Two solutions possible (elbow up/down).
+  // Subtracting alpha gives the open branch, adding it gives the crossed one.
+  const thetaOutput = branch === AssemblyBranch.OPEN ? angleDB - alpha : angleDB + alpha;
 
   const Cx = Dx + c * Math.cos(thetaOutput);
   const Cy = Dy + c * Math.sin(thetaOutput);
@@ -85,382 +855,6464 @@ const calculateJoints = (lengths: LinkLengths, thetaInput: number): JointCoordin
   return { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy, isValid: true };
 };
 
-const determineGrashof = (lengths: LinkLengths): { type: GrashofType, shortest: LinkRole, longest: LinkRole } => {
-  const map = [
-    { role: LinkRole.FRAME, len: lengths.frame },
-    { role: LinkRole.INPUT, len: lengths.input },
-    { role: LinkRole.COUPLER, len: lengths.coupler },
-    { role: LinkRole.OUTPUT, len: lengths.output },
-  ];
+// Sums and differences closer than this fraction of the perimeter count as equal,
+// which is what separates the change-point cases from their neighbours
+const CHANGE_POINT_TOLERANCE = 1e-6;
 
-  // Find S and L
+// Non-Grashof sign patterns of Barker's characteristics, keyed by T1 T2 T3
+const TRIPLE_ROCKERS: Record<string, BarkerType> = {
+  '---': BarkerType.RRR1,
+  '++-': BarkerType.RRR2,
+  '+-+': BarkerType.RRR3,
+  '-++': BarkerType.RRR4,
+};
+
+// Barker's classification of the chain relative to the chosen ground and driver
+const determineGrashof = (
+  lengths: LinkLengths,
+  inversion: Inversion = { ground: LinkRole.FRAME, driver: LinkRole.INPUT }
+): GrashofInfo => {
+  const layout = resolveInversion(inversion);
+  const { frame: g, input: a, coupler: b, output: c } = invertLengths(lengths, layout);
+  const tolerance = CHANGE_POINT_TOLERANCE * (a + b + c + g);
+  const zeroed = (value: number) => (Math.abs(value) <= tolerance ? 0 : value);
+
+  const map = LOOP_LINKS.map(role => ({ role, len: lengths[role] }));
   let shortest = map[0];
   let longest = map[0];
-
   for (const item of map) {
     if (item.len < shortest.len) shortest = item;
     if (item.len > longest.len) longest = item;
   }
+  const margin = zeroed(a + b + c + g - 2 * (shortest.len + longest.len));
+  const characteristics: [number, number, number] = [
+    zeroed(g + c - a - b),
+    zeroed(b + g - a - c),
+    zeroed(b + c - a - g),
+  ];
 
-  const S = shortest.len;
-  const L = longest.len;
-  
-  // Calculate P + Q (sum of other two)
-  const totalSum = map.reduce((acc, curr) => acc + curr.len, 0);
-  const PQ = totalSum - S - L;
-
-  // Assembly check
-  if (L > S + PQ) {
-     return { type: GrashofType.INVALID, shortest: shortest.role, longest: longest.role };
-  }
+  // A joint turns fully when the diagonal opposite it, which spans
+  // [|x − y|, x + y] as the joint angle runs round, always closes the other two links
+  const slots = [g, a, b, c];
+  const jointTurns = slots.map((x, i) => {
+    const y = slots[(i + 1) % 4], z = slots[(i + 2) % 4], w = slots[(i + 3) % 4];
+    return Math.abs(x - y) >= Math.abs(z - w) - tolerance && x + y <= z + w + tolerance;
+  });
+  // A link whose two joints both turn fully turns relative to every other link
+  const linkTurns = slots.map((_, i) => jointTurns[(i + 3) % 4] && jointTurns[i]);
+  const physical = (i: number) => layout.links[LOOP_LINKS[i]];
+  const fullRotation = {} as Record<LinkRole, LinkRole[]>;
+  slots.forEach((_, i) => {
+    fullRotation[physical(i)] = [0, 1, 2, 3]
+      .filter(j => j !== i && (linkTurns[i] || linkTurns[j]))
+      .map(physical);
+  });
 
-  const threshold = 0.01; // Floating point tolerance
+  const info = { shortest: shortest.role, longest: longest.role, margin, characteristics, fullRotation };
+  if (longest.len > a + b + c + g - longest.len + tolerance) return { ...info, type: BarkerType.INVALID };
 
-  if (Math.abs((S + L) - PQ) < threshold) {
-    return { type: GrashofType.CHANGE_POINT, shortest: shortest.role, longest: longest.role };
-  }
+  const zeros = characteristics.filter(t => t === 0).length;
+  if (zeros === 3) return { ...info, type: BarkerType.S3X };
+  if (zeros === 2) return { ...info, type: BarkerType.S2X };
+  if (margin < 0) return { ...info, type: TRIPLE_ROCKERS[characteristics.map(t => (t > 0 ? '+' : '-')).join('')] };
 
-  if (S + L < PQ) {
-    // Grashof Class I
-    if (shortest.role === LinkRole.FRAME) return { type: GrashofType.DOUBLE_CRANK, shortest: shortest.role, longest: longest.role };
-    if (shortest.role === LinkRole.INPUT || shortest.role === LinkRole.OUTPUT) return { type: GrashofType.CRANK_ROCKER, shortest: shortest.role, longest: longest.role };
-    if (shortest.role === LinkRole.COUPLER) return { type: GrashofType.DOUBLE_ROCKER_I, shortest: shortest.role, longest: longest.role };
-  }
+  // Input, coupler and output relative to the ground
+  const letters = [1, 2, 3].map(i => (linkTurns[0] || linkTurns[i] ? 'C' : 'R')).join('');
+  return { ...info, type: BarkerType[`${zeros === 1 ? 'S' : 'G'}${letters}` as keyof typeof BarkerType] };
+};
 
-  // Grashof Class II (S + L > P + Q)
-  return { type: GrashofType.DOUBLE_ROCKER_II, shortest: shortest.role, longest: longest.role };
+// Interior angle at C of the triangle B-C-D, from the diagonal length BD
+const transmissionFromDiagonal = (b: number, c: number, distBD: number): number => {
+  const cosMu = (b * b + c * c - distBD * distBD) / (2 * b * c);
+  return (Math.acos(Math.min(Math.max(cosMu, -1), 1)) * 180) / Math.PI;
 };
 
-// --- COMPONENT: LINKAGE CANVAS ---
-interface LinkageCanvasProps {
-  coords: JointCoordinates;
-  lengths: LinkLengths;
-  shortestRole: LinkRole;
-  longestRole: LinkRole;
-}
+const analyzeTransmissionAngle = (lengths: LinkLengths, joints: JointCoordinates): TransmissionAngleInfo => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
 
-const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ coords, lengths, shortestRole, longestRole }) => {
-  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy, isValid } = coords;
+  let current = NaN;
+  if (joints.isValid) {
+    const { Bx, By, Cx, Cy, Dx, Dy } = joints;
+    current = transmissionFromDiagonal(b, c, Math.hypot(Dx - Bx, Dy - By));
+  }
 
-  const centerX = (Ax + Dx) / 2;
-  const centerY = 0; 
-  
-  // -- ZOOM & SCALE LOGIC --
-  // Previous: Math.max(lengths.input, lengths.output) + lengths.coupler + 50
-  // New: Multiply by 0.65 to reduce padding and effectively zoom in ~1.5x.
-  // We remove the static buffer (+50) to make it tighter.
-  const padding = (Math.max(lengths.input, lengths.output) + lengths.coupler) * 0.65;
-  
-  const viewBoxMinX = centerX - lengths.frame/2 - padding;
-  const viewBoxMinY = centerY - padding;
-  const viewBoxWidth = lengths.frame + padding * 2;
-  const viewBoxHeight = padding * 2;
+  // μ grows monotonically with BD, so its extremes over the cycle sit at the
+  // shortest and longest diagonals the input can reach (θ = 0°/180° or the limits)
+  const minBD = Math.max(Math.abs(a - d), Math.abs(b - c));
+  const maxBD = Math.min(a + d, b + c);
+  if (minBD > maxBD) {
+    return { current, min: NaN, max: NaN };
+  }
 
-  const getLinkColor = (role: LinkRole) => {
-    if (role === shortestRole) return "stroke-green-600";
-    if (role === longestRole) return "stroke-red-500";
-    return "stroke-slate-700";
+  return {
+    current,
+    min: transmissionFromDiagonal(b, c, minBD),
+    max: transmissionFromDiagonal(b, c, maxBD),
   };
+};
 
-  const getStrokeWidth = (role: LinkRole) => {
-     // Thicker lines for visibility (1.5x - 2x previous)
-     if (role === shortestRole) return 10;
-     return 7;
-  }
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
 
-  return (
-    <div className="w-full h-full bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
-      <svg 
-        width="100%" 
-        height="100%" 
-        viewBox={`${viewBoxMinX} ${viewBoxMinY} ${viewBoxWidth} ${viewBoxHeight}`}
-        preserveAspectRatio="xMidYMid meet"
-        className="transform scale-y-[-1]" 
-      >
-        <line x1={-2000} y1={0} x2={2000} y2={0} stroke="#e2e8f0" strokeWidth="3" />
+// Link angle of p->q in degrees, moved by whole turns to within 180° of the last one
+const continuousAngle = (from: { x: number, y: number }, to: { x: number, y: number }, last: number) => {
+  const raw = toDeg(Math.atan2(to.y - from.y, to.x - from.x));
+  return isNaN(last) ? raw : raw + 360 * Math.round((last - raw) / 360);
+};
 
-        {isValid ? (
-          <>
-            <g>
-              <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} className={`${getLinkColor(LinkRole.FRAME)} opacity-50`} strokeWidth={getStrokeWidth(LinkRole.FRAME)} strokeDasharray="15,8" />
-              <path d={`M ${Ax-15} ${Ay-15} L ${Ax+15} ${Ay-15} L ${Ax} ${Ay} Z`} fill="#94a3b8" />
-              <path d={`M ${Dx-15} ${Dy-15} L ${Dx+15} ${Dy-15} L ${Dx} ${Dy} Z`} fill="#94a3b8" />
-            </g>
+// Output, coupler and transmission angles and the speed ratio over a full
+// turn of the input, every step degrees
+const sweepKinematics = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  step: number = 1
+): KinematicSample[] => {
+  let lastOutput = NaN, lastCoupler = NaN;
+  const count = Math.floor(360 / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = +(i * step).toFixed(9);
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    if (!joints.isValid) {
+      return { angle, joints, outputAngle: NaN, couplerAngle: NaN, transmissionAngle: NaN, velocityRatio: NaN, isValid: false };
+    }
+    const B = { x: joints.Bx, y: joints.By };
+    const C = { x: joints.Cx, y: joints.Cy };
+    lastOutput = continuousAngle({ x: joints.Dx, y: joints.Dy }, C, lastOutput);
+    lastCoupler = continuousAngle(B, C, lastCoupler);
+    const motion = calculateMotion(joints, 1, 0);
+    return {
+      angle,
+      joints,
+      outputAngle: lastOutput,
+      couplerAngle: lastCoupler,
+      transmissionAngle: analyzeTransmissionAngle(lengths, joints).current,
+      velocityRatio: motion.isValid ? motion.omegaOutput : NaN,
+      isValid: true,
+    };
+  });
+};
 
-            <line x1={Ax} y1={Ay} x2={Bx} y2={By} className={getLinkColor(LinkRole.INPUT)} strokeWidth={getStrokeWidth(LinkRole.INPUT)} strokeLinecap="round" />
-            <line x1={Bx} y1={By} x2={Cx} y2={Cy} className={getLinkColor(LinkRole.COUPLER)} strokeWidth={getStrokeWidth(LinkRole.COUPLER)} strokeLinecap="round" />
-            <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} className={getLinkColor(LinkRole.OUTPUT)} strokeWidth={getStrokeWidth(LinkRole.OUTPUT)} strokeLinecap="round" />
+// What a sweep table was taken from, written above it in either format
+interface SweepContext {
+  lengths: LinkLengths;  // Physical link lengths
+  grashof: GrashofInfo;
+  inversion: Inversion;
+  layout: InversionLayout;
+  branch: AssemblyBranch;
+  step: number;
+}
 
-            {/* Joints - Larger Radius */}
-            <circle cx={Ax} cy={Ay} r={10} fill="white" stroke="#1e293b" strokeWidth="3" />
-            <circle cx={Bx} cy={By} r={10} fill="white" stroke="#1e293b" strokeWidth="3" />
-            <circle cx={Cx} cy={Cy} r={10} fill="white" stroke="#1e293b" strokeWidth="3" />
-            <circle cx={Dx} cy={Dy} r={10} fill="white" stroke="#1e293b" strokeWidth="3" />
+const SWEEP_JOINTS = ['A', 'B', 'C', 'D'] as const;
 
-            <g transform="scale(1, -1)">
-                {/* Joint Labels - ~2x larger font size */}
-                <text x={Ax} y={-Ay + 45} textAnchor="middle" className="text-2xl fill-slate-600 font-bold" style={{fontSize: '24px'}}>Frame (A)</text>
-                <text x={Dx} y={-Dy + 45} textAnchor="middle" className="text-2xl fill-slate-600 font-bold" style={{fontSize: '24px'}}>Frame (D)</text>
-                <text x={Bx} y={-By - 25} textAnchor="middle" className="text-2xl fill-slate-700 font-bold" style={{fontSize: '24px'}}>B</text>
-                <text x={Cx} y={-Cy - 25} textAnchor="middle" className="text-2xl fill-slate-700 font-bold" style={{fontSize: '24px'}}>C</text>
-                
-                {/* Link Labels - ~2x larger font size */}
-                <text x={(Ax+Bx)/2 - 15} y={-(Ay+By)/2} className="text-lg fill-slate-500 font-medium" style={{fontSize: '18px'}}>Input</text>
-                <text x={(Bx+Cx)/2} y={-(By+Cy)/2 - 20} textAnchor="middle" className="text-lg fill-slate-500 font-medium" style={{fontSize: '18px'}}>Coupler</text>
-                <text x={(Cx+Dx)/2 + 15} y={-(Cy+Dy)/2} className="text-lg fill-slate-500 font-medium" style={{fontSize: '18px'}}>Output</text>
+// Sweep table as CSV under '#' comment lines (pandas comment='#', MATLAB
+// CommentStyle '#'). Joints use their physical names; angles where the loop
+// does not close keep their row with valid = 0, empty where C is undefined.
+const sweepToCsv = (samples: KinematicSample[], context: SweepContext): string => {
+  const { lengths, grashof, inversion, layout, branch, step } = context;
+  const comments = [
+    '# Grashof Explorer kinematic sweep',
+    `# lengths: frame=${lengths.frame}, input=${lengths.input}, coupler=${lengths.coupler}, output=${lengths.output}`,
+    `# grashof: ${grashof.type}; shortest=${grashof.shortest}, longest=${grashof.longest}, margin=${grashof.margin}`,
+    `# barker T1..T3: ${grashof.characteristics.join(', ')}`,
+    `# ground=${inversion.ground}, driver=${inversion.driver}, branch=${branch}, step_deg=${step}`,
+  ];
+  const header = [
+    'theta_deg',
+    'valid',
+    ...SWEEP_JOINTS.flatMap(k => [`${layout.joints[k]}_x`, `${layout.joints[k]}_y`]),
+    `${layout.links.output}_angle_deg`,
+    `${layout.links.coupler}_angle_deg`,
+  ];
+  const rows = samples.map(s => {
+    const values = [
+      ...SWEEP_JOINTS.flatMap(k => [s.joints[`${k}x`], s.joints[`${k}y`]]),
+      s.outputAngle,
+      s.couplerAngle,
+    ];
+    return [s.angle, s.isValid ? 1 : 0, ...values.map(v => (isFinite(v) ? String(v) : ''))].join(',');
+  });
+  return [...comments, header.join(','), ...rows].join('\n');
+};
+
+// The same table as JSON, with null wherever the loop does not close
+const sweepToJson = (samples: KinematicSample[], context: SweepContext): string => {
+  const { lengths, grashof, inversion, layout, branch, step } = context;
+  const finiteOrNull = (v: number) => (isFinite(v) ? v : null);
+  return JSON.stringify({
+    lengths,
+    grashof: {
+      type: grashof.type,
+      shortest: grashof.shortest,
+      longest: grashof.longest,
+      margin: grashof.margin,
+      characteristics: grashof.characteristics,
+    },
+    inversion,
+    branch,
+    stepDeg: step,
+    rows: samples.map(s => ({
+      thetaDeg: s.angle,
+      valid: s.isValid,
+      joints: Object.fromEntries(SWEEP_JOINTS.map(k => [
+        layout.joints[k],
+        { x: finiteOrNull(s.joints[`${k}x`]), y: finiteOrNull(s.joints[`${k}y`]) },
+      ])),
+      outputAngleDeg: finiteOrNull(s.outputAngle),
+      couplerAngleDeg: finiteOrNull(s.couplerAngle),
+    })),
+  }, null, 2);
+};
+
+// Time ratio of a crank-rocker whose input is the crank; null for any other linkage.
+// The strokes start and end at the toggle positions, where the crank and coupler
+// are stretched out (AC = b + a) or folded (AC = b − a).
+const analyzeQuickReturn = (lengths: LinkLengths): QuickReturnInfo | null => {
+  if (determineGrashof(lengths).type !== BarkerType.GCRR) return null;
+
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+  const angleAtA = (ac: number) => toDeg(Math.acos((d * d + ac * ac - c * c) / (2 * d * ac)));
+  const angleAtD = (ac: number) => toDeg(Math.acos((d * d + c * c - ac * ac) / (2 * d * c)));
+
+  // Angle between the crank's two toggle directions
+  const delta = Math.abs(angleAtA(b - a) - angleAtA(b + a));
+  return {
+    swingAngle: Math.abs(angleAtD(b + a) - angleAtD(b - a)),
+    workingCrankAngle: 180 + delta,
+    returnCrankAngle: 180 - delta,
+    timeRatio: (180 + delta) / (180 - delta),
+  };
+};
+
+// Reachable global input angles; the frame angle rotates the whole range
+const calculateReachableRange = (lengths: LinkLengths, frameAngle: number = 0): ReachableRange => {
+  return rotateReachableRange(reachableRelativeToFrame(lengths), frameAngle);
+};
+
+// The same range with every angle turned by offset degrees
+const rotateReachableRange = (range: ReachableRange, offset: number): ReachableRange => {
+  if (range.fullRotation || offset === 0) return range;
+
+  const wrap = (deg: number) => ((deg % 360) + 360) % 360;
+  return {
+    fullRotation: false,
+    intervals: range.intervals.map(({ start, end }) => ({ start: wrap(start + offset), end: wrap(start + offset) + end - start })),
+    limits: range.limits.map(limit => wrap(limit + offset)),
+  };
+};
+
+// Reachable input angles measured from the frame line A->D
+const reachableRelativeToFrame = (lengths: LinkLengths): ReachableRange => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+
+  // With BD² = a² + d² − 2ad·cosθ, the loop closes when |b − c| ≤ BD ≤ b + c,
+  // i.e. when cosθ lies between these two bounds
+  const cosLow = (a * a + d * d - (b + c) * (b + c)) / (2 * a * d);
+  const cosHigh = (a * a + d * d - (b - c) * (b - c)) / (2 * a * d);
+  return reachableFromCosine(cosLow, cosHigh);
+};
+
+// Angles θ with cosLow ≤ cosθ ≤ cosHigh; a bound past ±1 does not bind
+const reachableFromCosine = (cosLow: number, cosHigh: number): ReachableRange => {
+  if (cosLow > 1 || cosHigh < -1 || cosLow > cosHigh) {
+    return { fullRotation: false, intervals: [], limits: [] };
+  }
+  if (cosLow <= -1 && cosHigh >= 1) {
+    return { fullRotation: true, intervals: [{ start: 0, end: 360 }], limits: [] };
+  }
+
+  if (cosHigh >= 1) {
+    // Only the outer bound binds: the input rocks through θ = 0°
+    const limit = toDeg(Math.acos(cosLow));
+    return { fullRotation: false, intervals: [{ start: 360 - limit, end: 360 + limit }], limits: [limit, 360 - limit] };
+  }
+  if (cosLow <= -1) {
+    // Only the inner bound binds: the input rocks through θ = 180°
+    const limit = toDeg(Math.acos(cosHigh));
+    return { fullRotation: false, intervals: [{ start: limit, end: 360 - limit }], limits: [limit, 360 - limit] };
+  }
+
+  // Both bind: two separate rocking zones mirrored about the frame line
+  const inner = toDeg(Math.acos(cosHigh));
+  const outer = toDeg(Math.acos(cosLow));
+  return {
+    fullRotation: false,
+    intervals: [{ start: inner, end: outer }, { start: 360 - outer, end: 360 - inner }],
+    limits: [inner, outer, 360 - outer, 360 - inner],
+  };
+};
+
+// Moves the input by step degrees, stopping exactly on a toggle position and
+// reversing there instead of stepping past it
+const advanceInputAngle = (
+  range: ReachableRange,
+  angle: number,
+  step: number
+): { angle: number, direction: number } => {
+  const direction = Math.sign(step) || 1;
+  if (range.fullRotation || range.intervals.length === 0) {
+    return { angle: angle + step, direction };
+  }
+
+  // Locate the interval holding the current angle (or the closest one, if the
+  // geometry just changed underneath us) as an offset from its start
+  let best = { base: angle, offset: 0, span: 0, distance: Infinity };
+  for (const { start, end } of range.intervals) {
+    const span = end - start;
+    const offset = (((angle - start) % 360) + 360) % 360;
+    const distance = offset <= span ? 0 : Math.min(offset - span, 360 - offset);
+    if (distance < best.distance) {
+      const clamped = distance === 0 ? offset : (offset - span < 360 - offset ? span : 0);
+      best = { base: angle - offset, offset: clamped, span, distance };
+    }
+  }
+
+  const next = best.offset + step;
+  if (next >= best.span) return { angle: best.base + best.span, direction: -1 };
+  if (next <= 0) return { angle: best.base, direction: 1 };
+  return { angle: best.base + next, direction };
+};
+
+// Input angles (relative to the frame) where both assembly branches meet while
+// the input is free to turn through: the change points of an S + L = P + Q
+// chain. At θ = 0° BD is |a − d| and at θ = 180° it is a + d, so the branches
+// meet there when these match |b − c| or b + c.
+const changePointAngles = (lengths: LinkLengths): number[] => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+  const tolerance = CHANGE_POINT_TOLERANCE * (a + b + c + d);
+  const angles: number[] = [];
+  if (Math.abs(Math.abs(a - d) - Math.abs(b - c)) <= tolerance) angles.push(0);
+  if (Math.abs(a + d - (b + c)) <= tolerance) angles.push(180);
+  return angles;
+};
+
+// Probe step (degrees) used to tell the branches apart just past a change point
+const CHANGE_POINT_PROBE = 0.01;
+
+// Carries the assembly branch along while the input moves from one angle to
+// another. Away from change points the branch is continuous, so only the
+// change points crossed on the way need a decision: the smooth continuation is
+// the branch nearest to the motion extrapolated from just before the change
+// point, and mode picks it or the other one.
+const trackBranch = (
+  lengths: LinkLengths,
+  fromAngle: number,
+  toAngle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  mode: ChangePointMode = ChangePointMode.SMOOTH
+): { angle: number, branch: AssemblyBranch, event: ChangePointEvent | null } => {
+  const direction = Math.sign(toAngle - fromAngle);
+  let angle = toAngle;
+  let event: ChangePointEvent | null = null;
+  if (direction === 0) return { angle, branch, event };
+
+  // Change points in (from, to], in the order they are met
+  const crossings = changePointAngles(lengths)
+    .map(rel => {
+      const phi = rel + placement.angle;
+      return direction > 0
+        ? phi + 360 * Math.floor((fromAngle - phi) / 360 + 1)
+        : phi + 360 * Math.ceil((fromAngle - phi) / 360 - 1);
+    })
+    .filter(phi => (phi - toAngle) * direction <= 0)
+    .sort((p, q) => (p - q) * direction);
+
+  const couplerC = (theta: number, b: AssemblyBranch) => {
+    const joints = calculateJoints(lengths, theta, b, placement);
+    return { x: joints.Cx, y: joints.Cy };
+  };
+  const other = (b: AssemblyBranch) => (b === AssemblyBranch.OPEN ? AssemblyBranch.CROSSED : AssemblyBranch.OPEN);
+
+  for (const phi of crossings) {
+    const h = CHANGE_POINT_PROBE * direction;
+    const back1 = couplerC(phi - h, branch);
+    const back2 = couplerC(phi - 2 * h, branch);
+    const predicted = { x: 3 * back1.x - 2 * back2.x, y: 3 * back1.y - 2 * back2.y };
+    const gap = (b: AssemblyBranch) => {
+      const next = couplerC(phi + h, b);
+      return Math.hypot(next.x - predicted.x, next.y - predicted.y);
+    };
+    const smoothBranch = gap(branch) <= gap(other(branch)) ? branch : other(branch);
+    const next = mode === ChangePointMode.SMOOTH ? smoothBranch : other(smoothBranch);
+
+    // A kite folds with B on D, where C is free, so its pose is taken just past the change point
+    let flat = calculateJoints(lengths, phi, next, placement);
+    const folded = !flat.isValid || Math.hypot(flat.Dx - flat.Bx, flat.Dy - flat.By) <= CHANGE_POINT_TOLERANCE * lengths.coupler;
+    if (folded) flat = calculateJoints(lengths, phi + h, next, placement);
+    if (folded && phi === toAngle) angle = phi + h;
+
+    event = { angle: phi, from: branch, to: next, smooth: next === smoothBranch, joints: flat };
+    branch = next;
+  }
+
+  return { angle, branch, event };
+};
+
+const ZERO: Vector2 = { x: 0, y: 0 };
+
+// ω × r for a planar rotation about the z axis
+const cross = (omega: number, r: Vector2): Vector2 => ({ x: -omega * r.y, y: omega * r.x });
+
+// Acceleration of a point on a rotating link relative to its pivot: α × r − ω² r
+const relativeAcc = (omega: number, alpha: number, r: Vector2): Vector2 => ({
+  x: -alpha * r.y - omega * omega * r.x,
+  y: alpha * r.x - omega * omega * r.y,
+});
+
+const calculateMotion = (
+  joints: JointCoordinates,
+  omegaInput: number,
+  alphaInput: number
+): MotionAnalysis => {
+  const invalid: MotionAnalysis = {
+    omegaCoupler: NaN, omegaOutput: NaN, alphaCoupler: NaN, alphaOutput: NaN,
+    velB: ZERO, velC: ZERO, accB: ZERO, accC: ZERO, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  const rAB = { x: Bx - Ax, y: By - Ay };
+  const rBC = { x: Cx - Bx, y: Cy - By };
+  const rDC = { x: Cx - Dx, y: Cy - Dy };
+
+  // Differentiating the loop A->B->C = D->C gives, for both velocity and
+  // acceleration, the same 2x2 system in the unknown coupler/output rates:
+  //   -rBC.y * u + rDC.y * v = px
+  //    rBC.x * u - rDC.x * v = py
+  const det = rBC.y * rDC.x - rDC.y * rBC.x;
+  // Singular when B, C and D are collinear (the output is at a dead point)
+  if (Math.abs(det) < 1e-9 * Math.hypot(rBC.x, rBC.y) * Math.hypot(rDC.x, rDC.y)) return invalid;
+
+  const solve = (px: number, py: number): [number, number] => [
+    (-px * rDC.x - rDC.y * py) / det,
+    (-rBC.y * py - rBC.x * px) / det,
+  ];
+
+  // Velocity: vB + ω3 × rBC = ω4 × rDC
+  const velB = cross(omegaInput, rAB);
+  const [omegaCoupler, omegaOutput] = solve(-velB.x, -velB.y);
+  const velC = cross(omegaOutput, rDC);
+
+  // Acceleration: aB + α3 × rBC − ω3² rBC = α4 × rDC − ω4² rDC
+  const accB = relativeAcc(omegaInput, alphaInput, rAB);
+  const w3sq = omegaCoupler * omegaCoupler;
+  const w4sq = omegaOutput * omegaOutput;
+  const [alphaCoupler, alphaOutput] = solve(
+    -accB.x + w3sq * rBC.x - w4sq * rDC.x,
+    -accB.y + w3sq * rBC.y - w4sq * rDC.y
+  );
+  const accC = relativeAcc(omegaOutput, alphaOutput, rDC);
+
+  return { omegaCoupler, omegaOutput, alphaCoupler, alphaOutput, velB, velC, accB, accC, isValid: true };
+};
+
+// Slider ranges for the polar coupler point description
+const COUPLER_POINT_BOUNDS: Record<keyof CouplerPoint, { min: number, max: number }> = {
+  distance: { min: 0, max: 300 },
+  angle: { min: -180, max: 180 },
+};
+
+// Local coupler frame: u runs along B->C, v is perpendicular to it (counter-clockwise)
+const couplerPointToLocal = (point: CouplerPoint): Vector2 => {
+  const delta = (point.angle * Math.PI) / 180;
+  return { x: point.distance * Math.cos(delta), y: point.distance * Math.sin(delta) };
+};
+
+const couplerPointFromLocal = (local: Vector2): CouplerPoint => ({
+  distance: Math.hypot(local.x, local.y),
+  angle: (Math.atan2(local.y, local.x) * 180) / Math.PI,
+});
+
+const calculateCouplerPoint = (joints: JointCoordinates, point: CouplerPoint): Vector2 => {
+  if (!joints.isValid) return { x: NaN, y: NaN };
+
+  const { Bx, By, Cx, Cy } = joints;
+  const direction = Math.atan2(Cy - By, Cx - Bx) + (point.angle * Math.PI) / 180;
+  return {
+    x: Bx + point.distance * Math.cos(direction),
+    y: By + point.distance * Math.sin(direction),
+  };
+};
+
+// Samples the coupler curve of one branch over every reachable input interval.
+// Returns one polyline per interval; a fully rotating input yields a closed loop.
+const traceCouplerCurve = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  point: CouplerPoint,
+  range: ReachableRange,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  step: number = 1
+): Vector2[][] => {
+  return range.intervals.map(({ start, end }) => {
+    const samples = Math.max(2, Math.ceil((end - start) / step) + 1);
+    const curve: Vector2[] = [];
+    for (let i = 0; i < samples; i++) {
+      const theta = start + ((end - start) * i) / (samples - 1);
+      const p = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), point);
+      if (isFinite(p.x)) curve.push(p);
+    }
+    return curve;
+  });
+};
+
+// Planar vectors treated as complex numbers
+const complexMul = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x * q.x - p.y * q.y, y: p.x * q.y + p.y * q.x });
+const plus = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x + q.x, y: p.y + q.y });
+const minus = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x - q.x, y: p.y - q.y });
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Packs four pivots into a cognate, with the coupler point P described relative to its B->C
+const buildCognate = (A: Vector2, B: Vector2, C: Vector2, D: Vector2, P: Vector2): Cognate | null => {
+  const lengths = {
+    frame: Math.hypot(D.x - A.x, D.y - A.y),
+    input: Math.hypot(B.x - A.x, B.y - A.y),
+    coupler: Math.hypot(C.x - B.x, C.y - B.y),
+    output: Math.hypot(C.x - D.x, C.y - D.y),
+  };
+  // A coupler point on a joint of the original collapses this cognate
+  if (Object.values(lengths).some(len => len < 1e-9)) return null;
+
+  const { placement } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const angle = toDegrees(Math.atan2(B.y - A.y, B.x - A.x));
+  const open = calculateJoints(lengths, angle, AssemblyBranch.OPEN, placement);
+  const branch = open.isValid && Math.hypot(open.Cx - C.x, open.Cy - C.y) < 1e-6 * lengths.coupler
+    ? AssemblyBranch.OPEN
+    : AssemblyBranch.CROSSED;
+  const couplerPoint: CouplerPoint = {
+    distance: Math.hypot(P.x - B.x, P.y - B.y),
+    angle: toDegrees(Math.atan2(P.y - B.y, P.x - B.x) - Math.atan2(C.y - B.y, C.x - B.x)),
+  };
+
+  return {
+    joints: { Ax: A.x, Ay: A.y, Bx: B.x, By: B.y, Cx: C.x, Cy: C.y, Dx: D.x, Dy: D.y, isValid: true },
+    design: { lengths, placement, branch, angle, couplerPoint },
+  };
+};
+
+// Cayley diagram: with P = B + k(C − B) for a complex ratio k, the loop
+// AB + BC − DC = AD scaled by k and by 1 − k gives two more four-bars through
+// P that share the third ground pivot O = A + k(D − A). The first keeps pivot
+// A, the second pivot D. Each is null when it degenerates.
+const calculateCognates = (joints: JointCoordinates, point: CouplerPoint): [Cognate | null, Cognate | null] => {
+  if (!joints.isValid) return [null, null];
+
+  const A = { x: joints.Ax, y: joints.Ay };
+  const B = { x: joints.Bx, y: joints.By };
+  const C = { x: joints.Cx, y: joints.Cy };
+  const D = { x: joints.Dx, y: joints.Dy };
+  const ratio = point.distance / Math.hypot(C.x - B.x, C.y - B.y);
+  const delta = (point.angle * Math.PI) / 180;
+  const k = { x: ratio * Math.cos(delta), y: ratio * Math.sin(delta) };
+  const m = { x: 1 - k.x, y: -k.y };
+
+  const BC = minus(C, B);
+  const P = plus(B, complexMul(k, BC));
+  const O = plus(A, complexMul(k, minus(D, A)));
+
+  // Pivot A: crank parallel to BP, coupler parallel to AB, rocker parallel to DC
+  const E = plus(A, complexMul(k, BC));
+  const G = plus(E, complexMul(k, minus(B, A)));
+  // Pivot D: crank parallel to CP, coupler parallel to DC, rocker parallel to AB
+  const F = minus(D, complexMul(m, BC));
+  const H = plus(F, complexMul(m, minus(C, D)));
+
+  return [buildCognate(A, E, G, O, P), buildCognate(D, F, H, O, P)];
+};
+
+const deg = (rad: number) => (rad * 180) / Math.PI;
+const rad = (degrees: number) => (degrees * Math.PI) / 180;
+const wrap360 = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// Point fixed in the coupler frame (origin at the coupler point, x along the pose angle)
+const poseToGlobal = (pose: CouplerPose, local: Vector2): Vector2 => {
+  const c = Math.cos(rad(pose.angle));
+  const s = Math.sin(rad(pose.angle));
+  return { x: pose.x + c * local.x - s * local.y, y: pose.y + s * local.x + c * local.y };
+};
+
+// Center of the circle through three points, or null when they are collinear
+const circumcenter = (p: Vector2, q: Vector2, r: Vector2): Vector2 | null => {
+  const det = 2 * (p.x * (q.y - r.y) + q.x * (r.y - p.y) + r.x * (p.y - q.y));
+  const scale = Math.max(Math.hypot(q.x - p.x, q.y - p.y), Math.hypot(r.x - p.x, r.y - p.y));
+  if (Math.abs(det) < 1e-9 * scale * scale) return null;
+
+  const p2 = p.x * p.x + p.y * p.y;
+  const q2 = q.x * q.x + q.y * q.y;
+  const r2 = r.x * r.x + r.y * r.y;
+  return {
+    x: (p2 * (q.y - r.y) + q2 * (r.y - p.y) + r2 * (p.y - q.y)) / det,
+    y: (p2 * (r.x - q.x) + q2 * (p.x - r.x) + r2 * (q.x - p.x)) / det,
+  };
+};
+
+// Two positions leave the center free along the perpendicular bisector
+const bisectorPoint = (p: Vector2, q: Vector2, offset: number): Vector2 | null => {
+  const len = Math.hypot(q.x - p.x, q.y - p.y);
+  if (len < 1e-9) return null;
+  return {
+    x: (p.x + q.x) / 2 - ((q.y - p.y) / len) * offset,
+    y: (p.y + q.y) / 2 + ((q.x - p.x) / len) * offset,
+  };
+};
+
+// Open branch keeps C clockwise of the ray D->B (see AssemblyBranch)
+const branchOf = (B: Vector2, C: Vector2, D: Vector2): AssemblyBranch => {
+  const cross = (B.x - D.x) * (C.y - D.y) - (B.y - D.y) * (C.x - D.x);
+  return cross < 0 ? AssemblyBranch.OPEN : AssemblyBranch.CROSSED;
+};
+
+// Synthesizes a four-bar whose coupler passes through two or three poses.
+// The free choices are where the moving pivots B and C sit on the coupler
+// (in its local frame) and, for two poses, how far along each perpendicular
+// bisector the ground pivots are placed.
+const synthesizeMotion = (
+  poses: CouplerPose[],
+  movingPivotsLocal: [Vector2, Vector2],
+  bisectorOffsets: [number, number] = [0, 0]
+): MotionSynthesisResult => {
+  const empty: MotionSynthesisResult = {
+    isValid: false, groundPivots: [], movingPivots: [], inputAngles: [], branchDefect: false, orderDefect: false
+  };
+  if (poses.length < 2 || poses.length > 3) {
+    return { ...empty, error: 'Place two or three coupler poses.' };
+  }
+
+  // Each moving pivot's track through the poses; its ground pivot is the
+  // center of the circle it has to move on
+  const tracks = movingPivotsLocal.map(local => poses.map(pose => poseToGlobal(pose, local)));
+  const centers = tracks.map((track, i) => poses.length === 3
+    ? circumcenter(track[0], track[1], track[2])
+    : bisectorPoint(track[0], track[1], bisectorOffsets[i]));
+  const movingPivots = poses.map((_, j) => [tracks[0][j], tracks[1][j]]);
+
+  if (!centers[0] || !centers[1]) {
+    return {
+      ...empty,
+      movingPivots,
+      error: 'A moving pivot does not change position or moves in a straight line; its ground pivot is at infinity.',
+    };
+  }
+
+  const [A, D] = centers as Vector2[];
+  const [B1, C1] = movingPivots[0];
+  const P1 = poses[0];
+
+  const { placement, frameLength } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const lengths = {
+    frame: frameLength,
+    input: Math.hypot(B1.x - A.x, B1.y - A.y),
+    coupler: Math.hypot(C1.x - B1.x, C1.y - B1.y),
+    output: Math.hypot(C1.x - D.x, C1.y - D.y),
+  };
+  if (Object.values(lengths).some(len => len < 1e-6)) {
+    return { ...empty, groundPivots: [A, D], movingPivots, error: 'Two pivots coincide; choose different moving pivots.' };
+  }
+
+  const inputAngles = movingPivots.map(([B]) => deg(Math.atan2(B.y - A.y, B.x - A.x)));
+  const branches = movingPivots.map(([B, C]) => branchOf(B, C, D));
+  const branchDefect = branches.some(b => b !== branches[0]);
+
+  // A driver that only rocks must meet the poses in sequence inside one
+  // reachable interval, without reversing at a toggle position in between
+  let orderDefect = false;
+  const range = calculateReachableRange(lengths, placement.angle);
+  if (!range.fullRotation) {
+    orderDefect = !range.intervals.some(({ start, end }) => {
+      const offsets = inputAngles.map(theta => wrap360(theta - start));
+      if (offsets.some(o => o > end - start + 1e-6)) return false;
+      return offsets.every((o, i) => i === 0 || o >= offsets[i - 1])
+        || offsets.every((o, i) => i === 0 || o <= offsets[i - 1]);
+    });
+  }
+
+  const couplerDirection = Math.atan2(C1.y - B1.y, C1.x - B1.x);
+  const couplerPoint = {
+    distance: Math.hypot(P1.x - B1.x, P1.y - B1.y),
+    angle: deg(Math.atan2(P1.y - B1.y, P1.x - B1.x) - couplerDirection),
+  };
+
+  return {
+    isValid: true,
+    design: { lengths, placement, branch: branches[0], angle: inputAngles[0], couplerPoint },
+    groundPivots: [A, D],
+    movingPivots,
+    inputAngles,
+    branchDefect,
+    orderDefect,
+  };
+};
+
+
+// Chebyshev spacing of n precision points over [start, end]
+const chebyshevSpacing = (start: number, end: number, n: number = 3): number[] =>
+  Array.from({ length: n }, (_, i) =>
+    (start + end) / 2 - ((end - start) / 2) * Math.cos(((2 * i + 1) * Math.PI) / (2 * n))
+  );
+
+// Three-point function generator from the Freudenstein equation
+//   K1·cosψ − K2·cosφ + K3 = cos(φ − ψ)
+// with K1 = d/a, K2 = d/c and K3 = (a² − b² + c² + d²) / (2ac)
+const synthesizeFunctionGenerator = (spec: FunctionGeneratorSpec): FunctionGeneratorResult => {
+  const empty: FunctionGeneratorResult = {
+    isValid: false, structuralError: [], maxError: NaN, coversRange: false, branchDefect: false
+  };
+  const { fn, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame: d } = spec;
+
+  const yStart = fn(xStart);
+  const yEnd = fn(xEnd);
+  if (!isFinite(yStart) || !isFinite(yEnd) || yStart === yEnd || xStart === xEnd) {
+    return { ...empty, error: 'The function must be finite and change value over the chosen x range.' };
+  }
+
+  const inputAt = (x: number) => inputStart + ((x - xStart) / (xEnd - xStart)) * inputRange;
+  const outputAt = (x: number) => outputStart + ((fn(x) - yStart) / (yEnd - yStart)) * outputRange;
+
+  const phis = spec.precisionPoints.map(x => rad(inputAt(x)));
+  const psis = spec.precisionPoints.map(x => rad(outputAt(x)));
+  if (psis.some(psi => !isFinite(psi))) {
+    return { ...empty, error: 'The function is undefined at a precision point.' };
+  }
+
+  const K = solveLinearSystem(
+    phis.map((phi, i) => [Math.cos(psis[i]), -Math.cos(phi), 1]),
+    phis.map((phi, i) => Math.cos(phi - psis[i]))
+  );
+  if (!K || K[0] === 0 || K[1] === 0) {
+    return { ...empty, error: 'The precision points give a singular system; spread them further apart.' };
+  }
+
+  // A negative length means the link points the other way: flip its angle by 180°
+  const aSigned = d / K[0];
+  const cSigned = d / K[1];
+  const a = Math.abs(aSigned);
+  const c = Math.abs(cSigned);
+  const b2 = aSigned * aSigned + cSigned * cSigned + d * d - 2 * aSigned * cSigned * K[2];
+  if (b2 <= 0) {
+    return { ...empty, error: 'No real coupler length satisfies these precision points.' };
+  }
+  const lengths = { frame: d, input: a, coupler: Math.sqrt(b2), output: c };
+  const inputOffset = aSigned < 0 ? 180 : 0;
+  const outputOffset = cSigned < 0 ? 180 : 0;
+
+  // Achieved output angle on a branch, relative to the (flipped) output reference
+  const achievedOutput = (x: number, branch: AssemblyBranch) => {
+    const j = calculateJoints(lengths, inputAt(x) + inputOffset, branch, HORIZONTAL_FRAME);
+    if (!j.isValid) return NaN;
+    return deg(Math.atan2(j.Cy - j.Dy, j.Cx - j.Dx)) - outputOffset;
+  };
+  const angleError = (x: number, branch: AssemblyBranch) => {
+    const diff = achievedOutput(x, branch) - outputAt(x);
+    return ((((diff + 180) % 360) + 360) % 360) - 180;
+  };
+
+  // Each precision point is met exactly on one of the two branches
+  const pointBranches = spec.precisionPoints.map(x =>
+    Math.abs(angleError(x, AssemblyBranch.OPEN)) < 1e-6 ? AssemblyBranch.OPEN : AssemblyBranch.CROSSED
+  );
+  const branch = pointBranches[0];
+  const branchDefect = pointBranches.some(b => b !== branch);
+
+  const samples = 200;
+  const structuralError = Array.from({ length: samples + 1 }, (_, i) => {
+    const x = xStart + ((xEnd - xStart) * i) / samples;
+    return { x, error: angleError(x, branch) };
+  });
+  const finiteErrors = structuralError.filter(p => isFinite(p.error));
+  const maxError = finiteErrors.reduce((m, p) => Math.max(m, Math.abs(p.error)), 0);
+
+  return {
+    isValid: true,
+    design: { lengths, placement: HORIZONTAL_FRAME, branch, angle: inputAt(xStart) + inputOffset },
+    structuralError,
+    maxError,
+    coversRange: finiteErrors.length === structuralError.length,
+    branchDefect,
+  };
+};
+
+// Coupler curve samples that keep their input angle, one list per reachable interval
+const sampleCouplerPath = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  point: CouplerPoint,
+  placement: FramePlacement,
+  step: number
+): { theta: number, x: number, y: number }[][] => {
+  const range = calculateReachableRange(lengths, placement.angle);
+  return range.intervals.map(({ start, end }) => {
+    const count = Math.max(2, Math.ceil((end - start) / step) + 1);
+    const samples: { theta: number, x: number, y: number }[] = [];
+    for (let i = 0; i < count; i++) {
+      const theta = start + ((end - start) * i) / (count - 1);
+      const p = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), point);
+      if (isFinite(p.x)) samples.push({ theta, ...p });
+    }
+    return samples;
+  });
+};
+
+// Closest point of the sampled curve to a target, with its interpolated input angle
+const closestOnPath = (
+  path: { theta: number, x: number, y: number }[][],
+  target: Vector2
+): { point: Vector2, theta: number, distance: number } => {
+  let best = { point: { x: NaN, y: NaN }, theta: NaN, distance: Infinity };
+  for (const samples of path) {
+    for (let i = 0; i < samples.length; i++) {
+      const p = samples[i];
+      const q = samples[Math.min(i + 1, samples.length - 1)];
+      const dx = q.x - p.x;
+      const dy = q.y - p.y;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.min(1, Math.max(0, ((target.x - p.x) * dx + (target.y - p.y) * dy) / len2)) : 0;
+      const point = { x: p.x + t * dx, y: p.y + t * dy };
+      const distance = Math.hypot(target.x - point.x, target.y - point.y);
+      if (distance < best.distance) best = { point, theta: p.theta + t * (q.theta - p.theta), distance };
+    }
+  }
+  return best;
+};
+
+// How far the ground pivot A may be placed from the targets' bounding box
+const PIVOT_SEARCH_MARGIN = 300;
+// Stand-in distance for a target the linkage cannot reach at its prescribed angle
+const UNREACHED_DISTANCE = 1000;
+const TYPE_PENALTY = 1e9;
+
+// Fits a coupler curve to target points by searching link lengths, ground
+// placement and coupler point inside the slider ranges
+const synthesizePath = (spec: PathSynthesisSpec): PathSynthesisResult => {
+  const empty: PathSynthesisResult = { isValid: false, matchedPoints: [], deviations: [], rmsError: NaN, maxError: NaN };
+  const { targets, timing, branch, grashofType } = spec;
+  if (targets.length < 2) {
+    return { ...empty, error: 'Place at least two target points.' };
+  }
+  if (timing && timing.length !== targets.length) {
+    return { ...empty, error: 'Give one input angle per target point.' };
+  }
+
+  const xs = targets.map(p => p.x);
+  const ys = targets.map(p => p.y);
+  const bounds = {
+    ...LINK_LENGTH_BOUNDS,
+    originX: { min: Math.min(...xs) - PIVOT_SEARCH_MARGIN, max: Math.max(...xs) + PIVOT_SEARCH_MARGIN },
+    originY: { min: Math.min(...ys) - PIVOT_SEARCH_MARGIN, max: Math.max(...ys) + PIVOT_SEARCH_MARGIN },
+    frameAngle: { min: -180, max: 180 },
+    ...COUPLER_POINT_BOUNDS,
+    startAngle: { min: 0, max: 360 },
+  };
+  const keys = Object.keys(bounds).filter(key => timing || key !== 'startAngle') as (keyof typeof bounds)[];
+
+  const decode = (u: number[]) => {
+    const v = Object.fromEntries(keys.map((key, i) => [key, bounds[key].min + u[i] * (bounds[key].max - bounds[key].min)]));
+    return {
+      lengths: { frame: v.frame, input: v.input, coupler: v.coupler, output: v.output },
+      placement: { originX: v.originX, originY: v.originY, angle: v.frameAngle },
+      couplerPoint: { distance: v.distance, angle: v.angle },
+      startAngle: v.startAngle ?? 0,
+    };
+  };
+  const encode = (d: NonNullable<PathSynthesisSpec['initial']>) => {
+    const v: Record<string, number> = {
+      ...d.lengths,
+      originX: d.placement.originX,
+      originY: d.placement.originY,
+      frameAngle: d.placement.angle,
+      ...(d.couplerPoint ?? { distance: 0, angle: 0 }),
+      startAngle: wrap360(d.angle),
+    };
+    return keys.map(key => (v[key] - bounds[key].min) / (bounds[key].max - bounds[key].min));
+  };
+
+  const matchesType = (lengths: LinkLengths) => {
+    if (!grashofType) return true;
+    return determineGrashof(lengths).type === grashofType;
+  };
+
+  // Curve point and input angle assigned to every target
+  const match = (candidate: ReturnType<typeof decode>, step: number) => {
+    const { lengths, placement, couplerPoint, startAngle } = candidate;
+    if (timing) {
+      return targets.map((target, i) => {
+        const theta = startAngle + timing[i] - timing[0];
+        const point = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), couplerPoint);
+        const distance = isFinite(point.x) ? Math.hypot(target.x - point.x, target.y - point.y) : UNREACHED_DISTANCE;
+        return { point, theta, distance };
+      });
+    }
+    const path = sampleCouplerPath(lengths, branch, couplerPoint, placement, step);
+    return targets.map(target => {
+      const closest = closestOnPath(path, target);
+      return isFinite(closest.distance) ? closest : { ...closest, distance: UNREACHED_DISTANCE };
+    });
+  };
+
+  const cost = (u: number[]) => {
+    const candidate = decode(u);
+    const meanSquare = match(candidate, 4).reduce((sum, m) => sum + m.distance * m.distance, 0) / targets.length;
+    return meanSquare + (matchesType(candidate.lengths) ? 0 : TYPE_PENALTY);
+  };
+
+  const { x } = minimizeInUnitCube(cost, keys.length, {
+    seed: spec.seed,
+    initial: spec.initial ? [encode(spec.initial)] : [],
+    // Prescribed timing is cheap to evaluate but has many local minima
+    restarts: timing ? 4 : 1,
+  });
+  const best = decode(x);
+  if (!matchesType(best.lengths)) {
+    return { ...empty, error: `No ${grashofType} was found within the slider ranges.` };
+  }
+
+  const matches = match(best, 0.5);
+  const deviations = matches.map(m => m.distance);
+  if (deviations.some(d => d >= UNREACHED_DISTANCE)) {
+    return { ...empty, error: 'The best linkage found cannot reach every target point.' };
+  }
+
+  return {
+    isValid: true,
+    design: {
+      lengths: best.lengths,
+      placement: best.placement,
+      branch,
+      angle: matches[0].theta,
+      couplerPoint: best.couplerPoint,
+    },
+    matchedPoints: matches.map(m => m.point),
+    deviations,
+    rmsError: Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / deviations.length),
+    maxError: Math.max(...deviations),
+  };
+};
+
+// Crank-rocker from rocker length, swing angle and time ratio. The rocker
+// pivot D sits at the origin with C1 (crank stretched out) and C2 (crank
+// folded) placed symmetrically above it. A lies on the circle through C1 and
+// C2 that sees their chord under δ; |AC1| = b + a and |AC2| = b − a then give
+// the crank and coupler.
+const designCrankRocker = (spec: CrankRockerSpec): CrankRockerResult => {
+  const { rocker: c, swingAngle, timeRatio, foldedDistance: s, farSide } = spec;
+  const empty: CrankRockerResult = { isValid: false, points: null, maxFoldedDistance: NaN, transmission: { min: NaN, max: NaN } };
+  if (!(c > 0) || !(swingAngle > 0 && swingAngle < 180) || !(timeRatio >= 1)) {
+    return { ...empty, error: 'Use a positive rocker length, a swing between 0° and 180° and a time ratio of at least 1.' };
+  }
+
+  const delta = rad((180 * (timeRatio - 1)) / (timeRatio + 1));
+  const half = rad(swingAngle / 2);
+  const D = { x: 0, y: 0 };
+  const C1 = { x: -c * Math.sin(half), y: c * Math.cos(half) };
+  const C2 = { x: c * Math.sin(half), y: c * Math.cos(half) };
+  const chord = 2 * c * Math.sin(half);
+
+  // Past this |AC2| the point A crosses the bisector of C1C2 and the two
+  // toggle positions swap roles (the mirror image of a design already covered)
+  const maxFoldedDistance = delta > 0 ? chord / (2 * Math.sin(delta / 2)) : Infinity;
+  if (!(s > 0 && s < maxFoldedDistance)) {
+    return { ...empty, maxFoldedDistance, error: 'The crank pivot must lie between C2 and the bisector of C1C2.' };
+  }
+
+  // Triangle A-C1-C2 with the angle δ at A
+  const stretched = s * Math.cos(delta) + Math.sqrt(chord * chord - s * s * Math.sin(delta) * Math.sin(delta));
+  const along = (s * s - stretched * stretched + chord * chord) / (2 * chord);
+  const across = Math.sqrt(Math.max(0, s * s - along * along));
+  const A = { x: C2.x - along, y: C2.y + (farSide ? across : -across) };
+  const points = { A, D, C1, C2 };
+
+  const lengths = {
+    frame: Math.hypot(A.x - D.x, A.y - D.y),
+    input: (stretched - s) / 2,
+    coupler: (stretched + s) / 2,
+    output: c,
+  };
+
+  const { placement } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const angle = deg(Math.atan2(C1.y - A.y, C1.x - A.x));
+  const open = calculateJoints(lengths, angle, AssemblyBranch.OPEN, placement);
+  const branch = open.isValid && Math.hypot(open.Cx - C1.x, open.Cy - C1.y) < 1e-6 * c
+    ? AssemblyBranch.OPEN
+    : AssemblyBranch.CROSSED;
+  const { min, max } = analyzeTransmissionAngle(lengths, open);
+
+  const strokes = analyzeQuickReturn(lengths);
+  if (!strokes) {
+    return { ...empty, points, maxFoldedDistance, error: `This pivot position gives a ${determineGrashof(lengths).type}, not a crank-rocker.` };
+  }
+  // If the line through D and A crosses the arc C1C2, the rocker turns back
+  // before reaching C1 or C2 and the toggle positions are elsewhere
+  if (Math.abs(strokes.swingAngle - swingAngle) > 1e-6 * swingAngle) {
+    return { ...empty, points, maxFoldedDistance, error: 'From here the rocker reverses between C1 and C2; move the crank pivot.' };
+  }
+
+  return {
+    isValid: true,
+    design: { lengths, placement, branch, angle },
+    points,
+    maxFoldedDistance,
+    transmission: { min, max },
+  };
+};
+
+// Crank pivot position with the smallest deviation of the transmission angle from 90°
+const bestCrankRockerPivot = (
+  spec: Omit<CrankRockerSpec, 'foldedDistance' | 'farSide'>
+): Pick<CrankRockerSpec, 'foldedDistance' | 'farSide'> | null => {
+  const probe = designCrankRocker({ ...spec, foldedDistance: NaN, farSide: true });
+  // Longer couplers keep improving μ, so stop at a practical proportion
+  const limit = Math.min(probe.maxFoldedDistance, 3 * spec.rocker);
+  if (!isFinite(limit)) return null;
+
+  let best: Pick<CrankRockerSpec, 'foldedDistance' | 'farSide'> | null = null;
+  let bestDeviation = Infinity;
+  const steps = 400;
+  for (const farSide of [true, false]) {
+    for (let i = 1; i < steps; i++) {
+      const foldedDistance = (limit * i) / steps;
+      const result = designCrankRocker({ ...spec, foldedDistance, farSide });
+      if (!result.isValid) continue;
+      const deviation = Math.max(90 - result.transmission.min, result.transmission.max - 90);
+      if (deviation < bestDeviation) {
+        bestDeviation = deviation;
+        best = { foldedDistance, farSide };
+      }
+    }
+  }
+  return best;
+};
+
+const NO_FORCE: Vector2 = { x: 0, y: 0 };
+
+// z component of r × F
+const moment = (r: Vector2, f: Vector2) => r.x * f.y - r.y * f.x;
+
+const calculateStatics = (
+  joints: JointCoordinates,
+  load: StaticLoad,
+  couplerPosition: Vector2
+): StaticAnalysis => {
+  const invalid: StaticAnalysis = {
+    pinA: NO_FORCE, pinB: NO_FORCE, pinC: NO_FORCE, pinD: NO_FORCE, inputTorque: NaN, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  const P = load.forceAt === 'C' ? { x: Cx, y: Cy } : couplerPosition;
+  if (!isFinite(P.x)) return invalid;
+
+  const rDC = { x: Cx - Dx, y: Cy - Dy };
+  const rBC = { x: Cx - Bx, y: Cy - By };
+  const rBP = { x: P.x - Bx, y: P.y - By };
+  const F = load.force;
+
+  // Unknown F = force of the output on the coupler at C. Moments about D on the
+  // output link:  rDC × (−F) + T4 = 0
+  // and about B on the coupler:  rBC × F + rBP × F_ext = 0
+  const det = moment(rDC, rBC);
+  if (Math.abs(det) < 1e-9 * Math.hypot(rDC.x, rDC.y) * Math.hypot(rBC.x, rBC.y)) {
+    // Coupler and output are in line: a dead point, no finite torque holds it
+    return invalid;
+  }
+  const m1 = load.outputTorque;
+  const m2 = -moment(rBP, F);
+  const outputOnCoupler = {
+    x: (m1 * rBC.x - m2 * rDC.x) / det,
+    y: (m1 * rBC.y - m2 * rDC.y) / det,
+  };
+
+  // Coupler force balance, then the input link and output link
+  const pinB = { x: -outputOnCoupler.x - F.x, y: -outputOnCoupler.y - F.y };
+  const pinC = { x: -outputOnCoupler.x, y: -outputOnCoupler.y };
+  return {
+    pinA: pinB,
+    pinB,
+    pinC,
+    pinD: outputOnCoupler,
+    inputTorque: moment({ x: Bx - Ax, y: By - Ay }, pinB),
+    isValid: true,
+  };
+};
+
+// Static solution over a full turn of the input, one sample per degree;
+// angles where the linkage does not assemble come out invalid
+const calculateStaticsOverCycle = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  load: StaticLoad,
+  couplerPoint: CouplerPoint
+): { angle: number, statics: StaticAnalysis }[] =>
+  Array.from({ length: 361 }, (_, angle) => {
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    return { angle, statics: calculateStatics(joints, load, calculateCouplerPoint(joints, couplerPoint)) };
+  });
+
+type JointName = 'A' | 'B' | 'C' | 'D';
+
+// The joints a link runs between, in the direction its mass frame uses.
+// Applies to physical links and to solver slots alike.
+const LINK_ENDS: Record<LinkRole, [JointName, JointName]> = {
+  [LinkRole.FRAME]: ['A', 'D'],
+  [LinkRole.INPUT]: ['A', 'B'],
+  [LinkRole.COUPLER]: ['B', 'C'],
+  [LinkRole.OUTPUT]: ['D', 'C'],
+};
+
+const ZERO_VECTOR: Vector2 = { x: 0, y: 0 };
+const crossZ = (r: Vector2, f: Vector2) => r.x * f.y - r.y * f.x;
+
+// Uniform slender bar of the given mass per unit length
+const uniformBar = (length: number, linearDensity: number): LinkMass => {
+  const mass = length * linearDensity;
+  return { mass, com: { x: length / 2, y: 0 }, inertia: (mass * length * length) / 12 };
+};
+
+const uniformBars = (lengths: LinkLengths, linearDensity: number): LinkModel['masses'] => ({
+  frame: uniformBar(lengths.frame, linearDensity),
+  input: uniformBar(lengths.input, linearDensity),
+  coupler: uniformBar(lengths.coupler, linearDensity),
+  output: uniformBar(lengths.output, linearDensity),
+});
+
+// Newton–Euler solution for the three moving links at constant input speed.
+// Unknowns: ground on input at A, input on coupler at B, coupler on output at
+// C, ground on output at D, and the driving torque. The applied load acts as
+// in the static analysis, which this reduces to for massless links.
+const calculateDynamics = (
+  model: LinkModel,
+  layout: InversionLayout,
+  joints: JointCoordinates,
+  omegaInput: number,
+  load: StaticLoad,
+  couplerPosition: Vector2
+): DynamicAnalysis => {
+  const invalid: DynamicAnalysis = {
+    pinA: ZERO_VECTOR, pinB: ZERO_VECTOR, pinC: ZERO_VECTOR, pinD: ZERO_VECTOR, inputTorque: NaN,
+    shakingForce: ZERO_VECTOR, shakingMoment: NaN, isValid: false
+  };
+  const motion = calculateMotion(joints, omegaInput, 0);
+  const P = load.forceAt === 'C' ? { x: joints.Cx, y: joints.Cy } : couplerPosition;
+  if (!motion.isValid || !isFinite(P.x)) return invalid;
+
+  const pos: Record<JointName, Vector2> = {
+    A: { x: joints.Ax, y: joints.Ay },
+    B: { x: joints.Bx, y: joints.By },
+    C: { x: joints.Cx, y: joints.Cy },
+    D: { x: joints.Dx, y: joints.Dy },
+  };
+  const acc: Record<JointName, Vector2> = { A: ZERO_VECTOR, B: motion.accB, C: motion.accC, D: ZERO_VECTOR };
+  const rates = {
+    input: { omega: omegaInput, alpha: 0 },
+    coupler: { omega: motion.omegaCoupler, alpha: motion.alphaCoupler },
+    output: { omega: motion.omegaOutput, alpha: motion.alphaOutput },
+  };
+
+  // Solver joint standing in for each physical joint
+  const solverJoint = (physical: string) =>
+    (Object.keys(layout.joints) as JointName[]).find(k => layout.joints[k] === physical);
+
+  // Center of mass, its acceleration and the mass properties of the physical
+  // link sitting in a solver slot
+  const slotBody = (slot: 'input' | 'coupler' | 'output') => {
+    const props = model.masses[layout.links[slot]];
+    const [from, to] = LINK_ENDS[layout.links[slot]].map(solverJoint);
+    const dir = Math.atan2(pos[to].y - pos[from].y, pos[to].x - pos[from].x);
+    const r = {
+      x: props.com.x * Math.cos(dir) - props.com.y * Math.sin(dir),
+      y: props.com.x * Math.sin(dir) + props.com.y * Math.cos(dir),
+    };
+    const { omega, alpha } = rates[slot];
+    const a0 = acc[from];
+    return {
+      ...props,
+      G: { x: pos[from].x + r.x, y: pos[from].y + r.y },
+      accG: {
+        x: a0.x - alpha * r.y - omega * omega * r.x,
+        y: a0.y + alpha * r.x - omega * omega * r.y,
+      },
+      alpha,
+    };
+  };
+  const input = slotBody('input');
+  const coupler = slotBody('coupler');
+  const output = slotBody('output');
+
+  // Moment-arm rows: r × F = r.x·Fy − r.y·Fx
+  const arm = (from: Vector2, at: Vector2, sign: number) => [-sign * (at.y - from.y), sign * (at.x - from.x)];
+  const F = load.force;
+  const rPG3 = { x: P.x - coupler.G.x, y: P.y - coupler.G.y };
+
+  //          FAx FAy  FBx FBy  FCx FCy  FDx FDy  T
+  const rows: number[][] = [
+    [1, 0, -1, 0, 0, 0, 0, 0, 0],
+    [0, 1, 0, -1, 0, 0, 0, 0, 0],
+    [...arm(input.G, pos.A, 1), ...arm(input.G, pos.B, -1), 0, 0, 0, 0, 1],
+    [0, 0, 1, 0, -1, 0, 0, 0, 0],
+    [0, 0, 0, 1, 0, -1, 0, 0, 0],
+    [0, 0, ...arm(coupler.G, pos.B, 1), ...arm(coupler.G, pos.C, -1), 0, 0, 0],
+    [0, 0, 0, 0, 1, 0, 1, 0, 0],
+    [0, 0, 0, 0, 0, 1, 0, 1, 0],
+    [0, 0, 0, 0, ...arm(output.G, pos.C, 1), ...arm(output.G, pos.D, 1), 0],
+  ];
+  const rhs = [
+    input.mass * input.accG.x,
+    input.mass * input.accG.y,
+    input.inertia * input.alpha,
+    coupler.mass * coupler.accG.x - F.x,
+    coupler.mass * coupler.accG.y - F.y,
+    coupler.inertia * coupler.alpha - crossZ(rPG3, F),
+    output.mass * output.accG.x,
+    output.mass * output.accG.y,
+    output.inertia * output.alpha - load.outputTorque,
+  ];
+  const x = solveLinearSystem(rows, rhs);
+  if (!x) return invalid;
+
+  const pinA = { x: x[0], y: x[1] };
+  const pinD = { x: x[6], y: x[7] };
+  const inputTorque = x[8];
+  const rAD = { x: pos.D.x - pos.A.x, y: pos.D.y - pos.A.y };
+  return {
+    pinA,
+    pinB: { x: x[2], y: x[3] },
+    pinC: { x: x[4], y: x[5] },
+    pinD,
+    inputTorque,
+    shakingForce: { x: -pinA.x - pinD.x, y: -pinA.y - pinD.y },
+    shakingMoment: -inputTorque - crossZ(rAD, pinD),
+    isValid: true,
+  };
+};
+
+// Dynamic solution over a full turn of the input at constant speed, one
+// sample per degree; angles where the linkage does not assemble come out invalid
+const calculateDynamicsOverCycle = (
+  model: LinkModel,
+  layout: InversionLayout,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  omegaInput: number,
+  load: StaticLoad,
+  couplerPoint: CouplerPoint
+): { angle: number, dynamics: DynamicAnalysis }[] => {
+  const lengths = invertLengths(model.lengths, layout);
+  return Array.from({ length: 361 }, (_, angle) => {
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    const couplerPosition = calculateCouplerPoint(joints, couplerPoint);
+    return { angle, dynamics: calculateDynamics(model, layout, joints, omegaInput, load, couplerPosition) };
+  });
+};
+
+// One CSV row per input degree; pins and links use their physical names
+const dynamicsCycleToCsv = (
+  cycle: { angle: number, dynamics: DynamicAnalysis }[],
+  layout: InversionLayout
+): string => {
+  const pins = ['A', 'B', 'C', 'D'] as const;
+  const header = [
+    'theta_deg',
+    `torque_${layout.links.input}`,
+    ...pins.flatMap(k => [`F${layout.joints[k]}_x`, `F${layout.joints[k]}_y`]),
+    'shaking_Fx',
+    'shaking_Fy',
+    'shaking_M',
+  ];
+  // Angles without a solution keep their row with empty values
+  const rows = cycle.map(({ angle, dynamics: d }) => {
+    const values = [
+      d.inputTorque,
+      ...pins.flatMap(k => [d[`pin${k}`].x, d[`pin${k}`].y]),
+      d.shakingForce.x,
+      d.shakingForce.y,
+      d.shakingMoment,
+    ];
+    return [angle, ...values.map(v => (d.isValid ? String(v) : ''))].join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
+
+// Where the dyad's ends ride, and how each topology reads
+const SIX_BAR_TOPOLOGY: Record<SixBarType, { e: keyof LinkLengths, f: keyof LinkLengths, description: string }> = {
+  [SixBarType.WATT_I]: { e: 'input', f: 'coupler', description: 'The dyad joins the input to the coupler.' },
+  [SixBarType.WATT_II]: { e: 'output', f: 'frame', description: 'The output drives a second four-bar pivoted at F.' },
+  [SixBarType.STEPHENSON_I]: { e: 'input', f: 'output', description: 'The dyad joins the input to the output.' },
+  [SixBarType.STEPHENSON_II]: {
+    e: 'frame',
+    f: 'coupler',
+    description: 'The ground is E-G: the four-bar frame is the driver turning about E, and G-F ties its coupler to the ground.',
+  },
+  [SixBarType.STEPHENSON_III]: { e: 'coupler', f: 'frame', description: 'The coupler drives a dyad to a third ground pivot F.' },
+};
+
+// The joints each four-bar link runs between, in the direction its points are measured from
+const SIX_BAR_LINK_ENDS: Record<keyof LinkLengths, [string, string]> = {
+  frame: ['A', 'D'],
+  input: ['A', 'B'],
+  coupler: ['B', 'C'],
+  output: ['D', 'C'],
+};
+
+const LINK_NAMES: Record<keyof LinkLengths, string> = {
+  frame: 'Ground',
+  input: 'Input',
+  coupler: 'Coupler',
+  output: 'Output',
+};
+
+// Links of each topology: the four-bar links, with E or F added to the ones
+// that carry them, and the dyad. In Stephenson II the frame moves and E-G is
+// the ground instead.
+const sixBarLinks = (type: SixBarType): MechanismLink[] => {
+  const { e, f } = SIX_BAR_TOPOLOGY[type];
+  const movingFrame = type === SixBarType.STEPHENSON_II;
+  const fourBar = (Object.keys(SIX_BAR_LINK_ENDS) as (keyof LinkLengths)[]).map(link => ({
+    name: movingFrame && link === 'frame' ? 'Driver' : LINK_NAMES[link],
+    joints: [...SIX_BAR_LINK_ENDS[link], ...(link === e ? ['E'] : []), ...(link === f ? ['F'] : [])],
+    ground: link === 'frame' && !movingFrame,
+  }));
+  return [
+    ...fourBar,
+    { name: 'Dyad 1', joints: ['E', 'G'], ground: movingFrame },
+    { name: 'Dyad 2', joints: ['G', 'F'] },
+  ];
+};
+
+// Gruebler–Kutzbach count for pin joints: a pin shared by k links is k − 1 joints
+const mechanismMobility = (links: MechanismLink[]): number => {
+  const shared: Record<string, number> = {};
+  for (const link of links) {
+    for (const joint of link.joints) shared[joint] = (shared[joint] ?? 0) + 1;
+  }
+  const pins = Object.values(shared).reduce((sum, k) => sum + k - 1, 0);
+  // Every ground link is the same body
+  const bodies = links.filter(link => !link.ground).length + 1;
+  return 3 * (bodies - 1) - 2 * pins;
+};
+
+const pointOnLink = (from: Vector2, to: Vector2, point: CouplerPoint): Vector2 => {
+  const direction = Math.atan2(to.y - from.y, to.x - from.x) + (point.angle * Math.PI) / 180;
+  return { x: from.x + point.distance * Math.cos(direction), y: from.y + point.distance * Math.sin(direction) };
+};
+
+// Joint G of the dyad E-G-F, with the same branch convention as calculateJoints
+const dyadJoint = (E: Vector2, F: Vector2, first: number, second: number, branch: AssemblyBranch): Vector2 | null => {
+  const distance = Math.hypot(E.x - F.x, E.y - F.y);
+  const slack = 1e-9 * (first + second);
+  if (distance > first + second + slack || distance < Math.abs(first - second) - slack || distance === 0) return null;
+
+  const cosAlpha = (second * second + distance * distance - first * first) / (2 * second * distance);
+  const alpha = Math.acos(Math.min(Math.max(cosAlpha, -1), 1));
+  const angleFE = Math.atan2(E.y - F.y, E.x - F.x);
+  const theta = branch === AssemblyBranch.OPEN ? angleFE - alpha : angleFE + alpha;
+  return { x: F.x + second * Math.cos(theta), y: F.y + second * Math.sin(theta) };
+};
+
+const INVALID_POSE: MechanismPose = { joints: {}, isValid: false };
+
+// Four-bar joints plus E and F, or null when the four-bar does not close
+const fourBarPose = (
+  lengths: LinkLengths,
+  theta: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  dyad: SixBarDyad
+): Record<string, Vector2> | null => {
+  const j = calculateJoints(lengths, theta, branch, placement);
+  if (!j.isValid) return null;
+
+  const joints: Record<string, Vector2> = {
+    A: { x: j.Ax, y: j.Ay },
+    B: { x: j.Bx, y: j.By },
+    C: { x: j.Cx, y: j.Cy },
+    D: { x: j.Dx, y: j.Dy },
+  };
+  const { e, f } = SIX_BAR_TOPOLOGY[dyad.type];
+  const at = (link: keyof LinkLengths, point: CouplerPoint) =>
+    pointOnLink(joints[SIX_BAR_LINK_ENDS[link][0]], joints[SIX_BAR_LINK_ENDS[link][1]], point);
+  joints.E = at(e, dyad.pointE);
+  joints.F = at(f, dyad.pointF);
+  return joints;
+};
+
+// Scan step (degrees) for the Stephenson II closure
+const CLOSURE_SCAN_STEP = 2;
+
+// Stephenson II: the driver sets the frame's angle about the ground pivot E,
+// and the four-bar's own input angle is whatever lets G-F reach the coupler
+// point F. Roots of that one residual are bracketed on a scan and bisected;
+// the one nearest the previous pose (or on the dyad's branch side) wins.
+const solveStephensonII = (
+  lengths: LinkLengths,
+  driverAngle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  dyad: SixBarDyad,
+  previous?: MechanismPose
+): MechanismPose => {
+  const E = { x: placement.originX, y: placement.originY };
+  const phi = (placement.angle * Math.PI) / 180;
+  const G = { x: E.x + dyad.lengths.first * Math.cos(phi), y: E.y + dyad.lengths.first * Math.sin(phi) };
+
+  // Frame placement that puts E, measured from A along A->D, on the ground pivot
+  const psi = (driverAngle * Math.PI) / 180;
+  const offset = pointOnLink({ x: 0, y: 0 }, { x: Math.cos(psi), y: Math.sin(psi) }, dyad.pointE);
+  const frame: FramePlacement = { originX: E.x - offset.x, originY: E.y - offset.y, angle: driverAngle };
+
+  const poseAt = (theta: number) => fourBarPose(lengths, theta, branch, frame, dyad);
+  const residual = (theta: number) => {
+    const joints = poseAt(theta);
+    return joints ? Math.hypot(joints.F.x - G.x, joints.F.y - G.y) - dyad.lengths.second : NaN;
+  };
+
+  const roots: number[] = [];
+  for (let theta = 0; theta < 360; theta += CLOSURE_SCAN_STEP) {
+    let lo = theta, hi = theta + CLOSURE_SCAN_STEP;
+    let rLo = residual(lo), rHi = residual(hi);
+    if (!(rLo * rHi <= 0)) continue;
+    for (let i = 0; i < 50; i++) {
+      const mid = (lo + hi) / 2;
+      const rMid = residual(mid);
+      if (rLo * rMid <= 0) { hi = mid; rHi = rMid; } else { lo = mid; rLo = rMid; }
+    }
+    roots.push((lo + hi) / 2);
+  }
+  // A bracket running into a stretch where the four-bar does not close can
+  // bisect onto a root with no pose
+  const candidates = roots.flatMap(theta => {
+    const joints = poseAt(theta);
+    return joints ? [{ ...joints, G }] : [];
+  });
+  if (candidates.length === 0) return INVALID_POSE;
+  let best = candidates[0];
+  if (previous?.isValid && previous.joints.B) {
+    const moved = (joints: Record<string, Vector2>) => Math.hypot(joints.B.x - previous.joints.B.x, joints.B.y - previous.joints.B.y);
+    best = candidates.reduce((p, q) => (moved(q) < moved(p) ? q : p));
+  } else {
+    // F sits clockwise of the ray G->E on the OPEN branch
+    const side = (joints: Record<string, Vector2>) => (E.x - G.x) * (joints.F.y - G.y) - (E.y - G.y) * (joints.F.x - G.x);
+    best = candidates.find(joints => (side(joints) < 0) === (dyad.branch === AssemblyBranch.OPEN)) ?? best;
+  }
+  return { joints: best, isValid: true };
+};
+
+// Solves the six-bar for a driver angle. The driver is the four-bar's input,
+// except in Stephenson II where it is the frame; previous keeps that
+// topology's numeric closure on the same assembly from frame to frame.
+const solveSixBar = (
+  lengths: LinkLengths,
+  angle: number,
+  branch: AssemblyBranch,
+  dyad: SixBarDyad,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  previous?: MechanismPose
+): MechanismPose => {
+  if (dyad.type === SixBarType.STEPHENSON_II) {
+    return solveStephensonII(lengths, angle, branch, placement, dyad, previous);
+  }
+
+  const joints = fourBarPose(lengths, angle, branch, placement, dyad);
+  if (!joints) return INVALID_POSE;
+  const G = dyadJoint(joints.E, joints.F, dyad.lengths.first, dyad.lengths.second, dyad.branch);
+  if (!G) return INVALID_POSE;
+  return { joints: { ...joints, G }, isValid: true };
+};
+
+// Mobility, the Grashof class of every four-link loop, and how much of a
+// driver turn the whole linkage assembles over (1° steps)
+const checkSixBar = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  dyad: SixBarDyad,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): SixBarCheck => {
+  const links = sixBarLinks(dyad.type);
+  const loops: SixBarCheck['loops'] = [{ name: 'Four-bar A-B-C-D', lengths, grashof: determineGrashof(lengths) }];
+
+  // Watt chains close a second four-link loop through the two ternary links
+  // sharing a joint; the sides taken off those links are rigid
+  const distanceTo = (point: CouplerPoint, along: number) => {
+    const local = couplerPointToLocal(point);
+    return Math.hypot(local.x - along, local.y);
+  };
+  if (dyad.type === SixBarType.WATT_I) {
+    const second = { frame: dyad.pointF.distance, input: distanceTo(dyad.pointE, lengths.input), coupler: dyad.lengths.first, output: dyad.lengths.second };
+    loops.push({ name: 'Loop B-E-G-F', lengths: second, grashof: determineGrashof(second) });
+  }
+  if (dyad.type === SixBarType.WATT_II) {
+    const second = { frame: distanceTo(dyad.pointF, lengths.frame), input: dyad.pointE.distance, coupler: dyad.lengths.first, output: dyad.lengths.second };
+    loops.push({ name: 'Four-bar D-E-G-F', lengths: second, grashof: determineGrashof(second) });
+  }
+
+  let closed = 0;
+  let previous: MechanismPose | undefined;
+  for (let angle = 0; angle < 360; angle++) {
+    const next = solveSixBar(lengths, angle, branch, dyad, placement, previous);
+    if (next.isValid) closed++;
+    previous = next.isValid ? next : undefined;
+  }
+
+  return { mobility: mechanismMobility(links), loops, closure: closed / 360 };
+};
+
+// Slider ranges for the dimensions; the offset may sit on either side of A
+const SLIDER_CRANK_BOUNDS: Record<keyof SliderCrankDimensions, { min: number, max: number }> = {
+  crank: { min: 20, max: 200 },
+  rod: { min: 50, max: 400 },
+  offset: { min: -150, max: 150 },
+};
+
+// Which link turns about a ground pivot and which one carries the output in
+// each inversion, with the mechanism it is best known as
+const SLIDER_INVERSIONS: Record<SliderLink, { driver: SliderLink, output: SliderLink, name: string }> = {
+  [SliderLink.GUIDE]: { driver: SliderLink.CRANK, output: SliderLink.SLIDER, name: 'Slider-crank' },
+  [SliderLink.CRANK]: { driver: SliderLink.ROD, output: SliderLink.GUIDE, name: 'Whitworth quick-return' },
+  [SliderLink.ROD]: { driver: SliderLink.CRANK, output: SliderLink.SLIDER, name: 'Oscillating cylinder' },
+  [SliderLink.SLIDER]: { driver: SliderLink.ROD, output: SliderLink.GUIDE, name: 'Hand pump' },
+};
+
+// Pin joints that sit on each inversion's ground link
+const SLIDER_GROUND_JOINTS: Record<SliderLink, string[]> = {
+  [SliderLink.GUIDE]: ['A'],
+  [SliderLink.CRANK]: ['A', 'B'],
+  [SliderLink.ROD]: ['B', 'C'],
+  [SliderLink.SLIDER]: ['C'],
+};
+
+// A pose in the ground link's own frame, before it is placed
+interface LocalPose {
+  A: Vector2;
+  B: Vector2;
+  C: Vector2;
+  guideAngle: number; // radians
+  position: number;
+}
+
+// Each solver works in its ground link's frame, with the driver angle measured
+// from that link. OPEN takes the root that puts the joint found last further
+// along the guide. Like calculateJoints they allow a little slack, so the
+// exact toggle angles from sliderCrankReachableRange still assemble.
+const SLACK = 1e-9;
+
+// √(span² − rise²), or null when the span cannot reach
+const reach = (span: number, rise: number): number | null => {
+  if (Math.abs(rise) > span * (1 + SLACK)) return null;
+  return Math.sqrt(Math.max(0, span * span - rise * rise));
+};
+
+// Guide grounded: A at the origin, the guide along +x at y = e, crank driven
+const solveGuideGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, theta: number, branch: AssemblyBranch): LocalPose | null => {
+  const B = { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+  const run = reach(l, e - B.y);
+  if (run === null) return null;
+  const position = B.x + (branch === AssemblyBranch.OPEN ? run : -run);
+  return { A: { x: 0, y: 0 }, B, C: { x: position, y: e }, guideAngle: 0, position };
+};
+
+// The guide through C that runs e to the left of A: C lies at
+// (±√(d² − e²), e) in the guide's frame, d being the distance A-C
+const guideThrough = (A: Vector2, C: Vector2, e: number, branch: AssemblyBranch) => {
+  const along = reach(Math.hypot(C.x - A.x, C.y - A.y), e);
+  if (along === null) return null;
+  const position = branch === AssemblyBranch.OPEN ? along : -along;
+  return { guideAngle: Math.atan2(C.y - A.y, C.x - A.x) - Math.atan2(e, position), position };
+};
+
+// Crank grounded: A at the origin, B along +x, rod driven about B
+const solveCrankGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const A = { x: 0, y: 0 };
+  const B = { x: r, y: 0 };
+  const C = { x: r + l * Math.cos(beta), y: l * Math.sin(beta) };
+  const guide = guideThrough(A, C, e, branch);
+  return guide && { A, B, C, ...guide };
+};
+
+// Rod grounded: B at the origin, C along +x, crank driven about B
+const solveRodGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const A = { x: r * Math.cos(beta), y: r * Math.sin(beta) };
+  const B = { x: 0, y: 0 };
+  const C = { x: l, y: 0 };
+  const guide = guideThrough(A, C, e, branch);
+  return guide && { A, B, C, ...guide };
+};
+
+// Slider grounded: C at the origin, the guide along +x, rod driven about C;
+// A slides on the line y = −e
+const solveSliderGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const B = { x: l * Math.cos(beta), y: l * Math.sin(beta) };
+  const run = reach(r, B.y + e);
+  if (run === null) return null;
+  const A = { x: B.x + (branch === AssemblyBranch.OPEN ? run : -run), y: -e };
+  return { A, B, C: { x: 0, y: 0 }, guideAngle: 0, position: -A.x };
+};
+
+const SOLVERS: Record<SliderLink, (dims: SliderCrankDimensions, angle: number, branch: AssemblyBranch) => LocalPose | null> = {
+  [SliderLink.GUIDE]: solveGuideGrounded,
+  [SliderLink.CRANK]: solveCrankGrounded,
+  [SliderLink.ROD]: solveRodGrounded,
+  [SliderLink.SLIDER]: solveSliderGrounded,
+};
+
+// Solves the inversion for a global driver angle. The placement puts the
+// ground link's first joint (A, A, B, C) and its direction in the global frame.
+const solveSliderCrank = (
+  dims: SliderCrankDimensions,
+  ground: SliderLink,
+  angle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): SliderCrankPose => {
+  const local = SOLVERS[ground](dims, ((angle - placement.angle) * Math.PI) / 180, branch);
+  if (!local) return { joints: {}, guideAngle: NaN, position: NaN, isValid: false };
+
+  const phi = (placement.angle * Math.PI) / 180;
+  const place = (p: Vector2): Vector2 => ({
+    x: placement.originX + p.x * Math.cos(phi) - p.y * Math.sin(phi),
+    y: placement.originY + p.x * Math.sin(phi) + p.y * Math.cos(phi),
+  });
+  return {
+    joints: { A: place(local.A), B: place(local.B), C: place(local.C) },
+    guideAngle: (local.guideAngle * 180) / Math.PI + placement.angle,
+    position: local.position,
+    isValid: true,
+  };
+};
+
+// Global driver angles at which the inversion assembles. Each constraint is a
+// band on the cosine of the driver angle, or on its sine (a cosine turned by 90°).
+const sliderCrankReachableRange = (
+  { crank: r, rod: l, offset: e }: SliderCrankDimensions,
+  ground: SliderLink,
+  frameAngle: number = 0
+): ReachableRange => {
+  let range: ReachableRange;
+  switch (ground) {
+    case SliderLink.GUIDE:
+      // The rod must span the rise from B to the guide: |e − r·sinθ| ≤ l
+      range = rotateReachableRange(reachableFromCosine((e - l) / r, (e + l) / r), 90);
+      break;
+    case SliderLink.CRANK:
+      // A-C must reach the guide: r² + l² + 2rl·cosβ ≥ e²
+      range = reachableFromCosine((e * e - r * r - l * l) / (2 * r * l), Infinity);
+      break;
+    case SliderLink.ROD:
+      // The same with the crank turning about B: r² + l² − 2rl·cosβ ≥ e²
+      range = reachableFromCosine(-Infinity, (r * r + l * l - e * e) / (2 * r * l));
+      break;
+    case SliderLink.SLIDER:
+      // The crank must span the drop from B to A's line: |e + l·sinβ| ≤ r
+      range = rotateReachableRange(reachableFromCosine((-e - r) / l, (r - e) / l), 90);
+      break;
+  }
+  return rotateReachableRange(range, frameAngle);
+};
+
+// Closed-form stroke of a slider-crank whose crank turns fully: the slider's
+// dead centres are where crank and rod stretch out and fold up
+const fullStroke = (r: number, l: number, e: number) =>
+  Math.sqrt((l + r) * (l + r) - e * e) - Math.sqrt((l - r) * (l - r) - e * e);
+
+// Sample step (degrees) for the stroke of a rocking driver
+const STROKE_STEP = 0.25;
+
+// Largest slider travel over any one interval the driver can rock through
+const sampledStroke = (dims: SliderCrankDimensions, ground: SliderLink, branch: AssemblyBranch): number => {
+  const range = sliderCrankReachableRange(dims, ground);
+  let stroke = NaN;
+  for (const { start, end } of range.intervals) {
+    const steps = Math.max(1, Math.ceil((end - start) / STROKE_STEP));
+    const positions: number[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const local = SOLVERS[ground](dims, ((start + ((end - start) * i) / steps) * Math.PI) / 180, branch);
+      if (local) positions.push(local.position);
+    }
+    if (positions.length > 0) {
+      const travel = Math.max(...positions) - Math.min(...positions);
+      stroke = isNaN(stroke) ? travel : Math.max(stroke, travel);
+    }
+  }
+  return stroke;
+};
+
+// Rotatability of a slider-crank, the limit of a four-bar whose output and
+// frame are infinitely long. Joint A turns fully when r + |e| ≤ l and joint
+// C when l + |e| ≤ r; B turns fully when either holds.
+const analyzeSliderCrank = (
+  dims: SliderCrankDimensions,
+  ground: SliderLink,
+  branch: AssemblyBranch
+): SliderCrankInfo => {
+  const { crank: r, rod: l, offset: e } = dims;
+  const jointA = r + Math.abs(e) <= l;
+  const jointC = l + Math.abs(e) <= r;
+  const jointB = jointA || jointC;
+
+  // The slider keeps the guide's direction, so it turns like the guide does
+  const fullRotation: Record<SliderLink, SliderLink[]> = {
+    [SliderLink.GUIDE]: [...(jointA ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.ROD] : [])],
+    [SliderLink.CRANK]: [...(jointA ? [SliderLink.GUIDE, SliderLink.SLIDER] : []), ...(jointB ? [SliderLink.ROD] : [])],
+    [SliderLink.ROD]: [...(jointB ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.GUIDE, SliderLink.SLIDER] : [])],
+    [SliderLink.SLIDER]: [...(jointA ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.ROD] : [])],
+  };
+
+  const { driver, output } = SLIDER_INVERSIONS[ground];
+  const driverRotates = fullRotation[ground].includes(driver);
+  // Whatever is not pinned to the ground translates with the slider or guide
+  const outputMotion = ground === SliderLink.GUIDE ? 'Slider'
+    : ground === SliderLink.SLIDER ? 'Translating Guide'
+    : `${fullRotation[ground].includes(output) ? 'Rotating' : 'Oscillating'} ${output === SliderLink.GUIDE ? 'Guide' : 'Block'}`;
+
+  return {
+    type: `${driverRotates ? 'Crank' : 'Rocker'}-${outputMotion}`,
+    fullRotation,
+    driverRotates,
+    stroke: jointA ? fullStroke(r, l, e) : sampledStroke(dims, ground, branch),
+  };
+};
+
+// Crank length giving the stroke with the crank still turning fully
+// (r ≤ l − |e|) and inside its slider, or null when no such crank gives it
+const crankForStroke = (stroke: number, rod: number, offset: number): number | null => {
+  const { min, max } = SLIDER_CRANK_BOUNDS.crank;
+  const longest = Math.min(rod - Math.abs(offset), max);
+  if (longest < min || !(stroke >= fullStroke(min, rod, offset) && stroke <= fullStroke(longest, rod, offset))) return null;
+
+  // The stroke grows with the crank, so bisect on it
+  let lo = min, hi = longest;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (fullStroke(mid, rod, offset) < stroke) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Slider range for every arc; 0° and 180° would put two axes on one line
+const SPHERICAL_ARC_BOUNDS = { min: 5, max: 175 };
+
+// Vector algebra on the joint axes
+const dot3 = (p: Vector3, q: Vector3) => p.x * q.x + p.y * q.y + p.z * q.z;
+const cross3 = (p: Vector3, q: Vector3): Vector3 => ({
+  x: p.y * q.z - p.z * q.y,
+  y: p.z * q.x - p.x * q.z,
+  z: p.x * q.y - p.y * q.x,
+});
+const combine = (terms: [number, Vector3][]): Vector3 => terms.reduce(
+  (sum, [k, p]) => ({ x: sum.x + k * p.x, y: sum.y + k * p.y, z: sum.z + k * p.z }),
+  { x: 0, y: 0, z: 0 }
+);
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// The ground axes A and D straddle the z axis in the xz plane
+const groundAxes = (frame: number) => ({
+  A: { x: -Math.sin(toRadians(frame / 2)), y: 0, z: Math.cos(toRadians(frame / 2)) },
+  D: { x: Math.sin(toRadians(frame / 2)), y: 0, z: Math.cos(toRadians(frame / 2)) },
+});
+
+// Joint axes for an input angle θ, measured about A from the ground arc A->D
+// (counter-clockwise seen from outside the sphere). C is the axis at arc b
+// from B and c from D: C = x·B + y·D + z·(B × D), with the sign of z picking
+// the branch. OPEN matches the planar OPEN branch for a chain shrunk onto
+// the pole.
+const calculateSphericalJoints = (
+  arcs: LinkLengths,
+  thetaInput: number,
+  branch: AssemblyBranch = AssemblyBranch.OPEN
+): SphericalPose => {
+  const { A, D } = groundAxes(arcs.frame);
+  const toD = combine([[1, D], [-dot3(A, D), A]]);
+  const t = combine([[1 / Math.hypot(toD.x, toD.y, toD.z), toD]]);
+  const n = cross3(A, t);
+  const theta = toRadians(thetaInput);
+  const B = combine([
+    [Math.cos(toRadians(arcs.input)), A],
+    [Math.sin(toRadians(arcs.input)) * Math.cos(theta), t],
+    [Math.sin(toRadians(arcs.input)) * Math.sin(theta), n],
+  ]);
+
+  const invalid = { A, B, C: { x: NaN, y: NaN, z: NaN }, D, isValid: false };
+  const g = dot3(B, D);
+  const sin2 = 1 - g * g;
+  if (sin2 < 1e-12) return invalid;
+  const cosB = Math.cos(toRadians(arcs.coupler));
+  const cosC = Math.cos(toRadians(arcs.output));
+  const x = (cosB - g * cosC) / sin2;
+  const y = (cosC - g * cosB) / sin2;
+  // Slack so the exact toggle angles from sphericalReachableRange still assemble
+  const z2 = (1 - (x * x + y * y + 2 * x * y * g)) / sin2;
+  if (z2 < -1e-9) return invalid;
+  const z = Math.sqrt(Math.max(0, z2)) * (branch === AssemblyBranch.OPEN ? 1 : -1);
+
+  return { A, B, C: combine([[x, B], [y, D], [z, cross3(B, D)]]), D, isValid: true };
+};
+
+// Input angles at which the chain closes. By the spherical law of cosines
+// cos BD = cos d·cos a + sin d·sin a·cosθ, and the triangle B-C-D closes
+// while |b − c| ≤ BD ≤ min(b + c, 360° − b − c).
+const sphericalReachableRange = (arcs: LinkLengths): ReachableRange => {
+  const { frame: d, input: a, coupler: b, output: c } = arcs;
+  const base = Math.cos(toRadians(d)) * Math.cos(toRadians(a));
+  const scale = Math.sin(toRadians(d)) * Math.sin(toRadians(a));
+  const longest = Math.min(b + c, 360 - b - c);
+  return reachableFromCosine(
+    (Math.cos(toRadians(longest)) - base) / scale,
+    (Math.cos(toRadians(Math.abs(b - c))) - base) / scale
+  );
+};
+
+// Arc sums closer than this many degrees count as equal
+const ARC_TOLERANCE = 1e-9;
+
+// Rotatability of a spherical chain, the counterpart of Grashof's rule. The
+// diagonal opposite a joint between arcs x and y spans
+// [|x − y|, min(x + y, 360° − x − y)] as the joint turns, and the joint turns
+// fully when the other two arcs close over all of it.
+const classifySpherical = (arcs: LinkLengths): SphericalInfo => {
+  const slots = [arcs.frame, arcs.input, arcs.coupler, arcs.output];
+  const longest = (x: number, y: number) => Math.min(x + y, 360 - x - y);
+  // Joint i sits between slot i and slot i + 1: A, B, C, D in turn
+  const turns = slots.map((x, i) => {
+    const y = slots[(i + 1) % 4], z = slots[(i + 2) % 4], w = slots[(i + 3) % 4];
+    return Math.abs(x - y) >= Math.abs(z - w) - ARC_TOLERANCE && longest(x, y) <= longest(z, w) + ARC_TOLERANCE;
+  });
+  const jointTurns = { A: turns[0], B: turns[1], C: turns[2], D: turns[3] };
+
+  // As in the planar chain, a link whose two joints both turn fully turns
+  // relative to every other link
+  const roles = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+  const linkTurns = slots.map((_, i) => turns[(i + 3) % 4] && turns[i]);
+  const fullRotation = {} as Record<LinkRole, LinkRole[]>;
+  roles.forEach((role, i) => {
+    fullRotation[role] = roles.filter((_, j) => j !== i && (linkTurns[i] || linkTurns[j]));
+  });
+
+  const range = sphericalReachableRange(arcs);
+  if (range.intervals.length === 0) return { type: 'Cannot Assemble', jointTurns, fullRotation };
+
+  const crank = (i: number) => linkTurns[0] || linkTurns[i];
+  const letters = [1, 2, 3].map(i => (crank(i) ? 'C' : 'R')).join('');
+  const names: Record<string, string> = {
+    CCC: 'Double-Crank',
+    CRR: 'Crank-Rocker',
+    RCR: 'Double-Rocker',
+    RRC: 'Rocker-Crank',
+    RRR: 'Triple-Rocker',
+  };
+  return { type: `${names[letters] ?? letters} (${letters})`, jointTurns, fullRotation };
+};
+
+// Orthographic projection: x right and y up on the screen, z towards the viewer
+const projectOnView = (p: Vector3, view: SphereView): Vector3 => {
+  const az = toRadians(view.azimuth);
+  const el = toRadians(view.elevation);
+  const right = { x: -Math.sin(az), y: Math.cos(az), z: 0 };
+  const up = { x: -Math.sin(el) * Math.cos(az), y: -Math.sin(el) * Math.sin(az), z: Math.cos(el) };
+  const toward = { x: Math.cos(el) * Math.cos(az), y: Math.cos(el) * Math.sin(az), z: Math.sin(el) };
+  return { x: dot3(p, right), y: dot3(p, up), z: dot3(p, toward) };
+};
+
+// Points along the shorter great-circle arc from p to q
+const greatCircleArc = (p: Vector3, q: Vector3, steps: number = 48): Vector3[] => {
+  const omega = Math.acos(Math.min(Math.max(dot3(p, q), -1), 1));
+  if (omega < 1e-9) return [p, q];
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    return combine([[Math.sin((1 - t) * omega) / Math.sin(omega), p], [Math.sin(t * omega) / Math.sin(omega), q]]);
+  });
+};
+
+// The two known centers whose line carries each unknown one, by Kennedy's
+// theorem: I13 lies on I12-I23 and I14-I34, I24 on I12-I14 and I23-I34
+const KENNEDY_LINES: Record<'13' | '24', [[string, string], [string, string]]> = {
+  '13': [['12', '23'], ['14', '34']],
+  '24': [['12', '14'], ['23', '34']],
+};
+
+const UNDETERMINED: Vector2 = { x: NaN, y: NaN };
+
+// Where line p1-q1 meets line p2-q2. Parallel lines meet at infinity in their
+// common direction; lines that coincide leave the point undetermined.
+const meetLines = (p1: Vector2, q1: Vector2, p2: Vector2, q2: Vector2): { point: Vector2, atInfinity: boolean } => {
+  const d1 = { x: q1.x - p1.x, y: q1.y - p1.y };
+  const d2 = { x: q2.x - p2.x, y: q2.y - p2.y };
+  const len1 = Math.hypot(d1.x, d1.y);
+  const det = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(det) <= 1e-9 * len1 * Math.hypot(d2.x, d2.y)) {
+    const apart = (d1.x * (p2.y - p1.y) - d1.y * (p2.x - p1.x)) / len1;
+    if (Math.abs(apart) <= 1e-9 * len1) return { point: UNDETERMINED, atInfinity: false };
+    return { point: { x: d1.x / len1, y: d1.y / len1 }, atInfinity: true };
+  }
+  const t = ((p2.x - p1.x) * d2.y - (p2.y - p1.y) * d2.x) / det;
+  return { point: { x: p1.x + t * d1.x, y: p1.y + t * d1.y }, atInfinity: false };
+};
+
+// ω of link j over ω of link i, from a point P the two share: it moves alike
+// on both, so ωi·(P − Ii) = ωj·(P − Ij) with Ii and Ij their centers with the
+// ground. All three lie on one line, running along the given direction.
+const angularRatio = (P: Vector2, Ii: Vector2, Ij: Vector2, along: Vector2): number =>
+  ((P.x - Ii.x) * along.x + (P.y - Ii.y) * along.y) / ((P.x - Ij.x) * along.x + (P.y - Ij.y) * along.y);
+
+// All six instant centers of the pose and the speed ratios they give
+const calculateInstantCenters = (joints: JointCoordinates): InstantCenterAnalysis => {
+  const invalid: InstantCenterAnalysis = {
+    centers: [], velocityRatio: NaN, couplerRatio: NaN, mechanicalAdvantage: NaN, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const A = { x: joints.Ax, y: joints.Ay };
+  const B = { x: joints.Bx, y: joints.By };
+  const C = { x: joints.Cx, y: joints.Cy };
+  const D = { x: joints.Dx, y: joints.Dy };
+  const I13 = { name: '13', ...meetLines(A, B, D, C) };
+  const I24 = { name: '24', ...meetLines(A, D, B, C) };
+  const centers: InstantCenter[] = [
+    { name: '12', point: A, atInfinity: false },
+    I13,
+    { name: '14', point: D, atInfinity: false },
+    { name: '23', point: B, atInfinity: false },
+    I24,
+    { name: '34', point: C, atInfinity: false },
+  ];
+
+  // I24 at infinity means input and output turn together; I13 at infinity
+  // means the coupler translates
+  const velocityRatio = I24.atInfinity ? 1 : angularRatio(I24.point, A, D, { x: D.x - A.x, y: D.y - A.y });
+  const couplerRatio = I13.atInfinity ? 0 : angularRatio(B, A, I13.point, { x: B.x - A.x, y: B.y - A.y });
+  // Ideal torque ratio T4/T2; the output stalls where I24 reaches A
+  const mechanicalAdvantage = velocityRatio === 0 ? Infinity : 1 / velocityRatio;
+  const isValid = isFinite(velocityRatio);
+  return { centers, velocityRatio, couplerRatio, mechanicalAdvantage, isValid };
+};
+
+// Instant centers over a full turn of the input, one sample per degree
+const calculateInstantCentersOverCycle = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement
+): { angle: number, centers: InstantCenterAnalysis }[] =>
+  Array.from({ length: 361 }, (_, angle) => ({
+    angle,
+    centers: calculateInstantCenters(calculateJoints(lengths, angle, branch, placement)),
+  }));
+
+// Saves text as a file through a temporary object URL
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DESIGN_VERSION = 1;
+
+// Range of the animation speed slider
+const SPEED_BOUNDS = { min: 0.2, max: 5 };
+
+type NumberBounds = { min?: number, max?: number, positive?: boolean };
+
+// Pivots and the designers can take dimensions past the sliders, so a file may
+// too, up to this multiple of the slider's largest value
+const SLIDER_REACH = 10;
+
+const pastSlider = ({ max }: { max: number }): NumberBounds => ({ positive: true, max: SLIDER_REACH * max });
+
+// Checks an already-parsed value field by field, collecting every problem in
+// one pass and naming each field by its path in the file. The spherical arcs
+// must stay off 0° and 180°.
+const validateDesign = (value: unknown): DesignParseResult => {
+  const errors: string[] = [];
+  // Fields under a missing object are not reported again one by one
+  const missing: string[] = [];
+  const report = (path: string, message: string) => {
+    if (!missing.some(m => path.startsWith(`${m}.`))) errors.push(message);
+  };
+
+  const readObject = (v: unknown, path: string): Record<string, unknown> => {
+    if (typeof v === 'object' && v !== null && !Array.isArray(v)) return v as Record<string, unknown>;
+    report(path, `${path} must be an object.`);
+    missing.push(path);
+    return {};
+  };
+
+  const readNumber = (v: unknown, path: string, bounds: NumberBounds = {}): number => {
+    if (typeof v !== 'number' || !isFinite(v)) {
+      report(path, `${path} must be a finite number.`);
+      return NaN;
+    }
+    if (bounds.positive && v <= 0) report(path, `${path} must be greater than 0 (got ${v}).`);
+    if (bounds.min !== undefined && v < bounds.min) report(path, `${path} must be at least ${bounds.min} (got ${v}).`);
+    if (bounds.max !== undefined && v > bounds.max) report(path, `${path} must be at most ${bounds.max} (got ${v}).`);
+    return v;
+  };
+
+  const readChoice = <T extends string>(v: unknown, path: string, options: T[]): T => {
+    const match = options.find(option => option === v);
+    if (match === undefined) report(path, `${path} must be one of ${options.map(o => `"${o}"`).join(', ')}.`);
+    return match;
+  };
+
+  const readLengths = (v: unknown, path: string, bounds: (link: keyof LinkLengths) => NumberBounds): LinkLengths => {
+    const o = readObject(v, path);
+    return {
+      frame: readNumber(o.frame, `${path}.frame`, bounds('frame')),
+      input: readNumber(o.input, `${path}.input`, bounds('input')),
+      coupler: readNumber(o.coupler, `${path}.coupler`, bounds('coupler')),
+      output: readNumber(o.output, `${path}.output`, bounds('output')),
+    };
+  };
+
+  const readPoint = (v: unknown, path: string) => {
+    const o = readObject(v, path);
+    return {
+      distance: readNumber(o.distance, `${path}.distance`, { min: 0 }),
+      angle: readNumber(o.angle, `${path}.angle`),
+    };
+  };
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { design: null, errors: ['The design must be a JSON object.'] };
+  }
+  const root = value as Record<string, unknown>;
+  if (root.version !== DESIGN_VERSION) {
+    return { design: null, errors: [`Unsupported design version ${JSON.stringify(root.version)}; this version of the app reads version ${DESIGN_VERSION}.`] };
+  }
+
+  const roles = Object.values(LinkRole);
+  const branches = Object.values(AssemblyBranch);
+  const inversion = readObject(root.inversion, 'inversion');
+  const placement = readObject(root.placement, 'placement');
+  const slider = readObject(root.sliderCrank, 'sliderCrank');
+
+  const design: SavedDesign = {
+    version: DESIGN_VERSION,
+    mechanismType: readChoice(root.mechanismType, 'mechanismType', Object.values(MechanismType)),
+    lengths: readLengths(root.lengths, 'lengths', link => pastSlider(LINK_LENGTH_BOUNDS[link])),
+    inversion: {
+      ground: readChoice(inversion.ground, 'inversion.ground', roles),
+      driver: readChoice(inversion.driver, 'inversion.driver', roles),
+    },
+    placement: {
+      originX: readNumber(placement.originX, 'placement.originX'),
+      originY: readNumber(placement.originY, 'placement.originY'),
+      angle: readNumber(placement.angle, 'placement.angle'),
+    },
+    branch: readChoice(root.branch, 'branch', branches),
+    angle: readNumber(root.angle, 'angle'),
+    speed: readNumber(root.speed, 'speed', SPEED_BOUNDS),
+    couplerPoint: readPoint(root.couplerPoint, 'couplerPoint'),
+    sixBar: null,
+    sliderCrank: {
+      crank: readNumber(slider.crank, 'sliderCrank.crank', pastSlider(SLIDER_CRANK_BOUNDS.crank)),
+      rod: readNumber(slider.rod, 'sliderCrank.rod', pastSlider(SLIDER_CRANK_BOUNDS.rod)),
+      offset: readNumber(slider.offset, 'sliderCrank.offset', {
+        min: SLIDER_REACH * SLIDER_CRANK_BOUNDS.offset.min,
+        max: SLIDER_REACH * SLIDER_CRANK_BOUNDS.offset.max,
+      }),
+    },
+    sliderGround: readChoice(root.sliderGround, 'sliderGround', Object.values(SliderLink)),
+    sphericalArcs: readLengths(root.sphericalArcs, 'sphericalArcs', () => SPHERICAL_ARC_BOUNDS),
+  };
+
+  const { ground, driver } = design.inversion;
+  if (ground && driver && !adjacentLinks(ground).includes(driver)) {
+    errors.push(`inversion.driver must share a joint with the ground link ${ground}.`);
+  }
+
+  if (root.sixBar !== null && root.sixBar !== undefined) {
+    const dyad = readObject(root.sixBar, 'sixBar');
+    const dyadLengths = readObject(dyad.lengths, 'sixBar.lengths');
+    design.sixBar = {
+      type: readChoice(dyad.type, 'sixBar.type', Object.values(SixBarType)),
+      pointE: readPoint(dyad.pointE, 'sixBar.pointE'),
+      pointF: readPoint(dyad.pointF, 'sixBar.pointF'),
+      // The dyad links have no sliders, so they share the coupler's limit
+      lengths: {
+        first: readNumber(dyadLengths.first, 'sixBar.lengths.first', pastSlider(LINK_LENGTH_BOUNDS.coupler)),
+        second: readNumber(dyadLengths.second, 'sixBar.lengths.second', pastSlider(LINK_LENGTH_BOUNDS.coupler)),
+      },
+      branch: readChoice(dyad.branch, 'sixBar.branch', branches),
+    };
+  }
+
+  return errors.length > 0 ? { design: null, errors } : { design, errors: [] };
+};
+
+const serializeDesign = (design: SavedDesign): string => JSON.stringify(design, null, 2);
+
+const parseDesign = (text: string): DesignParseResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return { design: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return validateDesign(value);
+};
+
+// Base64url keeps the JSON compact and free of characters a URL would escape
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+// Link that reopens the design, carried in the hash so it never reaches a server
+const designToUrl = (design: SavedDesign, pageUrl: string): string =>
+  `${pageUrl.split('#')[0]}#design=${toBase64Url(JSON.stringify(design))}`;
+
+// The design in a link's hash or query string, or null when it carries none
+const designFromUrl = (url: string): DesignParseResult | null => {
+  const { hash, search } = new URL(url);
+  const encoded = new URLSearchParams(hash.slice(1)).get('design') ?? new URLSearchParams(search).get('design');
+  if (encoded === null) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    return { design: null, errors: ['The link\'s design is not valid base64url.'] };
+  }
+  return parseDesign(text);
+};
+
+const LIBRARY_KEY = 'grashof-explorer.designs';
+
+// Named designs kept in localStorage; entries that no longer validate are dropped
+const readDesignLibrary = (): DesignLibraryEntry[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(entry => {
+    const { design } = validateDesign(entry?.design);
+    return design && typeof entry.name === 'string' ? [{ name: entry.name, savedAt: String(entry.savedAt ?? ''), design }] : [];
+  });
+};
+
+const writeDesignLibrary = (entries: DesignLibraryEntry[]) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+};
+
+// Geometry of a pose from the links and the joints they carry. A ternary
+// link becomes the three sides of its plate.
+const drawingFromPose = (
+  links: MechanismLink[],
+  joints: Record<string, Vector2>,
+  curves: Vector2[][] = []
+): LinkageDrawing => {
+  const drawing: LinkageDrawing = { links: [], ground: [], pivots: [], joints: [], curves };
+  const pivotNames = new Set(links.filter(link => link.ground).flatMap(link => link.joints));
+  for (const link of links) {
+    const points = link.joints.map(name => joints[name]);
+    const sides: [Vector2, Vector2][] = points.length === 2
+      ? [[points[0], points[1]]]
+      : points.map((p, i) => [p, points[(i + 1) % points.length]]);
+    (link.ground ? drawing.ground : drawing.links).push(...sides);
+  }
+  for (const name of new Set(links.flatMap(link => link.joints))) {
+    (pivotNames.has(name) ? drawing.pivots : drawing.joints).push(joints[name]);
+  }
+  return drawing;
+};
+
+// Input angles for one cycle, every step degrees: a full turn for a crank,
+// out to the far toggle and back for a rocker in the zone holding angle
+const cycleAngles = (range: ReachableRange, angle: number, step: number = 2): number[] => {
+  if (range.fullRotation) return Array.from({ length: Math.round(360 / step) }, (_, i) => i * step);
+  const wrapped = ((angle % 360) + 360) % 360;
+  const zone = range.intervals.find(({ start, end }) =>
+    (wrapped >= start && wrapped <= end) || (wrapped + 360 >= start && wrapped + 360 <= end)
+  ) ?? range.intervals[0];
+  if (!zone) return [];
+  const steps = Math.max(1, Math.ceil((zone.end - zone.start) / step));
+  const out = Array.from({ length: steps + 1 }, (_, i) => zone.start + ((zone.end - zone.start) * i) / steps);
+  return [...out, ...out.slice(1, -1).reverse()];
+};
+
+// The live canvas as a file of its own: class-based styles are written
+// inline, hidden parts dropped, and the canvas's CSS flip becomes an SVG
+// transform so the labels read the right way up
+const INLINE_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-opacity', 'opacity', 'font-family', 'font-size', 'font-weight',
+];
+
+const standaloneSvg = (svg: SVGSVGElement): string => {
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+
+  const pairs: [Element, Element][] = [];
+  const walk = (source: Element, target: Element) => {
+    pairs.push([source, target]);
+    Array.from(source.children).forEach((child, i) => walk(child, target.children[i]));
+  };
+  walk(svg, copy);
+  for (const [source, target] of pairs) {
+    const computed = getComputedStyle(source);
+    if (computed.display === 'none') {
+      target.remove();
+      continue;
+    }
+    if (source === svg) continue;
+    const style = INLINE_STYLES.map(name => `${name}:${computed.getPropertyValue(name)}`).join(';');
+    target.setAttribute('style', `${style};${target.getAttribute('style') ?? ''}`);
+    target.removeAttribute('class');
+  }
+
+  const { x, y, width, height } = svg.viewBox.baseVal;
+  const out = document.createElementNS(SVG_NS, 'svg');
+  out.setAttribute('xmlns', SVG_NS);
+  out.setAttribute('viewBox', `${x} ${-(y + height)} ${width} ${height}`);
+  out.setAttribute('width', `${Math.round(width)}`);
+  out.setAttribute('height', `${Math.round(height)}`);
+  const flip = document.createElementNS(SVG_NS, 'g');
+  flip.setAttribute('transform', 'scale(1, -1)');
+  flip.append(...Array.from(copy.childNodes));
+  out.append(flip);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(out)}`;
+};
+
+// AutoCAD R12 ASCII DXF, which every CAD package still reads: centerlines as
+// LINEs, pins as CIRCLEs and traced curves as POLYLINEs, one layer each
+const DXF_PIN_RADIUS = { PIVOTS: 6, JOINTS: 4 };
+
+const drawingToDxf = (drawing: LinkageDrawing): string => {
+  const codes: (string | number)[] = [];
+  const emit = (...pairs: (string | number)[]) => codes.push(...pairs);
+  const num = (v: number) => +v.toFixed(6);
+  const line = (layer: string, [p, q]: [Vector2, Vector2]) =>
+    emit(0, 'LINE', 8, layer, 10, num(p.x), 20, num(p.y), 30, 0, 11, num(q.x), 21, num(q.y), 31, 0);
+  const circle = (layer: keyof typeof DXF_PIN_RADIUS, p: Vector2) =>
+    emit(0, 'CIRCLE', 8, layer, 10, num(p.x), 20, num(p.y), 30, 0, 40, DXF_PIN_RADIUS[layer]);
+
+  emit(0, 'SECTION', 2, 'HEADER', 9, '$ACADVER', 1, 'AC1009', 0, 'ENDSEC');
+  emit(0, 'SECTION', 2, 'ENTITIES');
+  drawing.ground.forEach(side => line('GROUND', side));
+  drawing.links.forEach(side => line('LINKS', side));
+  drawing.pivots.forEach(p => circle('PIVOTS', p));
+  drawing.joints.forEach(p => circle('JOINTS', p));
+  for (const curve of drawing.curves) {
+    if (curve.length < 2) continue;
+    emit(0, 'POLYLINE', 8, 'CURVES', 66, 1, 70, 0, 10, 0, 20, 0, 30, 0);
+    curve.forEach(p => emit(0, 'VERTEX', 8, 'CURVES', 10, num(p.x), 20, num(p.y), 30, 0));
+    emit(0, 'SEQEND', 8, 'CURVES');
+  }
+  emit(0, 'ENDSEC', 0, 'EOF');
+
+  const lines: string[] = [];
+  for (let i = 0; i < codes.length; i += 2) lines.push(`${codes[i]}`, `${codes[i + 1]}`);
+  return `${lines.join('\n')}\n`;
+};
+
+// A looping SVG of the frames, each shown in turn with SMIL <animate>. All
+// frames must share one structure; the first frame's curves are drawn fixed.
+const animatedSvg = (frames: LinkageDrawing[], fps: number = 30): string => {
+  if (frames.length === 0) return '';
+  const all = frames.flatMap(f => [...f.links.flat(), ...f.ground.flat(), ...f.pivots, ...f.joints]).concat(frames[0].curves.flat());
+  const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+  const pad = 0.08 * Math.max(maxX - minX, maxY - minY, 1) + 20;
+  const viewBox = [minX - pad, -maxY - pad, maxX - minX + 2 * pad, maxY - minY + 2 * pad].map(v => +v.toFixed(2));
+
+  // SVG's y runs down, so every y is negated on the way out
+  const f2 = (v: number) => +v.toFixed(2);
+  const dur = `${(frames.length / fps).toFixed(3)}s`;
+  const animate = (attribute: string, values: number[]) =>
+    `<animate attributeName="${attribute}" values="${values.map(f2).join(';')}" dur="${dur}" calcMode="discrete" repeatCount="indefinite"/>`;
+  const animatedLine = (pick: (f: LinkageDrawing) => [Vector2, Vector2], style: string) => {
+    const sides = frames.map(pick);
+    const [p, q] = sides[0];
+    return `<line x1="${f2(p.x)}" y1="${f2(-p.y)}" x2="${f2(q.x)}" y2="${f2(-q.y)}" ${style}>`
+      + animate('x1', sides.map(s => s[0].x)) + animate('y1', sides.map(s => -s[0].y))
+      + animate('x2', sides.map(s => s[1].x)) + animate('y2', sides.map(s => -s[1].y)) + '</line>';
+  };
+  const animatedCircle = (pick: (f: LinkageDrawing) => Vector2, style: string) => {
+    const points = frames.map(pick);
+    return `<circle cx="${f2(points[0].x)}" cy="${f2(-points[0].y)}" ${style}>`
+      + animate('cx', points.map(p => p.x)) + animate('cy', points.map(p => -p.y)) + '</circle>';
+  };
+
+  const first = frames[0];
+  const parts = [
+    ...first.curves.map(curve =>
+      `<polyline points="${curve.map(p => `${f2(p.x)},${f2(-p.y)}`).join(' ')}" fill="none" stroke="#0d9488" stroke-width="3"/>`),
+    ...first.ground.map((_, i) => animatedLine(f => f.ground[i], 'stroke="#94a3b8" stroke-width="5" stroke-dasharray="15,8"')),
+    ...first.links.map((_, i) => animatedLine(f => f.links[i], 'stroke="#334155" stroke-width="7" stroke-linecap="round"')),
+    ...first.pivots.map((_, i) => animatedCircle(f => f.pivots[i], 'r="10" fill="#94a3b8" stroke="#1e293b" stroke-width="3"')),
+    ...first.joints.map((_, i) => animatedCircle(f => f.joints[i], 'r="8" fill="white" stroke="#1e293b" stroke-width="3"')),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox.join(' ')}" `
+    + `width="${Math.round(viewBox[2])}" height="${Math.round(viewBox[3])}">\n${parts.join('\n')}\n</svg>\n`;
+};
+
+// --- COMPONENT: LINE CHART ---
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: { x: number, y: number }[]; // Non-finite y values break the line
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  xDomain?: [number, number];
+  markers?: number[];            // Vertical guide lines
+  cursorX?: number;              // Highlighted x, e.g. the current input angle
+  shadedX?: [number, number][];  // x ranges drawn as unavailable
+}
+
+// Runs of unit-spaced samples without a solution, merged into ranges for shadedX
+const unsolvedRanges = (samples: { x: number, valid: boolean }[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const { x, valid } of samples) {
+    if (valid) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && x - last[1] <= 1) last[1] = x;
+    else ranges.push([x, x]);
+  }
+  return ranges;
+};
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const MARGIN = { left: 56, right: 16, top: 12, bottom: 36 };
+
+// Round tick spacing (1, 2 or 5 × 10^n) giving roughly `count` ticks
+const niceTicks = (min: number, max: number, count: number = 5): number[] => {
+  const span = max - min || 1;
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) ticks.push(+t.toPrecision(12));
+  return ticks;
+};
+
+const formatTick = (v: number) => Math.abs(v) >= 1000 || (Math.abs(v) < 0.01 && v !== 0) ? v.toExponential(1) : `${+v.toFixed(3)}`;
+
+const LineChart: React.FC<LineChartProps> = ({ series, xLabel, yLabel, xDomain, markers = [], cursorX, shadedX = [] }) => {
+  const finite = series.flatMap(s => s.points).filter(p => isFinite(p.x) && isFinite(p.y));
+  const xs = finite.map(p => p.x);
+  const ys = finite.map(p => p.y);
+  const [xMin, xMax] = xDomain ?? [Math.min(...xs, 0), Math.max(...xs, 1)];
+  let yMin = ys.length ? Math.min(...ys) : 0;
+  let yMax = ys.length ? Math.max(...ys) : 1;
+  if (yMax - yMin < 1e-9) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const yPad = (yMax - yMin) * 0.08;
+  yMin -= yPad;
+  yMax += yPad;
+
+  const plotW = WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const sx = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * plotW;
+  const sy = (y: number) => MARGIN.top + (1 - (y - yMin) / (yMax - yMin)) * plotH;
+
+  const toPath = (points: { x: number, y: number }[]) => {
+    let d = '';
+    let pen = false;
+    for (const p of points) {
+      if (!isFinite(p.y) || !isFinite(p.x)) {
+        pen = false;
+        continue;
+      }
+      d += `${pen ? 'L' : 'M'} ${sx(p.x).toFixed(2)} ${sy(p.y).toFixed(2)} `;
+      pen = true;
+    }
+    return d;
+  };
+
+  return (
+    <div>
+      <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="xMidYMid meet" className="overflow-visible">
+        {shadedX.map(([from, to], i) => (
+          <rect
+            key={`shade-${i}`}
+            x={sx(Math.max(from, xMin))}
+            y={MARGIN.top}
+            width={Math.max(0, sx(Math.min(to, xMax)) - sx(Math.max(from, xMin)))}
+            height={plotH}
+            fill="#fee2e2"
+          />
+        ))}
+
+        {niceTicks(yMin, yMax).map(t => (
+          <g key={`y-${t}`}>
+            <line x1={MARGIN.left} y1={sy(t)} x2={WIDTH - MARGIN.right} y2={sy(t)} stroke="#f1f5f9" />
+            <text x={MARGIN.left - 6} y={sy(t)} textAnchor="end" dominantBaseline="middle" className="fill-slate-400" style={{fontSize: '11px'}}>
+              {formatTick(t)}
+            </text>
+          </g>
+        ))}
+        {niceTicks(xMin, xMax, 6).map(t => (
+          <g key={`x-${t}`}>
+            <line x1={sx(t)} y1={MARGIN.top} x2={sx(t)} y2={HEIGHT - MARGIN.bottom} stroke="#f1f5f9" />
+            <text x={sx(t)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" className="fill-slate-400" style={{fontSize: '11px'}}>
+              {formatTick(t)}
+            </text>
+          </g>
+        ))}
+        {yMin < 0 && yMax > 0 && (
+          <line x1={MARGIN.left} y1={sy(0)} x2={WIDTH - MARGIN.right} y2={sy(0)} stroke="#cbd5e1" />
+        )}
+        <rect x={MARGIN.left} y={MARGIN.top} width={plotW} height={plotH} fill="none" stroke="#e2e8f0" />
+
+        {markers.map((m, i) => (
+          <line key={`marker-${i}`} x1={sx(m)} y1={MARGIN.top} x2={sx(m)} y2={HEIGHT - MARGIN.bottom} stroke="#94a3b8" strokeDasharray="4,4" />
+        ))}
+
+        {series.map(s => (
+          <path
+            key={s.label}
+            d={toPath(s.points)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="2"
+            strokeDasharray={s.dashed ? '6,4' : undefined}
+            strokeLinejoin="round"
+          />
+        ))}
+
+        {cursorX !== undefined && isFinite(cursorX) && cursorX >= xMin && cursorX <= xMax && (
+          <line x1={sx(cursorX)} y1={MARGIN.top} x2={sx(cursorX)} y2={HEIGHT - MARGIN.bottom} stroke="#f59e0b" strokeWidth="2" />
+        )}
+
+        <text x={MARGIN.left + plotW / 2} y={HEIGHT - 4} textAnchor="middle" className="fill-slate-500 font-medium" style={{fontSize: '12px'}}>
+          {xLabel}
+        </text>
+        <text
+          x={14}
+          y={MARGIN.top + plotH / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 14 ${MARGIN.top + plotH / 2})`}
+          className="fill-slate-500 font-medium"
+          style={{fontSize: '12px'}}
+        >
+          {yLabel}
+        </text>
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-1 text-xs text-slate-600">
+          {series.map(s => (
+            <div key={s.label} className="flex items-center gap-1.5">
+              <div className="w-4 h-1 rounded" style={{ background: s.color }}></div>
+              {s.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- COMPONENT: LINKAGE CANVAS ---
+interface VectorArrowProps {
+  x: number;
+  y: number;
+  vec: Vector2;
+  scale: number;
+  color: string;
+}
+
+// Arrow from (x, y) along vec * scale, with a head sized for the zoomed-in view
+const VectorArrow: React.FC<VectorArrowProps> = ({ x, y, vec, scale, color }) => {
+  const tipX = x + vec.x * scale;
+  const tipY = y + vec.y * scale;
+  const len = Math.hypot(tipX - x, tipY - y);
+  if (!isFinite(len) || len < 1) return null;
+
+  const ux = (tipX - x) / len;
+  const uy = (tipY - y) / len;
+  const head = Math.min(18, len * 0.5);
+  const baseX = tipX - ux * head;
+  const baseY = tipY - uy * head;
+
+  return (
+    <g>
+      <line x1={x} y1={y} x2={baseX} y2={baseY} stroke={color} strokeWidth="4" strokeLinecap="round" />
+      <path
+        d={`M ${tipX} ${tipY} L ${baseX - uy * head * 0.5} ${baseY + ux * head * 0.5} L ${baseX + uy * head * 0.5} ${baseY - ux * head * 0.5} Z`}
+        fill={color}
+      />
+    </g>
+  );
+};
+
+// Cognate linkages are told apart by color only
+const COGNATE_COLORS = ['#7c3aed', '#ea580c'];
+
+interface CognateLinkageProps {
+  joints: JointCoordinates;
+  couplerPoint?: Vector2;
+  color: string;
+}
+
+const CognateLinkage: React.FC<CognateLinkageProps> = ({ joints, couplerPoint, color }) => {
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  return (
+    <g>
+      <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} stroke={color} strokeWidth="5" strokeDasharray="15,8" className="opacity-50" />
+      <path d={`M ${Ax-15} ${Ay-15} L ${Ax+15} ${Ay-15} L ${Ax} ${Ay} Z`} fill="#94a3b8" />
+      <path d={`M ${Dx-15} ${Dy-15} L ${Dx+15} ${Dy-15} L ${Dx} ${Dy} Z`} fill="#94a3b8" />
+      {couplerPoint && (
+        <polygon points={`${Bx},${By} ${Cx},${Cy} ${couplerPoint.x},${couplerPoint.y}`} fill={color} stroke={color} strokeWidth="3" strokeLinejoin="round" className="opacity-20" />
+      )}
+      <line x1={Ax} y1={Ay} x2={Bx} y2={By} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      <line x1={Bx} y1={By} x2={Cx} y2={Cy} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} stroke={color} strokeWidth="6" strokeLinecap="round" />
+      {[[Ax, Ay], [Bx, By], [Cx, Cy], [Dx, Dy]].map(([x, y], i) => (
+        <circle key={i} cx={x} cy={y} r={8} fill="white" stroke={color} strokeWidth="3" />
+      ))}
+    </g>
+  );
+};
+
+interface MechanismOverlayProps {
+  links: MechanismLink[];
+  pose: MechanismPose;
+}
+
+// Any pin-jointed linkage: plates for ternary links, bars for binary ones,
+// dashed ground links with a pivot under each of their joints
+const MechanismOverlay: React.FC<MechanismOverlayProps> = ({ links, pose }) => {
+  const at = (joint: string) => pose.joints[joint];
+  const groundJoints: string[] = Array.from(new Set<string>(links.filter(link => link.ground).flatMap(link => link.joints)));
+  const points = (link: MechanismLink) => link.joints.map(j => `${at(j).x},${at(j).y}`).join(' ');
+
+  return (
+    <g>
+      {links.map((link) => link.ground ? (
+        <polygon key={link.name} points={points(link)} fill="none" className="stroke-slate-700 opacity-50" strokeWidth="7" strokeDasharray="15,8" />
+      ) : link.joints.length > 2 ? (
+        <polygon key={link.name} points={points(link)} className="stroke-slate-700 fill-slate-400 opacity-60" strokeWidth="6" strokeLinejoin="round" />
+      ) : (
+        <line
+          key={link.name}
+          x1={at(link.joints[0]).x} y1={at(link.joints[0]).y}
+          x2={at(link.joints[1]).x} y2={at(link.joints[1]).y}
+          className={link.name.startsWith('Dyad') ? 'stroke-indigo-600' : 'stroke-slate-700'}
+          strokeWidth="7"
+          strokeLinecap="round"
+        />
+      ))}
+      {groundJoints.map((j) => (
+        <path key={`pivot-${j}`} d={`M ${at(j).x - 15} ${at(j).y - 15} L ${at(j).x + 15} ${at(j).y - 15} L ${at(j).x} ${at(j).y} Z`} fill="#94a3b8" />
+      ))}
+      {Object.keys(pose.joints).map((name) => (
+        <circle key={name} cx={at(name).x} cy={at(name).y} r={9} fill="white" stroke="#1e293b" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {Object.keys(pose.joints).map((name) => (
+          <text key={name} x={at(name).x} y={-at(name).y - 22} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+interface SliderCrankLinkageProps {
+  dims: SliderCrankDimensions;
+  ground: SliderLink;
+  pose: SliderCrankPose;
+}
+
+// Crank, rod and slider block, with the guide drawn through the block as a
+// bar offset from A. Ground links are dashed with a pivot under their joints.
+const SliderCrankLinkage: React.FC<SliderCrankLinkageProps> = ({ dims, ground, pose }) => {
+  const { A, B, C } = pose.joints;
+  const gamma = (pose.guideAngle * Math.PI) / 180;
+  const u = { x: Math.cos(gamma), y: Math.sin(gamma) };
+  // Foot of A on the guide, e along the guide's left normal
+  const foot = { x: A.x - dims.offset * u.y, y: A.y + dims.offset * u.x };
+  const span = dims.crank + dims.rod;
+  const groundStyle = { className: 'stroke-slate-700 opacity-50', strokeDasharray: '15,8' };
+  const linkStyle = (link: SliderLink) => link === ground ? groundStyle : { className: 'stroke-slate-700' };
+
+  return (
+    <g>
+      <line
+        x1={foot.x - span * u.x} y1={foot.y - span * u.y}
+        x2={foot.x + span * u.x} y2={foot.y + span * u.y}
+        strokeWidth="7" {...linkStyle(SliderLink.GUIDE)}
+      />
+      <line x1={A.x} y1={A.y} x2={foot.x} y2={foot.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.GUIDE)} />
+      <rect
+        x={C.x - 30} y={C.y - 18} width={60} height={36} rx={4}
+        transform={`rotate(${pose.guideAngle} ${C.x} ${C.y})`}
+        fill="#cbd5e1" strokeWidth="4" {...linkStyle(SliderLink.SLIDER)}
+      />
+      <line x1={A.x} y1={A.y} x2={B.x} y2={B.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.CRANK)} />
+      <line x1={B.x} y1={B.y} x2={C.x} y2={C.y} strokeWidth="7" strokeLinecap="round" {...linkStyle(SliderLink.ROD)} />
+      {SLIDER_GROUND_JOINTS[ground].map((j) => (
+        <path key={`pivot-${j}`} d={`M ${pose.joints[j].x - 15} ${pose.joints[j].y - 15} L ${pose.joints[j].x + 15} ${pose.joints[j].y - 15} L ${pose.joints[j].x} ${pose.joints[j].y} Z`} fill="#94a3b8" />
+      ))}
+      {[A, B, C].map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={9} fill="white" stroke="#1e293b" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {(['A', 'B', 'C'] as const).map((name) => (
+          <text key={name} x={pose.joints[name].x} y={-pose.joints[name].y - 25} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+// Drawing radius of the unit sphere
+const SPHERE_RADIUS = 200;
+
+interface SphericalLinkageProps {
+  pose: SphericalPose;
+  view: SphereView;
+}
+
+// Orthographic view of a spherical four-bar: each joint axis runs out from
+// the centre, and the links are great-circle arcs between the axes. Anything
+// on the far side of the sphere is drawn faded and dashed.
+const SphericalLinkage: React.FC<SphericalLinkageProps> = ({ pose, view }) => {
+  const onScreen = (p: Vector3, scale: number = SPHERE_RADIUS) => {
+    const q = projectOnView(p, view);
+    return { x: q.x * scale, y: q.y * scale, front: q.z >= 0 };
+  };
+  // Splits an arc into runs that stay on one side of the sphere
+  const arcRuns = (p: Vector3, q: Vector3) => {
+    const runs: { points: string[], front: boolean }[] = [];
+    for (const point of greatCircleArc(p, q).map(v => onScreen(v))) {
+      const last = runs[runs.length - 1];
+      if (last?.front === point.front) last.points.push(`${point.x},${point.y}`);
+      else runs.push({ points: [...(last ? [last.points[last.points.length - 1]] : []), `${point.x},${point.y}`], front: point.front });
+    }
+    return runs;
+  };
+  const links: { from: Vector3, to: Vector3, ground?: boolean }[] = [
+    { from: pose.A, to: pose.D, ground: true },
+    { from: pose.A, to: pose.B },
+    { from: pose.B, to: pose.C },
+    { from: pose.C, to: pose.D },
+  ];
+  const axes = (['A', 'B', 'C', 'D'] as const).map(name => ({
+    name,
+    ground: name === 'A' || name === 'D',
+    joint: onScreen(pose[name]),
+    tip: onScreen(pose[name], SPHERE_RADIUS * 1.3),
+  }));
+
+  return (
+    <g>
+      <circle cx={0} cy={0} r={SPHERE_RADIUS} fill="#f8fafc" stroke="#94a3b8" strokeWidth="2" />
+      {axes.map((axis) => (
+        <line
+          key={`axis-${axis.name}`}
+          x1={0} y1={0} x2={axis.tip.x} y2={axis.tip.y}
+          stroke={axis.ground ? '#64748b' : '#4f46e5'}
+          strokeWidth="3"
+          strokeDasharray={axis.joint.front ? undefined : '6,6'}
+        />
+      ))}
+      {links.map((link, i) => arcRuns(link.from, link.to).map((run, j) => (
+        <polyline
+          key={`arc-${i}-${j}`}
+          points={run.points.join(' ')}
+          fill="none"
+          strokeWidth="7"
+          strokeLinecap="round"
+          strokeDasharray={link.ground ? '15,8' : run.front ? undefined : '8,8'}
+          className={`stroke-slate-700 ${link.ground || !run.front ? 'opacity-40' : ''}`}
+        />
+      )))}
+      <circle cx={0} cy={0} r={5} fill="#1e293b" />
+      {axes.map((axis) => (
+        <circle
+          key={`joint-${axis.name}`}
+          cx={axis.joint.x} cy={axis.joint.y} r={9}
+          fill={axis.ground ? '#94a3b8' : 'white'}
+          stroke="#1e293b"
+          strokeWidth="3"
+          className={axis.joint.front ? undefined : 'opacity-40'}
+        />
+      ))}
+      <g transform="scale(1, -1)">
+        {axes.map((axis) => (
+          <text key={`label-${axis.name}`} x={axis.tip.x} y={-axis.tip.y - 12} textAnchor="middle" className="font-bold fill-slate-700" style={{fontSize: '22px'}}>{axis.name}</text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+const INSTANT_CENTER_COLOR = '#be185d';
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const centerLabel = (name: string) => `I${name.split('').map(d => SUBSCRIPTS[Number(d)]).join('')}`;
+
+// Reach of lines drawn towards a center at infinity
+const FAR = 3000;
+
+interface InstantCenterOverlayProps {
+  analysis: InstantCenterAnalysis;
+}
+
+// I13 and I24 with the Kennedy lines that place them. Each line runs through
+// its two known centers and on to the unknown one, or off to infinity in
+// both directions when the lines are parallel.
+const InstantCenterOverlay: React.FC<InstantCenterOverlayProps> = ({ analysis }) => {
+  const at = (name: string) => analysis.centers.find(c => c.name === name);
+  const unknowns = (Object.keys(KENNEDY_LINES) as (keyof typeof KENNEDY_LINES)[]).map(name => at(name));
+  const lines = unknowns.flatMap(center => KENNEDY_LINES[center.name].map(([first, second]) => {
+    const p = at(first).point, q = at(second).point;
+    const len = Math.hypot(q.x - p.x, q.y - p.y);
+    const u = { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+    let from = -40, to = len + 40;
+    if (center.atInfinity) {
+      from = -FAR;
+      to = len + FAR;
+    } else if (isFinite(center.point.x)) {
+      const t = (center.point.x - p.x) * u.x + (center.point.y - p.y) * u.y;
+      from = Math.min(from, t - 40);
+      to = Math.max(to, t + 40);
+    }
+    return { key: `${center.name}-${first}-${second}`, x1: p.x + u.x * from, y1: p.y + u.y * from, x2: p.x + u.x * to, y2: p.y + u.y * to };
+  }));
+  const finite = unknowns.filter(c => !c.atInfinity && isFinite(c.point.x));
+  // Centers at infinity are named beside the known center their first line leaves from
+  const distant = unknowns.filter(c => c.atInfinity).map(c => ({ name: c.name, anchor: at(KENNEDY_LINES[c.name][0][1]).point }));
+
+  return (
+    <g>
+      {lines.map(({ key, ...line }) => (
+        <line key={key} {...line} stroke={INSTANT_CENTER_COLOR} strokeWidth="2" strokeDasharray="8,6" className="opacity-50" />
+      ))}
+      {finite.map(c => (
+        <circle key={c.name} cx={c.point.x} cy={c.point.y} r={9} fill={INSTANT_CENTER_COLOR} stroke="white" strokeWidth="3" />
+      ))}
+      <g transform="scale(1, -1)">
+        {finite.map(c => (
+          <text key={c.name} x={c.point.x + 14} y={-c.point.y - 14} className="font-bold" fill={INSTANT_CENTER_COLOR} style={{fontSize: '20px'}}>
+            {centerLabel(c.name)}
+          </text>
+        ))}
+        {distant.map(c => (
+          <text key={c.name} x={c.anchor.x + 20} y={-c.anchor.y + 40} className="font-bold" fill={INSTANT_CENTER_COLOR} style={{fontSize: '20px'}}>
+            {centerLabel(c.name)} at ∞
+          </text>
+        ))}
+      </g>
+    </g>
+  );
+};
+
+interface ViewBox {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+// Model coordinates under a pointer. The SVG letterboxes its viewBox
+// (xMidYMid meet) and is mirrored top to bottom by its CSS flip, so the
+// screen y is measured up from the element's bottom edge.
+const pointerToModel = (clientX: number, clientY: number, rect: DOMRect, view: ViewBox): Vector2 => {
+  const scale = Math.min(rect.width / view.width, rect.height / view.height);
+  const offsetX = (rect.width - view.width * scale) / 2;
+  const offsetY = (rect.height - view.height * scale) / 2;
+  return {
+    x: view.minX + (clientX - rect.left - offsetX) / scale,
+    y: view.minY + (rect.bottom - clientY - offsetY) / scale,
+  };
+};
+
+// Hit radius around a draggable joint, big enough for a fingertip
+const HANDLE_RADIUS = 24;
+
+interface LinkageCanvasProps {
+  coords: JointCoordinates;
+  ghostCoords?: JointCoordinates; // Alternate assembly branch, drawn faded
+  lengths: LinkLengths;
+  // Physical links/joints behind the solver's slots; defaults to the frame grounded
+  layout?: InversionLayout;
+  shortestRole: LinkRole;
+  longestRole: LinkRole;
+  motion?: MotionAnalysis;
+  showVelocity?: boolean;
+  showAcceleration?: boolean;
+  transmissionAngle?: number;
+  transmissionOk?: boolean;
+  couplerPoint?: Vector2;
+  couplerCurve?: Vector2[][];
+  ghostCouplerCurve?: Vector2[][];
+  statics?: StaticAnalysis;
+  appliedForce?: { at: Vector2, force: Vector2 };
+  showForces?: boolean;
+  // Cayley cognates tracing the same coupler curve; null entries are skipped
+  cognates?: (Cognate | null)[];
+  showMainLinkage?: boolean;
+  changePoint?: ChangePointEvent; // Last change point passed, marked with its flat pose
+  // A general linkage drawn over the four-bar, e.g. a six-bar built on it
+  mechanism?: { links: MechanismLink[], pose: MechanismPose };
+  // A slider-crank inversion drawn instead of the four-bar, framed around its ground origin
+  sliderCrank?: { dims: SliderCrankDimensions, ground: SliderLink, pose: SliderCrankPose, origin: Vector2 };
+  // A spherical four-bar drawn instead, projected about the sphere's centre at the origin
+  spherical?: { pose: SphericalPose, view: SphereView };
+  // Instant centers of the four-bar, drawn with their Kennedy lines
+  instantCenters?: InstantCenterAnalysis;
+  svgRef?: React.RefObject<SVGSVGElement>; // For exporting the drawing
+  // Called while B, C or D is dragged; the canvas is display-only without it
+  onJointDrag?: (joint: DraggableJoint, point: Vector2, snap: DragSnap) => void;
+  gridStep?: number; // Spacing of the snapping grid, in model units
+}
+
+const LinkageCanvas: React.FC<LinkageCanvasProps> = ({
+  coords,
+  ghostCoords,
+  lengths,
+  layout = {
+    links: { frame: LinkRole.FRAME, input: LinkRole.INPUT, coupler: LinkRole.COUPLER, output: LinkRole.OUTPUT },
+    joints: { A: 'A', B: 'B', C: 'C', D: 'D' }
+  },
+  shortestRole,
+  longestRole,
+  motion,
+  showVelocity = false,
+  showAcceleration = false,
+  transmissionAngle,
+  transmissionOk = true,
+  couplerPoint,
+  couplerCurve = [],
+  ghostCouplerCurve = [],
+  statics,
+  appliedForce,
+  showForces = false,
+  cognates = [],
+  showMainLinkage = true,
+  changePoint,
+  mechanism,
+  sliderCrank,
+  spherical,
+  instantCenters,
+  svgRef,
+  onJointDrag,
+  gridStep = 10
+}) => {
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy, isValid } = coords;
+
+  // Ground pivots may sit anywhere in the global frame, so frame the view
+  // around the box spanned by A and D (or the origin of a mechanism drawn instead)
+  const fixedOrigin = sliderCrank ? sliderCrank.origin : spherical ? { x: 0, y: 0 } : null;
+  const centerX = fixedOrigin ? fixedOrigin.x : (Ax + Dx) / 2;
+  const centerY = fixedOrigin ? fixedOrigin.y : (Ay + Dy) / 2;
+  const halfWidth = fixedOrigin ? 0 : Math.abs(Dx - Ax) / 2;
+  const halfHeight = fixedOrigin ? 0 : Math.abs(Dy - Ay) / 2;
+  
+  const linkPadding = sliderCrank
+    ? sliderCrank.dims.crank + sliderCrank.dims.rod + 40
+    : spherical
+    ? SPHERE_RADIUS * 1.3 + 40
+    : Math.max(lengths.input, lengths.output) + lengths.coupler + 50;
+  // Grow the view if the traced coupler curve would leave it
+  const curvePadding = Math.max(0, ...couplerCurve.flat().map(p =>
+    Math.max(Math.abs(p.x - centerX) - halfWidth, Math.abs(p.y - centerY) - halfHeight) + 30
+  ));
+  // ...and to take in any cognates or six-bar drawn alongside
+  const extraJoints: Vector2[] = [
+    ...cognates.filter(c => c !== null).flatMap(c => [
+      { x: c.joints.Ax, y: c.joints.Ay }, { x: c.joints.Bx, y: c.joints.By },
+      { x: c.joints.Cx, y: c.joints.Cy }, { x: c.joints.Dx, y: c.joints.Dy },
+    ]),
+    ...(mechanism?.pose.isValid ? Object.keys(mechanism.pose.joints).map(name => mechanism.pose.joints[name]) : []),
+  ];
+  const extraPadding = Math.max(0, ...extraJoints.map(p =>
+    Math.max(Math.abs(p.x - centerX) - halfWidth, Math.abs(p.y - centerY) - halfHeight) + 50
+  ));
+  const padding = Math.max(linkPadding, curvePadding, extraPadding);
+  
+  // The view holds still while a joint is dragged, or moving D would shift
+  // the model out from under the pointer
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgElement = svgRef ?? ownSvgRef;
+  const [drag, setDrag] = useState<{ joint: DraggableJoint, pointerId: number, view: ViewBox } | null>(null);
+  const [snap, setSnap] = useState<DragSnap>({ grid: false, lengths: false });
+  const view: ViewBox = drag?.view ?? {
+    minX: centerX - halfWidth - padding,
+    minY: centerY - halfHeight - padding,
+    width: halfWidth * 2 + padding * 2,
+    height: halfHeight * 2 + padding * 2,
+  };
+  const viewBoxMinX = view.minX;
+  const viewBoxMinY = view.minY;
+  const viewBoxWidth = view.width;
+  const viewBoxHeight = view.height;
+
+  const canDrag = onJointDrag !== undefined && showMainLinkage && isValid;
+  const startDrag = (joint: DraggableJoint) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    svgElement.current?.setPointerCapture(e.pointerId);
+    setDrag({ joint, pointerId: e.pointerId, view });
+  };
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId || !svgElement.current) return;
+    const point = pointerToModel(e.clientX, e.clientY, svgElement.current.getBoundingClientRect(), drag.view);
+    onJointDrag?.(drag.joint, snap.grid
+      ? { x: Math.round(point.x / gridStep) * gridStep, y: Math.round(point.y / gridStep) * gridStep }
+      : point, snap);
+  };
+  const endDrag = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    svgElement.current?.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+  const handles: { joint: DraggableJoint, x: number, y: number }[] = [
+    { joint: 'B', x: Bx, y: By },
+    { joint: 'C', x: Cx, y: Cy },
+    { joint: 'D', x: Dx, y: Dy },
+  ];
+
+  // Vectors are auto-scaled so the larger of the two joints spans half the frame
+  const vectorScale = (p: Vector2, q: Vector2) => {
+    const maxMag = Math.max(Math.hypot(p.x, p.y), Math.hypot(q.x, q.y));
+    return maxMag > 0 ? (lengths.frame * 0.5) / maxMag : 0;
+  };
+  const showMotion = isValid && motion?.isValid;
+  const showStatics = isValid && showForces && statics?.isValid;
+  const pinForces = showStatics ? [
+    { x: Ax, y: Ay, vec: statics.pinA },
+    { x: Bx, y: By, vec: statics.pinB },
+    { x: Cx, y: Cy, vec: statics.pinC },
+    { x: Dx, y: Dy, vec: statics.pinD },
+  ] : [];
+  const maxForce = Math.max(
+    0,
+    ...pinForces.map(f => Math.hypot(f.vec.x, f.vec.y)),
+    appliedForce ? Math.hypot(appliedForce.force.x, appliedForce.force.y) : 0
+  );
+  const forceScale = maxForce > 0 ? (lengths.frame * 0.5) / maxForce : 0;
+  const velScale = showMotion ? vectorScale(motion.velB, motion.velC) : 0;
+  const accScale = showMotion ? vectorScale(motion.accB, motion.accC) : 0;
+
+  // Transmission angle arc at C, swept from the coupler (C->B) to the output (C->D)
+  const showTransmission = isValid && transmissionAngle !== undefined && isFinite(transmissionAngle);
+  const arcRadius = 40;
+  const toCoupler = Math.atan2(By - Cy, Bx - Cx);
+  let arcSweep = Math.atan2(Dy - Cy, Dx - Cx) - toCoupler;
+  if (arcSweep > Math.PI) arcSweep -= 2 * Math.PI;
+  if (arcSweep < -Math.PI) arcSweep += 2 * Math.PI;
+  const arcMid = toCoupler + arcSweep / 2;
+  const arcPath = `M ${Cx + arcRadius * Math.cos(toCoupler)} ${Cy + arcRadius * Math.sin(toCoupler)} `
+    + `A ${arcRadius} ${arcRadius} 0 0 ${arcSweep > 0 ? 1 : 0} `
+    + `${Cx + arcRadius * Math.cos(toCoupler + arcSweep)} ${Cy + arcRadius * Math.sin(toCoupler + arcSweep)}`;
+  const arcColor = transmissionOk ? "#059669" : "#dc2626";
+
+  // Mechanisms drawn instead of the four-bar report their own closure
+  const standIn = sliderCrank
+    ? { isValid: sliderCrank.pose.isValid, reason: 'The rod and crank cannot reach the guide at this angle.' }
+    : spherical
+    ? { isValid: spherical.pose.isValid, reason: 'The arcs cannot close on the sphere at this angle.' }
+    : null;
+
+  const thirdPivot = cognates.find(c => c?.joints.isValid)?.joints;
+
+  const hasCouplerPoint = isValid && couplerPoint !== undefined && isFinite(couplerPoint.x);
+  const toPolyline = (curve: Vector2[]) => curve.map(p => `${p.x},${p.y}`).join(' ');
+
+  const linkName = (role: LinkRole) => role.charAt(0).toUpperCase() + role.slice(1);
+
+  const getLinkColor = (role: LinkRole) => {
+    if (role === shortestRole) return "stroke-green-600";
+    if (role === longestRole) return "stroke-red-500";
+    return "stroke-slate-700";
+  };
+
+  const getStrokeWidth = (role: LinkRole) => {
+     if (role === shortestRole) return 6;
+     return 4;
+  }
+
+  return (
+    <div className="w-full h-full bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+      <svg 
+        ref={svgElement}
+        onPointerMove={moveDrag}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        width="100%" 
+        height="100%" 
+        viewBox={`${viewBoxMinX} ${viewBoxMinY} ${viewBoxWidth} ${viewBoxHeight}`}
+        preserveAspectRatio="xMidYMid meet"
+        className={`transform scale-y-[-1] ${canDrag ? 'touch-none select-none' : ''}`}
+      >
+        {/* Global X and Y axes */}
+        <line x1={-2000} y1={0} x2={2000} y2={0} stroke="#e2e8f0" strokeWidth="2" />
+        <line x1={0} y1={-2000} x2={0} y2={2000} stroke="#e2e8f0" strokeWidth="2" />
+
+        {mechanism?.pose.isValid && <MechanismOverlay links={mechanism.links} pose={mechanism.pose} />}
+        {sliderCrank?.pose.isValid && <SliderCrankLinkage dims={sliderCrank.dims} ground={sliderCrank.ground} pose={sliderCrank.pose} />}
+        {spherical?.pose.isValid && <SphericalLinkage pose={spherical.pose} view={spherical.view} />}
+
+        {isValid ? (
+          <>
+            {/* Ground link, dashed, with ground symbols at its pivots */}
+            <g className={showMainLinkage ? undefined : 'hidden'}>
+              <line x1={Ax} y1={Ay} x2={Dx} y2={Dy} className={`${getLinkColor(layout.links.frame)} opacity-50`} strokeWidth={getStrokeWidth(layout.links.frame)} strokeDasharray="10,5" />
+              {/* Ground symbols */}
+              <path d={`M ${Ax-10} ${Ay-10} L ${Ax+10} ${Ay-10} L ${Ax} ${Ay} Z`} fill="#94a3b8" />
+              <path d={`M ${Dx-10} ${Dy-10} L ${Dx+10} ${Dy-10} L ${Dx} ${Dy} Z`} fill="#94a3b8" />
+            </g>
+
+            {changePoint?.joints.isValid && (
+              <g stroke="#d97706" strokeWidth="3" strokeDasharray="4,6" fill="none">
+                <polyline points={[
+                  [changePoint.joints.Ax, changePoint.joints.Ay],
+                  [changePoint.joints.Bx, changePoint.joints.By],
+                  [changePoint.joints.Cx, changePoint.joints.Cy],
+                  [changePoint.joints.Dx, changePoint.joints.Dy],
+                ].map(([x, y]) => `${x},${y}`).join(' ')} />
+                <rect
+                  x={changePoint.joints.Cx - 12}
+                  y={changePoint.joints.Cy - 12}
+                  width={24}
+                  height={24}
+                  transform={`rotate(45 ${changePoint.joints.Cx} ${changePoint.joints.Cy})`}
+                  fill="#fbbf24"
+                  strokeDasharray="none"
+                />
+              </g>
+            )}
+
+            {/* Coupler curves: the active branch solid, the other branch faded */}
+            {ghostCouplerCurve.map((curve, i) => (
+              <polyline key={`ghost-curve-${i}`} points={toPolyline(curve)} fill="none" stroke="#0d9488" strokeWidth="2" strokeDasharray="6,6" className="opacity-30" />
+            ))}
+            {couplerCurve.map((curve, i) => (
+              <polyline key={`curve-${i}`} points={toPolyline(curve)} fill="none" stroke="#0d9488" strokeWidth="3" strokeLinejoin="round" />
+            ))}
+
+            {cognates.map((cognate, i) => cognate?.joints.isValid && (
+              <CognateLinkage
+                key={`cognate-${i}`}
+                joints={cognate.joints}
+                couplerPoint={hasCouplerPoint ? couplerPoint : undefined}
+                color={COGNATE_COLORS[i % COGNATE_COLORS.length]}
+              />
+            ))}
+
+            <g className={showMainLinkage ? undefined : 'hidden'}>
+            {/* Ghost of the other assembly branch (shares A, B and D) */}
+            {ghostCoords?.isValid && (
+              <g className="opacity-25" strokeDasharray="12,8">
+                <line x1={Bx} y1={By} x2={ghostCoords.Cx} y2={ghostCoords.Cy} className={getLinkColor(layout.links.coupler)} strokeWidth={getStrokeWidth(layout.links.coupler)} />
+                <line x1={ghostCoords.Cx} y1={ghostCoords.Cy} x2={Dx} y2={Dy} className={getLinkColor(layout.links.output)} strokeWidth={getStrokeWidth(layout.links.output)} />
+                <circle cx={ghostCoords.Cx} cy={ghostCoords.Cy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" strokeDasharray="none" />
+              </g>
+            )}
+
+            <line x1={Ax} y1={Ay} x2={Bx} y2={By} className={getLinkColor(layout.links.input)} strokeWidth={getStrokeWidth(layout.links.input)} strokeLinecap="round" />
+            {/* Ternary coupler plate B-C-P */}
+            {hasCouplerPoint && (
+              <polygon
+                points={`${Bx},${By} ${Cx},${Cy} ${couplerPoint.x},${couplerPoint.y}`}
+                className={`${getLinkColor(layout.links.coupler)} fill-slate-400 opacity-40`}
+                strokeWidth={getStrokeWidth(layout.links.coupler) / 2}
+                strokeLinejoin="round"
+              />
+            )}
+            <line x1={Bx} y1={By} x2={Cx} y2={Cy} className={getLinkColor(layout.links.coupler)} strokeWidth={getStrokeWidth(layout.links.coupler)} strokeLinecap="round" />
+            <line x1={Cx} y1={Cy} x2={Dx} y2={Dy} className={getLinkColor(layout.links.output)} strokeWidth={getStrokeWidth(layout.links.output)} strokeLinecap="round" />
+
+            {/* JOINTS */}
+            <circle cx={Ax} cy={Ay} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
+            <circle cx={Bx} cy={By} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
+            <circle cx={Cx} cy={Cy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
+            <circle cx={Dx} cy={Dy} r={6} fill="white" stroke="#1e293b" strokeWidth="2" />
+            </g>
+            {hasCouplerPoint && (
+              <circle cx={couplerPoint.x} cy={couplerPoint.y} r={8} fill="#0d9488" stroke="white" strokeWidth="3" />
+            )}
+
+            {showMainLinkage && showTransmission && (
+              <path d={arcPath} fill="none" stroke={arcColor} strokeWidth="3" />
+            )}
+
+            {/* Velocity and acceleration vectors at the moving joints */}
+            {showMainLinkage && showMotion && showVelocity && (
+              <>
+                <VectorArrow x={Bx} y={By} vec={motion.velB} scale={velScale} color="#2563eb" />
+                <VectorArrow x={Cx} y={Cy} vec={motion.velC} scale={velScale} color="#2563eb" />
+              </>
+            )}
+            {showMainLinkage && showMotion && showAcceleration && (
+              <>
+                <VectorArrow x={Bx} y={By} vec={motion.accB} scale={accScale} color="#c026d3" />
+                <VectorArrow x={Cx} y={Cy} vec={motion.accC} scale={accScale} color="#c026d3" />
+              </>
+            )}
+
+            {showMainLinkage && instantCenters?.centers.length > 0 && <InstantCenterOverlay analysis={instantCenters} />}
+
+            {/* Pin forces and the applied load */}
+            {showMainLinkage && showStatics && (
+              <>
+                {pinForces.map((f, i) => (
+                  <VectorArrow key={`pin-${i}`} x={f.x} y={f.y} vec={f.vec} scale={forceScale} color="#ea580c" />
+                ))}
+                {appliedForce && isFinite(appliedForce.at.x) && (
+                  <VectorArrow x={appliedForce.at.x} y={appliedForce.at.y} vec={appliedForce.force} scale={forceScale} color="#dc2626" />
+                )}
+              </>
+            )}
+
+            {/* Grab handles: B turns the input, C and D reshape the links */}
+            {canDrag && handles.map((h) => (
+              <circle
+                key={`handle-${h.joint}`}
+                cx={h.x}
+                cy={h.y}
+                r={HANDLE_RADIUS}
+                fill="transparent"
+                stroke={drag?.joint === h.joint ? '#6366f1' : 'none'}
+                strokeWidth="3"
+                className={drag?.joint === h.joint ? 'cursor-grabbing' : 'cursor-grab'}
+                onPointerDown={startDrag(h.joint)}
+              />
+            ))}
+
+            <g transform="scale(1, -1)">
+                {/* LABELS (Need to be flipped back because of global SVG flip) */}
+                <g className={showMainLinkage ? undefined : 'hidden'}>
+                <text x={Ax} y={-Ay + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">{linkName(layout.links.frame)} ({layout.joints.A})</text>
+                <text x={Dx} y={-Dy + 25} textAnchor="middle" className="text-xs fill-slate-500 font-bold">{linkName(layout.links.frame)} ({layout.joints.D})</text>
+                <text x={Bx} y={-By - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">{layout.joints.B}</text>
+                <text x={Cx} y={-Cy - 15} textAnchor="middle" className="text-xs fill-slate-600 font-bold">{layout.joints.C}</text>
+                
+                {/* Midpoint Labels for Links */}
+                <text x={(Ax+Bx)/2 - 10} y={-(Ay+By)/2} className="text-[10px] fill-slate-400">{linkName(layout.links.input)}</text>
+                <text x={(Bx+Cx)/2} y={-(By+Cy)/2 - 10} textAnchor="middle" className="text-[10px] fill-slate-400">{linkName(layout.links.coupler)}</text>
+                <text x={(Cx+Dx)/2 + 10} y={-(Cy+Dy)/2} className="text-[10px] fill-slate-400">{linkName(layout.links.output)}</text>
+                </g>
+
+                {/* Both cognates share the third pivot O₃ in their D slot */}
+                {thirdPivot && (
+                  <text x={thirdPivot.Dx} y={-thirdPivot.Dy + 45} textAnchor="middle" className="font-bold fill-slate-600" style={{fontSize: '24px'}}>O₃</text>
+                )}
+
+                {changePoint?.joints.isValid && (
+                  <text x={changePoint.joints.Cx} y={-changePoint.joints.Cy + 45} textAnchor="middle" className="font-bold" fill="#d97706" style={{fontSize: '18px'}}>
+                    Change point → {changePoint.to}{changePoint.smooth ? '' : ' (switched)'}
+                  </text>
+                )}
+
+                {hasCouplerPoint && (
+                  <text x={couplerPoint.x} y={-couplerPoint.y - 20} textAnchor="middle" className="text-2xl font-bold" fill="#0d9488" style={{fontSize: '24px'}}>P</text>
+                )}
+
+                {showMainLinkage && showTransmission && (
+                  <text
+                    x={Cx + (arcRadius + 25) * Math.cos(arcMid)}
+                    y={-(Cy + (arcRadius + 25) * Math.sin(arcMid))}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="font-bold"
+                    fill={arcColor}
+                    style={{fontSize: '18px'}}
+                  >
+                    μ {transmissionAngle.toFixed(0)}°
+                  </text>
+                )}
+            </g>
+          </>
+        ) : !mechanism?.pose.isValid && !standIn && (
+           <g transform="scale(1, -1)">
+             <text x={centerX} y={-centerY} textAnchor="middle" className="text-red-500 font-bold text-lg">
+               Impossible Configuration
+             </text>
+             <text x={centerX} y={-centerY + 25} textAnchor="middle" className="text-slate-500 text-sm">
+               Link lengths cannot form a closed loop at this angle.
+             </text>
+           </g>
+        )}
+        {standIn && !standIn.isValid && (
+           <g transform="scale(1, -1)">
+             <text x={centerX} y={-centerY} textAnchor="middle" className="text-red-500 font-bold text-lg">
+               Impossible Configuration
+             </text>
+             <text x={centerX} y={-centerY + 25} textAnchor="middle" className="text-slate-500 text-sm">
+               {standIn.reason}
+             </text>
+           </g>
+        )}
+        {isValid && mechanism && !mechanism.pose.isValid && (
+           <g transform="scale(1, -1)">
+             <text x={centerX} y={-centerY - 60} textAnchor="middle" className="text-red-500 font-bold text-xl">
+               The dyad cannot close at this angle.
+             </text>
+           </g>
+        )}
+      </svg>
+      
+      {canDrag && (
+        <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-3">
+          <span className="font-medium">Drag B, C or D · Snap</span>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={snap.grid} onChange={(e) => setSnap({ ...snap, grid: e.target.checked })} className="accent-indigo-600" />
+            Grid ({gridStep})
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={snap.lengths} onChange={(e) => setSnap({ ...snap, lengths: e.target.checked })} className="accent-indigo-600" />
+            Whole lengths
+          </label>
+        </div>
+      )}
+
+      <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow border border-slate-200 text-xs">
+          {sliderCrank ? (
+            <div className="flex items-center">
+              <div className="w-3 h-2 rounded-sm bg-slate-300 border-2 border-slate-700 mr-2"></div>
+              <span>Slider</span>
+            </div>
+          ) : spherical ? (
+            <>
+              <div className="flex items-center mb-1">
+                <div className="w-3 h-1 bg-slate-500 mr-2"></div>
+                <span>Ground Axes</span>
+              </div>
+              <div className="flex items-center">
+                <div className="w-3 h-1 bg-indigo-600 mr-2"></div>
+                <span>Moving Axes</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center mb-1">
+                <div className="w-3 h-3 rounded-full bg-green-600 mr-2"></div>
+                <span>Shortest Link (S)</span>
+              </div>
+              <div className="flex items-center">
+                <div className="w-3 h-3 rounded-full bg-red-500 mr-2"></div>
+                <span>Longest Link (L)</span>
+              </div>
+            </>
+          )}
+          {couplerCurve.length > 0 && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-teal-600 mr-2"></div>
+              <span>Coupler Curve (P)</span>
+            </div>
+          )}
+          {changePoint?.joints.isValid && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-3 bg-amber-400 rotate-45 mr-2.5 ml-0.5"></div>
+              <span>Change Point</span>
+            </div>
+          )}
+          {cognates.map((cognate, i) => cognate && (
+            <div key={`cognate-legend-${i}`} className="flex items-center mt-1">
+              <div className="w-3 h-1 mr-2" style={{ backgroundColor: COGNATE_COLORS[i % COGNATE_COLORS.length] }}></div>
+              <span>Cognate {i + 1}</span>
+            </div>
+          ))}
+          {showMainLinkage && showMotion && showVelocity && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-blue-600 mr-2"></div>
+              <span>Velocity</span>
+            </div>
+          )}
+          {showMainLinkage && showMotion && showAcceleration && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-1 bg-fuchsia-600 mr-2"></div>
+              <span>Acceleration</span>
+            </div>
+          )}
+          {showMainLinkage && isValid && instantCenters?.centers.length > 0 && (
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-3 rounded-full mr-2.5 ml-0.5" style={{ backgroundColor: INSTANT_CENTER_COLOR }}></div>
+              <span>Instant Centers</span>
+            </div>
+          )}
+          {showMainLinkage && showStatics && (
+            <>
+              <div className="flex items-center mt-1">
+                <div className="w-3 h-1 bg-red-600 mr-2"></div>
+                <span>Applied Force</span>
+              </div>
+              <div className="flex items-center mt-1">
+                <div className="w-3 h-1 bg-orange-600 mr-2"></div>
+                <span>Pin Forces</span>
+              </div>
+            </>
+          )}
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: CONTROLS ---
+interface ControlsProps {
+  mechanismType: MechanismType;
+  onMechanismTypeChange: (type: MechanismType) => void;
+  sliderCrank: SliderCrankDimensions;
+  onSliderCrankChange: (dims: SliderCrankDimensions) => void;
+  sliderGround: SliderLink;
+  onSliderGroundChange: (ground: SliderLink) => void;
+  sliderInfo: SliderCrankInfo;
+  sphericalArcs: LinkLengths; // Arc angles in degrees
+  onSphericalArcsChange: (arcs: LinkLengths) => void;
+  sphereView: SphereView;
+  onSphereViewChange: (view: SphereView) => void;
+  sphericalInfo: SphericalInfo;
+  lengths: LinkLengths;
+  onLengthChange: (key: keyof LinkLengths, value: number) => void;
+  branch: AssemblyBranch;
+  onBranchChange: (branch: AssemblyBranch) => void;
+  hasChangePoints: boolean;
+  changePointMode: ChangePointMode;
+  onChangePointModeChange: (mode: ChangePointMode) => void;
+  inversion: Inversion;
+  onInversionChange: (inversion: Inversion) => void;
+  placement: FramePlacement;
+  onPlacementChange: (placement: FramePlacement) => void;
+  pivots: { Ax: number, Ay: number, Dx: number, Dy: number };
+  pivotNames: { A: string, D: string };
+  onPivotsChange: (pivots: { Ax: number, Ay: number, Dx: number, Dy: number }) => void;
+  angle: number;
+  onAngleChange: (angle: number) => void;
+  reachable: ReachableRange;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  omegaInput: number;
+  onOmegaInputChange: (omega: number) => void;
+  alphaInput: number;
+  onAlphaInputChange: (alpha: number) => void;
+  showVelocity: boolean;
+  onShowVelocityChange: (show: boolean) => void;
+  showAcceleration: boolean;
+  onShowAccelerationChange: (show: boolean) => void;
+  showInstantCenters: boolean;
+  onShowInstantCentersChange: (show: boolean) => void;
+  minTransmission: number;
+  onMinTransmissionChange: (angle: number) => void;
+  couplerPoint: CouplerPoint;
+  onCouplerPointChange: (point: CouplerPoint) => void;
+  showCouplerCurve: boolean;
+  onShowCouplerCurveChange: (show: boolean) => void;
+  cognates: [Cognate | null, Cognate | null];
+  cognateView: CognateView;
+  onCognateViewChange: (view: CognateView) => void;
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+const MECHANISM_TYPES: { id: MechanismType, label: string }[] = [
+  { id: MechanismType.FOUR_BAR, label: 'Four-Bar' },
+  { id: MechanismType.SLIDER_CRANK, label: 'Slider-Crank' },
+  { id: MechanismType.SPHERICAL, label: 'Spherical' },
+];
+
+// Starting arcs (degrees) for common spherical chains
+const SPHERICAL_PRESETS: { label: string, arcs: LinkLengths }[] = [
+  { label: 'Universal Joint', arcs: { frame: 160, input: 90, coupler: 90, output: 90 } },
+  { label: 'Crank-Rocker', arcs: { frame: 70, input: 25, coupler: 75, output: 50 } },
+  { label: 'Double-Crank', arcs: { frame: 100, input: 60, coupler: 80, output: 120 } },
+];
+
+const COGNATE_VIEWS: { id: CognateView, label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'all', label: 'All' },
+  { id: 'original', label: 'Original' },
+  { id: 'cognate1', label: 'Cog. 1' },
+  { id: 'cognate2', label: 'Cog. 2' },
+];
+
+const Controls: React.FC<ControlsProps> = ({ 
+  mechanismType,
+  onMechanismTypeChange,
+  sliderCrank,
+  onSliderCrankChange,
+  sliderGround,
+  onSliderGroundChange,
+  sliderInfo,
+  sphericalArcs,
+  onSphericalArcsChange,
+  sphereView,
+  onSphereViewChange,
+  sphericalInfo,
+  lengths, 
+  onLengthChange, 
+  branch,
+  onBranchChange,
+  hasChangePoints,
+  changePointMode,
+  onChangePointModeChange,
+  inversion,
+  onInversionChange,
+  placement,
+  onPlacementChange,
+  pivots,
+  pivotNames,
+  onPivotsChange,
+  angle, 
+  onAngleChange, 
+  reachable,
+  isPlaying, 
+  onTogglePlay,
+  speed,
+  onSpeedChange,
+  omegaInput,
+  onOmegaInputChange,
+  alphaInput,
+  onAlphaInputChange,
+  showVelocity,
+  onShowVelocityChange,
+  showAcceleration,
+  onShowAccelerationChange,
+  showInstantCenters,
+  onShowInstantCentersChange,
+  minTransmission,
+  onMinTransmissionChange,
+  couplerPoint,
+  onCouplerPointChange,
+  showCouplerCurve,
+  onShowCouplerCurveChange,
+  cognates,
+  cognateView,
+  onCognateViewChange,
+  onLoadDesign
+}) => {
+  const [couplerMode, setCouplerMode] = useState<'polar' | 'local'>('polar');
+  const [unreachableStroke, setUnreachableStroke] = useState<number | null>(null);
+  const couplerLocal = couplerPointToLocal(couplerPoint);
+
+  const couplerSliders = couplerMode === 'polar'
+    ? [
+        { label: 'Distance from B (p)', ...COUPLER_POINT_BOUNDS.distance, step: 1, value: couplerPoint.distance, unit: '',
+          set: (v: number) => onCouplerPointChange({ ...couplerPoint, distance: v }) },
+        { label: 'Angle from BC (δ)', ...COUPLER_POINT_BOUNDS.angle, step: 1, value: couplerPoint.angle, unit: '°',
+          set: (v: number) => onCouplerPointChange({ ...couplerPoint, angle: v }) },
+      ]
+    : [
+        { label: 'Along BC (u)', min: -200, max: 300, step: 1, value: couplerLocal.x, unit: '',
+          set: (v: number) => onCouplerPointChange(couplerPointFromLocal({ x: v, y: couplerLocal.y })) },
+        { label: 'Normal to BC (v)', min: -200, max: 200, step: 1, value: couplerLocal.y, unit: '',
+          set: (v: number) => onCouplerPointChange(couplerPointFromLocal({ x: couplerLocal.x, y: v })) },
+      ];
+
+  const sliders = [
+    { key: 'input', label: 'Input Link (a)', ...LINK_LENGTH_BOUNDS.input },
+    { key: 'coupler', label: 'Coupler Link (b)', ...LINK_LENGTH_BOUNDS.coupler },
+    { key: 'output', label: 'Output Link (c)', ...LINK_LENGTH_BOUNDS.output },
+    { key: 'frame', label: 'Frame (d)', ...LINK_LENGTH_BOUNDS.frame },
+  ];
+
+  const isFourBar = mechanismType === MechanismType.FOUR_BAR;
+  const isSliderCrank = mechanismType === MechanismType.SLIDER_CRANK;
+  const arcSliders = [
+    { key: 'input', label: 'Input Arc (α₂)' },
+    { key: 'coupler', label: 'Coupler Arc (α₃)' },
+    { key: 'output', label: 'Output Arc (α₄)' },
+    { key: 'frame', label: 'Ground Arc (α₁)' },
+  ] as const;
+  const sliderFields = [
+    { key: 'crank', label: 'Crank (r)', ...SLIDER_CRANK_BOUNDS.crank },
+    { key: 'rod', label: 'Connecting Rod (l)', ...SLIDER_CRANK_BOUNDS.rod },
+    { key: 'offset', label: 'Offset (e)', ...SLIDER_CRANK_BOUNDS.offset },
+  ] as const;
+  const { crank: r, rod: l, offset: e } = sliderCrank;
+  const sliderCriteria = [
+    { label: 'r + |e| ≤ l', lhs: r + Math.abs(e), rhs: l, meaning: 'crank turns fully on the guide' },
+    { label: 'l + |e| ≤ r', lhs: l + Math.abs(e), rhs: r, meaning: 'rod turns fully on the guide' },
+  ];
+  const sliderInversion = SLIDER_INVERSIONS[sliderGround];
+
+  // Shade the unreachable input angles on the slider track
+  const reachableSegments = reachable.intervals.flatMap(({ start, end }) =>
+    end > 360 ? [[start, 360], [0, end - 360]] : [[start, end]]
+  ).sort((p, q) => p[0] - q[0]);
+  const trackStops: string[] = [];
+  let cursor = 0;
+  for (const [start, end] of reachableSegments) {
+    const from = (start / 360) * 100;
+    const to = (end / 360) * 100;
+    trackStops.push(`#fecaca ${(cursor / 360) * 100}%`, `#fecaca ${from}%`, `#e2e8f0 ${from}%`, `#e2e8f0 ${to}%`);
+    cursor = end;
+  }
+  trackStops.push(`#fecaca ${(cursor / 360) * 100}%`, '#fecaca 100%');
+  const angleTrack = `linear-gradient(to right, ${trackStops.join(', ')})`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-full flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <RotateCw className="w-5 h-5 text-indigo-600" />
+          Link Configuration
+        </h2>
+        
+        <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium mb-5">
+          {MECHANISM_TYPES.map((type) => (
+            <button
+              key={type.id}
+              onClick={() => onMechanismTypeChange(type.id)}
+              className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                mechanismType === type.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {type.label}
+            </button>
+          ))}
+        </div>
+
+        {isFourBar ? (
+          <div className="space-y-5">
+            {sliders.map((s) => (
+              <div key={s.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(lengths[s.key as keyof LinkLengths] * 10) / 10}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  value={lengths[s.key as keyof LinkLengths]}
+                  onChange={(e) => onLengthChange(s.key as keyof LinkLengths, parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        ) : isSliderCrank ? (
+          <div className="space-y-5">
+            {sliderFields.map((f) => (
+              <div key={f.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{f.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(sliderCrank[f.key] * 10) / 10}</span>
+                </div>
+                <input
+                  type="range"
+                  min={f.min}
+                  max={f.max}
+                  value={sliderCrank[f.key]}
+                  onChange={(ev) => onSliderCrankChange({ ...sliderCrank, [f.key]: parseInt(ev.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+
+            <label className="flex items-center justify-between gap-3 text-sm font-medium text-slate-600">
+              Piston Stroke
+              <input
+                type="number"
+                step={1}
+                value={isNaN(sliderInfo.stroke) ? '' : Math.round(sliderInfo.stroke * 10) / 10}
+                onChange={(ev) => {
+                  // Keeps the rod and offset and resizes the crank, which must still turn fully
+                  const stroke = parseFloat(ev.target.value);
+                  const crank = crankForStroke(stroke, l, e);
+                  setUnreachableStroke(crank === null && !isNaN(stroke) ? stroke : null);
+                  if (crank !== null) onSliderCrankChange({ ...sliderCrank, crank });
+                }}
+                className="w-28 px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+              />
+            </label>
+            {unreachableStroke !== null && (
+              <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                A stroke of {unreachableStroke} is unreachable: no crank between {SLIDER_CRANK_BOUNDS.crank.min} and {SLIDER_CRANK_BOUNDS.crank.max} gives it
+                while still turning fully with this rod and offset.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {arcSliders.map((f) => (
+              <div key={f.key}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{f.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{Math.round(sphericalArcs[f.key])}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={SPHERICAL_ARC_BOUNDS.min}
+                  max={SPHERICAL_ARC_BOUNDS.max}
+                  value={sphericalArcs[f.key]}
+                  onChange={(ev) => onSphericalArcsChange({ ...sphericalArcs, [f.key]: parseInt(ev.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              {SPHERICAL_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => onSphericalArcsChange(preset.arcs)}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5">
+          <label className="text-sm font-medium text-slate-600 block mb-2">Assembly Branch</label>
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { value: AssemblyBranch.OPEN, label: 'Open' },
+              { value: AssemblyBranch.CROSSED, label: 'Crossed' },
+            ].map((opt) => (
+              <button
+                key={opt.value}
+                onClick={() => onBranchChange(opt.value)}
+                className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-colors ${
+                  branch === opt.value
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-1 italic">
+            {isFourBar
+              ? 'The same link lengths also close in the other branch, shown faded.'
+              : isSliderCrank
+              ? 'The other branch puts the last joint solved on the other side along the guide.'
+              : 'The other branch mirrors axis C across the plane of axes B and D.'}
+          </p>
+        </div>
+
+        {hasChangePoints && (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">After a Change Point</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: ChangePointMode.SMOOTH, label: 'Carry On' },
+                { value: ChangePointMode.SWITCH, label: 'Switch Branch' },
+              ].map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => onChangePointModeChange(opt.value)}
+                  className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-colors ${
+                    changePointMode === opt.value
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              At a change point all four joints line up and both branches meet. Carry on follows the motion without a kink.
+            </p>
+          </div>
+        )}
+
+        {isFourBar ? (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">Ground Link</label>
+            <div className="grid grid-cols-4 gap-2">
+              {[LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT].map((role) => (
+                <button
+                  key={role}
+                  onClick={() => {
+                    // Keep the driver if it still shares a joint with the new ground
+                    const candidates = adjacentLinks(role);
+                    const driver = candidates.includes(inversion.driver) ? inversion.driver : candidates[1];
+                    onInversionChange({ ground: role, driver });
+                  }}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    inversion.ground === role
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+
+            <label className="text-sm font-medium text-slate-600 block mt-3 mb-2">Driver Link</label>
+            <div className="grid grid-cols-2 gap-2">
+              {adjacentLinks(inversion.ground).map((role) => (
+                <button
+                  key={role}
+                  onClick={() => onInversionChange({ ...inversion, driver: role })}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    inversion.driver === role
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              The driver turns about a ground pivot, so it must be pinned to the ground link.
+            </p>
+          </div>
+        ) : isSliderCrank ? (
+          <div className="mt-5">
+            <label className="text-sm font-medium text-slate-600 block mb-2">Ground Link</label>
+            <div className="grid grid-cols-4 gap-2">
+              {[SliderLink.GUIDE, SliderLink.CRANK, SliderLink.ROD, SliderLink.SLIDER].map((link) => (
+                <button
+                  key={link}
+                  onClick={() => onSliderGroundChange(link)}
+                  className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                    sliderGround === link
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {link}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              {sliderInversion.name}: the {sliderInversion.driver} drives, turning about a ground pivot.
+            </p>
+
+            <div className="mt-4 p-3 bg-slate-50 rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Type</span>
+                <span className="font-medium text-indigo-600">{sliderInfo.type}</span>
+              </div>
+              {sliderCriteria.map((c) => (
+                <div key={c.label} className="flex justify-between text-xs">
+                  <span className="text-slate-500">{c.label} <span className="italic">({c.meaning})</span></span>
+                  <span className={`font-mono ${c.lhs <= c.rhs ? 'text-green-600' : 'text-slate-400'}`}>
+                    {c.lhs.toFixed(0)} {c.lhs <= c.rhs ? '≤' : '>'} {c.rhs.toFixed(0)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="mt-5">
+            <div className="p-3 bg-slate-50 rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Type</span>
+                <span className="font-medium text-indigo-600">{sphericalInfo.type}</span>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-500">Joints turning fully</span>
+                <span className="font-mono text-slate-700">
+                  {(['A', 'B', 'C', 'D'] as const).filter(j => sphericalInfo.jointTurns[j]).join(', ') || 'none'}
+                </span>
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-1 italic">
+              A joint turns fully when the arcs across from it close over the whole sweep of the diagonal it sets.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              {([
+                { key: 'azimuth', label: 'View Azimuth', min: -180, max: 180 },
+                { key: 'elevation', label: 'View Elevation', min: -90, max: 90 },
+              ] as const).map((f) => (
+                <div key={f.key}>
+                  <div className="flex justify-between mb-1">
+                    <label className="text-xs font-medium text-slate-600">{f.label}</label>
+                    <span className="text-xs font-mono text-slate-500">{sphereView[f.key]}°</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={f.min}
+                    max={f.max}
+                    value={sphereView[f.key]}
+                    onChange={(ev) => onSphereViewChange({ ...sphereView, [f.key]: parseInt(ev.target.value) })}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Coupler Point</h2>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {(['polar', 'local'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setCouplerMode(mode)}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    couplerMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {mode === 'polar' ? 'p, δ' : 'u, v'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {couplerSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-teal-600">{Math.round(s.value)}{s.unit}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  step={s.step}
+                  value={s.value}
+                  onChange={(e) => s.set(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                />
+              </div>
+            ))}
+
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showCouplerCurve}
+                onChange={(e) => onShowCouplerCurveChange(e.target.checked)}
+                className="accent-teal-600"
+              />
+              Trace coupler curve
+            </label>
+          </div>
+        </div>
+      )}
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Cognates</h2>
+
+          <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+            {COGNATE_VIEWS.map((view) => (
+              <button
+                key={view.id}
+                onClick={() => onCognateViewChange(view.id)}
+                className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                  cognateView === view.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {view.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 space-y-2">
+            {cognates.map((cognate, i) => (
+              <div key={i} className="flex items-center justify-between text-sm">
+                <span className={`font-medium ${i === 0 ? 'text-violet-600' : 'text-orange-600'}`}>Cognate {i + 1}</span>
+                {cognate ? (
+                  <>
+                    <span className="font-mono text-xs text-slate-500">
+                      {[cognate.design.lengths.frame, cognate.design.lengths.input, cognate.design.lengths.coupler, cognate.design.lengths.output]
+                        .map(len => len.toFixed(0)).join(' / ')}
+                    </span>
+                    <button
+                      onClick={() => onLoadDesign(cognate.design)}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                    >
+                      Load
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-slate-400 italic">degenerate</span>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Lengths are frame / input / coupler / output. All three four-bars trace the same coupler curve.
+          </p>
+        </div>
+      )}
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Ground Pivots</h2>
+
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              { key: 'Ax', label: `${pivotNames.A} x` },
+              { key: 'Ay', label: `${pivotNames.A} y` },
+              { key: 'Dx', label: `${pivotNames.D} x` },
+              { key: 'Dy', label: `${pivotNames.D} y` },
+            ] as const).map((f) => (
+              <label key={f.key} className="text-sm font-medium text-slate-600">
+                {f.label}
+                <input
+                  type="number"
+                  step={1}
+                  value={Math.round(pivots[f.key] * 10) / 10}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) onPivotsChange({ ...pivots, [f.key]: value });
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-4">
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-600">Frame Angle</label>
+              <span className="text-sm font-mono text-slate-500">{Math.round(placement.angle)}°</span>
+            </div>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={placement.angle}
+              onChange={(e) => onPlacementChange({ ...placement, angle: parseInt(e.target.value) })}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <p className="text-xs text-slate-400 mt-1 italic">
+              Angles, including θ, are measured from the global X axis. Moving a pivot resizes the ground link, within its slider's range.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-slate-100 pt-6">
+        <h2 className="text-lg font-bold text-slate-800 mb-4">Simulation Control</h2>
+        
+        <div className="flex items-center gap-4 mb-4">
+          <button
+            onClick={onTogglePlay}
+            className={`flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors ${
+              isPlaying 
+                ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' 
+                : 'bg-indigo-600 text-white hover:bg-indigo-700'
+            }`}
+          >
+            {isPlaying ? <><Pause size={18} /> Pause</> : <><Play size={18} /> Animate</>}
+          </button>
+        </div>
+
+        <div className="space-y-4">
+           <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-sm font-medium text-slate-600">Input Angle (θ)</label>
+                <span className="text-sm font-mono text-slate-500">{Math.round(angle)}°</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={360}
+                value={(angle % 360 + 360) % 360} // Normalize for slider
+                onChange={(e) => {
+                    if (isPlaying) onTogglePlay();
+                    onAngleChange(parseInt(e.target.value));
+                }}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                style={{ background: angleTrack }}
+              />
+              {!reachable.fullRotation && (
+                <p className="text-xs text-slate-400 mt-1 italic">
+                  {reachable.limits.length > 0
+                    ? `Input rocks between toggle positions at ${reachable.limits.map(l => `${l.toFixed(1)}°`).join(', ')}.`
+                    : 'No input angle closes the loop.'}
+                </p>
+              )}
+           </div>
+
+           <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-sm font-medium text-slate-600">Animation Speed</label>
+              </div>
+              <input
+                type="range"
+                min={SPEED_BOUNDS.min}
+                max={SPEED_BOUNDS.max}
+                step={0.1}
+                value={Math.abs(speed)}
+                onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-500"
+              />
+           </div>
+        </div>
+      </div>
+
+      {isFourBar && (
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Motion Analysis</h2>
+
+          <div className="space-y-4">
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Input Velocity (ω₂)</label>
+                  <span className="text-sm font-mono text-slate-500">{omegaInput.toFixed(1)} rad/s</span>
+                </div>
+                <input
+                  type="range"
+                  min={-10}
+                  max={10}
+                  step={0.1}
+                  value={omegaInput}
+                  onChange={(e) => onOmegaInputChange(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+             </div>
+
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Input Acceleration (α₂)</label>
+                  <span className="text-sm font-mono text-slate-500">{alphaInput.toFixed(1)} rad/s²</span>
+                </div>
+                <input
+                  type="range"
+                  min={-20}
+                  max={20}
+                  step={0.5}
+                  value={alphaInput}
+                  onChange={(e) => onAlphaInputChange(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-fuchsia-600"
+                />
+             </div>
+
+             <div className="flex gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showVelocity}
+                    onChange={(e) => onShowVelocityChange(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  Velocity vectors
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showAcceleration}
+                    onChange={(e) => onShowAccelerationChange(e.target.checked)}
+                    className="accent-fuchsia-600"
+                  />
+                  Acceleration vectors
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showInstantCenters}
+                    onChange={(e) => onShowInstantCentersChange(e.target.checked)}
+                    className="accent-pink-700"
+                  />
+                  Instant centers
+                </label>
+             </div>
+
+             <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">Transmission Angle Band (μ)</label>
+                  <span className="text-sm font-mono text-slate-500">{minTransmission}°–{180 - minTransmission}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={10}
+                  max={80}
+                  value={minTransmission}
+                  onChange={(e) => onMinTransmissionChange(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                />
+             </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- COMPONENT: INFO PANEL ---
+interface InfoPanelProps {
+  grashofInfo: GrashofInfo;
+  lengths: LinkLengths;
+  motion: MotionAnalysis;
+  transmission: TransmissionAngleInfo;
+  transmissionBand: { min: number, max: number };
+  inversion: Inversion;
+  driverFullRotation: boolean;
+  quickReturn: QuickReturnInfo | null;
+  instantCenters: InstantCenterAnalysis;
+  instantCenterCycle: { angle: number, centers: InstantCenterAnalysis }[];
+  angle: number;
+}
+
+// Mechanical advantage runs off to infinity at the output's dead points, so
+// the chart leaves out anything beyond this
+const RATIO_PLOT_LIMIT = 10;
+
+const InfoPanel: React.FC<InfoPanelProps> = ({
+  grashofInfo,
+  lengths,
+  motion,
+  transmission,
+  transmissionBand,
+  inversion,
+  driverFullRotation,
+  quickReturn,
+  instantCenters,
+  instantCenterCycle,
+  angle
+}) => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+  
+  // Identify S, L, P, Q explicitly for display
+  const vals = [a, b, c, d].sort((x, y) => x - y);
+  const S = vals[0];
+  const L = vals[3];
+  const P = vals[1];
+  const Q = vals[2];
+  
+  const sumSL = S + L;
+  const sumPQ = P + Q;
+  const { margin } = grashofInfo;
+  const isInvalid = grashofInfo.type === BarkerType.INVALID;
+  const roles = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+  const signOf = (t: number) => t > 0 ? '+' : t < 0 ? '−' : '0';
+
+  const inBand = (mu: number) => mu >= transmissionBand.min && mu <= transmissionBand.max;
+  const formatMu = (mu: number) => isFinite(mu) ? `${mu.toFixed(1)}°` : '—';
+  const formatRatio = (r: number) => isFinite(r) ? r.toFixed(3) : r === Infinity ? '∞' : '—';
+  const formatCenter = (center?: InstantCenter) => !center || isNaN(center.point.x) ? '—'
+    : center.atInfinity ? `∞ at ${(Math.atan2(center.point.y, center.point.x) * 180 / Math.PI).toFixed(1)}°`
+    : `(${center.point.x.toFixed(1)}, ${center.point.y.toFixed(1)})`;
+  const clipped = (r: number) => Math.abs(r) <= RATIO_PLOT_LIMIT ? r : NaN;
+  const centerShaded = unsolvedRanges(instantCenterCycle.map(s => ({ x: s.angle, valid: s.centers.isValid })));
+  const cycleOutOfBand = isFinite(transmission.min) && (!inBand(transmission.min) || !inBand(transmission.max));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Analysis</h2>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+           <div className="mb-4">
+             <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Mechanism Type</span>
+             <span className={`text-xl font-bold ${isInvalid ? 'text-red-600' : 'text-indigo-600'}`}>
+               {grashofInfo.type}
+             </span>
+           </div>
+
+           <div className="mb-4">
+             <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Grashof Condition</span>
+             <div className="flex items-center gap-3 font-mono text-sm bg-slate-50 p-2 rounded border border-slate-100">
+                <div className={margin >= 0 ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                   S + L = {sumSL}
+                </div>
+                <div className="text-slate-400">
+                   {margin > 0 ? "<" : margin < 0 ? ">" : "="}
+                </div>
+                <div className="text-slate-700">
+                   P + Q = {sumPQ}
+                </div>
+             </div>
+             <p className="text-xs text-slate-400 mt-1 italic">
+               {margin > 0 && "Condition Met: The shortest link can rotate fully."}
+               {margin === 0 && "Change Point: The links can fold flat and switch branches."}
+               {margin < 0 && "Condition Failed: No link makes a full revolution (Triple Rocker)."}
+             </p>
+           </div>
+
+           {!isInvalid && (
+             <div className="mb-4">
+               <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Barker Characteristics</span>
+               <div className="flex gap-4 font-mono text-sm text-slate-700">
+                 {grashofInfo.characteristics.map((t, i) => (
+                   <span key={i}>T{i + 1} {signOf(t)}</span>
+                 ))}
+               </div>
+               <p className="text-xs text-slate-400 mt-1 italic">
+                 Signs of g + c − a − b, b + g − a − c and b + c − a − g for ground g, driver a, coupler b, output c.
+               </p>
+             </div>
+           )}
+        </div>
+
+        <div className="space-y-2 text-sm text-slate-600">
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Shortest Link (S)</span>
+               <span className="font-medium capitalize text-green-600">{grashofInfo.shortest} ({S})</span>
+             </div>
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Longest Link (L)</span>
+               <span className="font-medium capitalize text-red-500">{grashofInfo.longest} ({L})</span>
+             </div>
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Ground Link</span>
+               <span className="font-medium capitalize">{inversion.ground}</span>
+             </div>
+             <div className="flex justify-between border-b border-slate-50 pb-1">
+               <span>Driver</span>
+               <span className="font-medium capitalize">
+                 {inversion.driver} ({driverFullRotation ? 'crank' : 'rocker'})
+               </span>
+             </div>
+             {!isInvalid && (
+               <div className="mt-4 p-3 bg-blue-50 text-blue-800 rounded text-xs leading-relaxed">
+                  <strong>Full rotation:</strong>
+                  {margin > 0 && ` The shortest link (${grashofInfo.shortest}) turns fully relative to every other link. All other pairs only oscillate.`}
+                  {margin === 0 && " The chain passes through change points, where it folds flat. Turning past them lets these pairs rotate fully:"}
+                  {margin < 0 && " No link turns fully relative to any other. Every joint oscillates."}
+                  {margin >= 0 && (
+                    <ul className="mt-2 space-y-0.5">
+                      {roles.map((role) => (
+                        <li key={role} className="flex justify-between gap-2">
+                          <span className="capitalize font-medium">{role}</span>
+                          <span className="text-right">
+                            {grashofInfo.fullRotation[role].length > 0 ? `↻ ${grashofInfo.fullRotation[role].join(', ')}` : 'rocks only'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+               </div>
+             )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Transmission Angle (μ)</span>
+        <div className="grid grid-cols-3 gap-4 font-mono text-sm">
+          <div>
+            <span className="block text-xs text-slate-400">Current</span>
+            <span className={`font-bold ${isFinite(transmission.current) && !inBand(transmission.current) ? 'text-red-600' : 'text-slate-700'}`}>
+              {formatMu(transmission.current)}
+            </span>
+          </div>
+          <div>
+            <span className="block text-xs text-slate-400">Min over cycle</span>
+            <span className="text-slate-700">{formatMu(transmission.min)}</span>
+          </div>
+          <div>
+            <span className="block text-xs text-slate-400">Max over cycle</span>
+            <span className="text-slate-700">{formatMu(transmission.max)}</span>
+          </div>
+        </div>
+        {cycleOutOfBand && (
+          <div className="mt-3 p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+            <strong>Warning:</strong> The transmission angle leaves the {transmissionBand.min}°–{transmissionBand.max}° band during the cycle.
+            Force transfer to the output becomes poor and the linkage may bind near those positions.
+          </div>
+        )}
+      </div>
+
+      {(grashofInfo.type === BarkerType.GCRR || grashofInfo.type === BarkerType.GRRC) && (
+        <div className="mt-6 pt-4 border-t border-slate-100">
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Quick Return</span>
+          {quickReturn ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 font-mono text-sm">
+              <div>
+                <span className="block text-xs text-slate-400">Rocker swing</span>
+                <span className="text-slate-700">{quickReturn.swingAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Working stroke</span>
+                <span className="text-slate-700">{quickReturn.workingCrankAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Return stroke</span>
+                <span className="text-slate-700">{quickReturn.returnCrankAngle.toFixed(1)}°</span>
+              </div>
+              <div>
+                <span className="block text-xs text-slate-400">Time ratio Q</span>
+                <span className="font-bold text-indigo-600">{quickReturn.timeRatio.toFixed(3)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              The driver is the rocker. Drive the crank ({grashofInfo.shortest}) to get a quick-return motion.
+            </p>
+          )}
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Crank angles between the toggle positions; at constant crank speed Q is the ratio of the stroke times.
+          </p>
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Velocity &amp; Acceleration</span>
+        {motion.isValid ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 font-mono text-xs text-slate-600">
+            <div className="flex justify-between"><span>ω₃</span><span>{motion.omegaCoupler.toFixed(3)} rad/s</span></div>
+            <div className="flex justify-between"><span>ω₄</span><span>{motion.omegaOutput.toFixed(3)} rad/s</span></div>
+            <div className="flex justify-between"><span>α₃</span><span>{motion.alphaCoupler.toFixed(3)} rad/s²</span></div>
+            <div className="flex justify-between"><span>α₄</span><span>{motion.alphaOutput.toFixed(3)} rad/s²</span></div>
+            <div className="flex justify-between text-blue-600"><span>|v_B|</span><span>{Math.hypot(motion.velB.x, motion.velB.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-blue-600"><span>|v_C|</span><span>{Math.hypot(motion.velC.x, motion.velC.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-fuchsia-600"><span>|a_B|</span><span>{Math.hypot(motion.accB.x, motion.accB.y).toFixed(1)}</span></div>
+            <div className="flex justify-between text-fuchsia-600"><span>|a_C|</span><span>{Math.hypot(motion.accC.x, motion.accC.y).toFixed(1)}</span></div>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 italic">Undefined at this position (dead point or open loop).</p>
+        )}
+      </div>
+      <div className="mt-6 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Instant Centers</span>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-1 font-mono text-xs text-slate-600">
+            <div className="flex justify-between"><span>I₁₃ (coupler pole)</span><span>{formatCenter(instantCenters.centers.find(c => c.name === '13'))}</span></div>
+            <div className="flex justify-between"><span>I₂₄</span><span>{formatCenter(instantCenters.centers.find(c => c.name === '24'))}</span></div>
+            <div className="flex justify-between"><span>ω₄ / ω₂</span><span>{formatRatio(instantCenters.velocityRatio)}</span></div>
+            <div className="flex justify-between"><span>ω₃ / ω₂</span><span>{formatRatio(instantCenters.couplerRatio)}</span></div>
+            <div className="flex justify-between font-bold text-pink-700"><span>Mechanical advantage</span><span>{formatRatio(instantCenters.mechanicalAdvantage)}</span></div>
+            <p className="font-sans text-slate-400 pt-2 italic">
+              Links are numbered 1 ground, 2 driver, 3 coupler, 4 output. The advantage is the ideal torque ratio T₄ / T₂ = ω₂ / ω₄;
+              it grows without bound as the output reaches a dead point.
+            </p>
+          </div>
+          <LineChart
+            series={[
+              {
+                label: 'ω₄ / ω₂',
+                color: '#4f46e5',
+                points: instantCenterCycle.map(s => ({ x: s.angle, y: clipped(s.centers.velocityRatio) })),
+              },
+              {
+                label: 'Mechanical advantage',
+                color: '#be185d',
+                points: instantCenterCycle.map(s => ({ x: s.angle, y: clipped(s.centers.mechanicalAdvantage) })),
+              },
+            ]}
+            xLabel="Input angle θ (°)"
+            yLabel={`Ratio (clipped to ±${RATIO_PLOT_LIMIT})`}
+            xDomain={[0, 360]}
+            cursorX={((angle % 360) + 360) % 360}
+            shadedX={centerShaded}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: KINEMATICS PANEL ---
+interface KinematicsPanelProps {
+  sweep: KinematicSample[];
+  angle: number;
+  layout: InversionLayout;
+  transmissionBand: { min: number, max: number };
+  onExportSweep: (format: 'csv' | 'json', step: number) => void;
+}
+
+// Input angle steps (degrees) the sweep table may be sampled at
+const SWEEP_STEP_BOUNDS = { min: 0.1, max: 90 };
+
+const KinematicsPanel: React.FC<KinematicsPanelProps> = ({ sweep, angle, layout, transmissionBand, onExportSweep }) => {
+  const [step, setStep] = useState(1);
+  const shaded = unsolvedRanges(sweep.map(s => ({ x: s.angle, valid: s.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+  const linkName = (role: string) => role.charAt(0).toUpperCase() + role.slice(1);
+  const hasRatio = sweep.some(s => isFinite(s.velocityRatio));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Kinematic Plots</h2>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600">
+            Step (°)
+            <input
+              type="number"
+              min={SWEEP_STEP_BOUNDS.min}
+              max={SWEEP_STEP_BOUNDS.max}
+              step="any"
+              value={step}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (v >= SWEEP_STEP_BOUNDS.min && v <= SWEEP_STEP_BOUNDS.max) setStep(v);
+              }}
+              className="w-16 px-2 py-1 rounded-lg border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+          </label>
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => onExportSweep(format, step)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              <Download size={14} /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[
+            {
+              label: `${linkName(layout.links.output)} angle`,
+              color: '#0d9488',
+              points: sweep.map(s => ({ x: s.angle, y: s.outputAngle })),
+            },
+            {
+              label: `${linkName(layout.links.coupler)} angle`,
+              color: '#4f46e5',
+              points: sweep.map(s => ({ x: s.angle, y: s.couplerAngle })),
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Link angle (°)"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[
+            {
+              label: 'Transmission angle μ',
+              color: '#059669',
+              points: sweep.map(s => ({ x: s.angle, y: s.transmissionAngle })),
+            },
+            {
+              label: `Band ${transmissionBand.min}°–${transmissionBand.max}°`,
+              color: '#94a3b8',
+              dashed: true,
+              points: [{ x: 0, y: transmissionBand.min }, { x: 360, y: transmissionBand.min }, { x: 360, y: NaN }, { x: 0, y: transmissionBand.max }, { x: 360, y: transmissionBand.max }],
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="μ (°)"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        {hasRatio && (
+          <LineChart
+            series={[{
+              label: 'ω₄ / ω₂',
+              color: '#2563eb',
+              points: sweep.map(s => ({ x: s.angle, y: s.velocityRatio })),
+            }]}
+            xLabel="Input angle θ (°)"
+            yLabel="Velocity ratio"
+            xDomain={[0, 360]}
+            cursorX={cursor}
+            shadedX={shaded}
+          />
+        )}
+      </div>
+      <p className="text-xs text-slate-400 mt-3 italic">
+        Link angles are measured from the global x axis and run on past ±180° so full turns read as one line. Shaded inputs are out of reach.
+        The exported table lists every joint and both link angles at the chosen step, under the Grashof classification.
+      </p>
+    </div>
+  );
+};
+
+// --- COMPONENT: FORCE PANEL ---
+interface ForcePanelProps {
+  load: StaticLoad;
+  onLoadChange: (load: StaticLoad) => void;
+  statics: StaticAnalysis;
+  cycle: { angle: number, statics: StaticAnalysis }[];
+  angle: number;
+  layout: InversionLayout;
+  showForces: boolean;
+  onShowForcesChange: (show: boolean) => void;
+}
+
+const PIN_COLORS = { A: '#475569', B: '#4f46e5', C: '#0d9488', D: '#d97706' };
+
+const ForcePanel: React.FC<ForcePanelProps> = ({
+  load,
+  onLoadChange,
+  statics,
+  cycle,
+  angle,
+  layout,
+  showForces,
+  onShowForcesChange
+}) => {
+  const pins = (['A', 'B', 'C', 'D'] as const).map(key => ({
+    key,
+    name: layout.joints[key],
+    force: statics[`pin${key}`],
+    color: PIN_COLORS[key],
+  }));
+  const magnitude = (v: { x: number, y: number }) => Math.hypot(v.x, v.y);
+
+  const fields = [
+    { label: 'Force Fx', value: load.force.x, set: (v: number) => onLoadChange({ ...load, force: { ...load.force, x: v } }) },
+    { label: 'Force Fy', value: load.force.y, set: (v: number) => onLoadChange({ ...load, force: { ...load.force, y: v } }) },
+    { label: `Torque on ${layout.links.output}`, value: load.outputTorque, set: (v: number) => onLoadChange({ ...load, outputTorque: v }) },
+  ];
+
+  const shaded = unsolvedRanges(cycle.map(s => ({ x: s.angle, valid: s.statics.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Static Forces</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Applied Load</span>
+          <div className="grid grid-cols-3 gap-3">
+            {fields.map((f) => (
+              <label key={f.label} className="text-xs font-medium text-slate-600 capitalize">
+                {f.label}
+                <input
+                  type="number"
+                  step="any"
+                  value={f.value}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (!isNaN(v)) f.set(v);
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 mt-3">
+            <span className="text-xs text-slate-500">Force acts at</span>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {(['C', 'couplerPoint'] as const).map((at) => (
+                <button
+                  key={at}
+                  onClick={() => onLoadChange({ ...load, forceAt: at })}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    load.forceAt === at ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {at === 'C' ? `Joint ${layout.joints.C}` : 'Coupler point P'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={showForces}
+              onChange={(e) => onShowForcesChange(e.target.checked)}
+              className="accent-orange-600"
+            />
+            Show force vectors
+          </label>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            Global X/Y components; torques are counter-clockwise positive. Links are massless and pins frictionless.
+          </p>
+        </div>
+
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">At θ = {Math.round(angle)}°</span>
+          {statics.isValid ? (
+            <div className="space-y-1 font-mono text-xs text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1 text-sm">
+                <span className="font-sans capitalize">Input torque on {layout.links.input}</span>
+                <span className="font-bold text-indigo-600">{statics.inputTorque.toFixed(1)}</span>
+              </div>
+              {pins.map((p) => (
+                <div key={p.key} className="flex justify-between">
+                  <span style={{ color: p.color }}>Pin {p.name}</span>
+                  <span>
+                    |F| {magnitude(p.force).toFixed(1)} ({p.force.x.toFixed(1)}, {p.force.y.toFixed(1)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              No static solution here: the linkage is open or at a dead point.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[{
+            label: 'Input torque',
+            color: '#4f46e5',
+            points: cycle.map(s => ({ x: s.angle, y: s.statics.inputTorque })),
+          }]}
+          xLabel="Input angle θ (°)"
+          yLabel="Input torque"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={pins.map(p => ({
+            label: `Pin ${p.name}`,
+            color: p.color,
+            points: cycle.map(s => ({
+              x: s.angle,
+              y: s.statics.isValid ? magnitude(s.statics[`pin${p.key}`]) : NaN,
+            })),
+          }))}
+          xLabel="Input angle θ (°)"
+          yLabel="Pin force |F|"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: DYNAMICS PANEL ---
+interface DynamicsPanelProps {
+  lengths: LinkLengths;
+  masses: LinkModel['masses'];
+  onMassesChange: (masses: LinkModel['masses']) => void;
+  layout: InversionLayout;
+  omegaInput: number;
+  dynamics: DynamicAnalysis;
+  cycle: { angle: number, dynamics: DynamicAnalysis }[];
+  staticsCycle: { angle: number, statics: StaticAnalysis }[];
+  angle: number;
+}
+
+type MassField = 'mass' | 'comX' | 'comY' | 'inertia';
+
+const MASS_FIELDS: { key: MassField, label: string }[] = [
+  { key: 'mass', label: 'm' },
+  { key: 'comX', label: 'G x' },
+  { key: 'comY', label: 'G y' },
+  { key: 'inertia', label: 'I_G' },
+];
+
+const DynamicsPanel: React.FC<DynamicsPanelProps> = ({
+  lengths,
+  masses,
+  onMassesChange,
+  layout,
+  omegaInput,
+  dynamics,
+  cycle,
+  staticsCycle,
+  angle
+}) => {
+  const [density, setDensity] = useState<number>(0.01);
+
+  const fieldValue = (props: LinkMass, key: MassField) =>
+    key === 'comX' ? props.com.x : key === 'comY' ? props.com.y : props[key];
+  const setField = (role: keyof LinkLengths, key: MassField, value: number) => {
+    const props = masses[role];
+    const next = key === 'comX' ? { ...props, com: { ...props.com, x: value } }
+      : key === 'comY' ? { ...props, com: { ...props.com, y: value } }
+      : { ...props, [key]: value };
+    onMassesChange({ ...masses, [role]: next });
+  };
+
+  const shaded = unsolvedRanges(cycle.map(s => ({ x: s.angle, valid: s.dynamics.isValid })));
+  const cursor = ((angle % 360) + 360) % 360;
+  const pick = (f: (d: DynamicAnalysis) => number) =>
+    cycle.map(s => ({ x: s.angle, y: s.dynamics.isValid ? f(s.dynamics) : NaN }));
+
+  const pins = (['A', 'B', 'C', 'D'] as const).map(key => ({ key, name: layout.joints[key] }));
+  const pinColors = ['#475569', '#4f46e5', '#0d9488', '#d97706'];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Dynamic Forces</h2>
+        <button
+          onClick={() => downloadFile('linkage-dynamics.csv', dynamicsCycleToCsv(cycle, layout), 'text/csv')}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Download size={14} /> Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Mass Properties</span>
+          <table className="w-full text-xs text-slate-600">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-medium pb-1">Link</th>
+                {MASS_FIELDS.map(f => <th key={f.key} className="text-left font-medium pb-1 pl-1">{f.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {(['input', 'coupler', 'output', 'frame'] as const).map((role) => {
+                const grounded = layout.links.frame === role;
+                return (
+                  <tr key={role} className={grounded ? 'opacity-40' : ''}>
+                    <td className="capitalize pr-1">{role}{grounded ? ' (ground)' : ''}</td>
+                    {MASS_FIELDS.map(f => (
+                      <td key={f.key} className="pl-1 py-0.5">
+                        <input
+                          type="number"
+                          step="any"
+                          disabled={grounded}
+                          value={+fieldValue(masses[role], f.key).toPrecision(6)}
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (!isNaN(v) && (f.key === 'comX' || f.key === 'comY' || v >= 0)) setField(role, f.key, v);
+                          }}
+                          className="w-full px-1.5 py-0.5 rounded border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={() => onMassesChange(uniformBars(lengths, density))}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Uniform bars
+            </button>
+            <span className="text-xs text-slate-500">mass per unit length</span>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={density}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v) && v >= 0) setDensity(v);
+              }}
+              className="w-20 px-1.5 py-0.5 rounded border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+          </div>
+          <p className="text-xs text-slate-400 mt-2 italic">
+            G is measured from each link's first joint along and across the link. Use consistent units; the
+            input turns at a constant ω₂ = {omegaInput} rad/s, and the applied load above is included.
+          </p>
+        </div>
+
+        <div>
+          <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">At θ = {Math.round(angle)}°</span>
+          {dynamics.isValid ? (
+            <div className="space-y-1 font-mono text-xs text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1 text-sm">
+                <span className="font-sans capitalize">Driving torque on {layout.links.input}</span>
+                <span className="font-bold text-indigo-600">{dynamics.inputTorque.toFixed(1)}</span>
+              </div>
+              {pins.map((p, i) => {
+                const f = dynamics[`pin${p.key}`];
+                return (
+                  <div key={p.key} className="flex justify-between">
+                    <span style={{ color: pinColors[i] }}>Pin {p.name}</span>
+                    <span>|F| {Math.hypot(f.x, f.y).toFixed(1)}</span>
+                  </div>
+                );
+              })}
+              <div className="flex justify-between border-t border-slate-50 pt-1">
+                <span>Shaking force</span>
+                <span>({dynamics.shakingForce.x.toFixed(1)}, {dynamics.shakingForce.y.toFixed(1)})</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Shaking moment about {layout.joints.A}</span>
+                <span>{dynamics.shakingMoment.toFixed(1)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              No dynamic solution here: the linkage is open or at a dead point.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LineChart
+          series={[
+            { label: 'Dynamic', color: '#4f46e5', points: pick(d => d.inputTorque) },
+            {
+              label: 'Static only',
+              color: '#94a3b8',
+              dashed: true,
+              points: staticsCycle.map(s => ({ x: s.angle, y: s.statics.inputTorque })),
+            },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Driving torque"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={pins.map((p, i) => ({
+            label: `Pin ${p.name}`,
+            color: pinColors[i],
+            points: pick(d => Math.hypot(d[`pin${p.key}`].x, d[`pin${p.key}`].y)),
+          }))}
+          xLabel="Input angle θ (°)"
+          yLabel="Pin force |F|"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[
+            { label: 'Fx', color: '#dc2626', points: pick(d => d.shakingForce.x) },
+            { label: 'Fy', color: '#2563eb', points: pick(d => d.shakingForce.y) },
+            { label: '|F|', color: '#334155', dashed: true, points: pick(d => Math.hypot(d.shakingForce.x, d.shakingForce.y)) },
+          ]}
+          xLabel="Input angle θ (°)"
+          yLabel="Shaking force"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+        <LineChart
+          series={[{ label: 'Shaking moment', color: '#c026d3', points: pick(d => d.shakingMoment) }]}
+          xLabel="Input angle θ (°)"
+          yLabel="Shaking moment"
+          xDomain={[0, 360]}
+          cursorX={cursor}
+          shadedX={shaded}
+        />
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: SIX-BAR PANEL ---
+interface SixBarPanelProps {
+  dyad: SixBarDyad | null;
+  onDyadChange: (dyad: SixBarDyad | null) => void;
+  check: SixBarCheck | null;
+}
+
+// Starting dyads that assemble over a full turn of the default four-bar
+const SIX_BAR_PRESETS: Record<SixBarType, Pick<SixBarDyad, 'pointE' | 'pointF' | 'lengths'>> = {
+  [SixBarType.WATT_I]: { pointE: { distance: 97, angle: -45 }, pointF: { distance: 58, angle: 48 }, lengths: { first: 141, second: 151 } },
+  [SixBarType.WATT_II]: { pointE: { distance: 87, angle: -27 }, pointF: { distance: 101, angle: -20 }, lengths: { first: 201, second: 106 } },
+  [SixBarType.STEPHENSON_I]: { pointE: { distance: 112, angle: 57 }, pointF: { distance: 46, angle: -70 }, lengths: { first: 197, second: 214 } },
+  [SixBarType.STEPHENSON_II]: { pointE: { distance: 87, angle: -107 }, pointF: { distance: 77, angle: -166 }, lengths: { first: 109, second: 172 } },
+  [SixBarType.STEPHENSON_III]: { pointE: { distance: 138, angle: 19 }, pointF: { distance: 216, angle: 25 }, lengths: { first: 206, second: 181 } },
+};
+
+const SixBarPanel: React.FC<SixBarPanelProps> = ({ dyad, onDyadChange, check }) => {
+  const selectType = (value: string) => {
+    const type = Object.values(SixBarType).find(t => t === value);
+    onDyadChange(type ? { type, branch: dyad?.branch ?? AssemblyBranch.OPEN, ...SIX_BAR_PRESETS[type] } : null);
+  };
+
+  const topology = dyad ? SIX_BAR_TOPOLOGY[dyad.type] : null;
+  const carrier = (link: string) => dyad?.type === SixBarType.STEPHENSON_II && link === 'frame' ? 'driver' : link;
+  const fields = dyad ? [
+    { label: `E on ${carrier(topology.e)}: p`, value: dyad.pointE.distance, set: (v: number) => onDyadChange({ ...dyad, pointE: { ...dyad.pointE, distance: v } }) },
+    { label: 'E: δ°', value: dyad.pointE.angle, set: (v: number) => onDyadChange({ ...dyad, pointE: { ...dyad.pointE, angle: v } }) },
+    { label: `F on ${carrier(topology.f)}: p`, value: dyad.pointF.distance, set: (v: number) => onDyadChange({ ...dyad, pointF: { ...dyad.pointF, distance: v } }) },
+    { label: 'F: δ°', value: dyad.pointF.angle, set: (v: number) => onDyadChange({ ...dyad, pointF: { ...dyad.pointF, angle: v } }) },
+    { label: 'Link E-G', value: dyad.lengths.first, set: (v: number) => onDyadChange({ ...dyad, lengths: { ...dyad.lengths, first: v } }) },
+    { label: 'Link G-F', value: dyad.lengths.second, set: (v: number) => onDyadChange({ ...dyad, lengths: { ...dyad.lengths, second: v } }) },
+  ] : [];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-bold text-slate-800">Six-Bar</h2>
+        <select
+          value={dyad?.type ?? ''}
+          onChange={(e) => selectType(e.target.value)}
+          className="px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+        >
+          <option value="">Off (four-bar only)</option>
+          {Object.values(SixBarType).map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+
+      {dyad ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs text-slate-500 mb-3">{topology.description}</p>
+            <div className="grid grid-cols-2 gap-3">
+              {fields.map((f) => (
+                <label key={f.label} className="text-xs font-medium text-slate-600 capitalize">
+                  {f.label}
+                  <input
+                    type="number"
+                    step="any"
+                    value={f.value}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      if (!isNaN(v)) f.set(v);
+                    }}
+                    className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-3">
+              <span className="text-xs text-slate-500">Dyad branch</span>
+              <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+                {[AssemblyBranch.OPEN, AssemblyBranch.CROSSED].map((b) => (
+                  <button
+                    key={b}
+                    onClick={() => onDyadChange({ ...dyad, branch: b })}
+                    className={`px-2 py-1 rounded-md capitalize transition-colors ${
+                      dyad.branch === b ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {b}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-2 italic">
+              Points are placed from the link's first joint, with δ measured from the link like the coupler point.
+            </p>
+          </div>
+
+          {check && (
+            <div className="space-y-2 text-sm text-slate-600">
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Mobility (Gruebler)</span>
+                <span className={`font-mono font-bold ${check.mobility === 1 ? 'text-green-600' : 'text-red-600'}`}>{check.mobility}</span>
+              </div>
+              {check.loops.map((loop) => (
+                <div key={loop.name} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>{loop.name}</span>
+                  <span className="font-medium text-indigo-600 text-right">{loop.grashof.type}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Assembles over</span>
+                <span className={`font-mono ${check.closure < 1 ? 'text-amber-600' : 'text-slate-700'}`}>
+                  {(check.closure * 100).toFixed(0)}% of a driver turn
+                </span>
+              </div>
+              {check.closure < 1 && (
+                <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                  The dyad cannot reach for part of the cycle; the linkage locks up at the edges of that range.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 italic">
+          Add a dyad to the four-bar to build a Watt or Stephenson six-bar, for dwells and longer strokes.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// --- COMPONENT: SYNTHESIS PANEL ---
+interface SynthesisPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+// Fixed drawing area (model units) so placed poses don't shift under the cursor
+const VIEW = { minX: -300, maxX: 500, minY: -250, maxY: 350 };
+const POSE_COLORS = ['#4f46e5', '#0d9488', '#d97706'];
+
+const SynthesisPanel: React.FC<SynthesisPanelProps> = ({ onLoadDesign }) => {
+  const [poses, setPoses] = useState<CouplerPose[]>([
+    { x: 0, y: 150, angle: 0 },
+    { x: 80, y: 190, angle: -20 },
+    { x: 160, y: 160, angle: -45 },
+  ]);
+  const [poseCount, setPoseCount] = useState<2 | 3>(3);
+  const [selected, setSelected] = useState<number>(0);
+  const [movingB, setMovingB] = useState<Vector2>({ x: -60, y: -60 });
+  const [movingC, setMovingC] = useState<Vector2>({ x: 60, y: -60 });
+  const [offsets, setOffsets] = useState<[number, number]>([-100, -100]);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const activePoses = poses.slice(0, poseCount);
+  const result = synthesizeMotion(activePoses, [movingB, movingC], offsets);
+  const grashof = result.design ? determineGrashof(result.design.lengths) : null;
+
+  const updatePose = (index: number, patch: Partial<CouplerPose>) => {
+    setPoses(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  // Screen -> model coordinates; the drawing group flips Y so it points up
+  const handleCanvasClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+    updatePose(selected, { x: Math.round(local.x), y: Math.round(-local.y) });
+  };
+
+  const gridLines = [];
+  for (let x = VIEW.minX; x <= VIEW.maxX; x += 50) gridLines.push({ x1: x, y1: VIEW.minY, x2: x, y2: VIEW.maxY });
+  for (let y = VIEW.minY; y <= VIEW.maxY; y += 50) gridLines.push({ x1: VIEW.minX, y1: y, x2: VIEW.maxX, y2: y });
+
+  const pivotSliders = [
+    { label: 'B along pose (x)', value: movingB.x, set: (v: number) => setMovingB({ ...movingB, x: v }) },
+    { label: 'B across pose (y)', value: movingB.y, set: (v: number) => setMovingB({ ...movingB, y: v }) },
+    { label: 'C along pose (x)', value: movingC.x, set: (v: number) => setMovingC({ ...movingC, x: v }) },
+    { label: 'C across pose (y)', value: movingC.y, set: (v: number) => setMovingC({ ...movingC, y: v }) },
+  ];
+
+  const [A, D] = result.groundPivots;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            viewBox={`${VIEW.minX} ${-VIEW.maxY} ${VIEW.maxX - VIEW.minX} ${VIEW.maxY - VIEW.minY}`}
+            preserveAspectRatio="xMidYMid meet"
+            onClick={handleCanvasClick}
+            className="cursor-crosshair"
+          >
+            <g transform="scale(1, -1)">
+              {gridLines.map((l, i) => (
+                <line key={i} {...l} stroke="#e2e8f0" strokeWidth="1" />
+              ))}
+              <line x1={VIEW.minX} y1={0} x2={VIEW.maxX} y2={0} stroke="#cbd5e1" strokeWidth="2" />
+              <line x1={0} y1={VIEW.minY} x2={0} y2={VIEW.maxY} stroke="#cbd5e1" strokeWidth="2" />
+
+              {/* Coupler plate in every pose */}
+              {result.movingPivots.map(([B, C], j) => (
+                <polygon
+                  key={`plate-${j}`}
+                  points={`${B.x},${B.y} ${C.x},${C.y} ${activePoses[j].x},${activePoses[j].y}`}
+                  fill={POSE_COLORS[j]}
+                  fillOpacity={0.12}
+                  stroke={POSE_COLORS[j]}
+                  strokeWidth="2"
+                  strokeDasharray={j === 0 ? undefined : '6,4'}
+                />
+              ))}
+
+              {/* Synthesized linkage in the first pose */}
+              {result.isValid && (
+                <g>
+                  <circle cx={A.x} cy={A.y} r={Math.hypot(result.movingPivots[0][0].x - A.x, result.movingPivots[0][0].y - A.y)} fill="none" stroke="#94a3b8" strokeDasharray="4,6" />
+                  <circle cx={D.x} cy={D.y} r={Math.hypot(result.movingPivots[0][1].x - D.x, result.movingPivots[0][1].y - D.y)} fill="none" stroke="#94a3b8" strokeDasharray="4,6" />
+                  <line x1={A.x} y1={A.y} x2={D.x} y2={D.y} stroke="#334155" strokeWidth="4" strokeDasharray="10,6" opacity={0.5} />
+                  <line x1={A.x} y1={A.y} x2={result.movingPivots[0][0].x} y2={result.movingPivots[0][0].y} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={D.x} y1={D.y} x2={result.movingPivots[0][1].x} y2={result.movingPivots[0][1].y} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  {[A, D].map((p, i) => (
+                    <g key={`ground-${i}`}>
+                      <path d={`M ${p.x - 12} ${p.y - 12} L ${p.x + 12} ${p.y - 12} L ${p.x} ${p.y} Z`} fill="#94a3b8" />
+                      <circle cx={p.x} cy={p.y} r={7} fill="white" stroke="#1e293b" strokeWidth="3" />
+                    </g>
+                  ))}
+                </g>
+              )}
+
+              {result.movingPivots.flat().map((p, i) => (
+                <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={5} fill="white" stroke="#1e293b" strokeWidth="2" />
+              ))}
+
+              {/* Target poses: point plus orientation arrow */}
+              {activePoses.map((pose, j) => {
+                const tipX = pose.x + 45 * Math.cos((pose.angle * Math.PI) / 180);
+                const tipY = pose.y + 45 * Math.sin((pose.angle * Math.PI) / 180);
+                return (
+                  <g key={`pose-${j}`} onClick={(e) => { e.stopPropagation(); setSelected(j); }} className="cursor-pointer">
+                    <line x1={pose.x} y1={pose.y} x2={tipX} y2={tipY} stroke={POSE_COLORS[j]} strokeWidth="4" strokeLinecap="round" />
+                    <circle cx={pose.x} cy={pose.y} r={selected === j ? 10 : 8} fill={POSE_COLORS[j]} stroke="white" strokeWidth="3" />
+                  </g>
+                );
+              })}
             </g>
-          </>
-        ) : (
-           <g transform="scale(1, -1)">
-             <text x={centerX} y={-centerY} textAnchor="middle" className="text-red-500 font-bold text-2xl">
-               Impossible Configuration
-             </text>
-             <text x={centerX} y={-centerY + 35} textAnchor="middle" className="text-slate-500 text-lg">
-               Link lengths cannot form a closed loop at this angle.
-             </text>
-           </g>
+
+            {/* Labels drawn unflipped */}
+            {activePoses.map((pose, j) => (
+              <text key={`label-${j}`} x={pose.x + 12} y={-pose.y - 14} className="font-bold" fill={POSE_COLORS[j]} style={{fontSize: '18px'}}>
+                {j + 1}
+              </text>
+            ))}
+            {result.isValid && (
+              <>
+                <text x={A.x} y={-A.y + 32} textAnchor="middle" className="fill-slate-600 font-bold" style={{fontSize: '18px'}}>A</text>
+                <text x={D.x} y={-D.y + 32} textAnchor="middle" className="fill-slate-600 font-bold" style={{fontSize: '18px'}}>D</text>
+              </>
+            )}
+          </svg>
+
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-indigo-600" />
+            Click the canvas to move pose {selected + 1}
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Coupler Poses</h2>
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {([2, 3] as const).map((n) => (
+                <button
+                  key={n}
+                  onClick={() => { setPoseCount(n); setSelected(Math.min(selected, n - 1)); }}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    poseCount === n ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {n} positions
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {activePoses.map((pose, j) => (
+              <div
+                key={j}
+                onClick={() => setSelected(j)}
+                className={`p-3 rounded-lg border cursor-pointer ${selected === j ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100'}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-3 h-3 rounded-full" style={{ background: POSE_COLORS[j] }}></div>
+                  <span className="text-sm font-medium text-slate-700">Pose {j + 1}</span>
+                  <span className="ml-auto text-xs font-mono text-slate-500">({pose.x}, {pose.y})</span>
+                </div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-xs text-slate-500">Orientation</label>
+                  <span className="text-xs font-mono text-slate-500">{pose.angle}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={-180}
+                  max={180}
+                  value={pose.angle}
+                  onChange={(e) => updatePose(j, { angle: parseInt(e.target.value) })}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-1">Moving Pivots</h2>
+          <p className="text-xs text-slate-400 mb-4 italic">Position of B and C on the coupler, relative to the pose point and arrow.</p>
+          <div className="space-y-4">
+            {pivotSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{s.value}</span>
+                </div>
+                <input
+                  type="range"
+                  min={-200}
+                  max={200}
+                  value={s.value}
+                  onChange={(e) => s.set(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+            {poseCount === 2 && ['A', 'D'].map((name, i) => (
+              <div key={name}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{name} along bisector</label>
+                  <span className="text-sm font-bold text-indigo-600">{offsets[i]}</span>
+                </div>
+                <input
+                  type="range"
+                  min={-300}
+                  max={300}
+                  value={offsets[i]}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    setOffsets(i === 0 ? [value, offsets[1]] : [offsets[0], value]);
+                  }}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+          {result.isValid && result.design ? (
+            <div className="space-y-2 text-sm text-slate-600">
+              {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="capitalize">{key}</span>
+                  <span className="font-mono">{result.design.lengths[key].toFixed(1)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Type</span>
+                <span className="font-medium text-indigo-600">{grashof?.type}</span>
+              </div>
+              {result.branchDefect && (
+                <div className="p-3 bg-red-50 text-red-700 rounded text-xs leading-relaxed">
+                  <strong>Branch defect:</strong> The poses lie on different assembly branches, so the linkage
+                  would have to be taken apart to reach all of them.
+                </div>
+              )}
+              {result.orderDefect && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                  <strong>Order defect:</strong> The driver rocks and cannot reach the poses in sequence
+                  without reversing at a toggle position.
+                </div>
+              )}
+              <button
+                onClick={() => onLoadDesign(result.design)}
+                className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Upload size={18} /> Load into Simulator
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-red-600">{result.error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: FUNCTION GENERATOR PANEL ---
+interface FunctionGeneratorPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+const PRESETS = ['log10(x)', 'x^2', 'sin(x)', '1/x', 'exp(x)', 'sqrt(x)'];
+
+const FunctionGeneratorPanel: React.FC<FunctionGeneratorPanelProps> = ({ onLoadDesign }) => {
+  const [expression, setExpression] = useState<string>('log10(x)');
+  const [xStart, setXStart] = useState<number>(1);
+  const [xEnd, setXEnd] = useState<number>(10);
+  const [inputStart, setInputStart] = useState<number>(15);
+  const [inputRange, setInputRange] = useState<number>(60);
+  const [outputStart, setOutputStart] = useState<number>(75);
+  const [outputRange, setOutputRange] = useState<number>(90);
+  const [frame, setFrame] = useState<number>(200);
+  const [precisionPoints, setPrecisionPoints] = useState<number[]>(chebyshevSpacing(1, 10));
+
+  const compiled = useMemo(() => compileExpression(expression), [expression]);
+  const result = useMemo(() => compiled.fn
+    ? synthesizeFunctionGenerator({
+        fn: compiled.fn, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame, precisionPoints
+      })
+    : null,
+    [compiled, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame, precisionPoints]
+  );
+  const grashof = result?.design ? determineGrashof(result.design.lengths) : null;
+
+  const setRange = (start: number, end: number) => {
+    setXStart(start);
+    setXEnd(end);
+    setPrecisionPoints(chebyshevSpacing(start, end));
+  };
+
+  const numberField = (label: string, value: number, onChange: (v: number) => void, unit: string = '') => (
+    <label className="text-sm font-medium text-slate-600">
+      {label}{unit && <span className="text-slate-400"> ({unit})</span>}
+      <input
+        type="number"
+        step="any"
+        value={+value.toFixed(4)}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          if (!isNaN(v)) onChange(v);
+        }}
+        className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+      />
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800 mb-1 border-b pb-2">Structural Error</h2>
+          <p className="text-xs text-slate-400 mb-4 italic">
+            Output angle error (achieved − desired) across the x range. It vanishes at the precision points (dashed).
+          </p>
+          {result?.isValid ? (
+            <LineChart
+              series={[{ label: 'Error', color: '#4f46e5', points: result.structuralError.map(p => ({ x: p.x, y: p.error })) }]}
+              xLabel="x"
+              yLabel="Output error (°)"
+              xDomain={[Math.min(xStart, xEnd), Math.max(xStart, xEnd)]}
+              markers={precisionPoints}
+            />
+          ) : (
+            <p className="text-sm text-red-600">{compiled.error ?? result?.error}</p>
+          )}
+        </div>
+
+        {result?.isValid && result.design && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Designed Linkage</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2 text-sm text-slate-600">
+                {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                  <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                    <span className="capitalize">{key}</span>
+                    <span className="font-mono">{result.design.lengths[key].toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2 text-sm text-slate-600">
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Type</span>
+                  <span className="font-medium text-indigo-600">{grashof?.type}</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Max structural error</span>
+                  <span className="font-mono">{result.maxError.toFixed(3)}°</span>
+                </div>
+                {!result.coversRange && (
+                  <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                    <strong>Warning:</strong> The linkage cannot assemble over the whole x range on one branch.
+                  </div>
+                )}
+                {result.branchDefect && (
+                  <div className="p-3 bg-red-50 text-red-700 rounded text-xs leading-relaxed">
+                    <strong>Branch defect:</strong> The precision points are met on different assembly branches.
+                  </div>
+                )}
+                <button
+                  onClick={() => onLoadDesign(result.design)}
+                  className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  <Upload size={18} /> Load into Simulator
+                </button>
+              </div>
+            </div>
+          </div>
         )}
-      </svg>
-      
-      <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm p-4 rounded-lg shadow border border-slate-200 text-sm">
-          <div className="flex items-center mb-2">
-            <div className="w-4 h-4 rounded-full bg-green-600 mr-2"></div>
-            <span className="font-medium">Shortest Link (S)</span>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Target Function</h2>
+          <label className="text-sm font-medium text-slate-600">
+            y = f(x)
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              className={`mt-1 w-full px-2 py-1 rounded-lg border font-mono text-sm text-slate-700 focus:outline-none ${
+                compiled.error ? 'border-red-300 focus:border-red-400' : 'border-slate-200 focus:border-indigo-400'
+              }`}
+            />
+          </label>
+          {compiled.error && <p className="text-xs text-red-600 mt-1">{compiled.error}</p>}
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {PRESETS.map((p) => (
+              <button
+                key={p}
+                onClick={() => setExpression(p)}
+                className="px-2 py-0.5 rounded bg-slate-100 text-xs font-mono text-slate-600 hover:bg-slate-200"
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            {numberField('x start', xStart, v => setRange(v, xEnd))}
+            {numberField('x end', xEnd, v => setRange(xStart, v))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Angle Mapping</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('Input start φ₀', inputStart, setInputStart, '°')}
+            {numberField('Input range Δφ', inputRange, setInputRange, '°')}
+            {numberField('Output start ψ₀', outputStart, setOutputStart, '°')}
+            {numberField('Output range Δψ', outputRange, setOutputRange, '°')}
+            {numberField('Frame length d', frame, v => v > 0 && setFrame(v))}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Precision Points</h2>
+            <button
+              onClick={() => setPrecisionPoints(chebyshevSpacing(xStart, xEnd))}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Chebyshev spacing
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {precisionPoints.map((x, i) =>
+              <React.Fragment key={i}>
+                {numberField(`x${i + 1}`, x, v => setPrecisionPoints(precisionPoints.map((p, k) => (k === i ? v : p))))}
+              </React.Fragment>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- COMPONENT: PATH SYNTHESIS PANEL ---
+interface PathSynthesisPanelProps {
+  onLoadDesign: (design: LinkageDesign) => void;
+}
+
+// Fixed drawing area (model units), as in the motion synthesis view
+const PATH_VIEW = { minX: -300, maxX: 500, minY: -250, maxY: 350 };
+const TYPE_CHOICES = [
+  BarkerType.GCRR,
+  BarkerType.GCCC,
+  BarkerType.GRCR,
+  BarkerType.GRRC,
+  BarkerType.RRR1,
+  BarkerType.RRR2,
+  BarkerType.RRR3,
+  BarkerType.RRR4,
+];
+
+const PathSynthesisPanel: React.FC<PathSynthesisPanelProps> = ({ onLoadDesign }) => {
+  const [targets, setTargets] = useState<Vector2[]>([
+    { x: 3, y: 110 }, { x: 28, y: 149 }, { x: -7, y: 155 }, { x: -61, y: 121 }, { x: -84, y: 64 }, { x: -57, y: 51 },
+  ]);
+  const [timing, setTiming] = useState<number[]>([0, 50, 100, 160, 230, 300]);
+  const [useTiming, setUseTiming] = useState<boolean>(false);
+  const [branch, setBranch] = useState<AssemblyBranch>(AssemblyBranch.OPEN);
+  const [grashofType, setGrashofType] = useState<BarkerType | ''>(BarkerType.GCRR);
+  const [result, setResult] = useState<PathSynthesisResult | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [runs, setRuns] = useState<number>(0);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const design = result?.isValid ? result.design : undefined;
+  const grashof = design ? determineGrashof(design.lengths) : null;
+
+  // Let the button repaint before the (blocking) search starts
+  const runOptimizer = (initial?: LinkageDesign) => {
+    setRunning(true);
+    setTimeout(() => {
+      setResult(synthesizePath({
+        targets,
+        timing: useTiming ? timing : undefined,
+        branch,
+        grashofType: grashofType || undefined,
+        initial,
+        seed: runs + 1,
+      }));
+      setRuns(runs + 1);
+      setRunning(false);
+    }, 20);
+  };
+
+  const addTarget = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+    setTargets([...targets, { x: Math.round(local.x), y: Math.round(-local.y) }]);
+    setTiming([...timing, timing.length ? timing[timing.length - 1] + 30 : 0]);
+  };
+
+  const removeTarget = (index: number) => {
+    setTargets(targets.filter((_, i) => i !== index));
+    setTiming(timing.filter((_, i) => i !== index));
+  };
+
+  const updateTarget = (index: number, patch: Partial<Vector2>) => {
+    setTargets(targets.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  // Fitted linkage at the first target, plus its full coupler curve
+  let joints = null;
+  let couplerCurve: Vector2[][] = [];
+  if (design) {
+    const range = calculateReachableRange(design.lengths, design.placement.angle);
+    joints = calculateJoints(design.lengths, design.angle, design.branch, design.placement);
+    couplerCurve = traceCouplerCurve(design.lengths, design.branch, design.couplerPoint, range, design.placement);
+  }
+  const pathPoint = joints && design ? calculateCouplerPoint(joints, design.couplerPoint) : null;
+  const pivots = design ? groundPivots(design.placement, design.lengths.frame) : null;
+
+  const gridLines = [];
+  for (let x = PATH_VIEW.minX; x <= PATH_VIEW.maxX; x += 50) gridLines.push({ x1: x, y1: PATH_VIEW.minY, x2: x, y2: PATH_VIEW.maxY });
+  for (let y = PATH_VIEW.minY; y <= PATH_VIEW.maxY; y += 50) gridLines.push({ x1: PATH_VIEW.minX, y1: y, x2: PATH_VIEW.maxX, y2: y });
+
+  const numberInput = (value: number, onChange: (v: number) => void) => (
+    <input
+      type="number"
+      step={1}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!isNaN(v)) onChange(v);
+      }}
+      className="w-full px-2 py-1 rounded-lg border border-slate-200 font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+    />
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            viewBox={`${PATH_VIEW.minX} ${-PATH_VIEW.maxY} ${PATH_VIEW.maxX - PATH_VIEW.minX} ${PATH_VIEW.maxY - PATH_VIEW.minY}`}
+            preserveAspectRatio="xMidYMid meet"
+            onClick={addTarget}
+            className="cursor-crosshair"
+          >
+            <g transform="scale(1, -1)">
+              {gridLines.map((l, i) => (
+                <line key={i} {...l} stroke="#e2e8f0" strokeWidth="1" />
+              ))}
+              <line x1={PATH_VIEW.minX} y1={0} x2={PATH_VIEW.maxX} y2={0} stroke="#cbd5e1" strokeWidth="2" />
+              <line x1={0} y1={PATH_VIEW.minY} x2={0} y2={PATH_VIEW.maxY} stroke="#cbd5e1" strokeWidth="2" />
+
+              {couplerCurve.map((curve, i) => (
+                <polyline
+                  key={`curve-${i}`}
+                  points={curve.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke="#0d9488"
+                  strokeWidth="3"
+                />
+              ))}
+
+              {/* Fitted linkage at the first target */}
+              {joints?.isValid && pivots && pathPoint && (
+                <g>
+                  <line x1={pivots.Ax} y1={pivots.Ay} x2={pivots.Dx} y2={pivots.Dy} stroke="#334155" strokeWidth="4" strokeDasharray="10,6" opacity={0.5} />
+                  <polygon
+                    points={`${joints.Bx},${joints.By} ${joints.Cx},${joints.Cy} ${pathPoint.x},${pathPoint.y}`}
+                    fill="#0d9488"
+                    fillOpacity={0.12}
+                    stroke="#0d9488"
+                    strokeWidth="2"
+                  />
+                  <line x1={joints.Ax} y1={joints.Ay} x2={joints.Bx} y2={joints.By} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={joints.Bx} y1={joints.By} x2={joints.Cx} y2={joints.Cy} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  <line x1={joints.Dx} y1={joints.Dy} x2={joints.Cx} y2={joints.Cy} stroke="#334155" strokeWidth="5" strokeLinecap="round" />
+                  {[{ x: pivots.Ax, y: pivots.Ay }, { x: pivots.Dx, y: pivots.Dy }].map((p, i) => (
+                    <g key={`ground-${i}`}>
+                      <path d={`M ${p.x - 12} ${p.y - 12} L ${p.x + 12} ${p.y - 12} L ${p.x} ${p.y} Z`} fill="#94a3b8" />
+                      <circle cx={p.x} cy={p.y} r={7} fill="white" stroke="#1e293b" strokeWidth="3" />
+                    </g>
+                  ))}
+                  {[{ x: joints.Bx, y: joints.By }, { x: joints.Cx, y: joints.Cy }].map((p, i) => (
+                    <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={5} fill="white" stroke="#1e293b" strokeWidth="2" />
+                  ))}
+                </g>
+              )}
+
+              {/* Residuals: each target to its curve point */}
+              {result?.isValid && result.matchedPoints.map((p, i) => (
+                <line key={`residual-${i}`} x1={targets[i]?.x} y1={targets[i]?.y} x2={p.x} y2={p.y} stroke="#dc2626" strokeWidth="2" strokeDasharray="4,3" />
+              ))}
+
+              {targets.map((p, i) => (
+                <circle key={`target-${i}`} cx={p.x} cy={p.y} r={7} fill="#4f46e5" stroke="white" strokeWidth="2" />
+              ))}
+            </g>
+
+            {/* Labels drawn unflipped */}
+            {targets.map((p, i) => (
+              <text key={`label-${i}`} x={p.x + 10} y={-p.y - 10} className="font-bold" fill="#4f46e5" style={{fontSize: '16px'}}>
+                {i + 1}
+              </text>
+            ))}
+          </svg>
+
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-indigo-600" />
+            Click the canvas to add a target point
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-slate-800">Target Points</h2>
+            <button
+              onClick={() => { setTargets([]); setTiming([]); }}
+              className="px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+            >
+              Clear
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer mb-3">
+            <input
+              type="checkbox"
+              checked={useTiming}
+              onChange={(e) => setUseTiming(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            Prescribe timing (input angle at each point)
+          </label>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {targets.map((p, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="w-5 text-xs font-bold text-indigo-600">{i + 1}</span>
+                {numberInput(p.x, v => updateTarget(i, { x: v }))}
+                {numberInput(p.y, v => updateTarget(i, { y: v }))}
+                {useTiming && numberInput(timing[i], v => setTiming(timing.map((t, k) => (k === i ? v : t))))}
+                <button onClick={() => removeTarget(i)} className="text-slate-400 hover:text-red-600" title="Remove point">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          {useTiming && (
+            <p className="text-xs text-slate-400 mt-2 italic">
+              Last column: input angle in degrees. Only the differences matter; the start angle is optimized.
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Search</h2>
+          <div className="space-y-4">
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {[AssemblyBranch.OPEN, AssemblyBranch.CROSSED].map((b) => (
+                <button
+                  key={b}
+                  onClick={() => setBranch(b)}
+                  className={`flex-1 px-2 py-1 rounded-md capitalize transition-colors ${
+                    branch === b ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {b}
+                </button>
+              ))}
+            </div>
+            <label className="block text-sm font-medium text-slate-600">
+              Mechanism type
+              <select
+                value={grashofType}
+                onChange={(e) => setGrashofType(e.target.value as BarkerType | '')}
+                className="mt-1 w-full px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+              >
+                <option value="">Any</option>
+                {TYPE_CHOICES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-slate-400 italic">
+              Link lengths and the coupler point stay within the simulator's slider ranges.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => runOptimizer()}
+                disabled={running}
+                className="flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Wand2 size={18} /> {running ? 'Optimizing…' : runs > 0 ? 'New Start' : 'Optimize'}
+              </button>
+              {design && (
+                <button
+                  onClick={() => runOptimizer(design)}
+                  disabled={running}
+                  className="flex-1 py-2 px-4 rounded-lg font-medium transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                >
+                  Refine
+                </button>
+              )}
+            </div>
           </div>
-          <div className="flex items-center">
-            <div className="w-4 h-4 rounded-full bg-red-500 mr-2"></div>
-            <span className="font-medium">Longest Link (L)</span>
+        </div>
+
+        {result && (
+          <div className="border-t border-slate-100 pt-6">
+            <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+            {design ? (
+              <div className="space-y-2 text-sm text-slate-600">
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>RMS residual</span>
+                  <span className="font-mono">{result.rmsError.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Max residual</span>
+                  <span className="font-mono">{result.maxError.toFixed(2)}</span>
+                </div>
+                {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                  <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                    <span className="capitalize">{key}</span>
+                    <span className="font-mono">{design.lengths[key].toFixed(1)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Coupler point (p, δ)</span>
+                  <span className="font-mono">{design.couplerPoint.distance.toFixed(1)}, {design.couplerPoint.angle.toFixed(1)}°</span>
+                </div>
+                <div className="flex justify-between border-b border-slate-50 pb-1">
+                  <span>Type</span>
+                  <span className="font-medium text-indigo-600">{grashof?.type}</span>
+                </div>
+                <button
+                  onClick={() => onLoadDesign(design)}
+                  className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  <Upload size={18} /> Load into Simulator
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-red-600">{result.error}</p>
+            )}
           </div>
+        )}
       </div>
     </div>
   );
 };
 
-// --- COMPONENT: CONTROLS ---
-interface ControlsProps {
-  lengths: LinkLengths;
-  onLengthChange: (key: keyof LinkLengths, value: number) => void;
-  angle: number;
-  onAngleChange: (angle: number) => void;
-  isPlaying: boolean;
-  onTogglePlay: () => void;
-  speed: number;
-  onSpeedChange: (speed: number) => void;
+// --- COMPONENT: CRANK-ROCKER PANEL ---
+interface CrankRockerPanelProps {
+  minTransmission: number;
+  onLoadDesign: (design: LinkageDesign) => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ 
-  lengths, 
-  onLengthChange, 
-  angle, 
-  onAngleChange, 
-  isPlaying, 
-  onTogglePlay,
-  speed,
-  onSpeedChange
-}) => {
-  const sliders = [
-    { key: 'input', label: 'Input Link (a)', min: 20, max: 200 },
-    { key: 'coupler', label: 'Coupler Link (b)', min: 20, max: 300 },
-    { key: 'output', label: 'Output Link (c)', min: 20, max: 200 },
-    { key: 'frame', label: 'Frame (d)', min: 50, max: 300 },
+const CrankRockerPanel: React.FC<CrankRockerPanelProps> = ({ minTransmission, onLoadDesign }) => {
+  const [rocker, setRocker] = useState<number>(100);
+  const [swingAngle, setSwingAngle] = useState<number>(45);
+  const [timeRatio, setTimeRatio] = useState<number>(1.25);
+  const [pivot, setPivot] = useState(() =>
+    bestCrankRockerPivot({ rocker: 100, swingAngle: 45, timeRatio: 1.25 }) ?? { foldedDistance: 50, farSide: false }
+  );
+
+  const result = designCrankRocker({ rocker, swingAngle, timeRatio, ...pivot });
+  const pivotLimit = Math.min(result.maxFoldedDistance, 3 * rocker);
+  const transmissionOk = result.isValid
+    && result.transmission.min >= minTransmission && result.transmission.max <= 180 - minTransmission;
+  const outOfRange = result.design && (Object.keys(LINK_LENGTH_BOUNDS) as (keyof typeof LINK_LENGTH_BOUNDS)[]).some(key =>
+    result.design.lengths[key] < LINK_LENGTH_BOUNDS[key].min || result.design.lengths[key] > LINK_LENGTH_BOUNDS[key].max
+  );
+
+  const applyBestPivot = () => {
+    const best = bestCrankRockerPivot({ rocker, swingAngle, timeRatio });
+    if (best) setPivot(best);
+  };
+
+  // Construction drawing, fitted around the pivots and rocker positions
+  let drawing = null;
+  if (result.points) {
+    const { A, D, C1, C2 } = result.points;
+    const a = result.design?.lengths.input ?? 0;
+    const unit = (from: Vector2, to: Vector2) => {
+      const len = Math.hypot(to.x - from.x, to.y - from.y);
+      return { x: (to.x - from.x) / len, y: (to.y - from.y) / len };
+    };
+    const towardsC1 = unit(A, C1);
+    const towardsC2 = unit(A, C2);
+    const B1 = { x: A.x + a * towardsC1.x, y: A.y + a * towardsC1.y };
+    const B2 = { x: A.x - a * towardsC2.x, y: A.y - a * towardsC2.y };
+
+    // Locus of A: the circle through C1 and C2 seeing their chord under δ
+    const delta = (Math.PI * (timeRatio - 1)) / (timeRatio + 1);
+    let locus: { x: number, y: number, r: number } | null = null;
+    if (delta > 1e-6) {
+      const r = Math.abs(C2.x - C1.x) / (2 * Math.sin(delta));
+      const rise = Math.sqrt(Math.max(0, r * r - ((C2.x - C1.x) / 2) ** 2));
+      const centers = [{ x: 0, y: C1.y + rise, r }, { x: 0, y: C1.y - rise, r }];
+      locus = centers.reduce((p, q) =>
+        Math.abs(Math.hypot(A.x - p.x, A.y - p.y) - r) <= Math.abs(Math.hypot(A.x - q.x, A.y - q.y) - r) ? p : q
+      );
+    }
+
+    const xs = [A.x, D.x, C1.x, C2.x, A.x - a, A.x + a];
+    const ys = [A.y, D.y, C1.y, C2.y, A.y - a, A.y + a];
+    const pad = 0.15 * Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    const view = {
+      x: Math.min(...xs) - pad,
+      y: -(Math.max(...ys) + pad),
+      w: Math.max(...xs) - Math.min(...xs) + 2 * pad,
+      h: Math.max(...ys) - Math.min(...ys) + 2 * pad,
+    };
+    const stroke = view.w / 200;
+    const fontSize = view.w / 30;
+    const arcLarge = swingAngle > 180 ? 1 : 0;
+
+    drawing = (
+      <svg width="100%" height="100%" viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`} preserveAspectRatio="xMidYMid meet">
+        <g transform="scale(1, -1)">
+          {locus && (
+            <circle cx={locus.x} cy={locus.y} r={locus.r} fill="none" stroke="#cbd5e1" strokeWidth={stroke} strokeDasharray={`${3 * stroke},${3 * stroke}`} />
+          )}
+          <path
+            d={`M ${C2.x} ${C2.y} A ${rocker} ${rocker} 0 ${arcLarge} 1 ${C1.x} ${C1.y}`}
+            fill="none"
+            stroke="#0d9488"
+            strokeWidth={2 * stroke}
+          />
+          <circle cx={A.x} cy={A.y} r={a} fill="none" stroke="#94a3b8" strokeWidth={stroke} strokeDasharray={`${2 * stroke},${3 * stroke}`} />
+          <line x1={A.x} y1={A.y} x2={D.x} y2={D.y} stroke="#334155" strokeWidth={2 * stroke} strokeDasharray={`${5 * stroke},${3 * stroke}`} opacity={0.5} />
+
+          {/* Stretched-out and folded toggle positions */}
+          <line x1={B1.x} y1={B1.y} x2={C1.x} y2={C1.y} stroke="#4f46e5" strokeWidth={2 * stroke} />
+          <line x1={B2.x} y1={B2.y} x2={C2.x} y2={C2.y} stroke="#d97706" strokeWidth={2 * stroke} />
+          <line x1={A.x} y1={A.y} x2={B1.x} y2={B1.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={A.x} y1={A.y} x2={B2.x} y2={B2.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={D.x} y1={D.y} x2={C1.x} y2={C1.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+          <line x1={D.x} y1={D.y} x2={C2.x} y2={C2.y} stroke="#334155" strokeWidth={3 * stroke} strokeLinecap="round" />
+
+          {[A, D].map((p, i) => (
+            <circle key={`ground-${i}`} cx={p.x} cy={p.y} r={3 * stroke} fill="white" stroke="#1e293b" strokeWidth={1.5 * stroke} />
+          ))}
+          {[B1, B2, C1, C2].map((p, i) => (
+            <circle key={`moving-${i}`} cx={p.x} cy={p.y} r={2.5 * stroke} fill="white" stroke="#1e293b" strokeWidth={stroke} />
+          ))}
+        </g>
+
+        {/* Labels drawn unflipped */}
+        {[{ p: A, label: 'A' }, { p: D, label: 'D' }, { p: C1, label: 'C₁' }, { p: C2, label: 'C₂' }, { p: B1, label: 'B₁' }, { p: B2, label: 'B₂' }].map(({ p, label }) => (
+          <text key={label} x={p.x + fontSize * 0.6} y={-p.y - fontSize * 0.6} className="fill-slate-600 font-bold" style={{fontSize: `${fontSize}px`}}>
+            {label}
+          </text>
+        ))}
+      </svg>
+    );
+  }
+
+  const specSliders = [
+    { label: 'Rocker Length (c)', min: LINK_LENGTH_BOUNDS.output.min, max: LINK_LENGTH_BOUNDS.output.max, step: 1, value: rocker, unit: '', set: setRocker },
+    { label: 'Swing Angle (φ)', min: 5, max: 150, step: 1, value: swingAngle, unit: '°', set: setSwingAngle },
+    { label: 'Time Ratio (Q)', min: 1, max: 2.5, step: 0.01, value: timeRatio, unit: '', set: setTimeRatio },
   ];
 
   return (
-    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-full flex flex-col gap-6">
-      <div>
-        <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
-          <RotateCw className="w-5 h-5 text-indigo-600" />
-          Link Configuration
-        </h2>
-        
-        <div className="space-y-5">
-          {sliders.map((s) => (
-            <div key={s.key}>
-              <div className="flex justify-between mb-1">
-                <label className="text-sm font-medium text-slate-600">{s.label}</label>
-                <span className="text-sm font-bold text-indigo-600">{lengths[s.key as keyof LinkLengths]}</span>
-              </div>
-              <input
-                type="range"
-                min={s.min}
-                max={s.max}
-                value={lengths[s.key as keyof LinkLengths]}
-                onChange={(e) => onLengthChange(s.key as keyof LinkLengths, parseInt(e.target.value))}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-              />
-            </div>
-          ))}
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-8 flex flex-col gap-4">
+        <div className="h-[400px] md:h-[560px] bg-slate-100 rounded-lg border border-slate-200 overflow-hidden relative shadow-inner">
+          {drawing}
+          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow border border-slate-200 text-xs text-slate-600 max-w-xs">
+            C₁ and C₂ are the rocker's extreme positions. The crank pivot A lies on the dashed circle, which sees C₁C₂ under
+            δ = 180°·(Q − 1)/(Q + 1) = {((180 * (timeRatio - 1)) / (timeRatio + 1)).toFixed(1)}°.
+          </div>
         </div>
       </div>
 
-      <div className="border-t border-slate-100 pt-6">
-        <h2 className="text-lg font-bold text-slate-800 mb-4">Simulation Control</h2>
-        
-        <div className="flex items-center gap-4 mb-4">
-          <button
-            onClick={onTogglePlay}
-            className={`flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors ${
-              isPlaying 
-                ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' 
-                : 'bg-indigo-600 text-white hover:bg-indigo-700'
-            }`}
-          >
-            {isPlaying ? <><Pause size={18} /> Pause</> : <><Play size={18} /> Animate</>}
-          </button>
+      <div className="lg:col-span-4 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit flex flex-col gap-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Requirements</h2>
+          <div className="space-y-4">
+            {specSliders.map((s) => (
+              <div key={s.label}>
+                <div className="flex justify-between mb-1">
+                  <label className="text-sm font-medium text-slate-600">{s.label}</label>
+                  <span className="text-sm font-bold text-indigo-600">{s.step < 1 ? s.value.toFixed(2) : s.value}{s.unit}</span>
+                </div>
+                <input
+                  type="range"
+                  min={s.min}
+                  max={s.max}
+                  step={s.step}
+                  value={s.value}
+                  onChange={(e) => s.set(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+            ))}
+          </div>
         </div>
 
-        <div className="space-y-4">
-           <div>
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Crank Pivot</h2>
+          <div className="space-y-4">
+            <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs font-medium">
+              {[false, true].map((farSide) => (
+                <button
+                  key={String(farSide)}
+                  onClick={() => setPivot({ ...pivot, farSide })}
+                  className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                    pivot.farSide === farSide ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {farSide ? 'Beyond C₁C₂' : 'Rocker side of C₁C₂'}
+                </button>
+              ))}
+            </div>
+            <div>
               <div className="flex justify-between mb-1">
-                <label className="text-sm font-medium text-slate-600">Input Angle (θ)</label>
-                <span className="text-sm font-mono text-slate-500">{Math.round(angle)}°</span>
+                <label className="text-sm font-medium text-slate-600">Distance A–C₂ (b − a)</label>
+                <span className="text-sm font-bold text-indigo-600">{pivot.foldedDistance.toFixed(1)}</span>
               </div>
               <input
                 type="range"
                 min={0}
-                max={360}
-                value={(angle % 360 + 360) % 360}
-                onChange={(e) => {
-                    if (isPlaying) onTogglePlay();
-                    onAngleChange(parseInt(e.target.value));
-                }}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                max={pivotLimit}
+                step={pivotLimit / 500}
+                value={pivot.foldedDistance}
+                onChange={(e) => setPivot({ ...pivot, foldedDistance: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
               />
-           </div>
+            </div>
+            <button
+              onClick={applyBestPivot}
+              className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              <Target size={18} /> Best Transmission Angle
+            </button>
+          </div>
+        </div>
 
-           <div>
-              <div className="flex justify-between mb-1">
-                <label className="text-sm font-medium text-slate-600">Animation Speed</label>
+        <div className="border-t border-slate-100 pt-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">Result</h2>
+          {result.isValid && result.design ? (
+            <div className="space-y-2 text-sm text-slate-600">
+              {(['input', 'coupler', 'output', 'frame'] as const).map((key) => (
+                <div key={key} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="capitalize">{key}</span>
+                  <span className="font-mono">{result.design.lengths[key].toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-b border-slate-50 pb-1">
+                <span>Transmission angle μ</span>
+                <span className={`font-mono ${transmissionOk ? '' : 'text-red-600 font-bold'}`}>
+                  {result.transmission.min.toFixed(1)}° – {result.transmission.max.toFixed(1)}°
+                </span>
               </div>
-              <input
-                type="range"
-                min={0.2}
-                max={5}
-                step={0.1}
-                value={Math.abs(speed)}
-                onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-500"
-              />
-           </div>
+              {!transmissionOk && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded text-xs leading-relaxed">
+                  <strong>Warning:</strong> μ leaves the {minTransmission}°–{180 - minTransmission}° band. Move the crank
+                  pivot, or ask for a smaller swing or time ratio.
+                </div>
+              )}
+              {outOfRange && (
+                <p className="text-xs text-slate-400 italic">Some lengths fall outside the simulator's slider ranges.</p>
+              )}
+              <button
+                onClick={() => onLoadDesign(result.design)}
+                className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Upload size={18} /> Load into Simulator
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-red-600">{result.error}</p>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-// --- COMPONENT: INFO PANEL ---
-interface InfoPanelProps {
-  grashofInfo: { type: GrashofType, shortest: LinkRole, longest: LinkRole };
-  lengths: LinkLengths;
+// --- COMPONENT: DESIGN PANEL ---
+interface DesignPanelProps {
+  design: SavedDesign;
+  onOpenDesign: (design: SavedDesign) => void;
+  linkErrors: string[]; // Problems with a design the page was opened with
+  onExportDrawing: (format: DrawingFormat) => void;
+  canExportGeometry: boolean; // DXF and the animation need the planar four-bar
 }
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ grashofInfo, lengths }) => {
-  const { frame: d, input: a, coupler: b, output: c } = lengths;
-  const vals = [a, b, c, d].sort((x, y) => x - y);
-  const S = vals[0];
-  const L = vals[3];
-  const P = vals[1];
-  const Q = vals[2];
-  
-  const sumSL = S + L;
-  const sumPQ = P + Q;
-  const isGrashof = sumSL <= sumPQ;
+const DRAWING_EXPORTS: { format: DrawingFormat, label: string, geometry: boolean }[] = [
+  { format: 'svg', label: 'SVG', geometry: false },
+  { format: 'dxf', label: 'DXF', geometry: true },
+  { format: 'animated-svg', label: 'Animated SVG', geometry: true },
+];
+
+const DesignPanel: React.FC<DesignPanelProps> = ({ design, onOpenDesign, linkErrors, onExportDrawing, canExportGeometry }) => {
+  const [name, setName] = useState('');
+  const [library, setLibrary] = useState<DesignLibraryEntry[]>(readDesignLibrary);
+  const [status, setStatus] = useState<{ message: string, errors: string[] } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (linkErrors.length > 0) setStatus({ message: 'The link\'s design could not be opened:', errors: linkErrors });
+  }, [linkErrors]);
+
+  const open = (result: DesignParseResult, source: string) => {
+    if (result.design) {
+      onOpenDesign(result.design);
+      setStatus({ message: `Opened ${source}.`, errors: [] });
+    } else {
+      setStatus({ message: `${source} could not be opened:`, errors: result.errors });
+    }
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    open(parseDesign(await file.text()), file.name);
+  };
+
+  const copyLink = async () => {
+    const url = designToUrl(design, window.location.href);
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ message: 'Link copied to the clipboard.', errors: [] });
+    } catch {
+      setStatus({ message: 'The link is in the address bar; copy it from there.', errors: [] });
+    }
+  };
+
+  const updateLibrary = (entries: DesignLibraryEntry[]) => {
+    writeDesignLibrary(entries);
+    setLibrary(entries);
+  };
+
+  // Saving under a name already in the library replaces that entry
+  const saveToLibrary = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const entry = { name: trimmed, savedAt: new Date().toISOString(), design };
+    updateLibrary([...library.filter(e => e.name !== trimmed), entry].sort((p, q) => p.name.localeCompare(q.name)));
+    setStatus({ message: `Saved "${trimmed}" in this browser.`, errors: [] });
+  };
+
+  const fileName = `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'linkage'}.json`;
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Analysis</h2>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div>
-           <div className="mb-4">
-             <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Mechanism Type</span>
-             <span className={`text-xl font-bold ${grashofInfo.type === GrashofType.INVALID ? 'text-red-600' : 'text-indigo-600'}`}>
-               {grashofInfo.type}
-             </span>
-           </div>
+      <h2 className="text-lg font-bold text-slate-800 mb-4 border-b pb-2">Designs</h2>
 
-           <div className="mb-4">
-             <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-1">Grashof Condition</span>
-             <div className="flex items-center gap-3 font-mono text-sm bg-slate-50 p-2 rounded border border-slate-100">
-                <div className={sumSL <= sumPQ ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
-                   S + L = {sumSL}
-                </div>
-                <div className="text-slate-400">
-                   {sumSL < sumPQ ? "<" : sumSL > sumPQ ? ">" : "="}
-                </div>
-                <div className="text-slate-700">
-                   P + Q = {sumPQ}
-                </div>
-             </div>
-             <p className="text-xs text-slate-400 mt-1 italic">
-               {isGrashof 
-                 ? "Condition Met: At least one link can rotate fully." 
-                 : "Condition Failed: No link makes a full revolution (Triple Rocker)."}
-             </p>
-           </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => downloadFile(fileName, serializeDesign(design), 'application/json')}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Download size={14} /> Save file
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <FolderOpen size={14} /> Open file
+        </button>
+        <button
+          onClick={copyLink}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200"
+        >
+          <Link size={14} /> Copy link
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            openFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && (
+        <div className={`mt-3 p-2 rounded text-xs ${status.errors.length > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {status.message}
+          {status.errors.length > 0 && (
+            <ul className="mt-1 list-disc list-inside space-y-0.5">
+              {status.errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
         </div>
+      )}
 
-        <div className="space-y-2 text-sm text-slate-600">
-             <div className="flex justify-between border-b border-slate-50 pb-1">
-               <span>Shortest Link (S)</span>
-               <span className="font-medium capitalize text-green-600">{grashofInfo.shortest} ({S})</span>
-             </div>
-             <div className="flex justify-between border-b border-slate-50 pb-1">
-               <span>Longest Link (L)</span>
-               <span className="font-medium capitalize text-red-500">{grashofInfo.longest} ({L})</span>
-             </div>
-             <div className="mt-4 p-3 bg-blue-50 text-blue-800 rounded text-xs leading-relaxed">
-                <strong>Did you know?</strong> 
-                {grashofInfo.type === GrashofType.CRANK_ROCKER && " In a Crank-Rocker, the shortest link is adjacent to the frame and acts as the input."}
-                {grashofInfo.type === GrashofType.DOUBLE_CRANK && " In a Double-Crank (Drag-Link), the shortest link is the frame. Both input and output rotate fully."}
-                {grashofInfo.type === GrashofType.DOUBLE_ROCKER_I && " In a Grashof Double-Rocker, the coupler is the shortest link. It makes a full turn relative to the others, but input/output only rock."}
-                {grashofInfo.type === GrashofType.DOUBLE_ROCKER_II && " In a Non-Grashof Double-Rocker, no link can rotate 360 degrees."}
-             </div>
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Library</span>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="Design name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveToLibrary()}
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+          />
+          <button
+            onClick={saveToLibrary}
+            disabled={!name.trim()}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-indigo-600 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-40"
+          >
+            <Save size={14} /> Save
+          </button>
+        </div>
+        {library.length > 0 ? (
+          <ul className="mt-3 space-y-1 text-sm text-slate-600">
+            {library.map((entry) => (
+              <li key={entry.name} className="flex items-center justify-between gap-2 border-b border-slate-50 pb-1">
+                <button
+                  onClick={() => {
+                    setName(entry.name);
+                    open({ design: entry.design, errors: [] }, `"${entry.name}"`);
+                  }}
+                  className="truncate text-left hover:text-indigo-600"
+                  title={entry.savedAt && `Saved ${new Date(entry.savedAt).toLocaleString()}`}
+                >
+                  {entry.name}
+                  <span className="ml-2 text-xs text-slate-400 capitalize">{entry.design.mechanismType}</span>
+                </button>
+                <button
+                  onClick={() => updateLibrary(library.filter(e => e.name !== entry.name))}
+                  className="text-slate-400 hover:text-red-600"
+                  aria-label={`Delete ${entry.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-400 italic mt-2">Designs saved here stay in this browser.</p>
+        )}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <span className="text-xs uppercase tracking-wider text-slate-500 font-semibold block mb-2">Export Drawing</span>
+        <div className="flex flex-wrap gap-2">
+          {DRAWING_EXPORTS.map((e) => (
+            <button
+              key={e.format}
+              onClick={() => onExportDrawing(e.format)}
+              disabled={e.geometry && !canExportGeometry}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+            >
+              <FileImage size={14} /> {e.label}
+            </button>
+          ))}
         </div>
+        <p className="text-xs text-slate-400 italic mt-2">
+          SVG saves the pose as shown. DXF holds link centerlines, pivots and the coupler curve for CAD; the animated SVG loops one input cycle.
+          {!canExportGeometry && ' Both need the planar four-bar.'}
+        </p>
       </div>
     </div>
   );
 };
 
 // --- MAIN APP COMPONENT ---
+type AppMode = 'analysis' | 'motion-synthesis' | 'function-synthesis' | 'path-synthesis' | 'crank-rocker-design';
+
+const MODES: { id: AppMode, label: string }[] = [
+  { id: 'analysis', label: 'Analysis' },
+  { id: 'motion-synthesis', label: 'Motion Synthesis' },
+  { id: 'function-synthesis', label: 'Function Generation' },
+  { id: 'path-synthesis', label: 'Path Generation' },
+  { id: 'crank-rocker-design', label: 'Quick Return' },
+];
+
 const App: React.FC = () => {
+  const [mode, setMode] = useState<AppMode>('analysis');
+
+  // Mechanism State
   const [lengths, setLengths] = useState<LinkLengths>({
     frame: 200,   // d
     input: 80,    // a
     coupler: 180, // b
     output: 140   // c
   });
+  const [branch, setBranch] = useState<AssemblyBranch>(AssemblyBranch.OPEN);
+  const [changePointMode, setChangePointMode] = useState<ChangePointMode>(ChangePointMode.SMOOTH);
+  const [changePoint, setChangePoint] = useState<ChangePointEvent | null>(null);
+  const [inversion, setInversion] = useState<Inversion>({ ground: LinkRole.FRAME, driver: LinkRole.INPUT });
+  const [placement, setPlacement] = useState<FramePlacement>(HORIZONTAL_FRAME);
+  const [couplerPoint, setCouplerPoint] = useState<CouplerPoint>({ distance: 120, angle: 30 });
+  const [showCouplerCurve, setShowCouplerCurve] = useState<boolean>(true);
+  const [cognateView, setCognateView] = useState<CognateView>('off');
+  // The slider-crank keeps its own dimensions and ground link, and shares the branch and placement
+  const [mechanismType, setMechanismType] = useState<MechanismType>(MechanismType.FOUR_BAR);
+  const [sliderCrank, setSliderCrank] = useState<SliderCrankDimensions>({ crank: 80, rod: 200, offset: 30 });
+  const [sliderGround, setSliderGround] = useState<SliderLink>(SliderLink.GUIDE);
+  // Spherical arcs are angles (degrees) between joint axes
+  const [sphericalArcs, setSphericalArcs] = useState<LinkLengths>({ frame: 70, input: 25, coupler: 75, output: 50 });
+  const [sphereView, setSphereView] = useState<SphereView>({ azimuth: -90, elevation: 50 });
 
+  // Simulation State
   const [angle, setAngle] = useState<number>(90);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [speed, setSpeed] = useState<number>(1);
-  const directionRef = useRef<number>(1);
+  const directionRef = useRef<number>(1); // 1 for CW, -1 for CCW
+  // Latest pose for the animation loop, which steps outside of React's updates
+  const poseRef = useRef({ angle, branch });
+  poseRef.current = { angle, branch };
+
+  // Motion Analysis State
+  const [omegaInput, setOmegaInput] = useState<number>(1);     // rad/s
+  const [alphaInput, setAlphaInput] = useState<number>(0);     // rad/s²
+  const [showVelocity, setShowVelocity] = useState<boolean>(false);
+  const [showAcceleration, setShowAcceleration] = useState<boolean>(false);
+  const [showInstantCenters, setShowInstantCenters] = useState<boolean>(false);
+  const [minTransmission, setMinTransmission] = useState<number>(40); // band is [min, 180 - min]
+
+  // Static Force State
+  const [staticLoad, setStaticLoad] = useState<StaticLoad>({ force: { x: 0, y: -100 }, forceAt: 'couplerPoint', outputTorque: 0 });
+  const [showForces, setShowForces] = useState<boolean>(false);
+
+  // Six-Bar State: a dyad added to the four-bar, or null for the plain four-bar
+  const [sixBar, setSixBar] = useState<SixBarDyad | null>(null);
+  const sixBarPoseRef = useRef<MechanismPose | undefined>(undefined);
+
+  // Problems with a design passed in the page's link
+  const [linkErrors, setLinkErrors] = useState<string[]>([]);
+
+  // Dynamic Force State
+  const [masses, setMasses] = useState<LinkModel['masses']>(() => uniformBars(lengths, 0.01));
   
-  const joints: JointCoordinates = calculateJoints(lengths, angle);
-  const grashofInfo = determineGrashof(lengths);
+  // Derived State
+  // The solver always sees the chosen ground as its frame and the driver as its input
+  const layout = useMemo(() => resolveInversion(inversion), [inversion]);
+  const solverLengths = useMemo(() => invertLengths(lengths, layout), [lengths, layout]);
+  const otherBranch = branch === AssemblyBranch.OPEN ? AssemblyBranch.CROSSED : AssemblyBranch.OPEN;
+  const joints: JointCoordinates = calculateJoints(solverLengths, angle, branch, placement);
+  const ghostJoints: JointCoordinates = calculateJoints(solverLengths, angle, otherBranch, placement);
+  const motion = calculateMotion(joints, omegaInput, alphaInput);
+  const instantCenters = calculateInstantCenters(joints);
+  const grashofInfo = determineGrashof(lengths, inversion);
+  const transmission = analyzeTransmissionAngle(solverLengths, joints);
+  const transmissionBand = { min: minTransmission, max: 180 - minTransmission };
+  const quickReturn = useMemo(() => analyzeQuickReturn(solverLengths), [solverLengths]);
+  const reachable = useMemo(
+    () => calculateReachableRange(solverLengths, placement.angle),
+    [solverLengths, placement.angle]
+  );
+  const isFourBar = mechanismType === MechanismType.FOUR_BAR;
+  const isSliderCrank = mechanismType === MechanismType.SLIDER_CRANK;
+  const isSpherical = mechanismType === MechanismType.SPHERICAL;
+  const sliderPose = isSliderCrank ? solveSliderCrank(sliderCrank, sliderGround, angle, branch, placement) : undefined;
+  const sliderInfo = useMemo(() => analyzeSliderCrank(sliderCrank, sliderGround, branch), [sliderCrank, sliderGround, branch]);
+  const sliderReachable = useMemo(
+    () => sliderCrankReachableRange(sliderCrank, sliderGround, placement.angle),
+    [sliderCrank, sliderGround, placement.angle]
+  );
+  const sphericalPose = isSpherical ? calculateSphericalJoints(sphericalArcs, angle, branch) : undefined;
+  const sphericalInfo = useMemo(() => classifySpherical(sphericalArcs), [sphericalArcs]);
+  const sphericalReachable = useMemo(() => sphericalReachableRange(sphericalArcs), [sphericalArcs]);
+  // The driver's range for whichever mechanism is shown
+  const driverReachable = isSliderCrank ? sliderReachable : isSpherical ? sphericalReachable : reachable;
+  const hasChangePoints = isFourBar && changePointAngles(solverLengths).length > 0;
+  // The last change point stays marked until the input has moved well past it
+  const showChangePoint = changePoint !== null && hasChangePoints
+    && Math.abs(((angle - changePoint.angle) % 360 + 540) % 360 - 180) < 45;
+  const couplerPosition = calculateCouplerPoint(joints, couplerPoint);
+  const couplerCurve = useMemo(
+    () => showCouplerCurve ? traceCouplerCurve(solverLengths, branch, couplerPoint, reachable, placement) : [],
+    [showCouplerCurve, solverLengths, branch, couplerPoint, reachable, placement]
+  );
+  const ghostCouplerCurve = useMemo(
+    () => showCouplerCurve ? traceCouplerCurve(solverLengths, otherBranch, couplerPoint, reachable, placement) : [],
+    [showCouplerCurve, solverLengths, otherBranch, couplerPoint, reachable, placement]
+  );
+  // Cognates are rebuilt from the current pose, so they move with the input
+  const cognates = calculateCognates(joints, couplerPoint);
+  const shownCognates = cognateView === 'all' ? cognates
+    : cognateView === 'cognate1' ? [cognates[0], null]
+    : cognateView === 'cognate2' ? [null, cognates[1]]
+    : [];
+  const kinematicSweep = useMemo(
+    () => sweepKinematics(solverLengths, branch, placement),
+    [solverLengths, branch, placement]
+  );
+  const instantCenterCycle = useMemo(
+    () => calculateInstantCentersOverCycle(solverLengths, branch, placement),
+    [solverLengths, branch, placement]
+  );
+  const statics = calculateStatics(joints, staticLoad, couplerPosition);
+  const staticsCycle = useMemo(
+    () => calculateStaticsOverCycle(solverLengths, branch, placement, staticLoad, couplerPoint),
+    [solverLengths, branch, placement, staticLoad, couplerPoint]
+  );
+  const linkModel = useMemo(() => ({ lengths, masses }), [lengths, masses]);
+  const dynamics = calculateDynamics(linkModel, layout, joints, omegaInput, staticLoad, couplerPosition);
+  const dynamicsCycle = useMemo(
+    () => calculateDynamicsOverCycle(linkModel, layout, branch, placement, omegaInput, staticLoad, couplerPoint),
+    [linkModel, layout, branch, placement, omegaInput, staticLoad, couplerPoint]
+  );
+  const sixBarCheck = useMemo(
+    () => sixBar ? checkSixBar(solverLengths, branch, sixBar, placement) : null,
+    [solverLengths, branch, sixBar, placement]
+  );
+  // The previous pose keeps Stephenson II's numeric closure on one assembly
+  const sixBarPose = sixBar && isFourBar ? solveSixBar(solverLengths, angle, branch, sixBar, placement, sixBarPoseRef.current) : undefined;
+  sixBarPoseRef.current = sixBarPose?.isValid ? sixBarPose : undefined;
+  const sixBarMechanism = useMemo(() => sixBar ? sixBarLinks(sixBar.type) : [], [sixBar?.type]);
+  // In Stephenson II the four-bar floats, so its grounded coupler curve means nothing
+  const floatingFourBar = sixBar?.type === SixBarType.STEPHENSON_II;
+  const hideCoupler = floatingFourBar || !isFourBar;
   const requestRef = useRef<number>(0);
 
   const handleLengthChange = (key: keyof LinkLengths, value: number) => {
     setLengths(prev => ({ ...prev, [key]: value }));
   };
 
-  const animate = useCallback(() => {
-    setAngle(prevAngle => {
-      const step = speed * directionRef.current;
-      const nextAngle = prevAngle + step;
-      
-      const nextJoints = calculateJoints(lengths, nextAngle);
-      
-      if (nextJoints.isValid) {
-        return nextAngle;
-      } else {
-        directionRef.current *= -1;
-        return prevAngle + (speed * directionRef.current);
-      }
+  // Designer tools hand over a finished mechanism grounded on its frame
+  const handleLoadDesign = (design: LinkageDesign) => {
+    setIsPlaying(false);
+    setMechanismType(MechanismType.FOUR_BAR);
+    setInversion({ ground: LinkRole.FRAME, driver: LinkRole.INPUT });
+    setLengths(design.lengths);
+    setPlacement(design.placement);
+    setBranch(design.branch);
+    setAngle(design.angle);
+    if (design.couplerPoint) setCouplerPoint(design.couplerPoint);
+    setMode('analysis');
+  };
+
+  // What a saved design file or link holds: the mechanism and its pose
+  const savedDesign: SavedDesign = {
+    version: DESIGN_VERSION,
+    mechanismType, lengths, inversion, placement, branch, angle, speed,
+    couplerPoint, sixBar, sliderCrank, sliderGround, sphericalArcs,
+  };
+  const handleOpenDesign = (design: SavedDesign) => {
+    setIsPlaying(false);
+    setChangePoint(null);
+    sixBarPoseRef.current = undefined;
+    setMechanismType(design.mechanismType);
+    setLengths(design.lengths);
+    setInversion(design.inversion);
+    setPlacement(design.placement);
+    setBranch(design.branch);
+    setAngle(design.angle);
+    setSpeed(design.speed);
+    setCouplerPoint(design.couplerPoint);
+    setSixBar(design.sixBar);
+    setSliderCrank(design.sliderCrank);
+    setSliderGround(design.sliderGround);
+    setSphericalArcs(design.sphericalArcs);
+    setMode('analysis');
+  };
+
+  // Drawing exports. The SVG is the canvas as shown; the DXF and animation are
+  // rebuilt from the planar four-bar (or the six-bar on it) at any angle.
+  const canvasSvgRef = useRef<SVGSVGElement>(null);
+  const fourBarLinks: MechanismLink[] = [
+    { name: 'Frame', joints: ['A', 'D'], ground: true },
+    { name: 'Input', joints: ['A', 'B'] },
+    { name: 'Coupler', joints: hideCoupler ? ['B', 'C'] : ['B', 'C', 'P'] },
+    { name: 'Output', joints: ['D', 'C'] },
+  ];
+  const drawingAt = (theta: number, previous?: MechanismPose) => {
+    const curves = hideCoupler ? [] : couplerCurve;
+    if (sixBar) {
+      const pose = solveSixBar(solverLengths, theta, branch, sixBar, placement, previous);
+      return pose.isValid ? { pose, drawing: drawingFromPose(sixBarMechanism, pose.joints, curves) } : null;
+    }
+    const j = calculateJoints(solverLengths, theta, branch, placement);
+    if (!j.isValid) return null;
+    const points = { A: { x: j.Ax, y: j.Ay }, B: { x: j.Bx, y: j.By }, C: { x: j.Cx, y: j.Cy }, D: { x: j.Dx, y: j.Dy }, P: calculateCouplerPoint(j, couplerPoint) };
+    return { pose: { joints: points, isValid: true }, drawing: drawingFromPose(fourBarLinks, points, curves) };
+  };
+  const handleExportDrawing = (format: DrawingFormat) => {
+    if (format === 'svg') {
+      if (canvasSvgRef.current) downloadFile('linkage.svg', standaloneSvg(canvasSvgRef.current), 'image/svg+xml');
+      return;
+    }
+    if (format === 'dxf') {
+      const now = drawingAt(angle, sixBarPoseRef.current);
+      if (now) downloadFile('linkage.dxf', drawingToDxf(now.drawing), 'application/dxf');
+      return;
+    }
+    // One cycle, carrying the six-bar's pose from frame to frame
+    let previous: MechanismPose | undefined;
+    const frames = cycleAngles(reachable, angle).flatMap(theta => {
+      const next = drawingAt(theta, previous);
+      previous = next?.pose;
+      return next ? [next.drawing] : [];
     });
+    if (frames.length > 0) downloadFile('linkage-cycle.svg', animatedSvg(frames), 'image/svg+xml');
+  };
+
+  const handleExportSweep = (format: 'csv' | 'json', step: number) => {
+    const samples = sweepKinematics(solverLengths, branch, placement, step);
+    const context = { lengths, grashof: grashofInfo, inversion, layout, branch, step };
+    if (format === 'csv') downloadFile('linkage-sweep.csv', sweepToCsv(samples, context), 'text/csv');
+    else downloadFile('linkage-sweep.json', sweepToJson(samples, context), 'application/json');
+  };
+
+  // A link can carry a design to open with
+  useEffect(() => {
+    const fromLink = designFromUrl(window.location.href);
+    if (fromLink?.design) handleOpenDesign(fromLink.design);
+    else if (fromLink) setLinkErrors(fromLink.errors);
+  }, []);
+
+  // The ground link's length follows its pivots, held to its slider's range;
+  // a pivot moved past either end stops there on the same line from A
+  const pivots = groundPivots(placement, solverLengths.frame);
+  const handlePivotsChange = (next: { Ax: number, Ay: number, Dx: number, Dy: number }) => {
+    const { placement: nextPlacement, frameLength } = placementFromPivots(next.Ax, next.Ay, next.Dx, next.Dy);
+    if (frameLength === 0) return;
+    const { min, max } = LINK_LENGTH_BOUNDS[layout.links.frame];
+    setPlacement(nextPlacement);
+    setLengths(prev => ({ ...prev, [layout.links.frame]: Math.min(Math.max(frameLength, min), max) }));
+  };
+
+  // Moves the input and carries the branch across any change point on the way
+  const moveInput = useCallback((from: number, to: number, fromBranch: AssemblyBranch) => {
+    // Only the planar four-bar tracks change points; the others keep their branch
+    if (!isFourBar) {
+      poseRef.current = { angle: to, branch: fromBranch };
+      setAngle(to);
+      return;
+    }
+    const tracked = trackBranch(solverLengths, from, to, fromBranch, placement, changePointMode);
+    poseRef.current = { angle: tracked.angle, branch: tracked.branch };
+    setAngle(tracked.angle);
+    setBranch(tracked.branch);
+    if (tracked.event) setChangePoint(tracked.event);
+  }, [solverLengths, placement, changePointMode, isFourBar]);
+
+  const handleAngleChange = (next: number) => {
+    moveInput(((angle % 360) + 360) % 360, next, branch);
+  };
+
+  // Dragging a joint on the canvas: B turns the input the short way round, D
+  // moves the second ground pivot, and C resizes the coupler and output with
+  // the input held, on whichever branch puts C nearest the pointer
+  const handleJointDrag = (joint: DraggableJoint, point: Vector2, snap: DragSnap) => {
+    setIsPlaying(false);
+    const A = { x: joints.Ax, y: joints.Ay };
+    // A dragged length, snapped if asked, inside the slider range of its link
+    const fit = (value: number, link: LinkRole) => {
+      const { min, max } = LINK_LENGTH_BOUNDS[link];
+      return Math.min(Math.max(snap.lengths ? Math.round(value) : value, min), max);
+    };
+    if (joint === 'B') {
+      const from = ((angle % 360) + 360) % 360;
+      const target = (Math.atan2(point.y - A.y, point.x - A.x) * 180) / Math.PI;
+      moveInput(from, from + ((((target - from) % 360) + 540) % 360) - 180, branch);
+    } else if (joint === 'D') {
+      const distance = Math.hypot(point.x - A.x, point.y - A.y);
+      if (distance === 0) return;
+      const scale = fit(distance, layout.links.frame) / distance;
+      handlePivotsChange({ Ax: A.x, Ay: A.y, Dx: A.x + (point.x - A.x) * scale, Dy: A.y + (point.y - A.y) * scale });
+    } else {
+      const coupler = fit(Math.hypot(point.x - joints.Bx, point.y - joints.By), layout.links.coupler);
+      const output = fit(Math.hypot(point.x - joints.Dx, point.y - joints.Dy), layout.links.output);
+      const next = { ...solverLengths, coupler, output };
+      const miss = (b: AssemblyBranch) => {
+        const j = calculateJoints(next, angle, b, placement);
+        return j.isValid ? Math.hypot(j.Cx - point.x, j.Cy - point.y) : Infinity;
+      };
+      setLengths(prev => ({ ...prev, [layout.links.coupler]: coupler, [layout.links.output]: output }));
+      if (miss(otherBranch) < miss(branch)) setBranch(otherBranch);
+    }
+  };
+
+  const animate = useCallback(() => {
+    // Step towards the next toggle position and reverse exactly on it
+    const { angle: prevAngle, branch: prevBranch } = poseRef.current;
+    const next = advanceInputAngle(driverReachable, prevAngle, speed * directionRef.current);
+    directionRef.current = next.direction;
+    moveInput(prevAngle, next.angle, prevBranch);
     
     requestRef.current = requestAnimationFrame(animate);
-  }, [lengths, speed]);
+  }, [driverReachable, speed, moveInput]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -473,8 +7325,19 @@ const App: React.FC = () => {
     };
   }, [isPlaying, animate]);
 
+  // If geometry changes and current angle becomes invalid, 
+  // we usually just let the visualization show "Broken" or the loop auto-corrects.
+  // But strictly for static visual updates:
+  useEffect(() => {
+     if (!joints.isValid && !isPlaying) {
+        // Optional: Auto-find valid angle could go here, 
+        // but showing the broken state is educational.
+     }
+  }, [joints.isValid, isPlaying]);
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
+      {/* Header */}
       <header className="bg-white border-b border-slate-200 px-6 py-4 shadow-sm">
         <div className="max-w-7xl mx-auto flex items-center gap-3">
           <div className="p-2 bg-indigo-600 rounded-lg">
@@ -484,38 +7347,216 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-slate-800">Grashof Explorer</h1>
             <p className="text-sm text-slate-500">Interactive 4-Bar Linkage Simulator</p>
           </div>
+          <nav className="ml-auto flex rounded-lg bg-slate-100 p-1 text-sm font-medium">
+            {MODES.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`px-3 py-1.5 rounded-md transition-colors ${
+                  mode === m.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </nav>
         </div>
       </header>
 
-      <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
-        <div className="lg:col-span-8 flex flex-col gap-6">
-          <div className="h-[400px] md:h-[500px]">
-             <LinkageCanvas 
-               coords={joints} 
-               lengths={lengths} 
-               shortestRole={grashofInfo.shortest}
-               longestRole={grashofInfo.longest}
-             />
-          </div>
-          <InfoPanel grashofInfo={grashofInfo} lengths={lengths} />
-        </div>
-
-        <div className="lg:col-span-4 h-fit">
-          <Controls 
-            lengths={lengths}
-            onLengthChange={handleLengthChange}
-            angle={angle}
-            onAngleChange={setAngle}
-            isPlaying={isPlaying}
-            onTogglePlay={() => setIsPlaying(!isPlaying)}
-            speed={speed}
-            onSpeedChange={setSpeed}
-          />
-          <div className="mt-6 text-xs text-slate-400 text-center">
-            <p>Designed for educational purposes.</p>
+      {mode === 'motion-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <SynthesisPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'function-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <FunctionGeneratorPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'path-synthesis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <PathSynthesisPanel onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {mode === 'crank-rocker-design' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6">
+          <CrankRockerPanel minTransmission={minTransmission} onLoadDesign={handleLoadDesign} />
+        </main>
+      )}
+
+      {/* Main Content */}
+      {mode === 'analysis' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+        
+          {/* Left Column: Visualization & Info */}
+          <div className="lg:col-span-8 flex flex-col gap-6">
+            {/* Canvas */}
+            <div className="h-[400px] md:h-[500px]">
+               <LinkageCanvas 
+                 coords={joints} 
+                 ghostCoords={ghostJoints}
+                 lengths={solverLengths} 
+                 layout={layout}
+                 shortestRole={grashofInfo.shortest}
+                 longestRole={grashofInfo.longest}
+                 motion={motion}
+                 showVelocity={showVelocity}
+                 showAcceleration={showAcceleration}
+                 transmissionAngle={transmission.current}
+                 transmissionOk={transmission.current >= transmissionBand.min && transmission.current <= transmissionBand.max}
+                 couplerPoint={hideCoupler ? undefined : couplerPosition}
+                 couplerCurve={hideCoupler ? [] : couplerCurve}
+                 ghostCouplerCurve={hideCoupler ? [] : ghostCouplerCurve}
+                 statics={statics}
+                 appliedForce={{ at: staticLoad.forceAt === 'C' ? { x: joints.Cx, y: joints.Cy } : couplerPosition, force: staticLoad.force }}
+                 showForces={showForces}
+                 changePoint={showChangePoint ? changePoint : undefined}
+                 cognates={isFourBar ? shownCognates : []}
+                 showMainLinkage={isFourBar && !sixBar && cognateView !== 'cognate1' && cognateView !== 'cognate2'}
+                 mechanism={sixBarPose && { links: sixBarMechanism, pose: sixBarPose }}
+                 sliderCrank={sliderPose && { dims: sliderCrank, ground: sliderGround, pose: sliderPose, origin: { x: placement.originX, y: placement.originY } }}
+                 spherical={sphericalPose && { pose: sphericalPose, view: sphereView }}
+                 instantCenters={isFourBar && showInstantCenters ? instantCenters : undefined}
+                 svgRef={canvasSvgRef}
+                 onJointDrag={isFourBar ? handleJointDrag : undefined}
+               />
+            </div>
+          
+            {/* The analysis panels all work on the four-bar */}
+            {isFourBar && (
+              <>
+                {/* Info Panel */}
+                <InfoPanel
+                  grashofInfo={grashofInfo}
+                  lengths={lengths}
+                  motion={motion}
+                  transmission={transmission}
+                  transmissionBand={transmissionBand}
+                  inversion={inversion}
+                  driverFullRotation={reachable.fullRotation}
+                  quickReturn={quickReturn}
+                  instantCenters={instantCenters}
+                  instantCenterCycle={instantCenterCycle}
+                  angle={angle}
+                />
+
+                {/* Kinematic Plots */}
+                <KinematicsPanel
+                  sweep={kinematicSweep}
+                  angle={angle}
+                  layout={layout}
+                  transmissionBand={transmissionBand}
+                  onExportSweep={handleExportSweep}
+                />
+
+                {/* Six-Bar Extension */}
+                <SixBarPanel dyad={sixBar} onDyadChange={setSixBar} check={sixBarCheck} />
+
+                {/* Static Force Analysis */}
+                <ForcePanel
+                  load={staticLoad}
+                  onLoadChange={setStaticLoad}
+                  statics={statics}
+                  cycle={staticsCycle}
+                  angle={angle}
+                  layout={layout}
+                  showForces={showForces}
+                  onShowForcesChange={setShowForces}
+                />
+
+                {/* Dynamic Force Analysis */}
+                <DynamicsPanel
+                  lengths={lengths}
+                  masses={masses}
+                  onMassesChange={setMasses}
+                  layout={layout}
+                  omegaInput={omegaInput}
+                  dynamics={dynamics}
+                  cycle={dynamicsCycle}
+                  staticsCycle={staticsCycle}
+                  angle={angle}
+                />
+              </>
+            )}
           </div>
-        </div>
-      </main>
+
+          {/* Right Column: Controls */}
+          <div className="lg:col-span-4 h-fit flex flex-col gap-6">
+            <DesignPanel
+              design={savedDesign}
+              onOpenDesign={handleOpenDesign}
+              linkErrors={linkErrors}
+              onExportDrawing={handleExportDrawing}
+              canExportGeometry={isFourBar}
+            />
+
+            <Controls 
+              mechanismType={mechanismType}
+              onMechanismTypeChange={setMechanismType}
+              sliderCrank={sliderCrank}
+              onSliderCrankChange={setSliderCrank}
+              sliderGround={sliderGround}
+              onSliderGroundChange={setSliderGround}
+              sliderInfo={sliderInfo}
+              sphericalArcs={sphericalArcs}
+              onSphericalArcsChange={setSphericalArcs}
+              sphereView={sphereView}
+              onSphereViewChange={setSphereView}
+              sphericalInfo={sphericalInfo}
+              lengths={lengths}
+              onLengthChange={handleLengthChange}
+              branch={branch}
+              onBranchChange={setBranch}
+              hasChangePoints={hasChangePoints}
+              changePointMode={changePointMode}
+              onChangePointModeChange={setChangePointMode}
+              inversion={inversion}
+              onInversionChange={setInversion}
+              placement={placement}
+              onPlacementChange={setPlacement}
+              pivots={pivots}
+              pivotNames={{ A: layout.joints.A, D: layout.joints.D }}
+              onPivotsChange={handlePivotsChange}
+              angle={angle}
+              onAngleChange={handleAngleChange}
+              reachable={driverReachable}
+              isPlaying={isPlaying}
+              onTogglePlay={() => setIsPlaying(!isPlaying)}
+              speed={speed}
+              onSpeedChange={setSpeed}
+              omegaInput={omegaInput}
+              onOmegaInputChange={setOmegaInput}
+              alphaInput={alphaInput}
+              onAlphaInputChange={setAlphaInput}
+              showVelocity={showVelocity}
+              onShowVelocityChange={setShowVelocity}
+              showAcceleration={showAcceleration}
+              onShowAccelerationChange={setShowAcceleration}
+              showInstantCenters={showInstantCenters}
+              onShowInstantCentersChange={setShowInstantCenters}
+              minTransmission={minTransmission}
+              onMinTransmissionChange={setMinTransmission}
+              couplerPoint={couplerPoint}
+              onCouplerPointChange={setCouplerPoint}
+              showCouplerCurve={showCouplerCurve}
+              onShowCouplerCurveChange={setShowCouplerCurve}
+              cognates={cognates}
+              cognateView={cognateView}
+              onCognateViewChange={setCognateView}
+              onLoadDesign={handleLoadDesign}
+            />
+          
+            <div className="mt-6 text-xs text-slate-400 text-center">
+              <p>Designed for educational purposes.</p>
+              <p>Calculations use vector loop equations with intersection logic.</p>
+            </div>
+          </div>
+
+        </main>
+      )}
     </div>
   );
 };
@@ -531,4 +7572,4 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -17,12 +17,26 @@ export interface JointCoordinates {
   isValid: boolean;
 }
 
-export enum GrashofType {
-  CRANK_ROCKER = "Crank-Rocker",
-  DOUBLE_CRANK = "Double-Crank (Drag-Link)",
-  DOUBLE_ROCKER_I = "Double-Rocker (Type I)",
-  DOUBLE_ROCKER_II = "Double-Rocker (Type II - Non-Grashof)",
-  CHANGE_POINT = "Change Point (Neutral)",
+// Barker's classification relative to the ground and driver. The letters
+// after the class tell whether the input, coupler and output turn fully
+// relative to the ground (Crank) or only oscillate (Rocker). G marks a
+// Grashof chain, S a change-point chain (S + L = P + Q) and RRR a
+// non-Grashof triple rocker, numbered by which link is the longest.
+export enum BarkerType {
+  GCCC = "Double-Crank (GCCC)",
+  GCRR = "Crank-Rocker (GCRR)",
+  GRCR = "Double-Rocker (GRCR)",
+  GRRC = "Rocker-Crank (GRRC)",
+  RRR1 = "Triple-Rocker, Input Longest (RRR1)",
+  RRR2 = "Triple-Rocker, Ground Longest (RRR2)",
+  RRR3 = "Triple-Rocker, Output Longest (RRR3)",
+  RRR4 = "Triple-Rocker, Coupler Longest (RRR4)",
+  SCCC = "Change-Point Double-Crank (SCCC)",
+  SCRR = "Change-Point Crank-Rocker (SCRR)",
+  SRCR = "Change-Point Double-Rocker (SRCR)",
+  SRRC = "Change-Point Rocker-Crank (SRRC)",
+  S2X = "Double Change Point (S2X)",
+  S3X = "Triple Change Point (S3X)",
   INVALID = "Invalid Geometry"
 }
 
@@ -31,4 +45,439 @@ export enum LinkRole {
   INPUT = "input",
   COUPLER = "coupler",
   OUTPUT = "output"
-}
\ No newline at end of file
+}
+
+// The two assembly configurations (circuits) that close the loop for a
+// given input angle. OPEN places C clockwise of the ray D->B, CROSSED
+// places it counter-clockwise, so each branch is continuous over a cycle.
+export enum AssemblyBranch {
+  OPEN = "open",
+  CROSSED = "crossed"
+}
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+// Angular rates are in rad/s and rad/s², linear ones in length units per second.
+export interface MotionAnalysis {
+  omegaCoupler: number; // ω3
+  omegaOutput: number;  // ω4
+  alphaCoupler: number; // α3
+  alphaOutput: number;  // α4
+  velB: Vector2;
+  velC: Vector2;
+  accB: Vector2;
+  accC: Vector2;
+  isValid: boolean;
+}
+
+// A point where two links have the same velocity. Links are numbered by
+// solver slot: 1 ground, 2 driver, 3 coupler, 4 output. Parallel lines meet
+// at infinity, so such a center holds the lines' direction instead.
+export interface InstantCenter {
+  name: string; // e.g. "13"
+  point: Vector2; // Position, or a unit direction when at infinity; NaN if undetermined
+  atInfinity: boolean;
+}
+
+// The six instant centers (I12, I13, I14, I23, I24, I34) and the speed
+// ratios they give. The mechanical advantage is the ideal torque ratio
+// T4 / T2 = ω2 / ω4, infinite where the output stops.
+export interface InstantCenterAnalysis {
+  centers: InstantCenter[];
+  velocityRatio: number;       // ω4 / ω2, from I24
+  couplerRatio: number;        // ω3 / ω2, from I13
+  mechanicalAdvantage: number;
+  isValid: boolean;
+}
+
+// External load for the static analysis: a force (global components) acting
+// on the coupler at C or at the coupler point, plus a torque on the output
+// link. Torques are counter-clockwise positive.
+export interface StaticLoad {
+  force: Vector2;
+  forceAt: 'C' | 'couplerPoint';
+  outputTorque: number;
+}
+
+// Static equilibrium with massless links and frictionless pins. Each pin
+// force is the one the first-named body exerts on the second.
+export interface StaticAnalysis {
+  pinA: Vector2;       // ground on input
+  pinB: Vector2;       // input on coupler
+  pinC: Vector2;       // coupler on output
+  pinD: Vector2;       // ground on output
+  inputTorque: number; // Torque the driver must apply to the input link
+  isValid: boolean;
+}
+
+// Mass properties of one link. The center of mass is given in the link's own
+// frame: x along the link from its first joint (frame A->D, input A->B,
+// coupler B->C, output D->C), y perpendicular to it, counter-clockwise.
+export interface LinkMass {
+  mass: number;
+  com: Vector2;
+  inertia: number; // About the center of mass
+}
+
+// Full link model: geometry plus mass properties, both keyed by physical link
+export interface LinkModel {
+  lengths: LinkLengths;
+  masses: Record<keyof LinkLengths, LinkMass>;
+}
+
+// Inertial and applied forces at one instant of a constant-speed cycle.
+// Shaking force and moment are what the moving links and the driver exert on
+// the frame, the moment taken about the driver's pivot A.
+export interface DynamicAnalysis extends StaticAnalysis {
+  shakingForce: Vector2;
+  shakingMoment: number;
+}
+
+// Transmission angle μ between coupler and output, in degrees (0–180)
+export interface TransmissionAngleInfo {
+  current: number; // NaN when the loop cannot close
+  min: number;     // Over the reachable input range
+  max: number;
+}
+
+// One input angle of a sweep over the cycle, in degrees. Link angles are
+// measured from the global x axis and kept continuous from sample to sample.
+export interface KinematicSample {
+  angle: number;
+  joints: JointCoordinates;
+  outputAngle: number;       // D->C; NaN where the loop cannot close
+  couplerAngle: number;      // B->C
+  transmissionAngle: number;
+  velocityRatio: number;     // ω4 / ω2; NaN at the output's dead points
+  isValid: boolean;
+}
+
+// Input angles (degrees) at which the loop closes. Each interval runs
+// counter-clockwise from start to end; end may exceed 360 when it wraps past 0°.
+export interface ReachableRange {
+  fullRotation: boolean;
+  intervals: { start: number, end: number }[];
+  limits: number[]; // Toggle positions: coupler and output collinear
+}
+
+// Which way the tracker leaves a change point, where both assembly branches
+// meet with all four joints in line
+export enum ChangePointMode {
+  SMOOTH = "smooth", // Carry on without a kink in the motion
+  SWITCH = "switch"  // Take the other branch out of the change point
+}
+
+// A change point passed while moving the input, with the flat pose on it
+export interface ChangePointEvent {
+  angle: number;
+  from: AssemblyBranch;
+  to: AssemblyBranch;
+  smooth: boolean; // Whether `to` continues the motion without a kink
+  joints: JointCoordinates;
+}
+
+// Point rigidly attached to the coupler, measured from B relative to line BC
+export interface CouplerPoint {
+  distance: number; // p
+  angle: number;    // δ in degrees, counter-clockwise from B->C
+}
+
+export interface Inversion {
+  ground: LinkRole;
+  driver: LinkRole; // Must share a joint with the ground link
+}
+
+export interface GrashofInfo {
+  type: BarkerType;
+  shortest: LinkRole;
+  longest: LinkRole;
+  margin: number; // (P + Q) − (S + L): positive for Grashof, zero at a change point
+  // Barker's T1 = g + c − a − b, T2 = b + g − a − c, T3 = b + c − a − g for
+  // ground g, input a, coupler b, output c; zero within the change-point tolerance
+  characteristics: [number, number, number];
+  // Links each link can turn fully relative to, passing change points where needed
+  fullRotation: Record<LinkRole, LinkRole[]>;
+}
+
+// Which physical link and joint sit in each slot of the grounded, driven
+// chain that the solver works with (frame = ground, input = driver)
+export interface InversionLayout {
+  links: { frame: LinkRole, input: LinkRole, coupler: LinkRole, output: LinkRole };
+  joints: { A: string, B: string, C: string, D: string };
+}
+
+// Toggle-to-toggle strokes of a crank-rocker driven by its crank (degrees)
+export interface QuickReturnInfo {
+  swingAngle: number;        // Rocker travel between the two toggle positions
+  workingCrankAngle: number; // Crank rotation during the slow stroke
+  returnCrankAngle: number;  // Crank rotation during the quick stroke
+  timeRatio: number;         // working / return, at constant crank speed
+}
+
+// Global placement of the ground link: the driver's pivot (A) and the
+// direction from it towards the other ground pivot (D)
+export interface FramePlacement {
+  originX: number;
+  originY: number;
+  angle: number; // degrees
+}
+
+// A complete mechanism that a designer tool can hand over to the simulator
+export interface LinkageDesign {
+  lengths: LinkLengths;
+  placement: FramePlacement;
+  branch: AssemblyBranch;
+  angle: number;
+  couplerPoint?: CouplerPoint;
+}
+
+// A rigid link of a general planar linkage, by the joints it carries
+export interface MechanismLink {
+  name: string;
+  joints: string[]; // Two for a binary link, three for a ternary plate
+  ground?: boolean;
+}
+
+// Joint positions of a general linkage, keyed by joint name
+export interface MechanismPose {
+  joints: Record<string, Vector2>;
+  isValid: boolean;
+}
+
+export enum SixBarType {
+  WATT_I = "Watt I",
+  WATT_II = "Watt II",
+  STEPHENSON_I = "Stephenson I",
+  STEPHENSON_II = "Stephenson II",
+  STEPHENSON_III = "Stephenson III"
+}
+
+// A six-bar built from the solver's four-bar and a dyad E-G-F. E and F ride
+// on the four-bar links named by the topology, placed from each link's first
+// joint like the coupler point (frame points from A along A->D).
+export interface SixBarDyad {
+  type: SixBarType;
+  pointE: CouplerPoint;
+  pointF: CouplerPoint;
+  lengths: { first: number, second: number }; // E-G and G-F
+  branch: AssemblyBranch; // OPEN puts G clockwise of the ray F->E, as C is of D->B
+}
+
+// Gruebler mobility and the closure checks of each loop
+export interface SixBarCheck {
+  mobility: number;
+  loops: { name: string, lengths: LinkLengths, grashof: GrashofInfo }[]; // Four-link loops
+  closure: number; // Share of the driver's turn over which the whole linkage assembles
+}
+
+export enum MechanismType {
+  FOUR_BAR = "four-bar",
+  SLIDER_CRANK = "slider-crank",
+  SPHERICAL = "spherical"
+}
+
+// Links of the offset slider-crank. The guide carries the crank pivot A and
+// the line the slider runs along, offset by e from A; grounding each in turn
+// gives the four inversions.
+export enum SliderLink {
+  GUIDE = "guide",
+  CRANK = "crank",
+  ROD = "rod",
+  SLIDER = "slider"
+}
+
+export interface SliderCrankDimensions {
+  crank: number;  // r, A-B
+  rod: number;    // l, B-C
+  offset: number; // e, how far the guide line runs to the left of A, looking along it
+}
+
+// Joints A, B and C plus the guide's global direction
+export interface SliderCrankPose extends MechanismPose {
+  guideAngle: number; // degrees
+  position: number;   // Slider travel along the guide from the foot of A
+}
+
+export interface SliderCrankInfo {
+  type: string; // Driver motion, then the output's, e.g. "Crank-Slider"
+  fullRotation: Record<SliderLink, SliderLink[]>; // Links each link can turn fully relative to
+  driverRotates: boolean;
+  stroke: number; // Slider travel over the driver's range; NaN when nothing assembles
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Unit vectors along the joint axes of a spherical four-bar, which all pass
+// through the centre of the sphere. Its links are great-circle arcs between
+// the axes, so its "lengths" are the arc angles in degrees.
+export interface SphericalPose {
+  A: Vector3;
+  B: Vector3;
+  C: Vector3;
+  D: Vector3;
+  isValid: boolean;
+}
+
+export interface SphericalInfo {
+  type: string; // Input, then output, relative to the ground, e.g. "Crank-Rocker"
+  jointTurns: Record<'A' | 'B' | 'C' | 'D', boolean>;
+  fullRotation: Record<LinkRole, LinkRole[]>; // Links each link can turn fully relative to
+}
+
+// Orthographic view of the sphere from the given direction (degrees)
+export interface SphereView {
+  azimuth: number;   // About the z axis, from +x
+  elevation: number; // Above the xy plane
+}
+
+// One of the two other four-bars that trace the same coupler curve
+// (Roberts–Chebyshev). Its joints use the solver's slots: A and D are its
+// ground pivots, B and C its moving joints.
+export interface Cognate {
+  joints: JointCoordinates;
+  design: LinkageDesign; // The cognate on its own, driven from its pivot A
+}
+
+// Which of the three coupler-curve cognates the canvas draws
+export type CognateView = 'off' | 'all' | 'original' | 'cognate1' | 'cognate2';
+
+// Desired position of the coupler point together with the coupler's orientation
+export interface CouplerPose {
+  x: number;
+  y: number;
+  angle: number; // degrees
+}
+
+export interface MotionSynthesisResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  groundPivots: Vector2[];      // [A, D]
+  movingPivots: Vector2[][];    // [B, C] in each pose
+  inputAngles: number[];        // degrees, one per pose
+  branchDefect: boolean;        // Poses need different assembly branches
+  orderDefect: boolean;         // Driver cannot pass the poses in sequence
+}
+
+// Maps x ∈ [xStart, xEnd] linearly onto the input angle and f(x) onto the
+// output angle; angles in degrees, measured from the frame line
+export interface FunctionGeneratorSpec {
+  fn: (x: number) => number;
+  xStart: number;
+  xEnd: number;
+  inputStart: number;
+  inputRange: number;
+  outputStart: number;
+  outputRange: number;
+  frame: number;
+  precisionPoints: number[]; // Three x values
+}
+
+export interface FunctionGeneratorResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  // Output angle error (achieved − desired, degrees) over the whole x range
+  structuralError: { x: number, error: number }[];
+  maxError: number;        // Largest |error| where the linkage assembles
+  coversRange: boolean;    // Assembles over the whole x range on one branch
+  branchDefect: boolean;   // Precision points need different branches
+}
+
+// Coupler curve fit through target points. Without timing each target is
+// matched to the nearest point of the curve; with timing, target i must be
+// reached at the first target's input angle plus timing[i] (degrees).
+export interface PathSynthesisSpec {
+  targets: Vector2[];
+  timing?: number[];
+  branch: AssemblyBranch;
+  grashofType?: BarkerType; // Accept only this type
+  initial?: LinkageDesign;   // Seed the search, e.g. to refine an earlier result
+  seed?: number;
+}
+
+export interface PathSynthesisResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  matchedPoints: Vector2[]; // Curve point assigned to each target
+  deviations: number[];     // Distance from each target to its curve point
+  rmsError: number;
+  maxError: number;
+}
+
+// Classical crank-rocker construction: the rocker's two extreme positions
+// C1, C2 and a crank pivot A that sees the chord C1C2 under δ = 180°(Q − 1)/(Q + 1)
+export interface CrankRockerSpec {
+  rocker: number;
+  swingAngle: number;      // degrees
+  timeRatio: number;       // Q ≥ 1
+  foldedDistance: number;  // |AC2| = coupler − crank; picks A along its locus
+  farSide: boolean;        // A beyond the chord C1C2, away from the rocker pivot
+}
+
+export interface CrankRockerResult {
+  isValid: boolean;
+  error?: string;
+  design?: LinkageDesign;
+  points: { A: Vector2, D: Vector2, C1: Vector2, C2: Vector2 } | null;
+  maxFoldedDistance: number;   // foldedDistance must stay below this
+  transmission: { min: number, max: number };
+}
+
+// Everything needed to reopen a mechanism in the pose it was saved in, as
+// written to files, links and the browser's library. The version goes up
+// whenever the shape changes.
+export interface SavedDesign {
+  version: number;
+  mechanismType: MechanismType;
+  lengths: LinkLengths;
+  inversion: Inversion;
+  placement: FramePlacement;
+  branch: AssemblyBranch;
+  angle: number;
+  speed: number;
+  couplerPoint: CouplerPoint;
+  sixBar: SixBarDyad | null;
+  sliderCrank: SliderCrankDimensions;
+  sliderGround: SliderLink;
+  sphericalArcs: LinkLengths;
+}
+
+// A saved design read back in; errors say what was wrong when design is null
+export interface DesignParseResult {
+  design: SavedDesign | null;
+  errors: string[];
+}
+
+export interface DesignLibraryEntry {
+  name: string;
+  savedAt: string; // ISO timestamp
+  design: SavedDesign;
+}
+
+// Plain geometry of one pose, for the CAD and animation exports
+export interface LinkageDrawing {
+  links: [Vector2, Vector2][];  // Centerlines of the moving links
+  ground: [Vector2, Vector2][]; // Fixed lines between ground pivots
+  pivots: Vector2[];            // Ground pivots
+  joints: Vector2[];            // Moving pins
+  curves: Vector2[][];          // Traced paths, e.g. the coupler curve
+}
+
+export type DrawingFormat = 'svg' | 'dxf' | 'animated-svg';
+
+// Joints of the four-bar the canvas lets you drag, in solver slots
+export type DraggableJoint = 'B' | 'C' | 'D';
+
+export interface DragSnap {
+  grid: boolean;    // Round the dragged point to the canvas grid
+  lengths: boolean; // Round the link lengths it sets to whole units
+}
@@ -0,0 +1,66 @@
+import { AssemblyBranch, Cognate, CouplerPoint, JointCoordinates, Vector2 } from '../types.ts';
+import { calculateJoints, placementFromPivots } from './kinematics.ts';
+
+// Planar vectors treated as complex numbers
+const complexMul = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x * q.x - p.y * q.y, y: p.x * q.y + p.y * q.x });
+const plus = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x + q.x, y: p.y + q.y });
+const minus = (p: Vector2, q: Vector2): Vector2 => ({ x: p.x - q.x, y: p.y - q.y });
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Packs four pivots into a cognate, with the coupler point P described relative to its B->C
+const buildCognate = (A: Vector2, B: Vector2, C: Vector2, D: Vector2, P: Vector2): Cognate | null => {
+  const lengths = {
+    frame: Math.hypot(D.x - A.x, D.y - A.y),
+    input: Math.hypot(B.x - A.x, B.y - A.y),
+    coupler: Math.hypot(C.x - B.x, C.y - B.y),
+    output: Math.hypot(C.x - D.x, C.y - D.y),
+  };
+  // A coupler point on a joint of the original collapses this cognate
+  if (Object.values(lengths).some(len => len < 1e-9)) return null;
+
+  const { placement } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const angle = toDegrees(Math.atan2(B.y - A.y, B.x - A.x));
+  const open = calculateJoints(lengths, angle, AssemblyBranch.OPEN, placement);
+  const branch = open.isValid && Math.hypot(open.Cx - C.x, open.Cy - C.y) < 1e-6 * lengths.coupler
+    ? AssemblyBranch.OPEN
+    : AssemblyBranch.CROSSED;
+  const couplerPoint: CouplerPoint = {
+    distance: Math.hypot(P.x - B.x, P.y - B.y),
+    angle: toDegrees(Math.atan2(P.y - B.y, P.x - B.x) - Math.atan2(C.y - B.y, C.x - B.x)),
+  };
+
+  return {
+    joints: { Ax: A.x, Ay: A.y, Bx: B.x, By: B.y, Cx: C.x, Cy: C.y, Dx: D.x, Dy: D.y, isValid: true },
+    design: { lengths, placement, branch, angle, couplerPoint },
+  };
+};
+
+// Cayley diagram: with P = B + k(C − B) for a complex ratio k, the loop
+// AB + BC − DC = AD scaled by k and by 1 − k gives two more four-bars through
+// P that share the third ground pivot O = A + k(D − A). The first keeps pivot
+// A, the second pivot D. Each is null when it degenerates.
+export const calculateCognates = (joints: JointCoordinates, point: CouplerPoint): [Cognate | null, Cognate | null] => {
+  if (!joints.isValid) return [null, null];
+
+  const A = { x: joints.Ax, y: joints.Ay };
+  const B = { x: joints.Bx, y: joints.By };
+  const C = { x: joints.Cx, y: joints.Cy };
+  const D = { x: joints.Dx, y: joints.Dy };
+  const ratio = point.distance / Math.hypot(C.x - B.x, C.y - B.y);
+  const delta = (point.angle * Math.PI) / 180;
+  const k = { x: ratio * Math.cos(delta), y: ratio * Math.sin(delta) };
+  const m = { x: 1 - k.x, y: -k.y };
+
+  const BC = minus(C, B);
+  const P = plus(B, complexMul(k, BC));
+  const O = plus(A, complexMul(k, minus(D, A)));
+
+  // Pivot A: crank parallel to BP, coupler parallel to AB, rocker parallel to DC
+  const E = plus(A, complexMul(k, BC));
+  const G = plus(E, complexMul(k, minus(B, A)));
+  // Pivot D: crank parallel to CP, coupler parallel to DC, rocker parallel to AB
+  const F = minus(D, complexMul(m, BC));
+  const H = plus(F, complexMul(m, minus(C, D)));
+
+  return [buildCognate(A, E, G, O, P), buildCognate(D, F, H, O, P)];
+};
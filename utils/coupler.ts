@@ -0,0 +1,52 @@
+import { AssemblyBranch, CouplerPoint, FramePlacement, JointCoordinates, LinkLengths, ReachableRange, Vector2 } from '../types.ts';
+import { calculateJoints, HORIZONTAL_FRAME } from './kinematics.ts';
+
+// Slider ranges for the polar coupler point description
+export const COUPLER_POINT_BOUNDS: Record<keyof CouplerPoint, { min: number, max: number }> = {
+  distance: { min: 0, max: 300 },
+  angle: { min: -180, max: 180 },
+};
+
+// Local coupler frame: u runs along B->C, v is perpendicular to it (counter-clockwise)
+export const couplerPointToLocal = (point: CouplerPoint): Vector2 => {
+  const delta = (point.angle * Math.PI) / 180;
+  return { x: point.distance * Math.cos(delta), y: point.distance * Math.sin(delta) };
+};
+
+export const couplerPointFromLocal = (local: Vector2): CouplerPoint => ({
+  distance: Math.hypot(local.x, local.y),
+  angle: (Math.atan2(local.y, local.x) * 180) / Math.PI,
+});
+
+export const calculateCouplerPoint = (joints: JointCoordinates, point: CouplerPoint): Vector2 => {
+  if (!joints.isValid) return { x: NaN, y: NaN };
+
+  const { Bx, By, Cx, Cy } = joints;
+  const direction = Math.atan2(Cy - By, Cx - Bx) + (point.angle * Math.PI) / 180;
+  return {
+    x: Bx + point.distance * Math.cos(direction),
+    y: By + point.distance * Math.sin(direction),
+  };
+};
+
+// Samples the coupler curve of one branch over every reachable input interval.
+// Returns one polyline per interval; a fully rotating input yields a closed loop.
+export const traceCouplerCurve = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  point: CouplerPoint,
+  range: ReachableRange,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  step: number = 1
+): Vector2[][] => {
+  return range.intervals.map(({ start, end }) => {
+    const samples = Math.max(2, Math.ceil((end - start) / step) + 1);
+    const curve: Vector2[] = [];
+    for (let i = 0; i < samples; i++) {
+      const theta = start + ((end - start) * i) / (samples - 1);
+      const p = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), point);
+      if (isFinite(p.x)) curve.push(p);
+    }
+    return curve;
+  });
+};
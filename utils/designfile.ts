@@ -0,0 +1,208 @@
+import {
+  AssemblyBranch,
+  DesignLibraryEntry,
+  DesignParseResult,
+  LinkLengths,
+  LinkRole,
+  MechanismType,
+  SavedDesign,
+  SixBarType,
+  SliderLink
+} from '../types.ts';
+import { LINK_LENGTH_BOUNDS, adjacentLinks } from './kinematics.ts';
+import { SLIDER_CRANK_BOUNDS } from './slidercrank.ts';
+import { SPHERICAL_ARC_BOUNDS } from './spherical.ts';
+
+export const DESIGN_VERSION = 1;
+
+// Range of the animation speed slider
+export const SPEED_BOUNDS = { min: 0.2, max: 5 };
+
+type NumberBounds = { min?: number, max?: number, positive?: boolean };
+
+// Pivots and the designers can take dimensions past the sliders, so a file may
+// too, up to this multiple of the slider's largest value
+const SLIDER_REACH = 10;
+
+const pastSlider = ({ max }: { max: number }): NumberBounds => ({ positive: true, max: SLIDER_REACH * max });
+
+// Checks an already-parsed value field by field, collecting every problem in
+// one pass and naming each field by its path in the file. The spherical arcs
+// must stay off 0° and 180°.
+export const validateDesign = (value: unknown): DesignParseResult => {
+  const errors: string[] = [];
+  // Fields under a missing object are not reported again one by one
+  const missing: string[] = [];
+  const report = (path: string, message: string) => {
+    if (!missing.some(m => path.startsWith(`${m}.`))) errors.push(message);
+  };
+
+  const readObject = (v: unknown, path: string): Record<string, unknown> => {
+    if (typeof v === 'object' && v !== null && !Array.isArray(v)) return v as Record<string, unknown>;
+    report(path, `${path} must be an object.`);
+    missing.push(path);
+    return {};
+  };
+
+  const readNumber = (v: unknown, path: string, bounds: NumberBounds = {}): number => {
+    if (typeof v !== 'number' || !isFinite(v)) {
+      report(path, `${path} must be a finite number.`);
+      return NaN;
+    }
+    if (bounds.positive && v <= 0) report(path, `${path} must be greater than 0 (got ${v}).`);
+    if (bounds.min !== undefined && v < bounds.min) report(path, `${path} must be at least ${bounds.min} (got ${v}).`);
+    if (bounds.max !== undefined && v > bounds.max) report(path, `${path} must be at most ${bounds.max} (got ${v}).`);
+    return v;
+  };
+
+  const readChoice = <T extends string>(v: unknown, path: string, options: T[]): T => {
+    const match = options.find(option => option === v);
+    if (match === undefined) report(path, `${path} must be one of ${options.map(o => `"${o}"`).join(', ')}.`);
+    return match;
+  };
+
+  const readLengths = (v: unknown, path: string, bounds: (link: keyof LinkLengths) => NumberBounds): LinkLengths => {
+    const o = readObject(v, path);
+    return {
+      frame: readNumber(o.frame, `${path}.frame`, bounds('frame')),
+      input: readNumber(o.input, `${path}.input`, bounds('input')),
+      coupler: readNumber(o.coupler, `${path}.coupler`, bounds('coupler')),
+      output: readNumber(o.output, `${path}.output`, bounds('output')),
+    };
+  };
+
+  const readPoint = (v: unknown, path: string) => {
+    const o = readObject(v, path);
+    return {
+      distance: readNumber(o.distance, `${path}.distance`, { min: 0 }),
+      angle: readNumber(o.angle, `${path}.angle`),
+    };
+  };
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { design: null, errors: ['The design must be a JSON object.'] };
+  }
+  const root = value as Record<string, unknown>;
+  if (root.version !== DESIGN_VERSION) {
+    return { design: null, errors: [`Unsupported design version ${JSON.stringify(root.version)}; this version of the app reads version ${DESIGN_VERSION}.`] };
+  }
+
+  const roles = Object.values(LinkRole);
+  const branches = Object.values(AssemblyBranch);
+  const inversion = readObject(root.inversion, 'inversion');
+  const placement = readObject(root.placement, 'placement');
+  const slider = readObject(root.sliderCrank, 'sliderCrank');
+
+  const design: SavedDesign = {
+    version: DESIGN_VERSION,
+    mechanismType: readChoice(root.mechanismType, 'mechanismType', Object.values(MechanismType)),
+    lengths: readLengths(root.lengths, 'lengths', link => pastSlider(LINK_LENGTH_BOUNDS[link])),
+    inversion: {
+      ground: readChoice(inversion.ground, 'inversion.ground', roles),
+      driver: readChoice(inversion.driver, 'inversion.driver', roles),
+    },
+    placement: {
+      originX: readNumber(placement.originX, 'placement.originX'),
+      originY: readNumber(placement.originY, 'placement.originY'),
+      angle: readNumber(placement.angle, 'placement.angle'),
+    },
+    branch: readChoice(root.branch, 'branch', branches),
+    angle: readNumber(root.angle, 'angle'),
+    speed: readNumber(root.speed, 'speed', SPEED_BOUNDS),
+    couplerPoint: readPoint(root.couplerPoint, 'couplerPoint'),
+    sixBar: null,
+    sliderCrank: {
+      crank: readNumber(slider.crank, 'sliderCrank.crank', pastSlider(SLIDER_CRANK_BOUNDS.crank)),
+      rod: readNumber(slider.rod, 'sliderCrank.rod', pastSlider(SLIDER_CRANK_BOUNDS.rod)),
+      offset: readNumber(slider.offset, 'sliderCrank.offset', {
+        min: SLIDER_REACH * SLIDER_CRANK_BOUNDS.offset.min,
+        max: SLIDER_REACH * SLIDER_CRANK_BOUNDS.offset.max,
+      }),
+    },
+    sliderGround: readChoice(root.sliderGround, 'sliderGround', Object.values(SliderLink)),
+    sphericalArcs: readLengths(root.sphericalArcs, 'sphericalArcs', () => SPHERICAL_ARC_BOUNDS),
+  };
+
+  const { ground, driver } = design.inversion;
+  if (ground && driver && !adjacentLinks(ground).includes(driver)) {
+    errors.push(`inversion.driver must share a joint with the ground link ${ground}.`);
+  }
+
+  if (root.sixBar !== null && root.sixBar !== undefined) {
+    const dyad = readObject(root.sixBar, 'sixBar');
+    const dyadLengths = readObject(dyad.lengths, 'sixBar.lengths');
+    design.sixBar = {
+      type: readChoice(dyad.type, 'sixBar.type', Object.values(SixBarType)),
+      pointE: readPoint(dyad.pointE, 'sixBar.pointE'),
+      pointF: readPoint(dyad.pointF, 'sixBar.pointF'),
+      // The dyad links have no sliders, so they share the coupler's limit
+      lengths: {
+        first: readNumber(dyadLengths.first, 'sixBar.lengths.first', pastSlider(LINK_LENGTH_BOUNDS.coupler)),
+        second: readNumber(dyadLengths.second, 'sixBar.lengths.second', pastSlider(LINK_LENGTH_BOUNDS.coupler)),
+      },
+      branch: readChoice(dyad.branch, 'sixBar.branch', branches),
+    };
+  }
+
+  return errors.length > 0 ? { design: null, errors } : { design, errors: [] };
+};
+
+export const serializeDesign = (design: SavedDesign): string => JSON.stringify(design, null, 2);
+
+export const parseDesign = (text: string): DesignParseResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return { design: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return validateDesign(value);
+};
+
+// Base64url keeps the JSON compact and free of characters a URL would escape
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+// Link that reopens the design, carried in the hash so it never reaches a server
+export const designToUrl = (design: SavedDesign, pageUrl: string): string =>
+  `${pageUrl.split('#')[0]}#design=${toBase64Url(JSON.stringify(design))}`;
+
+// The design in a link's hash or query string, or null when it carries none
+export const designFromUrl = (url: string): DesignParseResult | null => {
+  const { hash, search } = new URL(url);
+  const encoded = new URLSearchParams(hash.slice(1)).get('design') ?? new URLSearchParams(search).get('design');
+  if (encoded === null) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    return { design: null, errors: ['The link\'s design is not valid base64url.'] };
+  }
+  return parseDesign(text);
+};
+
+const LIBRARY_KEY = 'grashof-explorer.designs';
+
+// Named designs kept in localStorage; entries that no longer validate are dropped
+export const readDesignLibrary = (): DesignLibraryEntry[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(entry => {
+    const { design } = validateDesign(entry?.design);
+    return design && typeof entry.name === 'string' ? [{ name: entry.name, savedAt: String(entry.savedAt ?? ''), design }] : [];
+  });
+};
+
+export const writeDesignLibrary = (entries: DesignLibraryEntry[]) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+};
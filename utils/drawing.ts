@@ -0,0 +1,153 @@
+import { LinkageDrawing, MechanismLink, ReachableRange, Vector2 } from '../types.ts';
+
+// Geometry of a pose from the links and the joints they carry. A ternary
+// link becomes the three sides of its plate.
+export const drawingFromPose = (
+  links: MechanismLink[],
+  joints: Record<string, Vector2>,
+  curves: Vector2[][] = []
+): LinkageDrawing => {
+  const drawing: LinkageDrawing = { links: [], ground: [], pivots: [], joints: [], curves };
+  const pivotNames = new Set(links.filter(link => link.ground).flatMap(link => link.joints));
+  for (const link of links) {
+    const points = link.joints.map(name => joints[name]);
+    const sides: [Vector2, Vector2][] = points.length === 2
+      ? [[points[0], points[1]]]
+      : points.map((p, i) => [p, points[(i + 1) % points.length]]);
+    (link.ground ? drawing.ground : drawing.links).push(...sides);
+  }
+  for (const name of new Set(links.flatMap(link => link.joints))) {
+    (pivotNames.has(name) ? drawing.pivots : drawing.joints).push(joints[name]);
+  }
+  return drawing;
+};
+
+// Input angles for one cycle, every step degrees: a full turn for a crank,
+// out to the far toggle and back for a rocker in the zone holding angle
+export const cycleAngles = (range: ReachableRange, angle: number, step: number = 2): number[] => {
+  if (range.fullRotation) return Array.from({ length: Math.round(360 / step) }, (_, i) => i * step);
+  const wrapped = ((angle % 360) + 360) % 360;
+  const zone = range.intervals.find(({ start, end }) =>
+    (wrapped >= start && wrapped <= end) || (wrapped + 360 >= start && wrapped + 360 <= end)
+  ) ?? range.intervals[0];
+  if (!zone) return [];
+  const steps = Math.max(1, Math.ceil((zone.end - zone.start) / step));
+  const out = Array.from({ length: steps + 1 }, (_, i) => zone.start + ((zone.end - zone.start) * i) / steps);
+  return [...out, ...out.slice(1, -1).reverse()];
+};
+
+// The live canvas as a file of its own: class-based styles are written
+// inline, hidden parts dropped, and the canvas's CSS flip becomes an SVG
+// transform so the labels read the right way up
+const INLINE_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-opacity', 'opacity', 'font-family', 'font-size', 'font-weight',
+];
+
+export const standaloneSvg = (svg: SVGSVGElement): string => {
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+
+  const pairs: [Element, Element][] = [];
+  const walk = (source: Element, target: Element) => {
+    pairs.push([source, target]);
+    Array.from(source.children).forEach((child, i) => walk(child, target.children[i]));
+  };
+  walk(svg, copy);
+  for (const [source, target] of pairs) {
+    const computed = getComputedStyle(source);
+    if (computed.display === 'none') {
+      target.remove();
+      continue;
+    }
+    if (source === svg) continue;
+    const style = INLINE_STYLES.map(name => `${name}:${computed.getPropertyValue(name)}`).join(';');
+    target.setAttribute('style', `${style};${target.getAttribute('style') ?? ''}`);
+    target.removeAttribute('class');
+  }
+
+  const { x, y, width, height } = svg.viewBox.baseVal;
+  const out = document.createElementNS(SVG_NS, 'svg');
+  out.setAttribute('xmlns', SVG_NS);
+  out.setAttribute('viewBox', `${x} ${-(y + height)} ${width} ${height}`);
+  out.setAttribute('width', `${Math.round(width)}`);
+  out.setAttribute('height', `${Math.round(height)}`);
+  const flip = document.createElementNS(SVG_NS, 'g');
+  flip.setAttribute('transform', 'scale(1, -1)');
+  flip.append(...Array.from(copy.childNodes));
+  out.append(flip);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(out)}`;
+};
+
+// AutoCAD R12 ASCII DXF, which every CAD package still reads: centerlines as
+// LINEs, pins as CIRCLEs and traced curves as POLYLINEs, one layer each
+const DXF_PIN_RADIUS = { PIVOTS: 6, JOINTS: 4 };
+
+export const drawingToDxf = (drawing: LinkageDrawing): string => {
+  const codes: (string | number)[] = [];
+  const emit = (...pairs: (string | number)[]) => codes.push(...pairs);
+  const num = (v: number) => +v.toFixed(6);
+  const line = (layer: string, [p, q]: [Vector2, Vector2]) =>
+    emit(0, 'LINE', 8, layer, 10, num(p.x), 20, num(p.y), 30, 0, 11, num(q.x), 21, num(q.y), 31, 0);
+  const circle = (layer: keyof typeof DXF_PIN_RADIUS, p: Vector2) =>
+    emit(0, 'CIRCLE', 8, layer, 10, num(p.x), 20, num(p.y), 30, 0, 40, DXF_PIN_RADIUS[layer]);
+
+  emit(0, 'SECTION', 2, 'HEADER', 9, '$ACADVER', 1, 'AC1009', 0, 'ENDSEC');
+  emit(0, 'SECTION', 2, 'ENTITIES');
+  drawing.ground.forEach(side => line('GROUND', side));
+  drawing.links.forEach(side => line('LINKS', side));
+  drawing.pivots.forEach(p => circle('PIVOTS', p));
+  drawing.joints.forEach(p => circle('JOINTS', p));
+  for (const curve of drawing.curves) {
+    if (curve.length < 2) continue;
+    emit(0, 'POLYLINE', 8, 'CURVES', 66, 1, 70, 0, 10, 0, 20, 0, 30, 0);
+    curve.forEach(p => emit(0, 'VERTEX', 8, 'CURVES', 10, num(p.x), 20, num(p.y), 30, 0));
+    emit(0, 'SEQEND', 8, 'CURVES');
+  }
+  emit(0, 'ENDSEC', 0, 'EOF');
+
+  const lines: string[] = [];
+  for (let i = 0; i < codes.length; i += 2) lines.push(`${codes[i]}`, `${codes[i + 1]}`);
+  return `${lines.join('\n')}\n`;
+};
+
+// A looping SVG of the frames, each shown in turn with SMIL <animate>. All
+// frames must share one structure; the first frame's curves are drawn fixed.
+export const animatedSvg = (frames: LinkageDrawing[], fps: number = 30): string => {
+  if (frames.length === 0) return '';
+  const all = frames.flatMap(f => [...f.links.flat(), ...f.ground.flat(), ...f.pivots, ...f.joints]).concat(frames[0].curves.flat());
+  const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+  const pad = 0.08 * Math.max(maxX - minX, maxY - minY, 1) + 20;
+  const viewBox = [minX - pad, -maxY - pad, maxX - minX + 2 * pad, maxY - minY + 2 * pad].map(v => +v.toFixed(2));
+
+  // SVG's y runs down, so every y is negated on the way out
+  const f2 = (v: number) => +v.toFixed(2);
+  const dur = `${(frames.length / fps).toFixed(3)}s`;
+  const animate = (attribute: string, values: number[]) =>
+    `<animate attributeName="${attribute}" values="${values.map(f2).join(';')}" dur="${dur}" calcMode="discrete" repeatCount="indefinite"/>`;
+  const animatedLine = (pick: (f: LinkageDrawing) => [Vector2, Vector2], style: string) => {
+    const sides = frames.map(pick);
+    const [p, q] = sides[0];
+    return `<line x1="${f2(p.x)}" y1="${f2(-p.y)}" x2="${f2(q.x)}" y2="${f2(-q.y)}" ${style}>`
+      + animate('x1', sides.map(s => s[0].x)) + animate('y1', sides.map(s => -s[0].y))
+      + animate('x2', sides.map(s => s[1].x)) + animate('y2', sides.map(s => -s[1].y)) + '</line>';
+  };
+  const animatedCircle = (pick: (f: LinkageDrawing) => Vector2, style: string) => {
+    const points = frames.map(pick);
+    return `<circle cx="${f2(points[0].x)}" cy="${f2(-points[0].y)}" ${style}>`
+      + animate('cx', points.map(p => p.x)) + animate('cy', points.map(p => -p.y)) + '</circle>';
+  };
+
+  const first = frames[0];
+  const parts = [
+    ...first.curves.map(curve =>
+      `<polyline points="${curve.map(p => `${f2(p.x)},${f2(-p.y)}`).join(' ')}" fill="none" stroke="#0d9488" stroke-width="3"/>`),
+    ...first.ground.map((_, i) => animatedLine(f => f.ground[i], 'stroke="#94a3b8" stroke-width="5" stroke-dasharray="15,8"')),
+    ...first.links.map((_, i) => animatedLine(f => f.links[i], 'stroke="#334155" stroke-width="7" stroke-linecap="round"')),
+    ...first.pivots.map((_, i) => animatedCircle(f => f.pivots[i], 'r="10" fill="#94a3b8" stroke="#1e293b" stroke-width="3"')),
+    ...first.joints.map((_, i) => animatedCircle(f => f.joints[i], 'r="8" fill="white" stroke="#1e293b" stroke-width="3"')),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox.join(' ')}" `
+    + `width="${Math.round(viewBox[2])}" height="${Math.round(viewBox[3])}">\n${parts.join('\n')}\n</svg>\n`;
+};
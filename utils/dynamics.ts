@@ -0,0 +1,202 @@
+import {
+  AssemblyBranch,
+  CouplerPoint,
+  DynamicAnalysis,
+  FramePlacement,
+  InversionLayout,
+  JointCoordinates,
+  LinkLengths,
+  LinkMass,
+  LinkModel,
+  LinkRole,
+  StaticLoad,
+  Vector2
+} from '../types.ts';
+import { calculateJoints, invertLengths } from './kinematics.ts';
+import { calculateMotion } from './motion.ts';
+import { calculateCouplerPoint } from './coupler.ts';
+import { solveLinearSystem } from './numeric.ts';
+
+type JointName = 'A' | 'B' | 'C' | 'D';
+
+// The joints a link runs between, in the direction its mass frame uses.
+// Applies to physical links and to solver slots alike.
+const LINK_ENDS: Record<LinkRole, [JointName, JointName]> = {
+  [LinkRole.FRAME]: ['A', 'D'],
+  [LinkRole.INPUT]: ['A', 'B'],
+  [LinkRole.COUPLER]: ['B', 'C'],
+  [LinkRole.OUTPUT]: ['D', 'C'],
+};
+
+const ZERO_VECTOR: Vector2 = { x: 0, y: 0 };
+const crossZ = (r: Vector2, f: Vector2) => r.x * f.y - r.y * f.x;
+
+// Uniform slender bar of the given mass per unit length
+export const uniformBar = (length: number, linearDensity: number): LinkMass => {
+  const mass = length * linearDensity;
+  return { mass, com: { x: length / 2, y: 0 }, inertia: (mass * length * length) / 12 };
+};
+
+export const uniformBars = (lengths: LinkLengths, linearDensity: number): LinkModel['masses'] => ({
+  frame: uniformBar(lengths.frame, linearDensity),
+  input: uniformBar(lengths.input, linearDensity),
+  coupler: uniformBar(lengths.coupler, linearDensity),
+  output: uniformBar(lengths.output, linearDensity),
+});
+
+// Newton–Euler solution for the three moving links at constant input speed.
+// Unknowns: ground on input at A, input on coupler at B, coupler on output at
+// C, ground on output at D, and the driving torque. The applied load acts as
+// in the static analysis, which this reduces to for massless links.
+export const calculateDynamics = (
+  model: LinkModel,
+  layout: InversionLayout,
+  joints: JointCoordinates,
+  omegaInput: number,
+  load: StaticLoad,
+  couplerPosition: Vector2
+): DynamicAnalysis => {
+  const invalid: DynamicAnalysis = {
+    pinA: ZERO_VECTOR, pinB: ZERO_VECTOR, pinC: ZERO_VECTOR, pinD: ZERO_VECTOR, inputTorque: NaN,
+    shakingForce: ZERO_VECTOR, shakingMoment: NaN, isValid: false
+  };
+  const motion = calculateMotion(joints, omegaInput, 0);
+  const P = load.forceAt === 'C' ? { x: joints.Cx, y: joints.Cy } : couplerPosition;
+  if (!motion.isValid || !isFinite(P.x)) return invalid;
+
+  const pos: Record<JointName, Vector2> = {
+    A: { x: joints.Ax, y: joints.Ay },
+    B: { x: joints.Bx, y: joints.By },
+    C: { x: joints.Cx, y: joints.Cy },
+    D: { x: joints.Dx, y: joints.Dy },
+  };
+  const acc: Record<JointName, Vector2> = { A: ZERO_VECTOR, B: motion.accB, C: motion.accC, D: ZERO_VECTOR };
+  const rates = {
+    input: { omega: omegaInput, alpha: 0 },
+    coupler: { omega: motion.omegaCoupler, alpha: motion.alphaCoupler },
+    output: { omega: motion.omegaOutput, alpha: motion.alphaOutput },
+  };
+
+  // Solver joint standing in for each physical joint
+  const solverJoint = (physical: string) =>
+    (Object.keys(layout.joints) as JointName[]).find(k => layout.joints[k] === physical);
+
+  // Center of mass, its acceleration and the mass properties of the physical
+  // link sitting in a solver slot
+  const slotBody = (slot: 'input' | 'coupler' | 'output') => {
+    const props = model.masses[layout.links[slot]];
+    const [from, to] = LINK_ENDS[layout.links[slot]].map(solverJoint);
+    const dir = Math.atan2(pos[to].y - pos[from].y, pos[to].x - pos[from].x);
+    const r = {
+      x: props.com.x * Math.cos(dir) - props.com.y * Math.sin(dir),
+      y: props.com.x * Math.sin(dir) + props.com.y * Math.cos(dir),
+    };
+    const { omega, alpha } = rates[slot];
+    const a0 = acc[from];
+    return {
+      ...props,
+      G: { x: pos[from].x + r.x, y: pos[from].y + r.y },
+      accG: {
+        x: a0.x - alpha * r.y - omega * omega * r.x,
+        y: a0.y + alpha * r.x - omega * omega * r.y,
+      },
+      alpha,
+    };
+  };
+  const input = slotBody('input');
+  const coupler = slotBody('coupler');
+  const output = slotBody('output');
+
+  // Moment-arm rows: r × F = r.x·Fy − r.y·Fx
+  const arm = (from: Vector2, at: Vector2, sign: number) => [-sign * (at.y - from.y), sign * (at.x - from.x)];
+  const F = load.force;
+  const rPG3 = { x: P.x - coupler.G.x, y: P.y - coupler.G.y };
+
+  //          FAx FAy  FBx FBy  FCx FCy  FDx FDy  T
+  const rows: number[][] = [
+    [1, 0, -1, 0, 0, 0, 0, 0, 0],
+    [0, 1, 0, -1, 0, 0, 0, 0, 0],
+    [...arm(input.G, pos.A, 1), ...arm(input.G, pos.B, -1), 0, 0, 0, 0, 1],
+    [0, 0, 1, 0, -1, 0, 0, 0, 0],
+    [0, 0, 0, 1, 0, -1, 0, 0, 0],
+    [0, 0, ...arm(coupler.G, pos.B, 1), ...arm(coupler.G, pos.C, -1), 0, 0, 0],
+    [0, 0, 0, 0, 1, 0, 1, 0, 0],
+    [0, 0, 0, 0, 0, 1, 0, 1, 0],
+    [0, 0, 0, 0, ...arm(output.G, pos.C, 1), ...arm(output.G, pos.D, 1), 0],
+  ];
+  const rhs = [
+    input.mass * input.accG.x,
+    input.mass * input.accG.y,
+    input.inertia * input.alpha,
+    coupler.mass * coupler.accG.x - F.x,
+    coupler.mass * coupler.accG.y - F.y,
+    coupler.inertia * coupler.alpha - crossZ(rPG3, F),
+    output.mass * output.accG.x,
+    output.mass * output.accG.y,
+    output.inertia * output.alpha - load.outputTorque,
+  ];
+  const x = solveLinearSystem(rows, rhs);
+  if (!x) return invalid;
+
+  const pinA = { x: x[0], y: x[1] };
+  const pinD = { x: x[6], y: x[7] };
+  const inputTorque = x[8];
+  const rAD = { x: pos.D.x - pos.A.x, y: pos.D.y - pos.A.y };
+  return {
+    pinA,
+    pinB: { x: x[2], y: x[3] },
+    pinC: { x: x[4], y: x[5] },
+    pinD,
+    inputTorque,
+    shakingForce: { x: -pinA.x - pinD.x, y: -pinA.y - pinD.y },
+    shakingMoment: -inputTorque - crossZ(rAD, pinD),
+    isValid: true,
+  };
+};
+
+// Dynamic solution over a full turn of the input at constant speed, one
+// sample per degree; angles where the linkage does not assemble come out invalid
+export const calculateDynamicsOverCycle = (
+  model: LinkModel,
+  layout: InversionLayout,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  omegaInput: number,
+  load: StaticLoad,
+  couplerPoint: CouplerPoint
+): { angle: number, dynamics: DynamicAnalysis }[] => {
+  const lengths = invertLengths(model.lengths, layout);
+  return Array.from({ length: 361 }, (_, angle) => {
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    const couplerPosition = calculateCouplerPoint(joints, couplerPoint);
+    return { angle, dynamics: calculateDynamics(model, layout, joints, omegaInput, load, couplerPosition) };
+  });
+};
+
+// One CSV row per input degree; pins and links use their physical names
+export const dynamicsCycleToCsv = (
+  cycle: { angle: number, dynamics: DynamicAnalysis }[],
+  layout: InversionLayout
+): string => {
+  const pins = ['A', 'B', 'C', 'D'] as const;
+  const header = [
+    'theta_deg',
+    `torque_${layout.links.input}`,
+    ...pins.flatMap(k => [`F${layout.joints[k]}_x`, `F${layout.joints[k]}_y`]),
+    'shaking_Fx',
+    'shaking_Fy',
+    'shaking_M',
+  ];
+  // Angles without a solution keep their row with empty values
+  const rows = cycle.map(({ angle, dynamics: d }) => {
+    const values = [
+      d.inputTorque,
+      ...pins.flatMap(k => [d[`pin${k}`].x, d[`pin${k}`].y]),
+      d.shakingForce.x,
+      d.shakingForce.y,
+      d.shakingMoment,
+    ];
+    return [angle, ...values.map(v => (d.isValid ? String(v) : ''))].join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,106 @@
+// Small parser for single-variable expressions such as "log10(x)" or "x^2 + 1".
+// Compiles once into a closure so sweeping thousands of samples stays cheap.
+
+type Evaluator = (x: number) => number;
+
+const FUNCTIONS: Record<string, (v: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  exp: Math.exp, log: Math.log, ln: Math.log, log10: Math.log10,
+  sqrt: Math.sqrt, abs: Math.abs,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const compileExpression = (source: string): { fn?: Evaluator, error?: string } => {
+  const tokens = source.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|[-+*/^()]|\S/gi) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (t: string) => {
+    if (tokens[pos] !== t) throw new Error(`Expected "${t}" but found ${tokens[pos] ? `"${tokens[pos]}"` : 'end of input'}`);
+    pos++;
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): Evaluator => {
+    let left = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++];
+      const l = left, r = parseTerm();
+      left = op === '+' ? x => l(x) + r(x) : x => l(x) - r(x);
+    }
+    return left;
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): Evaluator => {
+    let left = parseUnary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++];
+      const l = left, r = parseUnary();
+      left = op === '*' ? x => l(x) * r(x) : x => l(x) / r(x);
+    }
+    return left;
+  };
+
+  // unary := '-' unary | power
+  const parseUnary = (): Evaluator => {
+    if (peek() === '-') {
+      pos++;
+      const inner = parseUnary();
+      return x => -inner(x);
+    }
+    if (peek() === '+') {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const parsePower = (): Evaluator => {
+    const base = parsePrimary();
+    if (peek() !== '^') return base;
+    pos++;
+    const exponent = parseUnary();
+    return x => Math.pow(base(x), exponent(x));
+  };
+
+  const parsePrimary = (): Evaluator => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of input');
+    if (token === '(') {
+      const inner = parseExpr();
+      expect(')');
+      return inner;
+    }
+    if (/^\d*\.?\d+(?:e[+-]?\d+)?$/i.test(token)) {
+      const value = parseFloat(token);
+      return () => value;
+    }
+    const name = token.toLowerCase();
+    if (name === 'x') return x => x;
+    // Own keys only, so names like "constructor" stay unknown
+    if (Object.hasOwn(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      const f = FUNCTIONS[name];
+      expect('(');
+      const arg = parseExpr();
+      expect(')');
+      return x => f(arg(x));
+    }
+    throw new Error(`Unknown symbol "${token}"`);
+  };
+
+  try {
+    const fn = parseExpr();
+    if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+    return { fn };
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+};
@@ -0,0 +1,76 @@
+import { AssemblyBranch, FramePlacement, InstantCenter, InstantCenterAnalysis, JointCoordinates, LinkLengths, Vector2 } from '../types.ts';
+import { calculateJoints } from './kinematics.ts';
+
+// The two known centers whose line carries each unknown one, by Kennedy's
+// theorem: I13 lies on I12-I23 and I14-I34, I24 on I12-I14 and I23-I34
+export const KENNEDY_LINES: Record<'13' | '24', [[string, string], [string, string]]> = {
+  '13': [['12', '23'], ['14', '34']],
+  '24': [['12', '14'], ['23', '34']],
+};
+
+const UNDETERMINED: Vector2 = { x: NaN, y: NaN };
+
+// Where line p1-q1 meets line p2-q2. Parallel lines meet at infinity in their
+// common direction; lines that coincide leave the point undetermined.
+const meetLines = (p1: Vector2, q1: Vector2, p2: Vector2, q2: Vector2): { point: Vector2, atInfinity: boolean } => {
+  const d1 = { x: q1.x - p1.x, y: q1.y - p1.y };
+  const d2 = { x: q2.x - p2.x, y: q2.y - p2.y };
+  const len1 = Math.hypot(d1.x, d1.y);
+  const det = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(det) <= 1e-9 * len1 * Math.hypot(d2.x, d2.y)) {
+    const apart = (d1.x * (p2.y - p1.y) - d1.y * (p2.x - p1.x)) / len1;
+    if (Math.abs(apart) <= 1e-9 * len1) return { point: UNDETERMINED, atInfinity: false };
+    return { point: { x: d1.x / len1, y: d1.y / len1 }, atInfinity: true };
+  }
+  const t = ((p2.x - p1.x) * d2.y - (p2.y - p1.y) * d2.x) / det;
+  return { point: { x: p1.x + t * d1.x, y: p1.y + t * d1.y }, atInfinity: false };
+};
+
+// ω of link j over ω of link i, from a point P the two share: it moves alike
+// on both, so ωi·(P − Ii) = ωj·(P − Ij) with Ii and Ij their centers with the
+// ground. All three lie on one line, running along the given direction.
+const angularRatio = (P: Vector2, Ii: Vector2, Ij: Vector2, along: Vector2): number =>
+  ((P.x - Ii.x) * along.x + (P.y - Ii.y) * along.y) / ((P.x - Ij.x) * along.x + (P.y - Ij.y) * along.y);
+
+// All six instant centers of the pose and the speed ratios they give
+export const calculateInstantCenters = (joints: JointCoordinates): InstantCenterAnalysis => {
+  const invalid: InstantCenterAnalysis = {
+    centers: [], velocityRatio: NaN, couplerRatio: NaN, mechanicalAdvantage: NaN, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const A = { x: joints.Ax, y: joints.Ay };
+  const B = { x: joints.Bx, y: joints.By };
+  const C = { x: joints.Cx, y: joints.Cy };
+  const D = { x: joints.Dx, y: joints.Dy };
+  const I13 = { name: '13', ...meetLines(A, B, D, C) };
+  const I24 = { name: '24', ...meetLines(A, D, B, C) };
+  const centers: InstantCenter[] = [
+    { name: '12', point: A, atInfinity: false },
+    I13,
+    { name: '14', point: D, atInfinity: false },
+    { name: '23', point: B, atInfinity: false },
+    I24,
+    { name: '34', point: C, atInfinity: false },
+  ];
+
+  // I24 at infinity means input and output turn together; I13 at infinity
+  // means the coupler translates
+  const velocityRatio = I24.atInfinity ? 1 : angularRatio(I24.point, A, D, { x: D.x - A.x, y: D.y - A.y });
+  const couplerRatio = I13.atInfinity ? 0 : angularRatio(B, A, I13.point, { x: B.x - A.x, y: B.y - A.y });
+  // Ideal torque ratio T4/T2; the output stalls where I24 reaches A
+  const mechanicalAdvantage = velocityRatio === 0 ? Infinity : 1 / velocityRatio;
+  const isValid = isFinite(velocityRatio);
+  return { centers, velocityRatio, couplerRatio, mechanicalAdvantage, isValid };
+};
+
+// Instant centers over a full turn of the input, one sample per degree
+export const calculateInstantCentersOverCycle = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement
+): { angle: number, centers: InstantCenterAnalysis }[] =>
+  Array.from({ length: 361 }, (_, angle) => ({
+    angle,
+    centers: calculateInstantCenters(calculateJoints(lengths, angle, branch, placement)),
+  }));
@@ -1,29 +1,114 @@
-import { LinkLengths, JointCoordinates, GrashofType, LinkRole } from '../types.ts';
+import {
+  LinkLengths,
+  JointCoordinates,
+  BarkerType,
+  GrashofInfo,
+  LinkRole,
+  AssemblyBranch,
+  TransmissionAngleInfo,
+  ReachableRange,
+  QuickReturnInfo,
+  Inversion,
+  InversionLayout,
+  FramePlacement,
+  ChangePointMode,
+  ChangePointEvent,
+  KinematicSample
+} from '../types.ts';
+import { calculateMotion } from './motion.ts';
 
-export const calculateJoints = (lengths: LinkLengths, thetaInput: number): JointCoordinates => {
+export const HORIZONTAL_FRAME: FramePlacement = { originX: 0, originY: 0, angle: 0 };
+
+// Slider ranges for the link lengths; designers that search for lengths stay inside them
+export const LINK_LENGTH_BOUNDS: Record<keyof LinkLengths, { min: number, max: number }> = {
+  input: { min: 20, max: 200 },
+  coupler: { min: 20, max: 300 },
+  output: { min: 20, max: 200 },
+  frame: { min: 50, max: 300 },
+};
+
+// Ground pivots A and D in the global frame
+export const groundPivots = (placement: FramePlacement, frameLength: number) => {
+  const phi = (placement.angle * Math.PI) / 180;
+  return {
+    Ax: placement.originX,
+    Ay: placement.originY,
+    Dx: placement.originX + frameLength * Math.cos(phi),
+    Dy: placement.originY + frameLength * Math.sin(phi),
+  };
+};
+
+// Inverse of groundPivots: the frame length is whatever the pivots imply
+export const placementFromPivots = (
+  Ax: number,
+  Ay: number,
+  Dx: number,
+  Dy: number
+): { placement: FramePlacement, frameLength: number } => ({
+  placement: { originX: Ax, originY: Ay, angle: (Math.atan2(Dy - Ay, Dx - Ax) * 180) / Math.PI },
+  frameLength: Math.hypot(Dx - Ax, Dy - Ay),
+});
+
+// Links in loop order; joint LOOP_JOINTS[i] connects LOOP_LINKS[i] and LOOP_LINKS[i + 1]
+const LOOP_LINKS = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+const LOOP_JOINTS = ['A', 'B', 'C', 'D'];
+
+export const adjacentLinks = (role: LinkRole): LinkRole[] => {
+  const i = LOOP_LINKS.indexOf(role);
+  return [LOOP_LINKS[(i + 3) % 4], LOOP_LINKS[(i + 1) % 4]];
+};
+
+export const oppositeLink = (role: LinkRole): LinkRole => LOOP_LINKS[(LOOP_LINKS.indexOf(role) + 2) % 4];
+
+// Walks the loop from the ground towards the driver, so every inversion maps
+// onto the standard problem solved by calculateJoints
+export const resolveInversion = (inversion: Inversion): InversionLayout => {
+  const g = LOOP_LINKS.indexOf(inversion.ground);
+  const dir = LOOP_LINKS[(g + 1) % 4] === inversion.driver ? 1 : -1;
+  const link = (k: number) => LOOP_LINKS[(g + dir * k + 4) % 4];
+  // Going forwards the joint after link i is LOOP_JOINTS[i]; backwards it is the one before
+  const joint = (k: number) => LOOP_JOINTS[(g + dir * k + (dir === 1 ? 0 : 3) + 4) % 4];
+
+  return {
+    links: { frame: link(0), input: link(1), coupler: link(2), output: link(3) },
+    joints: { A: joint(0), B: joint(1), C: joint(2), D: joint(3) },
+  };
+};
+
+// Link lengths as seen by the solver: frame is the ground link, input the driver
+export const invertLengths = (lengths: LinkLengths, layout: InversionLayout): LinkLengths => ({
+  frame: lengths[layout.links.frame],
+  input: lengths[layout.links.input],
+  coupler: lengths[layout.links.coupler],
+  output: lengths[layout.links.output],
+});
+
+export const calculateJoints = (
+  lengths: LinkLengths,
+  thetaInput: number,
+  branch: AssemblyBranch = AssemblyBranch.OPEN,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): JointCoordinates => {
   const { frame: d, input: a, coupler: b, output: c } = lengths;
   
-  // Convert angle to radians
+  // Convert angle to radians (measured from the global X axis)
   const theta = (thetaInput * Math.PI) / 180;
 
-  // Joint A is origin (0,0) - visually offset later
-  const Ax = 0;
-  const Ay = 0;
-
-  // Joint D is fixed on X axis at distance d
-  const Dx = d;
-  const Dy = 0;
+  // Ground pivots A and D, with the frame at its global position and angle
+  const { Ax, Ay, Dx, Dy } = groundPivots(placement, d);
 
   // Joint B is determined by input angle
-  const Bx = a * Math.cos(theta);
-  const By = a * Math.sin(theta);
+  const Bx = Ax + a * Math.cos(theta);
+  const By = Ay + a * Math.sin(theta);
 
   // Joint C is intersection of circle centered at B (radius b) and D (radius c)
   // Distance between B and D
   const distBD = Math.sqrt(Math.pow(Dx - Bx, 2) + Math.pow(Dy - By, 2));
 
-  // Check assembly validity (Triangle inequality)
-  if (distBD > b + c || distBD < Math.abs(b - c) || distBD === 0) {
+  // Check assembly validity (Triangle inequality), with a little slack so the
+  // exact toggle angles from calculateReachableRange still assemble
+  const slack = 1e-9 * (b + c);
+  if (distBD > b + c + slack || distBD < Math.abs(b - c) - slack || distBD === 0) {
     return { Ax, Ay, Bx, By, Cx: NaN, Cy: NaN, Dx, Dy, isValid: false };
   }
 
@@ -33,12 +118,12 @@ export const calculateJoints = (lengths: LinkLengths, thetaInput: number): Joint
   const cosAlpha = (c * c + distBD * distBD - b * b) / (2 * c * distBD);
   const alpha = Math.acos(Math.min(Math.max(cosAlpha, -1), 1)); // Clamp for float errors
 
-  // Angle of line DB relative to horizontal
+  // Angle of line DB relative to the global X axis
   const angleDB = Math.atan2(By - Dy, Bx - Dx);
 
-  // Two solutions possible (elbow up/down). We conventionally pick one.
-  // We subtract alpha to keep the standard configuration
-  const thetaOutput = angleDB - alpha; 
+  // Two solutions possible (elbow up/down).
+  // Subtracting alpha gives the open branch, adding it gives the crossed one.
+  const thetaOutput = branch === AssemblyBranch.OPEN ? angleDB - alpha : angleDB + alpha;
 
   const Cx = Dx + c * Math.cos(thetaOutput);
   const Cy = Dy + c * Math.sin(thetaOutput);
@@ -46,48 +131,396 @@ export const calculateJoints = (lengths: LinkLengths, thetaInput: number): Joint
   return { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy, isValid: true };
 };
 
-export const determineGrashof = (lengths: LinkLengths): { type: GrashofType, shortest: LinkRole, longest: LinkRole } => {
-  const map = [
-    { role: LinkRole.FRAME, len: lengths.frame },
-    { role: LinkRole.INPUT, len: lengths.input },
-    { role: LinkRole.COUPLER, len: lengths.coupler },
-    { role: LinkRole.OUTPUT, len: lengths.output },
-  ];
+// Sums and differences closer than this fraction of the perimeter count as equal,
+// which is what separates the change-point cases from their neighbours
+export const CHANGE_POINT_TOLERANCE = 1e-6;
 
-  // Find S and L
+// Non-Grashof sign patterns of Barker's characteristics, keyed by T1 T2 T3
+const TRIPLE_ROCKERS: Record<string, BarkerType> = {
+  '---': BarkerType.RRR1,
+  '++-': BarkerType.RRR2,
+  '+-+': BarkerType.RRR3,
+  '-++': BarkerType.RRR4,
+};
+
+// Barker's classification of the chain relative to the chosen ground and driver
+export const determineGrashof = (
+  lengths: LinkLengths,
+  inversion: Inversion = { ground: LinkRole.FRAME, driver: LinkRole.INPUT }
+): GrashofInfo => {
+  const layout = resolveInversion(inversion);
+  const { frame: g, input: a, coupler: b, output: c } = invertLengths(lengths, layout);
+  const tolerance = CHANGE_POINT_TOLERANCE * (a + b + c + g);
+  const zeroed = (value: number) => (Math.abs(value) <= tolerance ? 0 : value);
+
+  const map = LOOP_LINKS.map(role => ({ role, len: lengths[role] }));
   let shortest = map[0];
   let longest = map[0];
-
   for (const item of map) {
     if (item.len < shortest.len) shortest = item;
     if (item.len > longest.len) longest = item;
   }
+  const margin = zeroed(a + b + c + g - 2 * (shortest.len + longest.len));
+  const characteristics: [number, number, number] = [
+    zeroed(g + c - a - b),
+    zeroed(b + g - a - c),
+    zeroed(b + c - a - g),
+  ];
 
-  const S = shortest.len;
-  const L = longest.len;
-  
-  // Calculate P + Q (sum of other two)
-  const totalSum = map.reduce((acc, curr) => acc + curr.len, 0);
-  const PQ = totalSum - S - L;
+  // A joint turns fully when the diagonal opposite it, which spans
+  // [|x − y|, x + y] as the joint angle runs round, always closes the other two links
+  const slots = [g, a, b, c];
+  const jointTurns = slots.map((x, i) => {
+    const y = slots[(i + 1) % 4], z = slots[(i + 2) % 4], w = slots[(i + 3) % 4];
+    return Math.abs(x - y) >= Math.abs(z - w) - tolerance && x + y <= z + w + tolerance;
+  });
+  // A link whose two joints both turn fully turns relative to every other link
+  const linkTurns = slots.map((_, i) => jointTurns[(i + 3) % 4] && jointTurns[i]);
+  const physical = (i: number) => layout.links[LOOP_LINKS[i]];
+  const fullRotation = {} as Record<LinkRole, LinkRole[]>;
+  slots.forEach((_, i) => {
+    fullRotation[physical(i)] = [0, 1, 2, 3]
+      .filter(j => j !== i && (linkTurns[i] || linkTurns[j]))
+      .map(physical);
+  });
+
+  const info = { shortest: shortest.role, longest: longest.role, margin, characteristics, fullRotation };
+  if (longest.len > a + b + c + g - longest.len + tolerance) return { ...info, type: BarkerType.INVALID };
+
+  const zeros = characteristics.filter(t => t === 0).length;
+  if (zeros === 3) return { ...info, type: BarkerType.S3X };
+  if (zeros === 2) return { ...info, type: BarkerType.S2X };
+  if (margin < 0) return { ...info, type: TRIPLE_ROCKERS[characteristics.map(t => (t > 0 ? '+' : '-')).join('')] };
 
-  // Assembly check
-  if (L > S + PQ) {
-     return { type: GrashofType.INVALID, shortest: shortest.role, longest: longest.role };
+  // Input, coupler and output relative to the ground
+  const letters = [1, 2, 3].map(i => (linkTurns[0] || linkTurns[i] ? 'C' : 'R')).join('');
+  return { ...info, type: BarkerType[`${zeros === 1 ? 'S' : 'G'}${letters}` as keyof typeof BarkerType] };
+};
+
+// Interior angle at C of the triangle B-C-D, from the diagonal length BD
+const transmissionFromDiagonal = (b: number, c: number, distBD: number): number => {
+  const cosMu = (b * b + c * c - distBD * distBD) / (2 * b * c);
+  return (Math.acos(Math.min(Math.max(cosMu, -1), 1)) * 180) / Math.PI;
+};
+
+export const analyzeTransmissionAngle = (lengths: LinkLengths, joints: JointCoordinates): TransmissionAngleInfo => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+
+  let current = NaN;
+  if (joints.isValid) {
+    const { Bx, By, Cx, Cy, Dx, Dy } = joints;
+    current = transmissionFromDiagonal(b, c, Math.hypot(Dx - Bx, Dy - By));
   }
 
-  const threshold = 0.01; // Floating point tolerance
+  // μ grows monotonically with BD, so its extremes over the cycle sit at the
+  // shortest and longest diagonals the input can reach (θ = 0°/180° or the limits)
+  const minBD = Math.max(Math.abs(a - d), Math.abs(b - c));
+  const maxBD = Math.min(a + d, b + c);
+  if (minBD > maxBD) {
+    return { current, min: NaN, max: NaN };
+  }
 
-  if (Math.abs((S + L) - PQ) < threshold) {
-    return { type: GrashofType.CHANGE_POINT, shortest: shortest.role, longest: longest.role };
+  return {
+    current,
+    min: transmissionFromDiagonal(b, c, minBD),
+    max: transmissionFromDiagonal(b, c, maxBD),
+  };
+};
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Link angle of p->q in degrees, moved by whole turns to within 180° of the last one
+const continuousAngle = (from: { x: number, y: number }, to: { x: number, y: number }, last: number) => {
+  const raw = toDeg(Math.atan2(to.y - from.y, to.x - from.x));
+  return isNaN(last) ? raw : raw + 360 * Math.round((last - raw) / 360);
+};
+
+// Output, coupler and transmission angles and the speed ratio over a full
+// turn of the input, every step degrees
+export const sweepKinematics = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  step: number = 1
+): KinematicSample[] => {
+  let lastOutput = NaN, lastCoupler = NaN;
+  const count = Math.floor(360 / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = +(i * step).toFixed(9);
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    if (!joints.isValid) {
+      return { angle, joints, outputAngle: NaN, couplerAngle: NaN, transmissionAngle: NaN, velocityRatio: NaN, isValid: false };
+    }
+    const B = { x: joints.Bx, y: joints.By };
+    const C = { x: joints.Cx, y: joints.Cy };
+    lastOutput = continuousAngle({ x: joints.Dx, y: joints.Dy }, C, lastOutput);
+    lastCoupler = continuousAngle(B, C, lastCoupler);
+    const motion = calculateMotion(joints, 1, 0);
+    return {
+      angle,
+      joints,
+      outputAngle: lastOutput,
+      couplerAngle: lastCoupler,
+      transmissionAngle: analyzeTransmissionAngle(lengths, joints).current,
+      velocityRatio: motion.isValid ? motion.omegaOutput : NaN,
+      isValid: true,
+    };
+  });
+};
+
+// What a sweep table was taken from, written above it in either format
+interface SweepContext {
+  lengths: LinkLengths;  // Physical link lengths
+  grashof: GrashofInfo;
+  inversion: Inversion;
+  layout: InversionLayout;
+  branch: AssemblyBranch;
+  step: number;
+}
+
+const SWEEP_JOINTS = ['A', 'B', 'C', 'D'] as const;
+
+// Sweep table as CSV under '#' comment lines (pandas comment='#', MATLAB
+// CommentStyle '#'). Joints use their physical names; angles where the loop
+// does not close keep their row with valid = 0, empty where C is undefined.
+export const sweepToCsv = (samples: KinematicSample[], context: SweepContext): string => {
+  const { lengths, grashof, inversion, layout, branch, step } = context;
+  const comments = [
+    '# Grashof Explorer kinematic sweep',
+    `# lengths: frame=${lengths.frame}, input=${lengths.input}, coupler=${lengths.coupler}, output=${lengths.output}`,
+    `# grashof: ${grashof.type}; shortest=${grashof.shortest}, longest=${grashof.longest}, margin=${grashof.margin}`,
+    `# barker T1..T3: ${grashof.characteristics.join(', ')}`,
+    `# ground=${inversion.ground}, driver=${inversion.driver}, branch=${branch}, step_deg=${step}`,
+  ];
+  const header = [
+    'theta_deg',
+    'valid',
+    ...SWEEP_JOINTS.flatMap(k => [`${layout.joints[k]}_x`, `${layout.joints[k]}_y`]),
+    `${layout.links.output}_angle_deg`,
+    `${layout.links.coupler}_angle_deg`,
+  ];
+  const rows = samples.map(s => {
+    const values = [
+      ...SWEEP_JOINTS.flatMap(k => [s.joints[`${k}x`], s.joints[`${k}y`]]),
+      s.outputAngle,
+      s.couplerAngle,
+    ];
+    return [s.angle, s.isValid ? 1 : 0, ...values.map(v => (isFinite(v) ? String(v) : ''))].join(',');
+  });
+  return [...comments, header.join(','), ...rows].join('\n');
+};
+
+// The same table as JSON, with null wherever the loop does not close
+export const sweepToJson = (samples: KinematicSample[], context: SweepContext): string => {
+  const { lengths, grashof, inversion, layout, branch, step } = context;
+  const finiteOrNull = (v: number) => (isFinite(v) ? v : null);
+  return JSON.stringify({
+    lengths,
+    grashof: {
+      type: grashof.type,
+      shortest: grashof.shortest,
+      longest: grashof.longest,
+      margin: grashof.margin,
+      characteristics: grashof.characteristics,
+    },
+    inversion,
+    branch,
+    stepDeg: step,
+    rows: samples.map(s => ({
+      thetaDeg: s.angle,
+      valid: s.isValid,
+      joints: Object.fromEntries(SWEEP_JOINTS.map(k => [
+        layout.joints[k],
+        { x: finiteOrNull(s.joints[`${k}x`]), y: finiteOrNull(s.joints[`${k}y`]) },
+      ])),
+      outputAngleDeg: finiteOrNull(s.outputAngle),
+      couplerAngleDeg: finiteOrNull(s.couplerAngle),
+    })),
+  }, null, 2);
+};
+
+// Time ratio of a crank-rocker whose input is the crank; null for any other linkage.
+// The strokes start and end at the toggle positions, where the crank and coupler
+// are stretched out (AC = b + a) or folded (AC = b − a).
+export const analyzeQuickReturn = (lengths: LinkLengths): QuickReturnInfo | null => {
+  if (determineGrashof(lengths).type !== BarkerType.GCRR) return null;
+
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+  const angleAtA = (ac: number) => toDeg(Math.acos((d * d + ac * ac - c * c) / (2 * d * ac)));
+  const angleAtD = (ac: number) => toDeg(Math.acos((d * d + c * c - ac * ac) / (2 * d * c)));
+
+  // Angle between the crank's two toggle directions
+  const delta = Math.abs(angleAtA(b - a) - angleAtA(b + a));
+  return {
+    swingAngle: Math.abs(angleAtD(b + a) - angleAtD(b - a)),
+    workingCrankAngle: 180 + delta,
+    returnCrankAngle: 180 - delta,
+    timeRatio: (180 + delta) / (180 - delta),
+  };
+};
+
+// Reachable global input angles; the frame angle rotates the whole range
+export const calculateReachableRange = (lengths: LinkLengths, frameAngle: number = 0): ReachableRange => {
+  return rotateReachableRange(reachableRelativeToFrame(lengths), frameAngle);
+};
+
+// The same range with every angle turned by offset degrees
+export const rotateReachableRange = (range: ReachableRange, offset: number): ReachableRange => {
+  if (range.fullRotation || offset === 0) return range;
+
+  const wrap = (deg: number) => ((deg % 360) + 360) % 360;
+  return {
+    fullRotation: false,
+    intervals: range.intervals.map(({ start, end }) => ({ start: wrap(start + offset), end: wrap(start + offset) + end - start })),
+    limits: range.limits.map(limit => wrap(limit + offset)),
+  };
+};
+
+// Reachable input angles measured from the frame line A->D
+const reachableRelativeToFrame = (lengths: LinkLengths): ReachableRange => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+
+  // With BD² = a² + d² − 2ad·cosθ, the loop closes when |b − c| ≤ BD ≤ b + c,
+  // i.e. when cosθ lies between these two bounds
+  const cosLow = (a * a + d * d - (b + c) * (b + c)) / (2 * a * d);
+  const cosHigh = (a * a + d * d - (b - c) * (b - c)) / (2 * a * d);
+  return reachableFromCosine(cosLow, cosHigh);
+};
+
+// Angles θ with cosLow ≤ cosθ ≤ cosHigh; a bound past ±1 does not bind
+export const reachableFromCosine = (cosLow: number, cosHigh: number): ReachableRange => {
+  if (cosLow > 1 || cosHigh < -1 || cosLow > cosHigh) {
+    return { fullRotation: false, intervals: [], limits: [] };
+  }
+  if (cosLow <= -1 && cosHigh >= 1) {
+    return { fullRotation: true, intervals: [{ start: 0, end: 360 }], limits: [] };
   }
 
-  if (S + L < PQ) {
-    // Grashof Class I
-    if (shortest.role === LinkRole.FRAME) return { type: GrashofType.DOUBLE_CRANK, shortest: shortest.role, longest: longest.role };
-    if (shortest.role === LinkRole.INPUT || shortest.role === LinkRole.OUTPUT) return { type: GrashofType.CRANK_ROCKER, shortest: shortest.role, longest: longest.role };
-    if (shortest.role === LinkRole.COUPLER) return { type: GrashofType.DOUBLE_ROCKER_I, shortest: shortest.role, longest: longest.role };
+  if (cosHigh >= 1) {
+    // Only the outer bound binds: the input rocks through θ = 0°
+    const limit = toDeg(Math.acos(cosLow));
+    return { fullRotation: false, intervals: [{ start: 360 - limit, end: 360 + limit }], limits: [limit, 360 - limit] };
   }
+  if (cosLow <= -1) {
+    // Only the inner bound binds: the input rocks through θ = 180°
+    const limit = toDeg(Math.acos(cosHigh));
+    return { fullRotation: false, intervals: [{ start: limit, end: 360 - limit }], limits: [limit, 360 - limit] };
+  }
+
+  // Both bind: two separate rocking zones mirrored about the frame line
+  const inner = toDeg(Math.acos(cosHigh));
+  const outer = toDeg(Math.acos(cosLow));
+  return {
+    fullRotation: false,
+    intervals: [{ start: inner, end: outer }, { start: 360 - outer, end: 360 - inner }],
+    limits: [inner, outer, 360 - outer, 360 - inner],
+  };
+};
+
+// Moves the input by step degrees, stopping exactly on a toggle position and
+// reversing there instead of stepping past it
+export const advanceInputAngle = (
+  range: ReachableRange,
+  angle: number,
+  step: number
+): { angle: number, direction: number } => {
+  const direction = Math.sign(step) || 1;
+  if (range.fullRotation || range.intervals.length === 0) {
+    return { angle: angle + step, direction };
+  }
+
+  // Locate the interval holding the current angle (or the closest one, if the
+  // geometry just changed underneath us) as an offset from its start
+  let best = { base: angle, offset: 0, span: 0, distance: Infinity };
+  for (const { start, end } of range.intervals) {
+    const span = end - start;
+    const offset = (((angle - start) % 360) + 360) % 360;
+    const distance = offset <= span ? 0 : Math.min(offset - span, 360 - offset);
+    if (distance < best.distance) {
+      const clamped = distance === 0 ? offset : (offset - span < 360 - offset ? span : 0);
+      best = { base: angle - offset, offset: clamped, span, distance };
+    }
+  }
+
+  const next = best.offset + step;
+  if (next >= best.span) return { angle: best.base + best.span, direction: -1 };
+  if (next <= 0) return { angle: best.base, direction: 1 };
+  return { angle: best.base + next, direction };
+};
+
+// Input angles (relative to the frame) where both assembly branches meet while
+// the input is free to turn through: the change points of an S + L = P + Q
+// chain. At θ = 0° BD is |a − d| and at θ = 180° it is a + d, so the branches
+// meet there when these match |b − c| or b + c.
+export const changePointAngles = (lengths: LinkLengths): number[] => {
+  const { frame: d, input: a, coupler: b, output: c } = lengths;
+  const tolerance = CHANGE_POINT_TOLERANCE * (a + b + c + d);
+  const angles: number[] = [];
+  if (Math.abs(Math.abs(a - d) - Math.abs(b - c)) <= tolerance) angles.push(0);
+  if (Math.abs(a + d - (b + c)) <= tolerance) angles.push(180);
+  return angles;
+};
+
+// Probe step (degrees) used to tell the branches apart just past a change point
+const CHANGE_POINT_PROBE = 0.01;
+
+// Carries the assembly branch along while the input moves from one angle to
+// another. Away from change points the branch is continuous, so only the
+// change points crossed on the way need a decision: the smooth continuation is
+// the branch nearest to the motion extrapolated from just before the change
+// point, and mode picks it or the other one.
+export const trackBranch = (
+  lengths: LinkLengths,
+  fromAngle: number,
+  toAngle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  mode: ChangePointMode = ChangePointMode.SMOOTH
+): { angle: number, branch: AssemblyBranch, event: ChangePointEvent | null } => {
+  const direction = Math.sign(toAngle - fromAngle);
+  let angle = toAngle;
+  let event: ChangePointEvent | null = null;
+  if (direction === 0) return { angle, branch, event };
+
+  // Change points in (from, to], in the order they are met
+  const crossings = changePointAngles(lengths)
+    .map(rel => {
+      const phi = rel + placement.angle;
+      return direction > 0
+        ? phi + 360 * Math.floor((fromAngle - phi) / 360 + 1)
+        : phi + 360 * Math.ceil((fromAngle - phi) / 360 - 1);
+    })
+    .filter(phi => (phi - toAngle) * direction <= 0)
+    .sort((p, q) => (p - q) * direction);
+
+  const couplerC = (theta: number, b: AssemblyBranch) => {
+    const joints = calculateJoints(lengths, theta, b, placement);
+    return { x: joints.Cx, y: joints.Cy };
+  };
+  const other = (b: AssemblyBranch) => (b === AssemblyBranch.OPEN ? AssemblyBranch.CROSSED : AssemblyBranch.OPEN);
+
+  for (const phi of crossings) {
+    const h = CHANGE_POINT_PROBE * direction;
+    const back1 = couplerC(phi - h, branch);
+    const back2 = couplerC(phi - 2 * h, branch);
+    const predicted = { x: 3 * back1.x - 2 * back2.x, y: 3 * back1.y - 2 * back2.y };
+    const gap = (b: AssemblyBranch) => {
+      const next = couplerC(phi + h, b);
+      return Math.hypot(next.x - predicted.x, next.y - predicted.y);
+    };
+    const smoothBranch = gap(branch) <= gap(other(branch)) ? branch : other(branch);
+    const next = mode === ChangePointMode.SMOOTH ? smoothBranch : other(smoothBranch);
+
+    // A kite folds with B on D, where C is free, so its pose is taken just past the change point
+    let flat = calculateJoints(lengths, phi, next, placement);
+    const folded = !flat.isValid || Math.hypot(flat.Dx - flat.Bx, flat.Dy - flat.By) <= CHANGE_POINT_TOLERANCE * lengths.coupler;
+    if (folded) flat = calculateJoints(lengths, phi + h, next, placement);
+    if (folded && phi === toAngle) angle = phi + h;
+
+    event = { angle: phi, from: branch, to: next, smooth: next === smoothBranch, joints: flat };
+    branch = next;
+  }
+
+  return { angle, branch, event };
+};
 
-  // Grashof Class II (S + L > P + Q)
-  return { type: GrashofType.DOUBLE_ROCKER_II, shortest: shortest.role, longest: longest.role };
-};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { JointCoordinates, MotionAnalysis, Vector2 } from '../types.ts';
+
+const ZERO: Vector2 = { x: 0, y: 0 };
+
+// ω × r for a planar rotation about the z axis
+const cross = (omega: number, r: Vector2): Vector2 => ({ x: -omega * r.y, y: omega * r.x });
+
+// Acceleration of a point on a rotating link relative to its pivot: α × r − ω² r
+const relativeAcc = (omega: number, alpha: number, r: Vector2): Vector2 => ({
+  x: -alpha * r.y - omega * omega * r.x,
+  y: alpha * r.x - omega * omega * r.y,
+});
+
+export const calculateMotion = (
+  joints: JointCoordinates,
+  omegaInput: number,
+  alphaInput: number
+): MotionAnalysis => {
+  const invalid: MotionAnalysis = {
+    omegaCoupler: NaN, omegaOutput: NaN, alphaCoupler: NaN, alphaOutput: NaN,
+    velB: ZERO, velC: ZERO, accB: ZERO, accC: ZERO, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  const rAB = { x: Bx - Ax, y: By - Ay };
+  const rBC = { x: Cx - Bx, y: Cy - By };
+  const rDC = { x: Cx - Dx, y: Cy - Dy };
+
+  // Differentiating the loop A->B->C = D->C gives, for both velocity and
+  // acceleration, the same 2x2 system in the unknown coupler/output rates:
+  //   -rBC.y * u + rDC.y * v = px
+  //    rBC.x * u - rDC.x * v = py
+  const det = rBC.y * rDC.x - rDC.y * rBC.x;
+  // Singular when B, C and D are collinear (the output is at a dead point)
+  if (Math.abs(det) < 1e-9 * Math.hypot(rBC.x, rBC.y) * Math.hypot(rDC.x, rDC.y)) return invalid;
+
+  const solve = (px: number, py: number): [number, number] => [
+    (-px * rDC.x - rDC.y * py) / det,
+    (-rBC.y * py - rBC.x * px) / det,
+  ];
+
+  // Velocity: vB + ω3 × rBC = ω4 × rDC
+  const velB = cross(omegaInput, rAB);
+  const [omegaCoupler, omegaOutput] = solve(-velB.x, -velB.y);
+  const velC = cross(omegaOutput, rDC);
+
+  // Acceleration: aB + α3 × rBC − ω3² rBC = α4 × rDC − ω4² rDC
+  const accB = relativeAcc(omegaInput, alphaInput, rAB);
+  const w3sq = omegaCoupler * omegaCoupler;
+  const w4sq = omegaOutput * omegaOutput;
+  const [alphaCoupler, alphaOutput] = solve(
+    -accB.x + w3sq * rBC.x - w4sq * rDC.x,
+    -accB.y + w3sq * rBC.y - w4sq * rDC.y
+  );
+  const accC = relativeAcc(omegaOutput, alphaOutput, rDC);
+
+  return { omegaCoupler, omegaOutput, alphaCoupler, alphaOutput, velB, velC, accB, accC, isValid: true };
+};
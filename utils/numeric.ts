@@ -0,0 +1,145 @@
+// Solves A·x = b by Gaussian elimination with partial pivoting.
+// Returns null when the system is singular.
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// Seeded PRNG (mulberry32), so an optimizer run can be repeated exactly
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const clampUnit = (v: number) => Math.min(1, Math.max(0, v));
+
+// Nelder–Mead simplex descent from a starting point; vertices are clamped to the unit cube
+const nelderMead = (
+  cost: (u: number[]) => number,
+  start: number[],
+  iterations: number,
+  size: number
+): { x: number[], value: number } => {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, k) => (k !== i ? v : v + size <= 1 ? v + size : v - size)))];
+  let values = simplex.map(cost);
+
+  for (let it = 0; it < iterations; it++) {
+    const order = values.map((_, i) => i).sort((p, q) => values[p] - values[q]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+    if (values[n] - values[0] <= 1e-12 * (Math.abs(values[0]) + 1e-12)) break;
+
+    const worst = simplex[n];
+    const centroid = worst.map((_, k) => simplex.slice(0, n).reduce((sum, p) => sum + p[k], 0) / n);
+    const along = (t: number) => centroid.map((c, k) => clampUnit(c + t * (worst[k] - c)));
+    const replaceWorst = (x: number[], value: number) => { simplex[n] = x; values[n] = value; };
+
+    const reflected = along(-1);
+    const reflectedValue = cost(reflected);
+    if (reflectedValue < values[0]) {
+      const expanded = along(-2);
+      const expandedValue = cost(expanded);
+      if (expandedValue < reflectedValue) replaceWorst(expanded, expandedValue);
+      else replaceWorst(reflected, reflectedValue);
+    } else if (reflectedValue < values[n - 1]) {
+      replaceWorst(reflected, reflectedValue);
+    } else {
+      const contracted = along(reflectedValue < values[n] ? -0.5 : 0.5);
+      const contractedValue = cost(contracted);
+      if (contractedValue < Math.min(reflectedValue, values[n])) {
+        replaceWorst(contracted, contractedValue);
+      } else {
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((v, k) => simplex[0][k] + 0.5 * (v - simplex[0][k]));
+          values[i] = cost(simplex[i]);
+        }
+      }
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best] };
+};
+
+// One differential evolution run (DE/current-to-best/1/bin with dithered
+// weight) followed by a Nelder–Mead polish of its best member
+const evolve = (
+  cost: (u: number[]) => number,
+  dimension: number,
+  population: number,
+  generations: number,
+  initial: number[][],
+  random: () => number
+): { x: number[], value: number } => {
+  const members = Array.from({ length: population }, (_, i) =>
+    i < initial.length ? initial[i].map(clampUnit) : Array.from({ length: dimension }, random)
+  );
+  const values = members.map(cost);
+  let best = values.indexOf(Math.min(...values));
+
+  for (let gen = 0; gen < generations; gen++) {
+    for (let i = 0; i < population; i++) {
+      let r1: number, r2: number;
+      do { r1 = Math.floor(random() * population); } while (r1 === i);
+      do { r2 = Math.floor(random() * population); } while (r2 === i || r2 === r1);
+
+      const weight = 0.5 + 0.5 * random();
+      const forced = Math.floor(random() * dimension);
+      const trial = members[i].map((v, k) => (k === forced || random() < 0.9)
+        ? clampUnit(v + weight * (members[best][k] - v) + weight * (members[r1][k] - members[r2][k]))
+        : v);
+
+      const value = cost(trial);
+      if (value <= values[i]) {
+        members[i] = trial;
+        values[i] = value;
+        if (value < values[best]) best = i;
+      }
+    }
+  }
+
+  const polished = nelderMead(cost, members[best], 200 * dimension, 0.02);
+  return polished.value < values[best] ? polished : { x: members[best], value: values[best] };
+};
+
+// Global minimization over the unit hypercube [0, 1]^dimension, keeping the
+// best of several evolution runs. Initial guesses, if given, join every population.
+export const minimizeInUnitCube = (
+  cost: (u: number[]) => number,
+  dimension: number,
+  options: { population?: number, generations?: number, restarts?: number, seed?: number, initial?: number[][] } = {}
+): { x: number[], value: number } => {
+  const { population = 10 * dimension, generations = 300, restarts = 1, seed = 1, initial = [] } = options;
+  const random = seededRandom(seed);
+  let result = { x: [] as number[], value: Infinity };
+  for (let run = 0; run < restarts; run++) {
+    const candidate = evolve(cost, dimension, population, generations, initial, random);
+    if (candidate.value < result.value) result = candidate;
+  }
+  return result;
+};
@@ -0,0 +1,237 @@
+import {
+  AssemblyBranch,
+  CouplerPoint,
+  FramePlacement,
+  LinkLengths,
+  MechanismLink,
+  MechanismPose,
+  SixBarCheck,
+  SixBarDyad,
+  SixBarType,
+  Vector2
+} from '../types.ts';
+import { calculateJoints, determineGrashof, HORIZONTAL_FRAME } from './kinematics.ts';
+import { couplerPointToLocal } from './coupler.ts';
+
+// Where the dyad's ends ride, and how each topology reads
+export const SIX_BAR_TOPOLOGY: Record<SixBarType, { e: keyof LinkLengths, f: keyof LinkLengths, description: string }> = {
+  [SixBarType.WATT_I]: { e: 'input', f: 'coupler', description: 'The dyad joins the input to the coupler.' },
+  [SixBarType.WATT_II]: { e: 'output', f: 'frame', description: 'The output drives a second four-bar pivoted at F.' },
+  [SixBarType.STEPHENSON_I]: { e: 'input', f: 'output', description: 'The dyad joins the input to the output.' },
+  [SixBarType.STEPHENSON_II]: {
+    e: 'frame',
+    f: 'coupler',
+    description: 'The ground is E-G: the four-bar frame is the driver turning about E, and G-F ties its coupler to the ground.',
+  },
+  [SixBarType.STEPHENSON_III]: { e: 'coupler', f: 'frame', description: 'The coupler drives a dyad to a third ground pivot F.' },
+};
+
+// The joints each four-bar link runs between, in the direction its points are measured from
+const SIX_BAR_LINK_ENDS: Record<keyof LinkLengths, [string, string]> = {
+  frame: ['A', 'D'],
+  input: ['A', 'B'],
+  coupler: ['B', 'C'],
+  output: ['D', 'C'],
+};
+
+const LINK_NAMES: Record<keyof LinkLengths, string> = {
+  frame: 'Ground',
+  input: 'Input',
+  coupler: 'Coupler',
+  output: 'Output',
+};
+
+// Links of each topology: the four-bar links, with E or F added to the ones
+// that carry them, and the dyad. In Stephenson II the frame moves and E-G is
+// the ground instead.
+export const sixBarLinks = (type: SixBarType): MechanismLink[] => {
+  const { e, f } = SIX_BAR_TOPOLOGY[type];
+  const movingFrame = type === SixBarType.STEPHENSON_II;
+  const fourBar = (Object.keys(SIX_BAR_LINK_ENDS) as (keyof LinkLengths)[]).map(link => ({
+    name: movingFrame && link === 'frame' ? 'Driver' : LINK_NAMES[link],
+    joints: [...SIX_BAR_LINK_ENDS[link], ...(link === e ? ['E'] : []), ...(link === f ? ['F'] : [])],
+    ground: link === 'frame' && !movingFrame,
+  }));
+  return [
+    ...fourBar,
+    { name: 'Dyad 1', joints: ['E', 'G'], ground: movingFrame },
+    { name: 'Dyad 2', joints: ['G', 'F'] },
+  ];
+};
+
+// Gruebler–Kutzbach count for pin joints: a pin shared by k links is k − 1 joints
+export const mechanismMobility = (links: MechanismLink[]): number => {
+  const shared: Record<string, number> = {};
+  for (const link of links) {
+    for (const joint of link.joints) shared[joint] = (shared[joint] ?? 0) + 1;
+  }
+  const pins = Object.values(shared).reduce((sum, k) => sum + k - 1, 0);
+  // Every ground link is the same body
+  const bodies = links.filter(link => !link.ground).length + 1;
+  return 3 * (bodies - 1) - 2 * pins;
+};
+
+const pointOnLink = (from: Vector2, to: Vector2, point: CouplerPoint): Vector2 => {
+  const direction = Math.atan2(to.y - from.y, to.x - from.x) + (point.angle * Math.PI) / 180;
+  return { x: from.x + point.distance * Math.cos(direction), y: from.y + point.distance * Math.sin(direction) };
+};
+
+// Joint G of the dyad E-G-F, with the same branch convention as calculateJoints
+const dyadJoint = (E: Vector2, F: Vector2, first: number, second: number, branch: AssemblyBranch): Vector2 | null => {
+  const distance = Math.hypot(E.x - F.x, E.y - F.y);
+  const slack = 1e-9 * (first + second);
+  if (distance > first + second + slack || distance < Math.abs(first - second) - slack || distance === 0) return null;
+
+  const cosAlpha = (second * second + distance * distance - first * first) / (2 * second * distance);
+  const alpha = Math.acos(Math.min(Math.max(cosAlpha, -1), 1));
+  const angleFE = Math.atan2(E.y - F.y, E.x - F.x);
+  const theta = branch === AssemblyBranch.OPEN ? angleFE - alpha : angleFE + alpha;
+  return { x: F.x + second * Math.cos(theta), y: F.y + second * Math.sin(theta) };
+};
+
+const INVALID_POSE: MechanismPose = { joints: {}, isValid: false };
+
+// Four-bar joints plus E and F, or null when the four-bar does not close
+const fourBarPose = (
+  lengths: LinkLengths,
+  theta: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  dyad: SixBarDyad
+): Record<string, Vector2> | null => {
+  const j = calculateJoints(lengths, theta, branch, placement);
+  if (!j.isValid) return null;
+
+  const joints: Record<string, Vector2> = {
+    A: { x: j.Ax, y: j.Ay },
+    B: { x: j.Bx, y: j.By },
+    C: { x: j.Cx, y: j.Cy },
+    D: { x: j.Dx, y: j.Dy },
+  };
+  const { e, f } = SIX_BAR_TOPOLOGY[dyad.type];
+  const at = (link: keyof LinkLengths, point: CouplerPoint) =>
+    pointOnLink(joints[SIX_BAR_LINK_ENDS[link][0]], joints[SIX_BAR_LINK_ENDS[link][1]], point);
+  joints.E = at(e, dyad.pointE);
+  joints.F = at(f, dyad.pointF);
+  return joints;
+};
+
+// Scan step (degrees) for the Stephenson II closure
+const CLOSURE_SCAN_STEP = 2;
+
+// Stephenson II: the driver sets the frame's angle about the ground pivot E,
+// and the four-bar's own input angle is whatever lets G-F reach the coupler
+// point F. Roots of that one residual are bracketed on a scan and bisected;
+// the one nearest the previous pose (or on the dyad's branch side) wins.
+const solveStephensonII = (
+  lengths: LinkLengths,
+  driverAngle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  dyad: SixBarDyad,
+  previous?: MechanismPose
+): MechanismPose => {
+  const E = { x: placement.originX, y: placement.originY };
+  const phi = (placement.angle * Math.PI) / 180;
+  const G = { x: E.x + dyad.lengths.first * Math.cos(phi), y: E.y + dyad.lengths.first * Math.sin(phi) };
+
+  // Frame placement that puts E, measured from A along A->D, on the ground pivot
+  const psi = (driverAngle * Math.PI) / 180;
+  const offset = pointOnLink({ x: 0, y: 0 }, { x: Math.cos(psi), y: Math.sin(psi) }, dyad.pointE);
+  const frame: FramePlacement = { originX: E.x - offset.x, originY: E.y - offset.y, angle: driverAngle };
+
+  const poseAt = (theta: number) => fourBarPose(lengths, theta, branch, frame, dyad);
+  const residual = (theta: number) => {
+    const joints = poseAt(theta);
+    return joints ? Math.hypot(joints.F.x - G.x, joints.F.y - G.y) - dyad.lengths.second : NaN;
+  };
+
+  const roots: number[] = [];
+  for (let theta = 0; theta < 360; theta += CLOSURE_SCAN_STEP) {
+    let lo = theta, hi = theta + CLOSURE_SCAN_STEP;
+    let rLo = residual(lo), rHi = residual(hi);
+    if (!(rLo * rHi <= 0)) continue;
+    for (let i = 0; i < 50; i++) {
+      const mid = (lo + hi) / 2;
+      const rMid = residual(mid);
+      if (rLo * rMid <= 0) { hi = mid; rHi = rMid; } else { lo = mid; rLo = rMid; }
+    }
+    roots.push((lo + hi) / 2);
+  }
+  // A bracket running into a stretch where the four-bar does not close can
+  // bisect onto a root with no pose
+  const candidates = roots.flatMap(theta => {
+    const joints = poseAt(theta);
+    return joints ? [{ ...joints, G }] : [];
+  });
+  if (candidates.length === 0) return INVALID_POSE;
+  let best = candidates[0];
+  if (previous?.isValid && previous.joints.B) {
+    const moved = (joints: Record<string, Vector2>) => Math.hypot(joints.B.x - previous.joints.B.x, joints.B.y - previous.joints.B.y);
+    best = candidates.reduce((p, q) => (moved(q) < moved(p) ? q : p));
+  } else {
+    // F sits clockwise of the ray G->E on the OPEN branch
+    const side = (joints: Record<string, Vector2>) => (E.x - G.x) * (joints.F.y - G.y) - (E.y - G.y) * (joints.F.x - G.x);
+    best = candidates.find(joints => (side(joints) < 0) === (dyad.branch === AssemblyBranch.OPEN)) ?? best;
+  }
+  return { joints: best, isValid: true };
+};
+
+// Solves the six-bar for a driver angle. The driver is the four-bar's input,
+// except in Stephenson II where it is the frame; previous keeps that
+// topology's numeric closure on the same assembly from frame to frame.
+export const solveSixBar = (
+  lengths: LinkLengths,
+  angle: number,
+  branch: AssemblyBranch,
+  dyad: SixBarDyad,
+  placement: FramePlacement = HORIZONTAL_FRAME,
+  previous?: MechanismPose
+): MechanismPose => {
+  if (dyad.type === SixBarType.STEPHENSON_II) {
+    return solveStephensonII(lengths, angle, branch, placement, dyad, previous);
+  }
+
+  const joints = fourBarPose(lengths, angle, branch, placement, dyad);
+  if (!joints) return INVALID_POSE;
+  const G = dyadJoint(joints.E, joints.F, dyad.lengths.first, dyad.lengths.second, dyad.branch);
+  if (!G) return INVALID_POSE;
+  return { joints: { ...joints, G }, isValid: true };
+};
+
+// Mobility, the Grashof class of every four-link loop, and how much of a
+// driver turn the whole linkage assembles over (1° steps)
+export const checkSixBar = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  dyad: SixBarDyad,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): SixBarCheck => {
+  const links = sixBarLinks(dyad.type);
+  const loops: SixBarCheck['loops'] = [{ name: 'Four-bar A-B-C-D', lengths, grashof: determineGrashof(lengths) }];
+
+  // Watt chains close a second four-link loop through the two ternary links
+  // sharing a joint; the sides taken off those links are rigid
+  const distanceTo = (point: CouplerPoint, along: number) => {
+    const local = couplerPointToLocal(point);
+    return Math.hypot(local.x - along, local.y);
+  };
+  if (dyad.type === SixBarType.WATT_I) {
+    const second = { frame: dyad.pointF.distance, input: distanceTo(dyad.pointE, lengths.input), coupler: dyad.lengths.first, output: dyad.lengths.second };
+    loops.push({ name: 'Loop B-E-G-F', lengths: second, grashof: determineGrashof(second) });
+  }
+  if (dyad.type === SixBarType.WATT_II) {
+    const second = { frame: distanceTo(dyad.pointF, lengths.frame), input: dyad.pointE.distance, coupler: dyad.lengths.first, output: dyad.lengths.second };
+    loops.push({ name: 'Four-bar D-E-G-F', lengths: second, grashof: determineGrashof(second) });
+  }
+
+  let closed = 0;
+  let previous: MechanismPose | undefined;
+  for (let angle = 0; angle < 360; angle++) {
+    const next = solveSixBar(lengths, angle, branch, dyad, placement, previous);
+    if (next.isValid) closed++;
+    previous = next.isValid ? next : undefined;
+  }
+
+  return { mobility: mechanismMobility(links), loops, closure: closed / 360 };
+};
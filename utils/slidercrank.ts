@@ -0,0 +1,242 @@
+import {
+  AssemblyBranch,
+  FramePlacement,
+  ReachableRange,
+  SliderCrankDimensions,
+  SliderCrankInfo,
+  SliderCrankPose,
+  SliderLink,
+  Vector2
+} from '../types.ts';
+import { HORIZONTAL_FRAME, reachableFromCosine, rotateReachableRange } from './kinematics.ts';
+
+// Slider ranges for the dimensions; the offset may sit on either side of A
+export const SLIDER_CRANK_BOUNDS: Record<keyof SliderCrankDimensions, { min: number, max: number }> = {
+  crank: { min: 20, max: 200 },
+  rod: { min: 50, max: 400 },
+  offset: { min: -150, max: 150 },
+};
+
+// Which link turns about a ground pivot and which one carries the output in
+// each inversion, with the mechanism it is best known as
+export const SLIDER_INVERSIONS: Record<SliderLink, { driver: SliderLink, output: SliderLink, name: string }> = {
+  [SliderLink.GUIDE]: { driver: SliderLink.CRANK, output: SliderLink.SLIDER, name: 'Slider-crank' },
+  [SliderLink.CRANK]: { driver: SliderLink.ROD, output: SliderLink.GUIDE, name: 'Whitworth quick-return' },
+  [SliderLink.ROD]: { driver: SliderLink.CRANK, output: SliderLink.SLIDER, name: 'Oscillating cylinder' },
+  [SliderLink.SLIDER]: { driver: SliderLink.ROD, output: SliderLink.GUIDE, name: 'Hand pump' },
+};
+
+// Pin joints that sit on each inversion's ground link
+export const SLIDER_GROUND_JOINTS: Record<SliderLink, string[]> = {
+  [SliderLink.GUIDE]: ['A'],
+  [SliderLink.CRANK]: ['A', 'B'],
+  [SliderLink.ROD]: ['B', 'C'],
+  [SliderLink.SLIDER]: ['C'],
+};
+
+// A pose in the ground link's own frame, before it is placed
+interface LocalPose {
+  A: Vector2;
+  B: Vector2;
+  C: Vector2;
+  guideAngle: number; // radians
+  position: number;
+}
+
+// Each solver works in its ground link's frame, with the driver angle measured
+// from that link. OPEN takes the root that puts the joint found last further
+// along the guide. Like calculateJoints they allow a little slack, so the
+// exact toggle angles from sliderCrankReachableRange still assemble.
+const SLACK = 1e-9;
+
+// √(span² − rise²), or null when the span cannot reach
+const reach = (span: number, rise: number): number | null => {
+  if (Math.abs(rise) > span * (1 + SLACK)) return null;
+  return Math.sqrt(Math.max(0, span * span - rise * rise));
+};
+
+// Guide grounded: A at the origin, the guide along +x at y = e, crank driven
+const solveGuideGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, theta: number, branch: AssemblyBranch): LocalPose | null => {
+  const B = { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+  const run = reach(l, e - B.y);
+  if (run === null) return null;
+  const position = B.x + (branch === AssemblyBranch.OPEN ? run : -run);
+  return { A: { x: 0, y: 0 }, B, C: { x: position, y: e }, guideAngle: 0, position };
+};
+
+// The guide through C that runs e to the left of A: C lies at
+// (±√(d² − e²), e) in the guide's frame, d being the distance A-C
+const guideThrough = (A: Vector2, C: Vector2, e: number, branch: AssemblyBranch) => {
+  const along = reach(Math.hypot(C.x - A.x, C.y - A.y), e);
+  if (along === null) return null;
+  const position = branch === AssemblyBranch.OPEN ? along : -along;
+  return { guideAngle: Math.atan2(C.y - A.y, C.x - A.x) - Math.atan2(e, position), position };
+};
+
+// Crank grounded: A at the origin, B along +x, rod driven about B
+const solveCrankGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const A = { x: 0, y: 0 };
+  const B = { x: r, y: 0 };
+  const C = { x: r + l * Math.cos(beta), y: l * Math.sin(beta) };
+  const guide = guideThrough(A, C, e, branch);
+  return guide && { A, B, C, ...guide };
+};
+
+// Rod grounded: B at the origin, C along +x, crank driven about B
+const solveRodGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const A = { x: r * Math.cos(beta), y: r * Math.sin(beta) };
+  const B = { x: 0, y: 0 };
+  const C = { x: l, y: 0 };
+  const guide = guideThrough(A, C, e, branch);
+  return guide && { A, B, C, ...guide };
+};
+
+// Slider grounded: C at the origin, the guide along +x, rod driven about C;
+// A slides on the line y = −e
+const solveSliderGrounded = ({ crank: r, rod: l, offset: e }: SliderCrankDimensions, beta: number, branch: AssemblyBranch): LocalPose | null => {
+  const B = { x: l * Math.cos(beta), y: l * Math.sin(beta) };
+  const run = reach(r, B.y + e);
+  if (run === null) return null;
+  const A = { x: B.x + (branch === AssemblyBranch.OPEN ? run : -run), y: -e };
+  return { A, B, C: { x: 0, y: 0 }, guideAngle: 0, position: -A.x };
+};
+
+const SOLVERS: Record<SliderLink, (dims: SliderCrankDimensions, angle: number, branch: AssemblyBranch) => LocalPose | null> = {
+  [SliderLink.GUIDE]: solveGuideGrounded,
+  [SliderLink.CRANK]: solveCrankGrounded,
+  [SliderLink.ROD]: solveRodGrounded,
+  [SliderLink.SLIDER]: solveSliderGrounded,
+};
+
+// Solves the inversion for a global driver angle. The placement puts the
+// ground link's first joint (A, A, B, C) and its direction in the global frame.
+export const solveSliderCrank = (
+  dims: SliderCrankDimensions,
+  ground: SliderLink,
+  angle: number,
+  branch: AssemblyBranch,
+  placement: FramePlacement = HORIZONTAL_FRAME
+): SliderCrankPose => {
+  const local = SOLVERS[ground](dims, ((angle - placement.angle) * Math.PI) / 180, branch);
+  if (!local) return { joints: {}, guideAngle: NaN, position: NaN, isValid: false };
+
+  const phi = (placement.angle * Math.PI) / 180;
+  const place = (p: Vector2): Vector2 => ({
+    x: placement.originX + p.x * Math.cos(phi) - p.y * Math.sin(phi),
+    y: placement.originY + p.x * Math.sin(phi) + p.y * Math.cos(phi),
+  });
+  return {
+    joints: { A: place(local.A), B: place(local.B), C: place(local.C) },
+    guideAngle: (local.guideAngle * 180) / Math.PI + placement.angle,
+    position: local.position,
+    isValid: true,
+  };
+};
+
+// Global driver angles at which the inversion assembles. Each constraint is a
+// band on the cosine of the driver angle, or on its sine (a cosine turned by 90°).
+export const sliderCrankReachableRange = (
+  { crank: r, rod: l, offset: e }: SliderCrankDimensions,
+  ground: SliderLink,
+  frameAngle: number = 0
+): ReachableRange => {
+  let range: ReachableRange;
+  switch (ground) {
+    case SliderLink.GUIDE:
+      // The rod must span the rise from B to the guide: |e − r·sinθ| ≤ l
+      range = rotateReachableRange(reachableFromCosine((e - l) / r, (e + l) / r), 90);
+      break;
+    case SliderLink.CRANK:
+      // A-C must reach the guide: r² + l² + 2rl·cosβ ≥ e²
+      range = reachableFromCosine((e * e - r * r - l * l) / (2 * r * l), Infinity);
+      break;
+    case SliderLink.ROD:
+      // The same with the crank turning about B: r² + l² − 2rl·cosβ ≥ e²
+      range = reachableFromCosine(-Infinity, (r * r + l * l - e * e) / (2 * r * l));
+      break;
+    case SliderLink.SLIDER:
+      // The crank must span the drop from B to A's line: |e + l·sinβ| ≤ r
+      range = rotateReachableRange(reachableFromCosine((-e - r) / l, (r - e) / l), 90);
+      break;
+  }
+  return rotateReachableRange(range, frameAngle);
+};
+
+// Closed-form stroke of a slider-crank whose crank turns fully: the slider's
+// dead centres are where crank and rod stretch out and fold up
+const fullStroke = (r: number, l: number, e: number) =>
+  Math.sqrt((l + r) * (l + r) - e * e) - Math.sqrt((l - r) * (l - r) - e * e);
+
+// Sample step (degrees) for the stroke of a rocking driver
+const STROKE_STEP = 0.25;
+
+// Largest slider travel over any one interval the driver can rock through
+const sampledStroke = (dims: SliderCrankDimensions, ground: SliderLink, branch: AssemblyBranch): number => {
+  const range = sliderCrankReachableRange(dims, ground);
+  let stroke = NaN;
+  for (const { start, end } of range.intervals) {
+    const steps = Math.max(1, Math.ceil((end - start) / STROKE_STEP));
+    const positions: number[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const local = SOLVERS[ground](dims, ((start + ((end - start) * i) / steps) * Math.PI) / 180, branch);
+      if (local) positions.push(local.position);
+    }
+    if (positions.length > 0) {
+      const travel = Math.max(...positions) - Math.min(...positions);
+      stroke = isNaN(stroke) ? travel : Math.max(stroke, travel);
+    }
+  }
+  return stroke;
+};
+
+// Rotatability of a slider-crank, the limit of a four-bar whose output and
+// frame are infinitely long. Joint A turns fully when r + |e| ≤ l and joint
+// C when l + |e| ≤ r; B turns fully when either holds.
+export const analyzeSliderCrank = (
+  dims: SliderCrankDimensions,
+  ground: SliderLink,
+  branch: AssemblyBranch
+): SliderCrankInfo => {
+  const { crank: r, rod: l, offset: e } = dims;
+  const jointA = r + Math.abs(e) <= l;
+  const jointC = l + Math.abs(e) <= r;
+  const jointB = jointA || jointC;
+
+  // The slider keeps the guide's direction, so it turns like the guide does
+  const fullRotation: Record<SliderLink, SliderLink[]> = {
+    [SliderLink.GUIDE]: [...(jointA ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.ROD] : [])],
+    [SliderLink.CRANK]: [...(jointA ? [SliderLink.GUIDE, SliderLink.SLIDER] : []), ...(jointB ? [SliderLink.ROD] : [])],
+    [SliderLink.ROD]: [...(jointB ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.GUIDE, SliderLink.SLIDER] : [])],
+    [SliderLink.SLIDER]: [...(jointA ? [SliderLink.CRANK] : []), ...(jointC ? [SliderLink.ROD] : [])],
+  };
+
+  const { driver, output } = SLIDER_INVERSIONS[ground];
+  const driverRotates = fullRotation[ground].includes(driver);
+  // Whatever is not pinned to the ground translates with the slider or guide
+  const outputMotion = ground === SliderLink.GUIDE ? 'Slider'
+    : ground === SliderLink.SLIDER ? 'Translating Guide'
+    : `${fullRotation[ground].includes(output) ? 'Rotating' : 'Oscillating'} ${output === SliderLink.GUIDE ? 'Guide' : 'Block'}`;
+
+  return {
+    type: `${driverRotates ? 'Crank' : 'Rocker'}-${outputMotion}`,
+    fullRotation,
+    driverRotates,
+    stroke: jointA ? fullStroke(r, l, e) : sampledStroke(dims, ground, branch),
+  };
+};
+
+// Crank length giving the stroke with the crank still turning fully
+// (r ≤ l − |e|) and inside its slider, or null when no such crank gives it
+export const crankForStroke = (stroke: number, rod: number, offset: number): number | null => {
+  const { min, max } = SLIDER_CRANK_BOUNDS.crank;
+  const longest = Math.min(rod - Math.abs(offset), max);
+  if (longest < min || !(stroke >= fullStroke(min, rod, offset) && stroke <= fullStroke(longest, rod, offset))) return null;
+
+  // The stroke grows with the crank, so bisect on it
+  let lo = min, hi = longest;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (fullStroke(mid, rod, offset) < stroke) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
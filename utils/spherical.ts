@@ -0,0 +1,136 @@
+import { AssemblyBranch, LinkLengths, LinkRole, ReachableRange, SphereView, SphericalInfo, SphericalPose, Vector3 } from '../types.ts';
+import { reachableFromCosine } from './kinematics.ts';
+
+// Slider range for every arc; 0° and 180° would put two axes on one line
+export const SPHERICAL_ARC_BOUNDS = { min: 5, max: 175 };
+
+// Vector algebra on the joint axes
+const dot3 = (p: Vector3, q: Vector3) => p.x * q.x + p.y * q.y + p.z * q.z;
+const cross3 = (p: Vector3, q: Vector3): Vector3 => ({
+  x: p.y * q.z - p.z * q.y,
+  y: p.z * q.x - p.x * q.z,
+  z: p.x * q.y - p.y * q.x,
+});
+const combine = (terms: [number, Vector3][]): Vector3 => terms.reduce(
+  (sum, [k, p]) => ({ x: sum.x + k * p.x, y: sum.y + k * p.y, z: sum.z + k * p.z }),
+  { x: 0, y: 0, z: 0 }
+);
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// The ground axes A and D straddle the z axis in the xz plane
+const groundAxes = (frame: number) => ({
+  A: { x: -Math.sin(toRadians(frame / 2)), y: 0, z: Math.cos(toRadians(frame / 2)) },
+  D: { x: Math.sin(toRadians(frame / 2)), y: 0, z: Math.cos(toRadians(frame / 2)) },
+});
+
+// Joint axes for an input angle θ, measured about A from the ground arc A->D
+// (counter-clockwise seen from outside the sphere). C is the axis at arc b
+// from B and c from D: C = x·B + y·D + z·(B × D), with the sign of z picking
+// the branch. OPEN matches the planar OPEN branch for a chain shrunk onto
+// the pole.
+export const calculateSphericalJoints = (
+  arcs: LinkLengths,
+  thetaInput: number,
+  branch: AssemblyBranch = AssemblyBranch.OPEN
+): SphericalPose => {
+  const { A, D } = groundAxes(arcs.frame);
+  const toD = combine([[1, D], [-dot3(A, D), A]]);
+  const t = combine([[1 / Math.hypot(toD.x, toD.y, toD.z), toD]]);
+  const n = cross3(A, t);
+  const theta = toRadians(thetaInput);
+  const B = combine([
+    [Math.cos(toRadians(arcs.input)), A],
+    [Math.sin(toRadians(arcs.input)) * Math.cos(theta), t],
+    [Math.sin(toRadians(arcs.input)) * Math.sin(theta), n],
+  ]);
+
+  const invalid = { A, B, C: { x: NaN, y: NaN, z: NaN }, D, isValid: false };
+  const g = dot3(B, D);
+  const sin2 = 1 - g * g;
+  if (sin2 < 1e-12) return invalid;
+  const cosB = Math.cos(toRadians(arcs.coupler));
+  const cosC = Math.cos(toRadians(arcs.output));
+  const x = (cosB - g * cosC) / sin2;
+  const y = (cosC - g * cosB) / sin2;
+  // Slack so the exact toggle angles from sphericalReachableRange still assemble
+  const z2 = (1 - (x * x + y * y + 2 * x * y * g)) / sin2;
+  if (z2 < -1e-9) return invalid;
+  const z = Math.sqrt(Math.max(0, z2)) * (branch === AssemblyBranch.OPEN ? 1 : -1);
+
+  return { A, B, C: combine([[x, B], [y, D], [z, cross3(B, D)]]), D, isValid: true };
+};
+
+// Input angles at which the chain closes. By the spherical law of cosines
+// cos BD = cos d·cos a + sin d·sin a·cosθ, and the triangle B-C-D closes
+// while |b − c| ≤ BD ≤ min(b + c, 360° − b − c).
+export const sphericalReachableRange = (arcs: LinkLengths): ReachableRange => {
+  const { frame: d, input: a, coupler: b, output: c } = arcs;
+  const base = Math.cos(toRadians(d)) * Math.cos(toRadians(a));
+  const scale = Math.sin(toRadians(d)) * Math.sin(toRadians(a));
+  const longest = Math.min(b + c, 360 - b - c);
+  return reachableFromCosine(
+    (Math.cos(toRadians(longest)) - base) / scale,
+    (Math.cos(toRadians(Math.abs(b - c))) - base) / scale
+  );
+};
+
+// Arc sums closer than this many degrees count as equal
+const ARC_TOLERANCE = 1e-9;
+
+// Rotatability of a spherical chain, the counterpart of Grashof's rule. The
+// diagonal opposite a joint between arcs x and y spans
+// [|x − y|, min(x + y, 360° − x − y)] as the joint turns, and the joint turns
+// fully when the other two arcs close over all of it.
+export const classifySpherical = (arcs: LinkLengths): SphericalInfo => {
+  const slots = [arcs.frame, arcs.input, arcs.coupler, arcs.output];
+  const longest = (x: number, y: number) => Math.min(x + y, 360 - x - y);
+  // Joint i sits between slot i and slot i + 1: A, B, C, D in turn
+  const turns = slots.map((x, i) => {
+    const y = slots[(i + 1) % 4], z = slots[(i + 2) % 4], w = slots[(i + 3) % 4];
+    return Math.abs(x - y) >= Math.abs(z - w) - ARC_TOLERANCE && longest(x, y) <= longest(z, w) + ARC_TOLERANCE;
+  });
+  const jointTurns = { A: turns[0], B: turns[1], C: turns[2], D: turns[3] };
+
+  // As in the planar chain, a link whose two joints both turn fully turns
+  // relative to every other link
+  const roles = [LinkRole.FRAME, LinkRole.INPUT, LinkRole.COUPLER, LinkRole.OUTPUT];
+  const linkTurns = slots.map((_, i) => turns[(i + 3) % 4] && turns[i]);
+  const fullRotation = {} as Record<LinkRole, LinkRole[]>;
+  roles.forEach((role, i) => {
+    fullRotation[role] = roles.filter((_, j) => j !== i && (linkTurns[i] || linkTurns[j]));
+  });
+
+  const range = sphericalReachableRange(arcs);
+  if (range.intervals.length === 0) return { type: 'Cannot Assemble', jointTurns, fullRotation };
+
+  const crank = (i: number) => linkTurns[0] || linkTurns[i];
+  const letters = [1, 2, 3].map(i => (crank(i) ? 'C' : 'R')).join('');
+  const names: Record<string, string> = {
+    CCC: 'Double-Crank',
+    CRR: 'Crank-Rocker',
+    RCR: 'Double-Rocker',
+    RRC: 'Rocker-Crank',
+    RRR: 'Triple-Rocker',
+  };
+  return { type: `${names[letters] ?? letters} (${letters})`, jointTurns, fullRotation };
+};
+
+// Orthographic projection: x right and y up on the screen, z towards the viewer
+export const projectOnView = (p: Vector3, view: SphereView): Vector3 => {
+  const az = toRadians(view.azimuth);
+  const el = toRadians(view.elevation);
+  const right = { x: -Math.sin(az), y: Math.cos(az), z: 0 };
+  const up = { x: -Math.sin(el) * Math.cos(az), y: -Math.sin(el) * Math.sin(az), z: Math.cos(el) };
+  const toward = { x: Math.cos(el) * Math.cos(az), y: Math.cos(el) * Math.sin(az), z: Math.sin(el) };
+  return { x: dot3(p, right), y: dot3(p, up), z: dot3(p, toward) };
+};
+
+// Points along the shorter great-circle arc from p to q
+export const greatCircleArc = (p: Vector3, q: Vector3, steps: number = 48): Vector3[] => {
+  const omega = Math.acos(Math.min(Math.max(dot3(p, q), -1), 1));
+  if (omega < 1e-9) return [p, q];
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    return combine([[Math.sin((1 - t) * omega) / Math.sin(omega), p], [Math.sin(t * omega) / Math.sin(omega), q]]);
+  });
+};
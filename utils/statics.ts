@@ -0,0 +1,69 @@
+import { AssemblyBranch, CouplerPoint, FramePlacement, JointCoordinates, LinkLengths, StaticAnalysis, StaticLoad, Vector2 } from '../types.ts';
+import { calculateJoints } from './kinematics.ts';
+import { calculateCouplerPoint } from './coupler.ts';
+
+const NO_FORCE: Vector2 = { x: 0, y: 0 };
+
+// z component of r × F
+const moment = (r: Vector2, f: Vector2) => r.x * f.y - r.y * f.x;
+
+export const calculateStatics = (
+  joints: JointCoordinates,
+  load: StaticLoad,
+  couplerPosition: Vector2
+): StaticAnalysis => {
+  const invalid: StaticAnalysis = {
+    pinA: NO_FORCE, pinB: NO_FORCE, pinC: NO_FORCE, pinD: NO_FORCE, inputTorque: NaN, isValid: false
+  };
+  if (!joints.isValid) return invalid;
+
+  const { Ax, Ay, Bx, By, Cx, Cy, Dx, Dy } = joints;
+  const P = load.forceAt === 'C' ? { x: Cx, y: Cy } : couplerPosition;
+  if (!isFinite(P.x)) return invalid;
+
+  const rDC = { x: Cx - Dx, y: Cy - Dy };
+  const rBC = { x: Cx - Bx, y: Cy - By };
+  const rBP = { x: P.x - Bx, y: P.y - By };
+  const F = load.force;
+
+  // Unknown F = force of the output on the coupler at C. Moments about D on the
+  // output link:  rDC × (−F) + T4 = 0
+  // and about B on the coupler:  rBC × F + rBP × F_ext = 0
+  const det = moment(rDC, rBC);
+  if (Math.abs(det) < 1e-9 * Math.hypot(rDC.x, rDC.y) * Math.hypot(rBC.x, rBC.y)) {
+    // Coupler and output are in line: a dead point, no finite torque holds it
+    return invalid;
+  }
+  const m1 = load.outputTorque;
+  const m2 = -moment(rBP, F);
+  const outputOnCoupler = {
+    x: (m1 * rBC.x - m2 * rDC.x) / det,
+    y: (m1 * rBC.y - m2 * rDC.y) / det,
+  };
+
+  // Coupler force balance, then the input link and output link
+  const pinB = { x: -outputOnCoupler.x - F.x, y: -outputOnCoupler.y - F.y };
+  const pinC = { x: -outputOnCoupler.x, y: -outputOnCoupler.y };
+  return {
+    pinA: pinB,
+    pinB,
+    pinC,
+    pinD: outputOnCoupler,
+    inputTorque: moment({ x: Bx - Ax, y: By - Ay }, pinB),
+    isValid: true,
+  };
+};
+
+// Static solution over a full turn of the input, one sample per degree;
+// angles where the linkage does not assemble come out invalid
+export const calculateStaticsOverCycle = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  placement: FramePlacement,
+  load: StaticLoad,
+  couplerPoint: CouplerPoint
+): { angle: number, statics: StaticAnalysis }[] =>
+  Array.from({ length: 361 }, (_, angle) => {
+    const joints = calculateJoints(lengths, angle, branch, placement);
+    return { angle, statics: calculateStatics(joints, load, calculateCouplerPoint(joints, couplerPoint)) };
+  });
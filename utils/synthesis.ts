@@ -0,0 +1,488 @@
+import {
+  AssemblyBranch,
+  CouplerPoint,
+  CouplerPose,
+  FramePlacement,
+  LinkLengths,
+  MotionSynthesisResult,
+  Vector2,
+  FunctionGeneratorSpec,
+  FunctionGeneratorResult,
+  PathSynthesisSpec,
+  PathSynthesisResult,
+  CrankRockerSpec,
+  CrankRockerResult
+} from '../types.ts';
+import {
+  analyzeQuickReturn,
+  analyzeTransmissionAngle,
+  calculateJoints,
+  calculateReachableRange,
+  determineGrashof,
+  placementFromPivots,
+  HORIZONTAL_FRAME,
+  LINK_LENGTH_BOUNDS
+} from './kinematics.ts';
+import { calculateCouplerPoint, COUPLER_POINT_BOUNDS } from './coupler.ts';
+import { minimizeInUnitCube, solveLinearSystem } from './numeric.ts';
+
+const deg = (rad: number) => (rad * 180) / Math.PI;
+const rad = (degrees: number) => (degrees * Math.PI) / 180;
+const wrap360 = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// Point fixed in the coupler frame (origin at the coupler point, x along the pose angle)
+export const poseToGlobal = (pose: CouplerPose, local: Vector2): Vector2 => {
+  const c = Math.cos(rad(pose.angle));
+  const s = Math.sin(rad(pose.angle));
+  return { x: pose.x + c * local.x - s * local.y, y: pose.y + s * local.x + c * local.y };
+};
+
+// Center of the circle through three points, or null when they are collinear
+const circumcenter = (p: Vector2, q: Vector2, r: Vector2): Vector2 | null => {
+  const det = 2 * (p.x * (q.y - r.y) + q.x * (r.y - p.y) + r.x * (p.y - q.y));
+  const scale = Math.max(Math.hypot(q.x - p.x, q.y - p.y), Math.hypot(r.x - p.x, r.y - p.y));
+  if (Math.abs(det) < 1e-9 * scale * scale) return null;
+
+  const p2 = p.x * p.x + p.y * p.y;
+  const q2 = q.x * q.x + q.y * q.y;
+  const r2 = r.x * r.x + r.y * r.y;
+  return {
+    x: (p2 * (q.y - r.y) + q2 * (r.y - p.y) + r2 * (p.y - q.y)) / det,
+    y: (p2 * (r.x - q.x) + q2 * (p.x - r.x) + r2 * (q.x - p.x)) / det,
+  };
+};
+
+// Two positions leave the center free along the perpendicular bisector
+const bisectorPoint = (p: Vector2, q: Vector2, offset: number): Vector2 | null => {
+  const len = Math.hypot(q.x - p.x, q.y - p.y);
+  if (len < 1e-9) return null;
+  return {
+    x: (p.x + q.x) / 2 - ((q.y - p.y) / len) * offset,
+    y: (p.y + q.y) / 2 + ((q.x - p.x) / len) * offset,
+  };
+};
+
+// Open branch keeps C clockwise of the ray D->B (see AssemblyBranch)
+const branchOf = (B: Vector2, C: Vector2, D: Vector2): AssemblyBranch => {
+  const cross = (B.x - D.x) * (C.y - D.y) - (B.y - D.y) * (C.x - D.x);
+  return cross < 0 ? AssemblyBranch.OPEN : AssemblyBranch.CROSSED;
+};
+
+// Synthesizes a four-bar whose coupler passes through two or three poses.
+// The free choices are where the moving pivots B and C sit on the coupler
+// (in its local frame) and, for two poses, how far along each perpendicular
+// bisector the ground pivots are placed.
+export const synthesizeMotion = (
+  poses: CouplerPose[],
+  movingPivotsLocal: [Vector2, Vector2],
+  bisectorOffsets: [number, number] = [0, 0]
+): MotionSynthesisResult => {
+  const empty: MotionSynthesisResult = {
+    isValid: false, groundPivots: [], movingPivots: [], inputAngles: [], branchDefect: false, orderDefect: false
+  };
+  if (poses.length < 2 || poses.length > 3) {
+    return { ...empty, error: 'Place two or three coupler poses.' };
+  }
+
+  // Each moving pivot's track through the poses; its ground pivot is the
+  // center of the circle it has to move on
+  const tracks = movingPivotsLocal.map(local => poses.map(pose => poseToGlobal(pose, local)));
+  const centers = tracks.map((track, i) => poses.length === 3
+    ? circumcenter(track[0], track[1], track[2])
+    : bisectorPoint(track[0], track[1], bisectorOffsets[i]));
+  const movingPivots = poses.map((_, j) => [tracks[0][j], tracks[1][j]]);
+
+  if (!centers[0] || !centers[1]) {
+    return {
+      ...empty,
+      movingPivots,
+      error: 'A moving pivot does not change position or moves in a straight line; its ground pivot is at infinity.',
+    };
+  }
+
+  const [A, D] = centers as Vector2[];
+  const [B1, C1] = movingPivots[0];
+  const P1 = poses[0];
+
+  const { placement, frameLength } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const lengths = {
+    frame: frameLength,
+    input: Math.hypot(B1.x - A.x, B1.y - A.y),
+    coupler: Math.hypot(C1.x - B1.x, C1.y - B1.y),
+    output: Math.hypot(C1.x - D.x, C1.y - D.y),
+  };
+  if (Object.values(lengths).some(len => len < 1e-6)) {
+    return { ...empty, groundPivots: [A, D], movingPivots, error: 'Two pivots coincide; choose different moving pivots.' };
+  }
+
+  const inputAngles = movingPivots.map(([B]) => deg(Math.atan2(B.y - A.y, B.x - A.x)));
+  const branches = movingPivots.map(([B, C]) => branchOf(B, C, D));
+  const branchDefect = branches.some(b => b !== branches[0]);
+
+  // A driver that only rocks must meet the poses in sequence inside one
+  // reachable interval, without reversing at a toggle position in between
+  let orderDefect = false;
+  const range = calculateReachableRange(lengths, placement.angle);
+  if (!range.fullRotation) {
+    orderDefect = !range.intervals.some(({ start, end }) => {
+      const offsets = inputAngles.map(theta => wrap360(theta - start));
+      if (offsets.some(o => o > end - start + 1e-6)) return false;
+      return offsets.every((o, i) => i === 0 || o >= offsets[i - 1])
+        || offsets.every((o, i) => i === 0 || o <= offsets[i - 1]);
+    });
+  }
+
+  const couplerDirection = Math.atan2(C1.y - B1.y, C1.x - B1.x);
+  const couplerPoint = {
+    distance: Math.hypot(P1.x - B1.x, P1.y - B1.y),
+    angle: deg(Math.atan2(P1.y - B1.y, P1.x - B1.x) - couplerDirection),
+  };
+
+  return {
+    isValid: true,
+    design: { lengths, placement, branch: branches[0], angle: inputAngles[0], couplerPoint },
+    groundPivots: [A, D],
+    movingPivots,
+    inputAngles,
+    branchDefect,
+    orderDefect,
+  };
+};
+
+
+// Chebyshev spacing of n precision points over [start, end]
+export const chebyshevSpacing = (start: number, end: number, n: number = 3): number[] =>
+  Array.from({ length: n }, (_, i) =>
+    (start + end) / 2 - ((end - start) / 2) * Math.cos(((2 * i + 1) * Math.PI) / (2 * n))
+  );
+
+// Three-point function generator from the Freudenstein equation
+//   K1·cosψ − K2·cosφ + K3 = cos(φ − ψ)
+// with K1 = d/a, K2 = d/c and K3 = (a² − b² + c² + d²) / (2ac)
+export const synthesizeFunctionGenerator = (spec: FunctionGeneratorSpec): FunctionGeneratorResult => {
+  const empty: FunctionGeneratorResult = {
+    isValid: false, structuralError: [], maxError: NaN, coversRange: false, branchDefect: false
+  };
+  const { fn, xStart, xEnd, inputStart, inputRange, outputStart, outputRange, frame: d } = spec;
+
+  const yStart = fn(xStart);
+  const yEnd = fn(xEnd);
+  if (!isFinite(yStart) || !isFinite(yEnd) || yStart === yEnd || xStart === xEnd) {
+    return { ...empty, error: 'The function must be finite and change value over the chosen x range.' };
+  }
+
+  const inputAt = (x: number) => inputStart + ((x - xStart) / (xEnd - xStart)) * inputRange;
+  const outputAt = (x: number) => outputStart + ((fn(x) - yStart) / (yEnd - yStart)) * outputRange;
+
+  const phis = spec.precisionPoints.map(x => rad(inputAt(x)));
+  const psis = spec.precisionPoints.map(x => rad(outputAt(x)));
+  if (psis.some(psi => !isFinite(psi))) {
+    return { ...empty, error: 'The function is undefined at a precision point.' };
+  }
+
+  const K = solveLinearSystem(
+    phis.map((phi, i) => [Math.cos(psis[i]), -Math.cos(phi), 1]),
+    phis.map((phi, i) => Math.cos(phi - psis[i]))
+  );
+  if (!K || K[0] === 0 || K[1] === 0) {
+    return { ...empty, error: 'The precision points give a singular system; spread them further apart.' };
+  }
+
+  // A negative length means the link points the other way: flip its angle by 180°
+  const aSigned = d / K[0];
+  const cSigned = d / K[1];
+  const a = Math.abs(aSigned);
+  const c = Math.abs(cSigned);
+  const b2 = aSigned * aSigned + cSigned * cSigned + d * d - 2 * aSigned * cSigned * K[2];
+  if (b2 <= 0) {
+    return { ...empty, error: 'No real coupler length satisfies these precision points.' };
+  }
+  const lengths = { frame: d, input: a, coupler: Math.sqrt(b2), output: c };
+  const inputOffset = aSigned < 0 ? 180 : 0;
+  const outputOffset = cSigned < 0 ? 180 : 0;
+
+  // Achieved output angle on a branch, relative to the (flipped) output reference
+  const achievedOutput = (x: number, branch: AssemblyBranch) => {
+    const j = calculateJoints(lengths, inputAt(x) + inputOffset, branch, HORIZONTAL_FRAME);
+    if (!j.isValid) return NaN;
+    return deg(Math.atan2(j.Cy - j.Dy, j.Cx - j.Dx)) - outputOffset;
+  };
+  const angleError = (x: number, branch: AssemblyBranch) => {
+    const diff = achievedOutput(x, branch) - outputAt(x);
+    return ((((diff + 180) % 360) + 360) % 360) - 180;
+  };
+
+  // Each precision point is met exactly on one of the two branches
+  const pointBranches = spec.precisionPoints.map(x =>
+    Math.abs(angleError(x, AssemblyBranch.OPEN)) < 1e-6 ? AssemblyBranch.OPEN : AssemblyBranch.CROSSED
+  );
+  const branch = pointBranches[0];
+  const branchDefect = pointBranches.some(b => b !== branch);
+
+  const samples = 200;
+  const structuralError = Array.from({ length: samples + 1 }, (_, i) => {
+    const x = xStart + ((xEnd - xStart) * i) / samples;
+    return { x, error: angleError(x, branch) };
+  });
+  const finiteErrors = structuralError.filter(p => isFinite(p.error));
+  const maxError = finiteErrors.reduce((m, p) => Math.max(m, Math.abs(p.error)), 0);
+
+  return {
+    isValid: true,
+    design: { lengths, placement: HORIZONTAL_FRAME, branch, angle: inputAt(xStart) + inputOffset },
+    structuralError,
+    maxError,
+    coversRange: finiteErrors.length === structuralError.length,
+    branchDefect,
+  };
+};
+
+// Coupler curve samples that keep their input angle, one list per reachable interval
+const sampleCouplerPath = (
+  lengths: LinkLengths,
+  branch: AssemblyBranch,
+  point: CouplerPoint,
+  placement: FramePlacement,
+  step: number
+): { theta: number, x: number, y: number }[][] => {
+  const range = calculateReachableRange(lengths, placement.angle);
+  return range.intervals.map(({ start, end }) => {
+    const count = Math.max(2, Math.ceil((end - start) / step) + 1);
+    const samples: { theta: number, x: number, y: number }[] = [];
+    for (let i = 0; i < count; i++) {
+      const theta = start + ((end - start) * i) / (count - 1);
+      const p = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), point);
+      if (isFinite(p.x)) samples.push({ theta, ...p });
+    }
+    return samples;
+  });
+};
+
+// Closest point of the sampled curve to a target, with its interpolated input angle
+const closestOnPath = (
+  path: { theta: number, x: number, y: number }[][],
+  target: Vector2
+): { point: Vector2, theta: number, distance: number } => {
+  let best = { point: { x: NaN, y: NaN }, theta: NaN, distance: Infinity };
+  for (const samples of path) {
+    for (let i = 0; i < samples.length; i++) {
+      const p = samples[i];
+      const q = samples[Math.min(i + 1, samples.length - 1)];
+      const dx = q.x - p.x;
+      const dy = q.y - p.y;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.min(1, Math.max(0, ((target.x - p.x) * dx + (target.y - p.y) * dy) / len2)) : 0;
+      const point = { x: p.x + t * dx, y: p.y + t * dy };
+      const distance = Math.hypot(target.x - point.x, target.y - point.y);
+      if (distance < best.distance) best = { point, theta: p.theta + t * (q.theta - p.theta), distance };
+    }
+  }
+  return best;
+};
+
+// How far the ground pivot A may be placed from the targets' bounding box
+const PIVOT_SEARCH_MARGIN = 300;
+// Stand-in distance for a target the linkage cannot reach at its prescribed angle
+const UNREACHED_DISTANCE = 1000;
+const TYPE_PENALTY = 1e9;
+
+// Fits a coupler curve to target points by searching link lengths, ground
+// placement and coupler point inside the slider ranges
+export const synthesizePath = (spec: PathSynthesisSpec): PathSynthesisResult => {
+  const empty: PathSynthesisResult = { isValid: false, matchedPoints: [], deviations: [], rmsError: NaN, maxError: NaN };
+  const { targets, timing, branch, grashofType } = spec;
+  if (targets.length < 2) {
+    return { ...empty, error: 'Place at least two target points.' };
+  }
+  if (timing && timing.length !== targets.length) {
+    return { ...empty, error: 'Give one input angle per target point.' };
+  }
+
+  const xs = targets.map(p => p.x);
+  const ys = targets.map(p => p.y);
+  const bounds = {
+    ...LINK_LENGTH_BOUNDS,
+    originX: { min: Math.min(...xs) - PIVOT_SEARCH_MARGIN, max: Math.max(...xs) + PIVOT_SEARCH_MARGIN },
+    originY: { min: Math.min(...ys) - PIVOT_SEARCH_MARGIN, max: Math.max(...ys) + PIVOT_SEARCH_MARGIN },
+    frameAngle: { min: -180, max: 180 },
+    ...COUPLER_POINT_BOUNDS,
+    startAngle: { min: 0, max: 360 },
+  };
+  const keys = Object.keys(bounds).filter(key => timing || key !== 'startAngle') as (keyof typeof bounds)[];
+
+  const decode = (u: number[]) => {
+    const v = Object.fromEntries(keys.map((key, i) => [key, bounds[key].min + u[i] * (bounds[key].max - bounds[key].min)]));
+    return {
+      lengths: { frame: v.frame, input: v.input, coupler: v.coupler, output: v.output },
+      placement: { originX: v.originX, originY: v.originY, angle: v.frameAngle },
+      couplerPoint: { distance: v.distance, angle: v.angle },
+      startAngle: v.startAngle ?? 0,
+    };
+  };
+  const encode = (d: NonNullable<PathSynthesisSpec['initial']>) => {
+    const v: Record<string, number> = {
+      ...d.lengths,
+      originX: d.placement.originX,
+      originY: d.placement.originY,
+      frameAngle: d.placement.angle,
+      ...(d.couplerPoint ?? { distance: 0, angle: 0 }),
+      startAngle: wrap360(d.angle),
+    };
+    return keys.map(key => (v[key] - bounds[key].min) / (bounds[key].max - bounds[key].min));
+  };
+
+  const matchesType = (lengths: LinkLengths) => {
+    if (!grashofType) return true;
+    return determineGrashof(lengths).type === grashofType;
+  };
+
+  // Curve point and input angle assigned to every target
+  const match = (candidate: ReturnType<typeof decode>, step: number) => {
+    const { lengths, placement, couplerPoint, startAngle } = candidate;
+    if (timing) {
+      return targets.map((target, i) => {
+        const theta = startAngle + timing[i] - timing[0];
+        const point = calculateCouplerPoint(calculateJoints(lengths, theta, branch, placement), couplerPoint);
+        const distance = isFinite(point.x) ? Math.hypot(target.x - point.x, target.y - point.y) : UNREACHED_DISTANCE;
+        return { point, theta, distance };
+      });
+    }
+    const path = sampleCouplerPath(lengths, branch, couplerPoint, placement, step);
+    return targets.map(target => {
+      const closest = closestOnPath(path, target);
+      return isFinite(closest.distance) ? closest : { ...closest, distance: UNREACHED_DISTANCE };
+    });
+  };
+
+  const cost = (u: number[]) => {
+    const candidate = decode(u);
+    const meanSquare = match(candidate, 4).reduce((sum, m) => sum + m.distance * m.distance, 0) / targets.length;
+    return meanSquare + (matchesType(candidate.lengths) ? 0 : TYPE_PENALTY);
+  };
+
+  const { x } = minimizeInUnitCube(cost, keys.length, {
+    seed: spec.seed,
+    initial: spec.initial ? [encode(spec.initial)] : [],
+    // Prescribed timing is cheap to evaluate but has many local minima
+    restarts: timing ? 4 : 1,
+  });
+  const best = decode(x);
+  if (!matchesType(best.lengths)) {
+    return { ...empty, error: `No ${grashofType} was found within the slider ranges.` };
+  }
+
+  const matches = match(best, 0.5);
+  const deviations = matches.map(m => m.distance);
+  if (deviations.some(d => d >= UNREACHED_DISTANCE)) {
+    return { ...empty, error: 'The best linkage found cannot reach every target point.' };
+  }
+
+  return {
+    isValid: true,
+    design: {
+      lengths: best.lengths,
+      placement: best.placement,
+      branch,
+      angle: matches[0].theta,
+      couplerPoint: best.couplerPoint,
+    },
+    matchedPoints: matches.map(m => m.point),
+    deviations,
+    rmsError: Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / deviations.length),
+    maxError: Math.max(...deviations),
+  };
+};
+
+// Crank-rocker from rocker length, swing angle and time ratio. The rocker
+// pivot D sits at the origin with C1 (crank stretched out) and C2 (crank
+// folded) placed symmetrically above it. A lies on the circle through C1 and
+// C2 that sees their chord under δ; |AC1| = b + a and |AC2| = b − a then give
+// the crank and coupler.
+export const designCrankRocker = (spec: CrankRockerSpec): CrankRockerResult => {
+  const { rocker: c, swingAngle, timeRatio, foldedDistance: s, farSide } = spec;
+  const empty: CrankRockerResult = { isValid: false, points: null, maxFoldedDistance: NaN, transmission: { min: NaN, max: NaN } };
+  if (!(c > 0) || !(swingAngle > 0 && swingAngle < 180) || !(timeRatio >= 1)) {
+    return { ...empty, error: 'Use a positive rocker length, a swing between 0° and 180° and a time ratio of at least 1.' };
+  }
+
+  const delta = rad((180 * (timeRatio - 1)) / (timeRatio + 1));
+  const half = rad(swingAngle / 2);
+  const D = { x: 0, y: 0 };
+  const C1 = { x: -c * Math.sin(half), y: c * Math.cos(half) };
+  const C2 = { x: c * Math.sin(half), y: c * Math.cos(half) };
+  const chord = 2 * c * Math.sin(half);
+
+  // Past this |AC2| the point A crosses the bisector of C1C2 and the two
+  // toggle positions swap roles (the mirror image of a design already covered)
+  const maxFoldedDistance = delta > 0 ? chord / (2 * Math.sin(delta / 2)) : Infinity;
+  if (!(s > 0 && s < maxFoldedDistance)) {
+    return { ...empty, maxFoldedDistance, error: 'The crank pivot must lie between C2 and the bisector of C1C2.' };
+  }
+
+  // Triangle A-C1-C2 with the angle δ at A
+  const stretched = s * Math.cos(delta) + Math.sqrt(chord * chord - s * s * Math.sin(delta) * Math.sin(delta));
+  const along = (s * s - stretched * stretched + chord * chord) / (2 * chord);
+  const across = Math.sqrt(Math.max(0, s * s - along * along));
+  const A = { x: C2.x - along, y: C2.y + (farSide ? across : -across) };
+  const points = { A, D, C1, C2 };
+
+  const lengths = {
+    frame: Math.hypot(A.x - D.x, A.y - D.y),
+    input: (stretched - s) / 2,
+    coupler: (stretched + s) / 2,
+    output: c,
+  };
+
+  const { placement } = placementFromPivots(A.x, A.y, D.x, D.y);
+  const angle = deg(Math.atan2(C1.y - A.y, C1.x - A.x));
+  const open = calculateJoints(lengths, angle, AssemblyBranch.OPEN, placement);
+  const branch = open.isValid && Math.hypot(open.Cx - C1.x, open.Cy - C1.y) < 1e-6 * c
+    ? AssemblyBranch.OPEN
+    : AssemblyBranch.CROSSED;
+  const { min, max } = analyzeTransmissionAngle(lengths, open);
+
+  const strokes = analyzeQuickReturn(lengths);
+  if (!strokes) {
+    return { ...empty, points, maxFoldedDistance, error: `This pivot position gives a ${determineGrashof(lengths).type}, not a crank-rocker.` };
+  }
+  // If the line through D and A crosses the arc C1C2, the rocker turns back
+  // before reaching C1 or C2 and the toggle positions are elsewhere
+  if (Math.abs(strokes.swingAngle - swingAngle) > 1e-6 * swingAngle) {
+    return { ...empty, points, maxFoldedDistance, error: 'From here the rocker reverses between C1 and C2; move the crank pivot.' };
+  }
+
+  return {
+    isValid: true,
+    design: { lengths, placement, branch, angle },
+    points,
+    maxFoldedDistance,
+    transmission: { min, max },
+  };
+};
+
+// Crank pivot position with the smallest deviation of the transmission angle from 90°
+export const bestCrankRockerPivot = (
+  spec: Omit<CrankRockerSpec, 'foldedDistance' | 'farSide'>
+): Pick<CrankRockerSpec, 'foldedDistance' | 'farSide'> | null => {
+  const probe = designCrankRocker({ ...spec, foldedDistance: NaN, farSide: true });
+  // Longer couplers keep improving μ, so stop at a practical proportion
+  const limit = Math.min(probe.maxFoldedDistance, 3 * spec.rocker);
+  if (!isFinite(limit)) return null;
+
+  let best: Pick<CrankRockerSpec, 'foldedDistance' | 'farSide'> | null = null;
+  let bestDeviation = Infinity;
+  const steps = 400;
+  for (const farSide of [true, false]) {
+    for (let i = 1; i < steps; i++) {
+      const foldedDistance = (limit * i) / steps;
+      const result = designCrankRocker({ ...spec, foldedDistance, farSide });
+      if (!result.isValid) continue;
+      const deviation = Math.max(90 - result.transmission.min, result.transmission.max - 90);
+      if (deviation < bestDeviation) {
+        bestDeviation = deviation;
+        best = { foldedDistance, farSide };
+      }
+    }
+  }
+  return best;
+};